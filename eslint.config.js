@@ -1,6 +1,7 @@
 import js from '@eslint/js';
 import ts from '@typescript-eslint/eslint-plugin';
 import parser from '@typescript-eslint/parser';
+import globals from 'globals';
 
 export default [
   js.configs.recommended,
@@ -14,6 +15,7 @@ export default [
         project: './tsconfig.json',
       },
       globals: {
+        ...globals.node,
         describe: 'readonly',
         test: 'readonly',
         expect: 'readonly',
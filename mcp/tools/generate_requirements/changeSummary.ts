@@ -0,0 +1,66 @@
+import { Dependency } from '../get_dependencies/types.js';
+import { Ecosystem } from '../../utils/versioning/types.js';
+import { NpmRange } from '../../utils/versioning/npmRange.js';
+import { Pep440 } from '../../utils/versioning/pep440.js';
+import { PinChange, PinChanges, PinnedRequirement } from './types.js';
+
+/**
+ * Compares generated pins with the dependencies of an existing file
+ */
+export class ChangeSummary {
+  /**
+   * Summarize added, removed and changed pins
+   * @param previous Dependencies declared in the existing file
+   * @param requirements Generated pins
+   * @param ecosystem Ecosystem (decides which names are equal)
+   * @returns Changes, each list sorted by name
+   */
+  static compare(previous: Dependency[], requirements: PinnedRequirement[], ecosystem: Ecosystem): PinChanges {
+    const before = new Map<string, PinChange>();
+    for (const dependency of previous) {
+      const name = NpmRange.packageName(dependency);
+      before.set(this.key(name, ecosystem), { name, from: this.previousPin(dependency) });
+    }
+
+    const changes: PinChanges = { added: [], removed: [], changed: [] };
+    for (const requirement of requirements) {
+      const key = this.key(requirement.name, ecosystem);
+      const to = requirement.version || requirement.sourceUrl || requirement.constraint || '*';
+      const existing = before.get(key);
+      before.delete(key);
+
+      if (!existing) {
+        changes.added.push({ name: requirement.name, to });
+      } else if (existing.from !== to) {
+        changes.changed.push({ name: requirement.name, from: existing.from, to });
+      }
+    }
+    changes.removed.push(...before.values());
+
+    for (const list of Object.values(changes) as PinChange[][]) {
+      list.sort((a, b) => a.name.localeCompare(b.name));
+    }
+    return changes;
+  }
+
+  /**
+   * Pin of an existing dependency, with exact-match operators dropped so
+   * "==1.0", "= 1.0" and "1.0" compare equal
+   * @param dependency Declared dependency
+   * @returns Version, constraint or source
+   */
+  private static previousPin(dependency: Dependency): string {
+    const pin = dependency.versionConstraint || dependency.version || dependency.sourceUrl || '*';
+    return pin.replace(/^={1,3}\s*/, '');
+  }
+
+  /**
+   * Canonical package name (PEP 503 normalized for PyPI)
+   * @param name Package name
+   * @param ecosystem Ecosystem
+   * @returns Key
+   */
+  private static key(name: string, ecosystem: Ecosystem): string {
+    return ecosystem === 'pypi' ? Pep440.normalizeName(name) : name;
+  }
+}
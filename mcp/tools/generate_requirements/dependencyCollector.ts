@@ -0,0 +1,114 @@
+import { Dependency, DependencyExtractionResult } from '../get_dependencies/types.js';
+import { IDependencyExtractor } from '../get_dependencies/extractors/base.js';
+import { PythonExtractor } from '../get_dependencies/extractors/python.js';
+import { NodeJSExtractor } from '../get_dependencies/extractors/nodejs.js';
+import { JavaExtractor } from '../get_dependencies/extractors/java.js';
+import { RubyExtractor } from '../get_dependencies/extractors/ruby.js';
+import { GoExtractor } from '../get_dependencies/extractors/go.js';
+import { RustExtractor } from '../get_dependencies/extractors/rust.js';
+import { PackageJsonParser } from '../get_dependencies/parsers/packageJsonParser.js';
+import { GemfileParser } from '../get_dependencies/parsers/gemfileParser.js';
+import { CargoParser } from '../get_dependencies/parsers/cargoParser.js';
+import { FileUtils } from '../get_dependencies/utils/fileUtils.js';
+import { fileExists } from '../../utils/fileSystem.js';
+
+/**
+ * Dependencies to pin for one project
+ */
+export interface CollectedDependencies {
+  dependencies: Dependency[];   // Runtime dependencies to write out
+  locked: Dependency[];         // Lockfile versions to prefer (not written unless also declared)
+  warnings: string[];
+}
+
+/**
+ * Manifest declaring the direct dependencies of languages whose lockfiles list
+ * the whole install tree; only direct dependencies belong in the generated manifest
+ */
+const DIRECT_MANIFESTS: Record<string, { fileName: string; parse: (filePath: string) => Promise<{ dependencies: Dependency[] }> }> = {
+  javascript: { fileName: 'package.json', parse: filePath => PackageJsonParser.parse(filePath) },
+  ruby: { fileName: 'Gemfile', parse: filePath => GemfileParser.parse(filePath) },
+  rust: { fileName: 'Cargo.toml', parse: filePath => CargoParser.parse(filePath) }
+};
+
+/**
+ * Collects the runtime dependencies of a project for pinning
+ */
+export class DependencyCollector {
+  /**
+   * Collect runtime dependencies and lockfile versions
+   * For Python every locked package is written (requirements.txt pins the whole
+   * environment) except conda packages; for npm, RubyGems and Cargo only the manifest's
+   * direct dependencies are
+   * @param projectPath Path to project directory
+   * @param language Language of the output format
+   * @returns Collected dependencies
+   */
+  static async collect(projectPath: string, language: string): Promise<CollectedDependencies> {
+    const extraction = await this.createExtractor(language).extract(projectPath);
+    const warnings = [...(extraction.errors || []), ...(extraction.warnings || [])];
+    let extracted = this.runtimeDependencies(extraction);
+
+    // Conda packages (cudatoolkit, or conda's own pip) are not on PyPI; pip installs only the pip subsection
+    const conda = language === 'python' ? extracted.filter(dep => dep.group === 'conda') : [];
+    if (conda.length > 0) {
+      extracted = extracted.filter(dep => dep.group !== 'conda');
+      warnings.push(`Conda packages cannot be installed with pip and were not written: ${[...new Set(conda.map(dep => dep.name))].join(', ')}`);
+    }
+
+    const manifest = DIRECT_MANIFESTS[language];
+    if (!manifest) {
+      return { dependencies: extracted, locked: [], warnings };
+    }
+
+    const manifestPath = FileUtils.joinPath(projectPath, manifest.fileName);
+    if (!await fileExists(manifestPath)) {
+      warnings.push(`No ${manifest.fileName} found; pinning every locked package`);
+      return { dependencies: extracted, locked: [], warnings };
+    }
+
+    const declared = (await manifest.parse(manifestPath)).dependencies
+      .map(dep => ({ ...dep, sourceFile: manifest.fileName }));
+    return {
+      dependencies: declared,
+      locked: extracted.filter(dep => dep.version),
+      warnings
+    };
+  }
+
+  /**
+   * Runtime dependencies of an extraction, tagged with the file they came from
+   * @param extraction Extraction result
+   * @returns Dependencies
+   */
+  private static runtimeDependencies(extraction: DependencyExtractionResult): Dependency[] {
+    // Some extractors keep test-scoped dependencies in the main list
+    return extraction.groups.flatMap(group => group.dependencies
+      .filter(dep => dep.type !== 'development')
+      .map(dep => ({ ...dep, sourceFile: dep.sourceFile || group.lockFile?.path })));
+  }
+
+  /**
+   * Create the extractor for a language
+   * @param language Language
+   * @returns Extractor
+   */
+  private static createExtractor(language: string): IDependencyExtractor {
+    switch (language) {
+      case 'python':
+        return new PythonExtractor();
+      case 'javascript':
+        return new NodeJSExtractor();
+      case 'java':
+        return new JavaExtractor();
+      case 'ruby':
+        return new RubyExtractor();
+      case 'go':
+        return new GoExtractor();
+      case 'rust':
+        return new RustExtractor();
+      default:
+        throw new Error(`Unsupported language: ${language}`);
+    }
+  }
+}
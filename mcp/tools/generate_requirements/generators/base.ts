@@ -0,0 +1,85 @@
+import { PinnedRequirement, RequirementsFormat } from '../types.js';
+import { Dependency } from '../../get_dependencies/types.js';
+
+/**
+ * Generator interface for pinned requirement files
+ */
+export interface IRequirementsGenerator {
+  /**
+   * Output format (e.g., "requirements.txt", "Gemfile")
+   */
+  readonly format: RequirementsFormat;
+
+  /**
+   * Language whose dependencies the format pins
+   */
+  readonly language: string;
+
+  /**
+   * Where the file is written when no output path is given (relative to the project)
+   */
+  readonly defaultOutputPath: string;
+
+  /**
+   * Render the file content
+   * @param requirements Pinned requirements, sorted by name
+   * @param projectName Name of the project (for headers and generated coordinates)
+   * @returns File content
+   */
+  render(requirements: PinnedRequirement[], projectName: string): string;
+
+  /**
+   * Read what the format needs from the project besides its dependencies (called before render)
+   * @param projectPath Path to the project directory
+   * @returns Warnings
+   */
+  readProject?(projectPath: string): Promise<string[]>;
+
+  /**
+   * Read the dependencies declared in an existing file of this format (in any group)
+   * @param filePath Path to the file
+   * @returns Declared dependencies
+   */
+  readDependencies(filePath: string): Promise<Dependency[]>;
+}
+
+/**
+ * Base generator with helpers shared by all formats
+ */
+export abstract class BaseRequirementsGenerator implements IRequirementsGenerator {
+  abstract readonly format: RequirementsFormat;
+  abstract readonly language: string;
+  abstract readonly defaultOutputPath: string;
+
+  abstract render(requirements: PinnedRequirement[], projectName: string): string;
+
+  abstract readDependencies(filePath: string): Promise<Dependency[]>;
+
+  /**
+   * Header lines (without comment markers)
+   * @param projectName Name of the project
+   * @returns Header lines
+   */
+  protected headerLines(projectName: string): string[] {
+    return [
+      `Pinned ${this.language} dependencies for ${projectName}, generated by depfinder-mcp`,
+      'The comment on each entry names the file its version came from'
+    ];
+  }
+
+  /**
+   * Describe where a pin came from
+   * @param requirement Pinned requirement
+   * @returns e.g., "from poetry.lock" or "from pyproject.toml, resolved from >=2.0"
+   */
+  protected sourceComment(requirement: PinnedRequirement): string {
+    const source = `from ${requirement.sourceFile || 'project manifest'}`;
+    if (!requirement.version) {
+      return `${source}, not pinned (${requirement.sourceUrl ? 'non-registry source' : 'unresolved'})`;
+    }
+    if (!requirement.locked) {
+      return `${source}, resolved from ${requirement.constraint || 'any version'}`;
+    }
+    return source;
+  }
+}
@@ -0,0 +1,66 @@
+import { BaseRequirementsGenerator } from './base.js';
+import { PinnedRequirement } from '../types.js';
+import { Dependency } from '../../get_dependencies/types.js';
+import { CargoParser } from '../../get_dependencies/parsers/cargoParser.js';
+
+/**
+ * Renders pinned requirements as a Cargo.toml [dependencies] table with "=" requirements
+ */
+export class CargoTomlGenerator extends BaseRequirementsGenerator {
+  readonly format = 'Cargo.toml';
+  readonly language = 'rust';
+  readonly defaultOutputPath = 'pinned/Cargo.toml';
+
+  /**
+   * Render a Cargo.toml
+   * @param requirements Pinned requirements
+   * @param projectName Name of the project (for the header)
+   * @returns File content
+   */
+  render(requirements: PinnedRequirement[], projectName: string): string {
+    const lines = [...this.headerLines(projectName).map(line => `# ${line}`), '', '[dependencies]'];
+
+    for (const requirement of requirements) {
+      lines.push(`${this.dependencyLine(requirement)}  # ${this.sourceComment(requirement)}`);
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Read the dependencies declared in an existing Cargo.toml
+   * @param filePath Path to the file
+   * @returns Declared dependencies
+   */
+  async readDependencies(filePath: string): Promise<Dependency[]> {
+    const result = await CargoParser.parse(filePath);
+    return [...result.dependencies, ...result.devDependencies];
+  }
+
+  /**
+   * Format one dependency (e.g., 'serde = { version = "=1.0.190", features = ["derive"] }')
+   * @param requirement Pinned requirement
+   * @returns Dependency line without comment
+   */
+  private dependencyLine(requirement: PinnedRequirement): string {
+    const fields: string[] = [];
+
+    if (requirement.version) {
+      fields.push(`version = "=${requirement.version}"`);
+    } else if (requirement.sourceUrl) {
+      const isGit = /^(git@|git:|https?:|ssh:)/.test(requirement.sourceUrl);
+      fields.push(`${isGit ? 'git' : 'path'} = "${requirement.sourceUrl}"`);
+    } else if (requirement.constraint) {
+      fields.push(`version = "${requirement.constraint}"`);
+    }
+    if (requirement.extras?.length) {
+      fields.push(`features = [${requirement.extras.map(feature => `"${feature}"`).join(', ')}]`);
+    }
+
+    // A bare version needs no inline table
+    if (fields.length === 1 && fields[0].startsWith('version = ')) {
+      return `${requirement.name} = ${fields[0].slice('version = '.length)}`;
+    }
+    return `${requirement.name} = { ${fields.join(', ')} }`;
+  }
+}
@@ -0,0 +1,65 @@
+import { BaseRequirementsGenerator } from './base.js';
+import { PinnedRequirement } from '../types.js';
+import { Dependency } from '../../get_dependencies/types.js';
+import { GemfileParser } from '../../get_dependencies/parsers/gemfileParser.js';
+
+/**
+ * Renders pinned requirements as a Gemfile with "=" constraints
+ */
+export class GemfileGenerator extends BaseRequirementsGenerator {
+  readonly format = 'Gemfile';
+  readonly language = 'ruby';
+  readonly defaultOutputPath = 'pinned/Gemfile';
+
+  /**
+   * Render a Gemfile
+   * @param requirements Pinned requirements
+   * @param projectName Name of the project (for the header)
+   * @returns File content
+   */
+  render(requirements: PinnedRequirement[], projectName: string): string {
+    const lines = [
+      ...this.headerLines(projectName).map(line => `# ${line}`),
+      '',
+      'source "https://rubygems.org"',
+      ''
+    ];
+
+    for (const requirement of requirements) {
+      lines.push(`${this.gemLine(requirement)}  # ${this.sourceComment(requirement)}`);
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Read the dependencies declared in an existing Gemfile
+   * @param filePath Path to the file
+   * @returns Declared dependencies
+   */
+  async readDependencies(filePath: string): Promise<Dependency[]> {
+    const result = await GemfileParser.parse(filePath);
+    return [...result.dependencies, ...result.devDependencies];
+  }
+
+  /**
+   * Format one gem declaration (e.g., 'gem "rails", "= 7.0.8"')
+   * @param requirement Pinned requirement
+   * @returns Gem line without comment
+   */
+  private gemLine(requirement: PinnedRequirement): string {
+    const parts = [`gem "${requirement.name}"`];
+
+    if (requirement.version) {
+      parts.push(`"= ${requirement.version}"`);
+    } else if (requirement.sourceUrl) {
+      // Gemfile sources are either git repositories or local paths
+      const isGit = /^(git@|git:|https?:|ssh:)/.test(requirement.sourceUrl) || requirement.sourceUrl.endsWith('.git');
+      parts.push(`${isGit ? 'git' : 'path'}: "${requirement.sourceUrl}"`);
+    } else if (requirement.constraint) {
+      parts.push(...requirement.constraint.split(',').map(c => `"${c.trim()}"`));
+    }
+
+    return parts.join(', ');
+  }
+}
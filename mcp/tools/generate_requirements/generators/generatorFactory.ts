@@ -0,0 +1,44 @@
+import { IRequirementsGenerator } from './base.js';
+import { RequirementsTxtGenerator } from './requirementsTxtGenerator.js';
+import { PackageJsonGenerator } from './packageJsonGenerator.js';
+import { GemfileGenerator } from './gemfileGenerator.js';
+import { CargoTomlGenerator } from './cargoTomlGenerator.js';
+import { PomGenerator } from './pomGenerator.js';
+import { GoModGenerator } from './goModGenerator.js';
+import { RequirementsFormat } from '../types.js';
+
+/**
+ * Supported output formats
+ */
+export const REQUIREMENTS_FORMATS: RequirementsFormat[] = [
+  'requirements.txt',
+  'package.json',
+  'Gemfile',
+  'Cargo.toml',
+  'pom.xml',
+  'go.mod'
+];
+
+/**
+ * Create the generator for an output format
+ * @param format Output format
+ * @returns Generator
+ */
+export function createGenerator(format: RequirementsFormat): IRequirementsGenerator {
+  switch (format) {
+    case 'requirements.txt':
+      return new RequirementsTxtGenerator();
+    case 'package.json':
+      return new PackageJsonGenerator();
+    case 'Gemfile':
+      return new GemfileGenerator();
+    case 'Cargo.toml':
+      return new CargoTomlGenerator();
+    case 'pom.xml':
+      return new PomGenerator();
+    case 'go.mod':
+      return new GoModGenerator();
+    default:
+      throw new Error(`Unsupported requirements format: ${format}. Supported formats: ${REQUIREMENTS_FORMATS.join(', ')}`);
+  }
+}
@@ -0,0 +1,73 @@
+import * as path from 'path';
+import { BaseRequirementsGenerator } from './base.js';
+import { PinnedRequirement } from '../types.js';
+import { Dependency, GoModFile } from '../../get_dependencies/types.js';
+import { GomodParser } from '../../get_dependencies/parsers/gomodParser.js';
+import { fileExists, readTextFile } from '../../../utils/fileSystem.js';
+
+/**
+ * Renders pinned requirements as a go.mod require block
+ */
+export class GoModGenerator extends BaseRequirementsGenerator {
+  readonly format = 'go.mod';
+  readonly language = 'go';
+  readonly defaultOutputPath = 'pinned/go.mod';
+
+  /**
+   * Module path and go directive of the project's go.mod
+   */
+  private modFile?: GoModFile;
+
+  /**
+   * Read the module path and Go version from the project's go.mod
+   * @param projectPath Path to the project directory
+   * @returns A warning when there is no go.mod and the folder name becomes the module path
+   */
+  async readProject(projectPath: string): Promise<string[]> {
+    const modPath = path.join(projectPath, 'go.mod');
+    if (!(await fileExists(modPath))) {
+      return [`No go.mod in ${projectPath}; the module path is the folder name "${path.basename(projectPath)}"`];
+    }
+    this.modFile = GomodParser.parseModFile(await readTextFile(modPath));
+    return [];
+  }
+
+  /**
+   * Render a go.mod
+   * The module path and go directive come from the project's go.mod (the project name is
+   * the module path without one). Modules without a version (replaced by local paths) are
+   * listed as comments
+   * @param requirements Pinned requirements
+   * @param projectName Name of the project
+   * @returns File content
+   */
+  render(requirements: PinnedRequirement[], projectName: string): string {
+    const lines = [
+      ...this.headerLines(projectName).map(line => `// ${line}`),
+      '',
+      `module ${this.modFile?.module ?? projectName}`,
+      '',
+      ...(this.modFile?.go ? [`go ${this.modFile.go}`, ''] : []),
+      'require ('
+    ];
+
+    for (const requirement of requirements) {
+      const version = requirement.version || requirement.constraint;
+      lines.push(version
+        ? `\t${requirement.name} ${version} // ${this.sourceComment(requirement)}`
+        : `\t// ${requirement.name}: ${this.sourceComment(requirement)}`);
+    }
+
+    lines.push(')');
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Read the dependencies declared in an existing go.mod
+   * @param filePath Path to the file
+   * @returns Declared dependencies
+   */
+  async readDependencies(filePath: string): Promise<Dependency[]> {
+    return GomodParser.parseContent(await readTextFile(filePath));
+  }
+}
@@ -0,0 +1,55 @@
+import { BaseRequirementsGenerator } from './base.js';
+import { PinnedRequirement } from '../types.js';
+import { Dependency } from '../../get_dependencies/types.js';
+import { PackageJsonParser } from '../../get_dependencies/parsers/packageJsonParser.js';
+
+/**
+ * Renders pinned requirements as a package.json with exact versions
+ * JSON has no comments, so source files are listed under a "depfinder" key
+ */
+export class PackageJsonGenerator extends BaseRequirementsGenerator {
+  readonly format = 'package.json';
+  readonly language = 'javascript';
+  readonly defaultOutputPath = 'pinned/package.json';
+
+  /**
+   * Render a package.json
+   * @param requirements Pinned requirements
+   * @param projectName Name of the project (used as package name)
+   * @returns File content
+   */
+  render(requirements: PinnedRequirement[], projectName: string): string {
+    const dependencies: Record<string, string> = {};
+    const sources: Record<string, string> = {};
+
+    for (const requirement of requirements) {
+      dependencies[requirement.name] = requirement.version || requirement.sourceUrl || requirement.constraint || '*';
+      sources[requirement.name] = this.sourceComment(requirement);
+    }
+
+    const manifest = {
+      name: projectName.toLowerCase().replace(/[^a-z0-9._~-]+/g, '-'),
+      private: true,
+      description: this.headerLines(projectName)[0],
+      dependencies,
+      depfinder: { sources }
+    };
+
+    return JSON.stringify(manifest, null, 2) + '\n';
+  }
+
+  /**
+   * Read the dependencies declared in an existing package.json
+   * @param filePath Path to the file
+   * @returns Declared dependencies
+   */
+  async readDependencies(filePath: string): Promise<Dependency[]> {
+    const result = await PackageJsonParser.parse(filePath);
+    return [
+      ...result.dependencies,
+      ...result.devDependencies,
+      ...result.peerDependencies,
+      ...result.optionalDependencies
+    ];
+  }
+}
@@ -0,0 +1,84 @@
+import { BaseRequirementsGenerator } from './base.js';
+import { PinnedRequirement } from '../types.js';
+import { Dependency } from '../../get_dependencies/types.js';
+import { PomParser } from '../../get_dependencies/parsers/pomParser.js';
+import { readTextFile } from '../../../utils/fileSystem.js';
+
+/**
+ * Renders pinned requirements as a Maven BOM: a pom.xml whose dependencyManagement
+ * block fixes every version (import it with <scope>import</scope> or copy the block)
+ */
+export class PomGenerator extends BaseRequirementsGenerator {
+  readonly format = 'pom.xml';
+  readonly language = 'java';
+  readonly defaultOutputPath = 'pinned/pom.xml';
+
+  /**
+   * Render a pom.xml
+   * @param requirements Pinned requirements (named groupId:artifactId)
+   * @param projectName Name of the project (used for the BOM's artifactId)
+   * @returns File content
+   */
+  render(requirements: PinnedRequirement[], projectName: string): string {
+    const artifactId = `${projectName.replace(/[^A-Za-z0-9_.-]+/g, '-')}-pinned`;
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      ...this.headerLines(projectName).map(line => `<!-- ${this.escape(line)} -->`),
+      '<project xmlns="http://maven.apache.org/POM/4.0.0"',
+      '         xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+      '         xsi:schemaLocation="http://maven.apache.org/POM/4.0.0 http://maven.apache.org/xsd/maven-4.0.0.xsd">',
+      '  <modelVersion>4.0.0</modelVersion>',
+      '  <groupId>depfinder.pinned</groupId>',
+      `  <artifactId>${this.escape(artifactId)}</artifactId>`,
+      '  <version>1.0.0</version>',
+      '  <packaging>pom</packaging>',
+      '',
+      '  <dependencyManagement>',
+      '    <dependencies>'
+    ];
+
+    for (const requirement of requirements) {
+      lines.push(...this.dependencyLines(requirement));
+    }
+
+    lines.push('    </dependencies>', '  </dependencyManagement>', '</project>');
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Read the dependencies declared in an existing pom.xml (its first <dependencies> block)
+   * @param filePath Path to the file
+   * @returns Declared dependencies
+   */
+  async readDependencies(filePath: string): Promise<Dependency[]> {
+    return PomParser.parseContent(await readTextFile(filePath));
+  }
+
+  /**
+   * Format one <dependency> element
+   * @param requirement Pinned requirement
+   * @returns XML lines
+   */
+  private dependencyLines(requirement: PinnedRequirement): string[] {
+    const [groupId, artifactId = groupId] = requirement.name.split(':');
+    const version = requirement.version || requirement.constraint;
+
+    return [
+      `      <!-- ${this.escape(this.sourceComment(requirement))} -->`,
+      '      <dependency>',
+      `        <groupId>${this.escape(groupId)}</groupId>`,
+      `        <artifactId>${this.escape(artifactId)}</artifactId>`,
+      ...(version ? [`        <version>${this.escape(version)}</version>`] : []),
+      '      </dependency>'
+    ];
+  }
+
+  /**
+   * Escape text for XML content and comments
+   * @param text Text
+   * @returns Escaped text
+   */
+  private escape(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/--/g, '- -');
+  }
+}
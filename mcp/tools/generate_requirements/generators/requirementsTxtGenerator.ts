@@ -0,0 +1,66 @@
+import { BaseRequirementsGenerator } from './base.js';
+import { PinnedRequirement } from '../types.js';
+import { Dependency } from '../../get_dependencies/types.js';
+import { RequirementsParser } from '../../get_dependencies/parsers/requirementsParser.js';
+import { readTextFile } from '../../../utils/fileSystem.js';
+
+/**
+ * Renders pinned requirements as a pip requirements.txt
+ */
+export class RequirementsTxtGenerator extends BaseRequirementsGenerator {
+  readonly format = 'requirements.txt';
+  readonly language = 'python';
+  readonly defaultOutputPath = 'requirements.txt';
+
+  /**
+   * Render a requirements.txt
+   * Each line keeps extras and environment markers and ends with a comment naming its source file.
+   * Hashed pins continue with one --hash option per line, and the comment follows them
+   * @param requirements Pinned requirements
+   * @param projectName Name of the project (for the header)
+   * @returns File content
+   */
+  render(requirements: PinnedRequirement[], projectName: string): string {
+    const lines = [...this.headerLines(projectName).map(line => `# ${line}`), ''];
+
+    for (const requirement of requirements) {
+      const hashes = requirement.hashes || [];
+      if (hashes.length > 0) {
+        lines.push(
+          `${this.requirementLine(requirement)} \\`,
+          ...hashes.map((hash, i) => `    --hash=${hash}${i < hashes.length - 1 ? ' \\' : ''}`),
+          `    # ${this.sourceComment(requirement)}`
+        );
+      } else {
+        lines.push(`${this.requirementLine(requirement)}  # ${this.sourceComment(requirement)}`);
+      }
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Read the dependencies declared in an existing requirements.txt
+   * @param filePath Path to the file
+   * @returns Declared dependencies
+   */
+  async readDependencies(filePath: string): Promise<Dependency[]> {
+    return RequirementsParser.parse(await readTextFile(filePath));
+  }
+
+  /**
+   * Format one requirement (e.g., 'requests[socks]==2.31.0 ; python_version >= "3.8"')
+   * @param requirement Pinned requirement
+   * @returns Requirement line without comment
+   */
+  private requirementLine(requirement: PinnedRequirement): string {
+    if (requirement.sourceUrl) {
+      return requirement.sourceUrl;
+    }
+
+    const extras = requirement.extras?.length ? `[${requirement.extras.join(',')}]` : '';
+    const specifier = requirement.version ? `==${requirement.version}` : (requirement.constraint || '').replace(/\s+/g, '').replace(/^\*$/, '');
+    const markers = requirement.markers ? ` ; ${requirement.markers}` : '';
+    return `${requirement.name}${extras}${specifier}${markers}`;
+  }
+}
@@ -1,30 +1,110 @@
+import * as path from 'path';
+import { DependencyCollector } from './dependencyCollector.js';
+import { PinResolver } from './pinResolver.js';
+import { createGenerator } from './generators/generatorFactory.js';
+import { ChangeSummary } from './changeSummary.js';
+import { Dependency } from '../get_dependencies/types.js';
+import { GenerateRequirementsOptions, RequirementsGenerationResult } from './types.js';
+import { ensureDirectoryExists, fileExists, readTextFile, writeTextFile } from '../../utils/fileSystem.js';
+import { DiffUtils } from '../../utils/diffUtils.js';
+import { resolveEcosystem } from '../../utils/versioning/ecosystems.js';
+
 /**
  * Main entry point for generate_requirements tool
- * Generates a requirements file with compatible dependencies
+ * Generates a pinned requirements file in the native format of an ecosystem
+ * The result includes a unified diff and a pin summary against the existing file;
+ * in dry-run mode nothing is written, so the caller can review before running again
  * @param projectPath Path to the project directory
- * @param outputPath Path where to save the requirements file (optional)
+ * @param outputPath Path where to save the requirements file (optional, relative to the project)
+ * @param options Generation options (output format, registry options used to resolve unlocked dependencies)
  * @returns MCP tool response with generation result
  */
 export async function generateRequirements(
   projectPath: string,
-  outputPath?: string
+  outputPath?: string,
+  options: GenerateRequirementsOptions = {}
 ): Promise<{
   content: Array<{
     type: 'text';
     text: string;
   }>;
 }> {
-  // TODO: Implement requirements generation
+  const format = options.format || 'requirements.txt';
+  let language = 'unknown';
+  let result: RequirementsGenerationResult;
+
+  try {
+    const generator = createGenerator(format);
+    language = generator.language;
+
+    const collected = await DependencyCollector.collect(projectPath, language);
+    const warnings = [...collected.warnings];
+
+    if (collected.dependencies.length === 0) {
+      throw new Error(`No ${language} dependencies found in ${projectPath}`);
+    }
+
+    // pip is the only installer here that checks hashes given in the requirements file
+    const includeHashes = options.hashes === true && format === 'requirements.txt';
+    if (options.hashes && !includeHashes) {
+      warnings.push(`Hashes are only written to requirements.txt, not ${format}`);
+    }
+
+    const pinned = await new PinResolver(language, options.registryOptions, includeHashes).pin(collected.dependencies, collected.locked);
+    warnings.push(...pinned.warnings);
+
+    const root = path.resolve(projectPath);
+    const target = path.resolve(root, outputPath || generator.defaultOutputPath);
+    warnings.push(...(await generator.readProject?.(root) ?? []));
+    const content = generator.render(pinned.requirements, path.basename(root));
+
+    // Compare with the file that would be replaced
+    const exists = await fileExists(target);
+    const existing = exists ? await readTextFile(target) : '';
+    let previous: Dependency[] = [];
+    try {
+      previous = exists ? await generator.readDependencies(target) : [];
+    } catch (error) {
+      warnings.push(`Could not read the pins in ${target}: ${error instanceof Error ? error.message : error}`);
+    }
+    const label = path.relative(root, target).split(path.sep).join('/');
+    const diff = DiffUtils.unifiedDiff(existing, content, exists ? `a/${label}` : '/dev/null', `b/${label}`);
+
+    if (!options.dryRun) {
+      await ensureDirectoryExists(path.dirname(target));
+      await writeTextFile(target, content);
+    }
+
+    result = {
+      success: true,
+      language,
+      format,
+      outputPath: target,
+      dryRun: !!options.dryRun,
+      written: !options.dryRun,
+      ...(options.dryRun && { content }),
+      diff,
+      changes: ChangeSummary.compare(previous, pinned.requirements, resolveEcosystem(language)!),
+      requirements: pinned.requirements,
+      ...(warnings.length > 0 && { warnings })
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    result = {
+      success: false,
+      language,
+      format,
+      requirements: [],
+      errors: [errorMessage]
+    };
+  }
+
   return {
     content: [
       {
         type: 'text',
-        text: JSON.stringify({ 
-          success: false,
-          message: 'Requirements generation not yet implemented' 
-        }, null, 2),
+        text: JSON.stringify(result, null, 2),
       },
     ],
   };
 }
-
@@ -0,0 +1,220 @@
+import { Dependency } from '../get_dependencies/types.js';
+import { IRegistryClient } from '../search_compatible_versions/registry/base.js';
+import { createRegistryClient } from '../search_compatible_versions/registry/registryFactory.js';
+import { PackageVersion, RegistryClientOptions } from '../search_compatible_versions/types.js';
+import { getVersionScheme } from '../../utils/versioning/schemeRegistry.js';
+import { NpmRange } from '../../utils/versioning/npmRange.js';
+import { Pep440 } from '../../utils/versioning/pep440.js';
+import { RangeUtils } from '../../utils/versioning/rangeUtils.js';
+import { VersionRange, VersionScheme } from '../../utils/versioning/types.js';
+import { PinnedRequirement } from './types.js';
+
+/**
+ * Turns extracted dependencies into exact pins
+ * Locked or exactly pinned versions are kept; other constraints are resolved
+ * to the newest matching release in the registry. With hashes enabled, each pin also
+ * gets the hashes of its distribution files, from the lockfile or the registry
+ */
+export class PinResolver {
+  private scheme: VersionScheme;
+  private language: string;
+  private registryOptions: RegistryClientOptions;
+  private includeHashes: boolean;
+  private client: IRegistryClient | null = null;
+  private compare = (a: string, b: string): number => this.scheme.compare(a, b);
+
+  constructor(language: string, registryOptions: RegistryClientOptions = {}, includeHashes: boolean = false) {
+    this.language = language;
+    this.scheme = getVersionScheme(language);
+    this.registryOptions = registryOptions;
+    this.includeHashes = includeHashes;
+  }
+
+  /**
+   * Pin a list of dependencies (entries for the same package are merged)
+   * Packages that cannot be resolved are kept with their constraint and reported
+   * @param dependencies Extracted dependencies
+   * @param locked Lockfile entries whose versions take precedence (only for packages in dependencies)
+   * @returns Pinned requirements sorted by name, and warnings for anything left unpinned
+   */
+  async pin(dependencies: Dependency[], locked: Dependency[] = []): Promise<{ requirements: PinnedRequirement[]; warnings: string[] }> {
+    const requirements: PinnedRequirement[] = [];
+    const warnings: string[] = [];
+    const lockedByPackage = this.groupByPackage(locked);
+
+    for (const [key, entries] of this.groupByPackage(dependencies)) {
+      const requirement = await this.pinPackage([...(lockedByPackage.get(key) || []), ...entries], warnings);
+      if (this.includeHashes) {
+        await this.addHashes(requirement, warnings);
+      }
+      requirements.push(requirement);
+    }
+
+    requirements.sort((a, b) => this.key(a.name).localeCompare(this.key(b.name)));
+
+    // pip's hash-checking mode rejects the whole file if any requirement has no hash
+    const unhashed = requirements.filter(requirement => !requirement.hashes).map(requirement => requirement.name);
+    if (this.includeHashes && unhashed.length > 0) {
+      warnings.push(`pip --require-hashes will reject this file: no hashes for ${unhashed.join(', ')}`);
+    }
+
+    return { requirements, warnings };
+  }
+
+  /**
+   * Pin one package from all entries declaring it
+   * @param entries Dependencies naming the same package
+   * @param warnings Collected warnings
+   * @returns Pinned requirement (without version if it could not be resolved)
+   */
+  private async pinPackage(entries: Dependency[], warnings: string[]): Promise<PinnedRequirement> {
+    // A declared git/path source wins over any registry version
+    const nonRegistry = entries.find(dep => dep.source && dep.source !== 'registry');
+    const locked = nonRegistry ? undefined : entries.find(dep => dep.version && !dep.version.includes('*'));
+    const chosen = nonRegistry || locked || entries[0];
+    const extras = [...new Set(entries.flatMap(dep => dep.extras || []))];
+    const markers = chosen.markers || entries.find(dep => dep.markers)?.markers;
+
+    const name = NpmRange.packageName(chosen);
+    const base: PinnedRequirement = {
+      name,
+      locked: !!locked,
+      ...(extras.length > 0 && { extras }),
+      ...(markers && { markers }),
+      ...(chosen.sourceFile && { sourceFile: chosen.sourceFile })
+    };
+
+    if (nonRegistry) {
+      return { ...base, ...(nonRegistry.sourceUrl && { sourceUrl: nonRegistry.sourceUrl }) };
+    }
+    if (locked) {
+      return { ...base, version: locked.version, ...this.pipHashes(locked.hashes) };
+    }
+
+    const constraints = entries.map(dep => dep.versionConstraint).filter((c): c is string => !!c);
+    const unresolved = { ...base, ...(constraints.length > 0 && { constraint: constraints.join(', ') }) };
+    try {
+      const range = RangeUtils.intersectAll(constraints.map(c => this.scheme.parseConstraint(c)), this.compare);
+      const resolved = await this.resolveVersion(name, range, constraints);
+      return {
+        ...unresolved,
+        version: resolved.version,
+        ...this.pipHashes(resolved.hashes)
+      };
+    } catch (error) {
+      warnings.push(`Could not pin ${name}: ${error instanceof Error ? error.message : error}`);
+      return unresolved;
+    }
+  }
+
+  /**
+   * Add registry hashes to a pin the lockfile had none for, or warn that it cannot be hashed
+   * @param requirement Pinned requirement (updated in place)
+   * @param warnings Collected warnings
+   */
+  private async addHashes(requirement: PinnedRequirement, warnings: string[]): Promise<void> {
+    if (requirement.hashes) return;
+    if (!requirement.version) {
+      warnings.push(`Cannot hash ${requirement.name}: it is not pinned to a registry version`);
+      return;
+    }
+
+    try {
+      const published = (await this.getClient().listVersions(requirement.name))
+        .find(entry => entry.version === requirement.version);
+      const { hashes } = this.pipHashes(published?.hashes);
+      if (hashes) {
+        requirement.hashes = hashes;
+        return;
+      }
+      warnings.push(`Cannot hash ${requirement.name}==${requirement.version}: no hashes in the lockfile or registry`);
+    } catch (error) {
+      warnings.push(`Cannot hash ${requirement.name}==${requirement.version}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Hashes pip can check (sha256, sha384 or sha512), when hashes are enabled
+   * @param hashes Lockfile or registry hashes ("algorithm:value")
+   * @returns The usable hashes, or nothing if there are none
+   */
+  private pipHashes(hashes: string[] = []): Pick<PinnedRequirement, 'hashes'> {
+    const usable = hashes.filter(hash => /^sha(256|384|512):/.test(hash));
+    return this.includeHashes && usable.length > 0 ? { hashes: usable } : {};
+  }
+
+  /**
+   * Find the newest published version in a range, preferring releases over prereleases
+   * @param name Package name
+   * @param range Allowed versions
+   * @param constraints Constraints the range came from (for error messages)
+   * @returns Published version
+   */
+  private async resolveVersion(name: string, range: VersionRange, constraints: string[]): Promise<PackageVersion> {
+    const published = await this.getClient().listVersions(name);
+
+    const matching = published
+      .filter(entry => !entry.yanked && this.scheme.isValid(entry.version))
+      .filter(entry => RangeUtils.contains(range, entry.version, this.compare))
+      .filter(entry => this.matchesExactly(entry.version, constraints));
+    const releases = matching.filter(entry => !this.scheme.isPrerelease(entry.version));
+    const candidates = releases.length > 0 ? releases : matching;
+
+    if (candidates.length === 0) {
+      throw new Error(`no published version matches ${constraints.join(', ') || '*'}`);
+    }
+    return candidates.reduce((best, entry) => (this.compare(entry.version, best.version) > 0 ? entry : best));
+  }
+
+  /**
+   * Apply the PEP 440 rules a range cannot express (e.g., ">1.7" excludes 1.7.post1);
+   * other ecosystems are fully described by the range
+   * @param version Candidate version
+   * @param constraints Constraints on the package
+   * @returns True if every constraint allows the version
+   */
+  private matchesExactly(version: string, constraints: string[]): boolean {
+    if (this.scheme.ecosystem !== 'pypi') return true;
+    return constraints.every(constraint => {
+      try {
+        return Pep440.contains(constraint, version, true);
+      } catch {
+        return true;   // Not a plain specifier set (e.g., "*"); the range already decided
+      }
+    });
+  }
+
+  /**
+   * Get (or create) the registry client
+   * @returns Registry client
+   */
+  private getClient(): IRegistryClient {
+    if (!this.client) {
+      this.client = createRegistryClient(this.language, this.registryOptions);
+    }
+    return this.client;
+  }
+
+  /**
+   * Group dependencies by package
+   * @param dependencies Dependencies
+   * @returns Entries per package key, in first-seen order
+   */
+  private groupByPackage(dependencies: Dependency[]): Map<string, Dependency[]> {
+    const groups = new Map<string, Dependency[]>();
+    for (const dependency of dependencies) {
+      const key = this.key(NpmRange.packageName(dependency));
+      groups.set(key, [...(groups.get(key) || []), dependency]);
+    }
+    return groups;
+  }
+
+  /**
+   * Canonical package name (PEP 503 normalized for PyPI)
+   * @param name Package name
+   * @returns Key
+   */
+  private key(name: string): string {
+    return this.scheme.ecosystem === 'pypi' ? Pep440.normalizeName(name) : name;
+  }
+}
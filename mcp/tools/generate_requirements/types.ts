@@ -0,0 +1,68 @@
+/**
+ * Type definitions for generate_requirements tool
+ */
+
+import { RegistryClientOptions } from '../search_compatible_versions/types.js';
+
+/**
+ * Output formats, each the native pinned artifact of one ecosystem
+ */
+export type RequirementsFormat = 'requirements.txt' | 'package.json' | 'Gemfile' | 'Cargo.toml' | 'pom.xml' | 'go.mod';
+
+/**
+ * Options for generating a requirements file
+ */
+export interface GenerateRequirementsOptions {
+  format?: RequirementsFormat;              // Defaults to requirements.txt
+  dryRun?: boolean;                         // Return the content and diff without writing
+  hashes?: boolean;                         // Add --hash entries (requirements.txt only)
+  registryOptions?: RegistryClientOptions;  // Used to resolve dependencies that are not locked
+}
+
+/**
+ * A dependency with the exact version to install
+ */
+export interface PinnedRequirement {
+  name: string;
+  version?: string;        // Undefined for git/path/URL requirements
+  constraint?: string;     // Declared constraint the version was resolved from
+  locked: boolean;         // True if the version came from a lockfile or exact pin
+  extras?: string[];
+  markers?: string;
+  sourceFile?: string;     // Manifest or lockfile the pin came from
+  sourceUrl?: string;      // For git/path/URL requirements
+  hashes?: string[];       // "<algorithm>:<digest>" of each distribution file
+}
+
+/**
+ * Change to one package's pin compared with the existing output file
+ */
+export interface PinChange {
+  name: string;
+  from?: string;   // Version (or constraint/source) in the existing file
+  to?: string;     // Version (or constraint/source) in the generated file
+}
+
+/**
+ * Pins added, removed and changed compared with the existing output file
+ */
+export interface PinChanges {
+  added: PinChange[];
+  removed: PinChange[];
+  changed: PinChange[];
+}
+
+export interface RequirementsGenerationResult {
+  success: boolean;
+  language: string;
+  format: string;
+  outputPath?: string;
+  dryRun?: boolean;
+  written?: boolean;
+  content?: string;        // Proposed file content (dry runs only)
+  diff?: string;           // Unified diff against the existing file
+  changes?: PinChanges;
+  requirements: PinnedRequirement[];
+  warnings?: string[];
+  errors?: string[];
+}
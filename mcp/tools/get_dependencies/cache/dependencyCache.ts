@@ -59,6 +59,11 @@ export class DependencyCache {
         'Pipfile',
         'Pipfile.lock',
         'poetry.lock',
+        'uv.lock',
+        'pdm.lock',
+        'hatch.toml',
+        'environment.yml',
+        'conda-lock.yml',
         'Gemfile',
         'Gemfile.lock',
         'go.mod',
@@ -2,11 +2,15 @@
  * Go dependency extractor
  */
 
+import * as os from 'os';
+import * as path from 'path';
 import { BaseDependencyExtractor } from './base.js';
-import { Dependency, DependencyExtractionResult } from '../types.js';
+import { Dependency, DependencyExtractionResult, GoBuildList } from '../types.js';
 import { FileUtils } from '../utils/fileUtils.js';
 import { GomodParser } from '../parsers/gomodParser.js';
+import { GoModuleResolver } from '../utils/goModuleResolver.js';
 import { fileExists } from '../../../utils/fileSystem.js';
+import { GoVersion } from '../../../utils/versioning/goVersion.js';
 
 /**
  * Extract Go dependencies
@@ -29,7 +33,13 @@ export class GoExtractor extends BaseDependencyExtractor {
     const gomodPath = FileUtils.joinPath(projectPath, 'go.mod');
     if (await fileExists(gomodPath)) {
       try {
-        dependencies = await GomodParser.parse(gomodPath);
+        const content = await FileUtils.safeReadFile(gomodPath) ?? '';
+        dependencies = GomodParser.parseContent(content);
+        warnings.push(...this.checkVersions(dependencies));
+
+        // Select versions as the go command does, from the go.mod files available offline
+        const modFiles = await GoModuleResolver.readModFiles(projectPath, content, this.moduleCache());
+        warnings.push(...this.applyBuildList(dependencies, GoModuleResolver.resolve(content, modFiles)));
       } catch (error) {
         errors.push(`Failed to parse go.mod: ${error}`);
       }
@@ -55,5 +65,63 @@ export class GoExtractor extends BaseDependencyExtractor {
 
     return this.createResult([group], errors.length > 0 ? errors : undefined, warnings.length > 0 ? warnings : undefined);
   }
+
+  /**
+   * Report the versions minimal version selection picks
+   * A required module the build list raises gets the selected version (the go.mod version
+   * stays its constraint); modules only other go.mod files require are added as transitive
+   * dependencies. Replaced modules are left as go.mod declares them
+   * @param dependencies Dependencies from go.mod (updated in place)
+   * @param buildList Build list of the main module
+   * @returns Warnings for requirements the build list raises
+   */
+  private applyBuildList(dependencies: Dependency[], buildList: GoBuildList): string[] {
+    const warnings: string[] = [];
+    for (const module of buildList.modules) {
+      if (module.replace) continue;
+
+      const dep = dependencies.find(d => d.name === module.path && d.source === 'registry');
+      if (!dep) {
+        dependencies.push({
+          name: module.path,
+          version: module.version,
+          versionConstraint: module.version,
+          type: 'runtime',
+          source: 'registry',
+          direct: false
+        });
+      } else if (dep.version && dep.version !== module.version) {
+        warnings.push(`go.mod requires ${module.path} ${dep.version}, but the build list selects ${module.version}`);
+        dep.version = module.version;
+      }
+    }
+    return warnings;
+  }
+
+  /**
+   * Module cache directory: GOMODCACHE, or pkg/mod in the first GOPATH entry (~/go by default)
+   */
+  private moduleCache(): string {
+    const gopath = process.env.GOPATH?.split(path.delimiter)[0] || path.join(os.homedir(), 'go');
+    return process.env.GOMODCACHE || path.join(gopath, 'pkg', 'mod');
+  }
+
+  /**
+   * Check required versions against their module paths, which the go command rejects
+   * when they disagree (e.g., v2.1.0 required for a path without /v2 or +incompatible)
+   * @param dependencies Dependencies to check
+   * @returns Warnings for invalid versions
+   */
+  private checkVersions(dependencies: Dependency[]): string[] {
+    const warnings: string[] = [];
+    for (const dep of dependencies) {
+      if (dep.source !== 'registry' || !dep.version) continue;
+      const problem = GoVersion.checkPathMajor(dep.name, dep.version);
+      if (problem) {
+        warnings.push(`${dep.name}: ${problem}`);
+      }
+    }
+    return warnings;
+  }
 }
 
@@ -8,6 +8,7 @@ import { FileUtils } from '../utils/fileUtils.js';
 import { PomParser } from '../parsers/pomParser.js';
 import { GradleParser } from '../parsers/gradleParser.js';
 import { fileExists } from '../../../utils/fileSystem.js';
+import { MavenVersion } from '../../../utils/versioning/mavenVersion.js';
 
 /**
  * Extract Java dependencies
@@ -54,6 +55,8 @@ export class JavaExtractor extends BaseDependencyExtractor {
       }
     }
 
+    warnings.push(...this.checkVersionRanges([...dependencies, ...devDependencies]));
+
     // Determine lock file
     let lockFile: { path: string; format: string; exists: boolean } | undefined;
     if (gradleFile) {
@@ -72,5 +75,22 @@ export class JavaExtractor extends BaseDependencyExtractor {
 
     return this.createResult([group], errors.length > 0 ? errors : undefined, warnings.length > 0 ? warnings : undefined);
   }
-}
 
+  /**
+   * Check Maven version ranges, which Maven itself rejects when malformed
+   * @param dependencies Dependencies to check
+   * @returns Warnings for invalid ranges (e.g., "[2.0,1.0]")
+   */
+  private checkVersionRanges(dependencies: Dependency[]): string[] {
+    const warnings: string[] = [];
+    for (const dep of dependencies) {
+      if (!dep.versionConstraint || !/^[[(]/.test(dep.versionConstraint.trim())) continue;
+      try {
+        MavenVersion.parseSpec(dep.versionConstraint);
+      } catch (error) {
+        warnings.push(`${dep.name}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    return warnings;
+  }
+}
@@ -6,7 +6,11 @@ import { BaseDependencyExtractor } from './base.js';
 import { Dependency, DependencyExtractionResult } from '../types.js';
 import { FileUtils } from '../utils/fileUtils.js';
 import { PackageJsonParser } from '../parsers/packageJsonParser.js';
+import { PackageLockParser } from '../parsers/packageLockParser.js';
+import { PnpmLockParser } from '../parsers/pnpmLockParser.js';
+import { YarnLockParser } from '../parsers/yarnLockParser.js';
 import { fileExists, readJsonFile } from '../../../utils/fileSystem.js';
+import { NpmRange } from '../../../utils/versioning/npmRange.js';
 
 /**
  * Extract Node.js dependencies
@@ -27,16 +31,22 @@ export class NodeJSExtractor extends BaseDependencyExtractor {
     let devDependencies: Dependency[] = [];
     let peerDependencies: Dependency[] = [];
     let optionalDependencies: Dependency[] = [];
+    let lockSource: string | undefined;   // Lockfile the versions above came from
+    let rootLocked: Dependency[] | undefined;   // What the root package.json resolved to, if the lockfile records it apart
+
+    const packageJsonPath = FileUtils.joinPath(projectPath, 'package.json');
 
     // Try package-lock.json (exact versions)
     const packageLockPath = FileUtils.joinPath(projectPath, 'package-lock.json');
     if (await fileExists(packageLockPath)) {
       try {
-        const result = await this.parsePackageLock(packageLockPath);
+        const manifest = await fileExists(packageJsonPath) ? await readJsonFile(packageJsonPath) : undefined;
+        const result = PackageLockParser.parseContent(await readJsonFile(packageLockPath), manifest);
         dependencies = result.dependencies;
         devDependencies = result.devDependencies;
         peerDependencies = result.peerDependencies;
         optionalDependencies = result.optionalDependencies;
+        lockSource = 'package-lock.json';
       } catch (error) {
         errors.push(`Failed to parse package-lock.json: ${error}`);
       }
@@ -44,11 +54,13 @@ export class NodeJSExtractor extends BaseDependencyExtractor {
 
     // Try yarn.lock (exact versions)
     const yarnLockPath = FileUtils.joinPath(projectPath, 'yarn.lock');
+    let yarnFormat = 'yarn-lock';
     if (await fileExists(yarnLockPath) && dependencies.length === 0) {
       try {
-        const result = await this.parseYarnLock(yarnLockPath);
+        const result = YarnLockParser.parseContent(await FileUtils.safeReadFile(yarnLockPath) ?? '');
         dependencies = result.dependencies;
-        devDependencies = result.devDependencies;
+        yarnFormat = result.format === 'yarn-berry' ? 'yarn-berry' : 'yarn-lock';
+        lockSource = 'yarn.lock';
       } catch (error) {
         errors.push(`Failed to parse yarn.lock: ${error}`);
       }
@@ -58,16 +70,19 @@ export class NodeJSExtractor extends BaseDependencyExtractor {
     const pnpmLockPath = FileUtils.joinPath(projectPath, 'pnpm-lock.yaml');
     if (await fileExists(pnpmLockPath) && dependencies.length === 0) {
       try {
-        const result = await this.parsePnpmLock(pnpmLockPath);
+        const result = PnpmLockParser.parseContent(await FileUtils.safeReadFile(pnpmLockPath) ?? '');
         dependencies = result.dependencies;
         devDependencies = result.devDependencies;
+        optionalDependencies = result.optionalDependencies;
+        const root = result.importers['.'];
+        rootLocked = root && [...root.dependencies, ...root.devDependencies, ...root.optionalDependencies];
+        lockSource = 'pnpm-lock.yaml';
       } catch (error) {
         errors.push(`Failed to parse pnpm-lock.yaml: ${error}`);
       }
     }
 
     // Try package.json (version ranges) - fallback or supplement
-    const packageJsonPath = FileUtils.joinPath(projectPath, 'package.json');
     if (await fileExists(packageJsonPath)) {
       try {
         const result = await PackageJsonParser.parse(packageJsonPath);
@@ -81,6 +96,11 @@ export class NodeJSExtractor extends BaseDependencyExtractor {
           // Merge to get peer and optional dependencies that might not be in lock files
           peerDependencies = result.peerDependencies;
           optionalDependencies = result.optionalDependencies;
+
+          if (lockSource) {
+            const declared = [...result.dependencies, ...result.devDependencies, ...result.optionalDependencies];
+            warnings.push(...this.checkLockedVersions(declared, rootLocked ?? [...dependencies, ...devDependencies], lockSource));
+          }
         }
       } catch (error) {
         errors.push(`Failed to parse package.json: ${error}`);
@@ -92,7 +112,7 @@ export class NodeJSExtractor extends BaseDependencyExtractor {
     if (await fileExists(packageLockPath)) {
       lockFile = { path: 'package-lock.json', format: 'package-lock', exists: true };
     } else if (await fileExists(yarnLockPath)) {
-      lockFile = { path: 'yarn.lock', format: 'yarn-lock', exists: true };
+      lockFile = { path: 'yarn.lock', format: yarnFormat, exists: true };
     } else if (await fileExists(pnpmLockPath)) {
       lockFile = { path: 'pnpm-lock.yaml', format: 'pnpm-lock', exists: true };
     } else if (await fileExists(packageJsonPath)) {
@@ -111,221 +131,41 @@ export class NodeJSExtractor extends BaseDependencyExtractor {
   }
 
   /**
-   * Parse package-lock.json
-   */
-  private async parsePackageLock(filePath: string): Promise<{
-    dependencies: Dependency[];
-    devDependencies: Dependency[];
-    peerDependencies: Dependency[];
-    optionalDependencies: Dependency[];
-  }> {
-    const lock = await readJsonFile(filePath);
-    const dependencies: Dependency[] = [];
-    const devDependencies: Dependency[] = [];
-    const peerDependencies: Dependency[] = [];
-    const optionalDependencies: Dependency[] = [];
-
-    // package-lock.json v2+ uses "packages" field
-    if (lock.packages) {
-      for (const [path, pkg] of Object.entries(lock.packages)) {
-        if (path === 'node_modules' || !path) continue;
-        if (pkg && typeof pkg === 'object' && 'version' in pkg) {
-          const pkgInfo = pkg as any;
-          const name = path.replace(/^node_modules\//, '').split('/')[0];
-          const isDev = pkgInfo.dev === true;
-          const isPeer = pkgInfo.peer === true;
-          const isOptional = pkgInfo.optional === true;
-
-          const dep: Dependency = {
-            name,
-            version: pkgInfo.version,
-            versionConstraint: `==${pkgInfo.version}`,
-            type: isDev ? 'development' : isPeer ? 'peer' : isOptional ? 'optional' : 'runtime',
-            source: 'registry'
-          };
-
-          if (isDev) devDependencies.push(dep);
-          else if (isPeer) peerDependencies.push(dep);
-          else if (isOptional) optionalDependencies.push(dep);
-          else dependencies.push(dep);
-        }
-      }
-    }
-    // package-lock.json v1 uses "dependencies" tree
-    else if (lock.dependencies) {
-      this.extractFromDependencyTree(lock.dependencies, dependencies, devDependencies, peerDependencies, optionalDependencies);
-    }
-
-    return { dependencies, devDependencies, peerDependencies, optionalDependencies };
-  }
-
-  /**
-   * Extract from dependency tree (package-lock.json v1)
-   */
-  private extractFromDependencyTree(
-    tree: any,
-    dependencies: Dependency[],
-    devDependencies: Dependency[],
-    peerDependencies: Dependency[],
-    optionalDependencies: Dependency[],
-    seen = new Set<string>()
-  ): void {
-    for (const [name, info] of Object.entries(tree)) {
-      if (seen.has(name)) continue;
-      seen.add(name);
-
-      if (info && typeof info === 'object' && 'version' in info) {
-        const pkgInfo = info as any;
-        const isDev = pkgInfo.dev === true;
-        const isPeer = pkgInfo.peer === true;
-        const isOptional = pkgInfo.optional === true;
-
-        const dep: Dependency = {
-          name,
-          version: pkgInfo.version,
-          versionConstraint: `==${pkgInfo.version}`,
-          type: isDev ? 'development' : isPeer ? 'peer' : isOptional ? 'optional' : 'runtime',
-          source: 'registry'
-        };
-
-        if (isDev) devDependencies.push(dep);
-        else if (isPeer) peerDependencies.push(dep);
-        else if (isOptional) optionalDependencies.push(dep);
-        else dependencies.push(dep);
-
-        // Recurse into nested dependencies
-        if (pkgInfo.dependencies) {
-          this.extractFromDependencyTree(pkgInfo.dependencies, dependencies, devDependencies, peerDependencies, optionalDependencies, seen);
-        }
-      }
-    }
-  }
-
-  /**
-   * Parse yarn.lock
+   * Check that locked versions still satisfy the ranges declared in package.json
+   * @param declared Dependencies from package.json
+   * @param locked Dependencies from the lockfile; the entry resolved for the declared range (yarn.lock descriptors)
+   * wins, then the top-level install (or the one the root pnpm importer resolved), then the first entry per name
+   * @param lockSource Lockfile name
+   * @returns Warnings for ranges the locked version does not satisfy
    */
-  private async parseYarnLock(filePath: string): Promise<{
-    dependencies: Dependency[];
-    devDependencies: Dependency[];
-  }> {
-    const content = await FileUtils.safeReadFile(filePath);
-    if (!content) {
-      return { dependencies: [], devDependencies: [] };
-    }
-
-    const dependencies: Dependency[] = [];
-    const devDependencies: Dependency[] = [];
-    const lines = content.split('\n');
-
-    let currentPackage: { name?: string; version?: string; isDev?: boolean } = {};
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-
-      // Package entry: "package-name@version:"
-      const packageMatch = line.match(/^"([^"]+)"@([^:]+):$/);
-      if (packageMatch) {
-        if (currentPackage.name && currentPackage.version) {
-          const dep: Dependency = {
-            name: currentPackage.name,
-            version: currentPackage.version,
-            versionConstraint: `==${currentPackage.version}`,
-            type: currentPackage.isDev ? 'development' : 'runtime',
-            source: 'registry'
-          };
-          if (currentPackage.isDev) {
-            devDependencies.push(dep);
-          } else {
-            dependencies.push(dep);
-          }
-        }
-        currentPackage = { name: packageMatch[1], version: packageMatch[2] };
-        continue;
-      }
-
-      // Version line
-      if (line.startsWith('version ')) {
-        const versionMatch = line.match(/version\s+"([^"]+)"/);
-        if (versionMatch) {
-          currentPackage.version = versionMatch[1];
-        }
-      }
-    }
-
-    // Add last package
-    if (currentPackage.name && currentPackage.version) {
-      const dep: Dependency = {
-        name: currentPackage.name,
-        version: currentPackage.version,
-        versionConstraint: `==${currentPackage.version}`,
-        type: currentPackage.isDev ? 'development' : 'runtime',
-        source: 'registry'
-      };
-      if (currentPackage.isDev) {
-        devDependencies.push(dep);
-      } else {
-        dependencies.push(dep);
+  private checkLockedVersions(declared: Dependency[], locked: Dependency[], lockSource: string): string[] {
+    const versions = new Map<string, string>();
+    for (const dep of locked) {
+      const name = NpmRange.packageName(dep);
+      const topLevel = dep.installPath === `node_modules/${name}` || dep.workspaces?.includes('.');
+      if (dep.version && (!versions.has(name) || topLevel)) {
+        versions.set(name, dep.version);
       }
     }
 
-    return { dependencies, devDependencies };
-  }
-
-  /**
-   * Parse pnpm-lock.yaml
-   */
-  private async parsePnpmLock(filePath: string): Promise<{
-    dependencies: Dependency[];
-    devDependencies: Dependency[];
-  }> {
-    const content = await FileUtils.safeReadFile(filePath);
-    if (!content) {
-      return { dependencies: [], devDependencies: [] };
-    }
-
-    // Simple YAML parsing (for production, use a YAML library)
-    const dependencies: Dependency[] = [];
-    const devDependencies: Dependency[] = [];
-
-    // Extract from dependencies section
-    const depsMatch = content.match(/dependencies:\s*\n((?:\s+[^\n]+\n?)+)/);
-    if (depsMatch) {
-      const depsSection = depsMatch[1];
-      const depLines = depsSection.split('\n');
-      for (const line of depLines) {
-        const match = line.match(/^\s+([^:]+):\s*(.+)$/);
-        if (match) {
-          dependencies.push({
-            name: match[1].trim(),
-            version: match[2].trim(),
-            versionConstraint: `==${match[2].trim()}`,
-            type: 'runtime',
-            source: 'registry'
-          });
-        }
-      }
-    }
+    const warnings: string[] = [];
+    for (const dep of declared) {
+      const name = NpmRange.packageName(dep);
+      const range = dep.versionConstraint;
+      const resolved = range && locked.find(lock =>
+        NpmRange.packageName(lock) === name && lock.constraints?.some(c => c === range || c === `npm:${range}`));
+      const version = resolved ? resolved.version : versions.get(name);
+      if (!version || !range || dep.source !== 'registry' || NpmRange.isDistTag(range)) continue;
 
-    // Extract from devDependencies section
-    const devDepsMatch = content.match(/devDependencies:\s*\n((?:\s+[^\n]+\n?)+)/);
-    if (devDepsMatch) {
-      const devDepsSection = devDepsMatch[1];
-      const devDepLines = devDepsSection.split('\n');
-      for (const line of devDepLines) {
-        const match = line.match(/^\s+([^:]+):\s*(.+)$/);
-        if (match) {
-          devDependencies.push({
-            name: match[1].trim(),
-            version: match[2].trim(),
-            versionConstraint: `==${match[2].trim()}`,
-            type: 'development',
-            source: 'registry'
-          });
+      try {
+        if (!NpmRange.satisfies(version, range)) {
+          warnings.push(`${lockSource} has ${name}@${version}, which does not satisfy "${range}" in package.json`);
         }
+      } catch {
+        // Not a semver range (e.g., an npm: alias); nothing to check
       }
     }
-
-    return { dependencies, devDependencies };
+    return warnings;
   }
 }
 
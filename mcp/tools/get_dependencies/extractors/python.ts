@@ -7,11 +7,19 @@ import { Dependency, DependencyExtractionResult } from '../types.js';
 import { FileUtils } from '../utils/fileUtils.js';
 import { RequirementsParser } from '../parsers/requirementsParser.js';
 import { PyprojectParser } from '../parsers/pyprojectParser.js';
-import { fileExists } from '../../../utils/fileSystem.js';
+import { PipfileLockParser } from '../parsers/pipfileLockParser.js';
+import { PoetryLockParser } from '../parsers/poetryLockParser.js';
+import { UvLockParser } from '../parsers/uvLockParser.js';
+import { PdmLockParser } from '../parsers/pdmLockParser.js';
+import { SetuptoolsParser } from '../parsers/setuptoolsParser.js';
+import { CondaParser } from '../parsers/condaParser.js';
+import { Pep440 } from '../../../utils/versioning/pep440.js';
+import { Toml, TomlTable, TomlValue } from '../../../utils/toml.js';
+import { fileExists, readJsonFile } from '../../../utils/fileSystem.js';
 
 /**
  * Extract Python dependencies
- * Priority: pyproject.toml > Pipfile/Pipfile.lock > poetry.lock > requirements.txt > setup.py/setup.cfg > environment.yml
+ * Priority: pyproject.toml/hatch.toml > Pipfile/Pipfile.lock > poetry.lock > uv.lock > pdm.lock > requirements.txt > setup.py/setup.cfg > environment.yml/conda-lock.yml
  */
 export class PythonExtractor extends BaseDependencyExtractor {
   protected languageName = 'python';
@@ -33,39 +41,54 @@ export class PythonExtractor extends BaseDependencyExtractor {
     if (await fileExists(pyprojectPath)) {
       try {
         const result = await PyprojectParser.parse(pyprojectPath);
-        allDependencies.push(...result.dependencies);
+        allDependencies.push(...this.withSourceFile(result.dependencies, 'pyproject.toml'));
+        allDevDependencies.push(...this.withSourceFile(result.devDependencies, 'pyproject.toml'));
         Object.assign(allOptionalDependencies, result.optionalDependencies);
       } catch (error) {
         errors.push(`Failed to parse pyproject.toml: ${error}`);
       }
     }
 
+    // Try hatch.toml (Hatch environments kept outside pyproject.toml)
+    const hatchTomlPath = FileUtils.joinPath(projectPath, 'hatch.toml');
+    if (await fileExists(hatchTomlPath)) {
+      try {
+        const content = await FileUtils.safeReadFile(hatchTomlPath);
+        const envs = content ? Toml.table(Toml.parse(content), ['envs']) : undefined;
+        if (envs) {
+          allDevDependencies.push(...this.withSourceFile(PyprojectParser.parseHatchEnvironments(envs), 'hatch.toml'));
+        }
+      } catch (error) {
+        errors.push(`Failed to parse hatch.toml: ${error}`);
+      }
+    }
+
     // Try Pipfile / Pipfile.lock (Pipenv)
     const pipfilePath = FileUtils.joinPath(projectPath, 'Pipfile');
     const pipfileLockPath = FileUtils.joinPath(projectPath, 'Pipfile.lock');
     if (await fileExists(pipfilePath)) {
       try {
-        // Parse Pipfile (TOML format similar to pyproject.toml)
         const content = await FileUtils.safeReadFile(pipfilePath);
         if (content) {
           const pipfileDeps = this.parsePipfile(content);
-          allDependencies.push(...pipfileDeps.dependencies);
-          allDevDependencies.push(...pipfileDeps.devDependencies);
-        }
-
-        // Try Pipfile.lock for exact versions
-        if (await fileExists(pipfileLockPath)) {
-          const lockContent = await FileUtils.safeReadFile(pipfileLockPath);
-          if (lockContent) {
-            const lockDeps = this.parsePipfileLock(lockContent);
-            // Merge with Pipfile, preferring lock file versions
-            this.mergeDependencies(allDependencies, lockDeps.dependencies);
-            this.mergeDependencies(allDevDependencies, lockDeps.devDependencies);
-          }
+          allDependencies.push(...this.withSourceFile(pipfileDeps.dependencies, 'Pipfile'));
+          allDevDependencies.push(...this.withSourceFile(pipfileDeps.devDependencies, 'Pipfile'));
         }
       } catch (error) {
         errors.push(`Failed to parse Pipfile: ${error}`);
       }
+
+      // Try Pipfile.lock for exact versions
+      if (await fileExists(pipfileLockPath)) {
+        try {
+          const lockDeps = PipfileLockParser.parseContent(await readJsonFile(pipfileLockPath));
+          // Merge with Pipfile, preferring lock file versions
+          this.mergeDependencies(allDependencies, this.withSourceFile(lockDeps.dependencies, 'Pipfile.lock'));
+          this.mergeDependencies(allDevDependencies, this.withSourceFile(lockDeps.devDependencies, 'Pipfile.lock'));
+        } catch (error) {
+          errors.push(`Failed to parse Pipfile.lock: ${error}`);
+        }
+      }
     }
 
     // Try poetry.lock (Poetry)
@@ -74,23 +97,59 @@ export class PythonExtractor extends BaseDependencyExtractor {
       try {
         const lockContent = await FileUtils.safeReadFile(poetryLockPath);
         if (lockContent) {
-          const poetryDeps = this.parsePoetryLock(lockContent);
-          this.mergeDependencies(allDependencies, poetryDeps);
+          const poetryDeps = PoetryLockParser.parseContent(lockContent);
+          // Newer lockfiles do not say which group a package is in, so packages declared
+          // only in a dependency group stay development dependencies
+          const runtimeNames = new Set(allDependencies.map(d => Pep440.normalizeName(d.name)));
+          const groupNames = new Set(allDevDependencies.map(d => Pep440.normalizeName(d.name)));
+          const inGroup = (dep: Dependency): boolean =>
+            groupNames.has(Pep440.normalizeName(dep.name)) && !runtimeNames.has(Pep440.normalizeName(dep.name));
+          const grouped = poetryDeps.dependencies.filter(inGroup).map(dep => ({ ...dep, type: 'development' as const }));
+          this.mergeDependencies(allDependencies, this.withSourceFile(poetryDeps.dependencies.filter(dep => !inGroup(dep)), 'poetry.lock'));
+          this.mergeDependencies(allDevDependencies, this.withSourceFile([...poetryDeps.devDependencies, ...grouped], 'poetry.lock'));
         }
       } catch (error) {
         errors.push(`Failed to parse poetry.lock: ${error}`);
       }
     }
 
+    // Try uv.lock (uv)
+    const uvLockPath = FileUtils.joinPath(projectPath, 'uv.lock');
+    if (await fileExists(uvLockPath)) {
+      try {
+        const lockContent = await FileUtils.safeReadFile(uvLockPath);
+        if (lockContent) {
+          const uvDeps = UvLockParser.parseContent(lockContent);
+          this.mergeDependencies(allDependencies, this.withSourceFile(uvDeps.dependencies, 'uv.lock'));
+          this.mergeDependencies(allDevDependencies, this.withSourceFile(uvDeps.devDependencies, 'uv.lock'));
+        }
+      } catch (error) {
+        errors.push(`Failed to parse uv.lock: ${error}`);
+      }
+    }
+
+    // Try pdm.lock (PDM)
+    const pdmLockPath = FileUtils.joinPath(projectPath, 'pdm.lock');
+    if (await fileExists(pdmLockPath)) {
+      try {
+        const lockContent = await FileUtils.safeReadFile(pdmLockPath);
+        if (lockContent) {
+          const pdmDeps = PdmLockParser.parseContent(lockContent);
+          this.mergeDependencies(allDependencies, this.withSourceFile(pdmDeps.dependencies, 'pdm.lock'));
+          this.mergeDependencies(allDevDependencies, this.withSourceFile(pdmDeps.devDependencies, 'pdm.lock'));
+        }
+      } catch (error) {
+        errors.push(`Failed to parse pdm.lock: ${error}`);
+      }
+    }
+
     // Try requirements.txt / requirements-*.txt
     const requirementsPath = FileUtils.joinPath(projectPath, 'requirements.txt');
     if (await fileExists(requirementsPath)) {
       try {
-        const content = await FileUtils.safeReadFile(requirementsPath);
-        if (content) {
-          const deps = RequirementsParser.parse(content);
-          allDependencies.push(...deps);
-        }
+        const requirements = await RequirementsParser.parseFile(requirementsPath);
+        allDependencies.push(...this.withSourceFile(requirements.dependencies, 'requirements.txt'));
+        warnings.push(...requirements.warnings.map(warning => `requirements.txt: ${warning}`));
       } catch (error) {
         errors.push(`Failed to parse requirements.txt: ${error}`);
       }
@@ -104,11 +163,9 @@ export class PythonExtractor extends BaseDependencyExtractor {
         const devPath = FileUtils.joinPath(projectPath, 'requirements-dev.txt');
         if (await fileExists(devPath)) {
           try {
-            const content = await FileUtils.safeReadFile(devPath);
-            if (content) {
-              const deps = RequirementsParser.parse(content);
-              allDevDependencies.push(...deps);
-            }
+            const requirements = await RequirementsParser.parseFile(devPath);
+            allDevDependencies.push(...this.withSourceFile(requirements.dependencies, 'requirements-dev.txt'));
+            warnings.push(...requirements.warnings.map(warning => `requirements-dev.txt: ${warning}`));
           } catch (error) {
             warnings.push(`Failed to parse ${pattern}: ${error}`);
           }
@@ -117,46 +174,71 @@ export class PythonExtractor extends BaseDependencyExtractor {
     }
 
     // Try setup.py / setup.cfg
-    const setupPyPath = FileUtils.joinPath(projectPath, 'setup.py');
-    const setupCfgPath = FileUtils.joinPath(projectPath, 'setup.cfg');
-    if (await fileExists(setupPyPath)) {
+    let runtime: Dependency | undefined;
+    for (const setupFile of ['setup.py', 'setup.cfg']) {
+      const setupPath = FileUtils.joinPath(projectPath, setupFile);
+      if (!await fileExists(setupPath)) continue;
       try {
-        const content = await FileUtils.safeReadFile(setupPyPath);
+        const content = await FileUtils.safeReadFile(setupPath);
         if (content) {
-          const deps = this.parseSetupPy(content);
-          allDependencies.push(...deps);
+          const metadata = setupFile === 'setup.py'
+            ? SetuptoolsParser.parseSetupPy(content)
+            : SetuptoolsParser.parseSetupCfg(content);
+          allDependencies.push(...this.withSourceFile(metadata.dependencies, setupFile));
+          allDevDependencies.push(...this.withSourceFile(metadata.devDependencies, setupFile));
+          for (const [extra, deps] of Object.entries(metadata.optionalDependencies)) {
+            (allOptionalDependencies[extra] ??= []).push(...this.withSourceFile(deps, setupFile));
+          }
+          if (metadata.pythonRequires && !runtime) {
+            runtime = { name: 'python', versionConstraint: metadata.pythonRequires, type: 'runtime', sourceFile: setupFile };
+          }
+          warnings.push(...metadata.warnings.map(warning => `${setupFile}: ${warning}`));
         }
       } catch (error) {
-        warnings.push(`Failed to parse setup.py: ${error}`);
+        warnings.push(`Failed to parse ${setupFile}: ${error}`);
       }
     }
 
-    if (await fileExists(setupCfgPath)) {
+    // Try environment.yml (Conda)
+    for (const envFile of ['environment.yml', 'environment.yaml', 'conda.yml']) {
+      const envPath = FileUtils.joinPath(projectPath, envFile);
+      if (!await fileExists(envPath)) continue;
       try {
-        const content = await FileUtils.safeReadFile(setupCfgPath);
-        if (content) {
-          const deps = this.parseSetupCfg(content);
-          allDependencies.push(...deps);
+        const environment = await CondaParser.parseEnvironmentFile(envPath);
+        allDependencies.push(...this.withSourceFile(environment.dependencies, envFile));
+        if (environment.python && !runtime) {
+          runtime = { name: 'python', versionConstraint: environment.python, type: 'runtime', sourceFile: envFile };
         }
+        warnings.push(...environment.warnings.map(warning => `${envFile}: ${warning}`));
       } catch (error) {
-        warnings.push(`Failed to parse setup.cfg: ${error}`);
+        warnings.push(`Failed to parse ${envFile}: ${error}`);
       }
+      break;
     }
 
-    // Try environment.yml (Conda)
-    const envYmlPath = FileUtils.joinPath(projectPath, 'environment.yml');
-    const condaYmlPath = FileUtils.joinPath(projectPath, 'conda.yml');
-    const envPath = envYmlPath;
-    if (await fileExists(envYmlPath) || await fileExists(condaYmlPath)) {
-      const finalPath = await fileExists(envYmlPath) ? envYmlPath : condaYmlPath;
+    // Try conda-lock.yml, or explicit lock files (conda list --explicit, conda-lock render)
+    const condaLockPath = FileUtils.joinPath(projectPath, 'conda-lock.yml');
+    let condaLockFile: string | undefined;
+    if (await fileExists(condaLockPath)) {
       try {
-        const content = await FileUtils.safeReadFile(finalPath);
-        if (content) {
-          const deps = this.parseEnvironmentYml(content);
-          allDependencies.push(...deps);
+        const lockContent = await FileUtils.safeReadFile(condaLockPath);
+        if (lockContent) {
+          const condaDeps = CondaParser.parseLock(lockContent);
+          this.mergeDependencies(allDependencies, this.withSourceFile(condaDeps.dependencies, 'conda-lock.yml'));
+          this.mergeDependencies(allDevDependencies, this.withSourceFile(condaDeps.devDependencies, 'conda-lock.yml'));
+          condaLockFile = 'conda-lock.yml';
         }
       } catch (error) {
-        warnings.push(`Failed to parse environment.yml: ${error}`);
+        errors.push(`Failed to parse conda-lock.yml: ${error}`);
+      }
+    } else {
+      for (const explicitPath of await FileUtils.findFiles(projectPath, /^(conda-.+\.lock|.*explicit.*\.txt|spec-file\.txt)$/)) {
+        const lockContent = await FileUtils.safeReadFile(explicitPath);
+        const explicitDeps = lockContent ? CondaParser.parseExplicit(lockContent) : [];
+        if (explicitDeps.length > 0) {
+          condaLockFile ??= FileUtils.getFileName(explicitPath);
+          this.mergeDependencies(allDependencies, this.withSourceFile(explicitDeps, FileUtils.getFileName(explicitPath)));
+        }
       }
     }
 
@@ -166,6 +248,12 @@ export class PythonExtractor extends BaseDependencyExtractor {
       lockFile = { path: 'Pipfile.lock', format: 'pipfile-lock', exists: true };
     } else if (await fileExists(poetryLockPath)) {
       lockFile = { path: 'poetry.lock', format: 'poetry-lock', exists: true };
+    } else if (await fileExists(uvLockPath)) {
+      lockFile = { path: 'uv.lock', format: 'uv-lock', exists: true };
+    } else if (await fileExists(pdmLockPath)) {
+      lockFile = { path: 'pdm.lock', format: 'pdm-lock', exists: true };
+    } else if (condaLockFile) {
+      lockFile = { path: condaLockFile, format: condaLockFile === 'conda-lock.yml' ? 'conda-lock' : 'conda-explicit', exists: true };
     } else if (await fileExists(requirementsPath)) {
       lockFile = { path: 'requirements.txt', format: 'requirements', exists: true };
     }
@@ -177,239 +265,68 @@ export class PythonExtractor extends BaseDependencyExtractor {
       Object.keys(allOptionalDependencies).length > 0 ? Object.values(allOptionalDependencies).flat() : undefined,
       lockFile
     );
+    if (runtime) {
+      group.runtime = runtime;
+    }
 
     return this.createResult([group], errors.length > 0 ? errors : undefined, warnings.length > 0 ? warnings : undefined);
   }
 
   /**
-   * Parse Pipfile content
+   * Parse Pipfile content ([packages] and [dev-packages] TOML tables)
    */
   private parsePipfile(content: string): { dependencies: Dependency[]; devDependencies: Dependency[] } {
-    const dependencies: Dependency[] = [];
-    const devDependencies: Dependency[] = [];
-
-    let inPackages = false;
-    let inDevPackages = false;
-
-    const lines = content.split('\n');
-    for (const line of lines) {
-      const trimmed = line.trim();
-
-      if (trimmed === '[packages]') {
-        inPackages = true;
-        inDevPackages = false;
-        continue;
-      }
-
-      if (trimmed === '[dev-packages]') {
-        inPackages = false;
-        inDevPackages = true;
-        continue;
-      }
-
-      if (trimmed.startsWith('[')) {
-        inPackages = false;
-        inDevPackages = false;
-        continue;
-      }
-
-      if (inPackages || inDevPackages) {
-        if (!trimmed || trimmed.startsWith('#')) continue;
-
-        const dep = this.parsePipfileDependency(trimmed);
-        if (dep) {
-          if (inPackages) {
-            dependencies.push(dep);
-          } else {
-            devDependencies.push(dep);
-          }
-        }
-      }
-    }
-
-    return { dependencies, devDependencies };
+    const pipfile = Toml.parse(content);
+    const parseTable = (table: TomlTable | undefined): Dependency[] => Object.entries(table || {})
+      .map(([name, spec]) => this.parsePipfileDependency(name, spec))
+      .filter((dep): dep is Dependency => dep !== null);
+
+    return {
+      dependencies: parseTable(Toml.table(pipfile, ['packages'])),
+      devDependencies: parseTable(Toml.table(pipfile, ['dev-packages']))
+    };
   }
 
   /**
-   * Parse a Pipfile dependency line
+   * Parse a Pipfile dependency
+   * The spec is a specifier set ("*", ">=2.0") or a table with version, extras,
+   * markers, git or path
    */
-  private parsePipfileDependency(line: string): Dependency | null {
-    const match = line.match(/^([^=]+)\s*=\s*["']([^"']+)["']/);
-    if (match) {
-      return {
-        name: match[1].trim(),
-        versionConstraint: match[2],
-        type: 'runtime',
-        source: 'registry'
+  private parsePipfileDependency(name: string, spec: TomlValue): Dependency | null {
+    if (Toml.isTable(spec)) {
+      const extras = Array.isArray(spec.extras) ? spec.extras.filter((e): e is string => typeof e === 'string') : [];
+      const details = {
+        ...(extras.length > 0 && { extras }),
+        ...(typeof spec.markers === 'string' && spec.markers && { markers: spec.markers })
       };
-    }
-    return null;
-  }
-
-  /**
-   * Parse Pipfile.lock content
-   */
-  private parsePipfileLock(content: string): { dependencies: Dependency[]; devDependencies: Dependency[] } {
-    try {
-      const lock = JSON.parse(content);
-      const dependencies: Dependency[] = [];
-      const devDependencies: Dependency[] = [];
-
-      if (lock.default) {
-        for (const [name, info] of Object.entries(lock.default)) {
-          if (info && typeof info === 'object' && 'version' in info) {
-            dependencies.push({
-              name,
-              version: (info as any).version,
-              versionConstraint: `==${(info as any).version}`,
-              type: 'runtime',
-              source: 'registry'
-            });
-          }
-        }
-      }
-
-      if (lock.develop) {
-        for (const [name, info] of Object.entries(lock.develop)) {
-          if (info && typeof info === 'object' && 'version' in info) {
-            devDependencies.push({
-              name,
-              version: (info as any).version,
-              versionConstraint: `==${(info as any).version}`,
-              type: 'development',
-              source: 'registry'
-            });
-          }
-        }
-      }
-
-      return { dependencies, devDependencies };
-    } catch (error) {
-      return { dependencies: [], devDependencies: [] };
-    }
-  }
-
-  /**
-   * Parse poetry.lock content
-   */
-  private parsePoetryLock(content: string): Dependency[] {
-    try {
-      const lock = JSON.parse(content);
-      const dependencies: Dependency[] = [];
-
-      if (lock.package && Array.isArray(lock.package)) {
-        for (const pkg of lock.package) {
-          if (pkg.name && pkg.version) {
-            dependencies.push({
-              name: pkg.name,
-              version: pkg.version,
-              versionConstraint: `==${pkg.version}`,
-              type: 'runtime',
-              source: 'registry'
-            });
-          }
-        }
+      if (typeof spec.git === 'string') {
+        return { name, type: 'runtime', source: 'git', sourceUrl: spec.git, ...details };
       }
-
-      return dependencies;
-    } catch (error) {
-      return [];
-    }
-  }
-
-  /**
-   * Parse setup.py content
-   */
-  private parseSetupPy(content: string): Dependency[] {
-    const dependencies: Dependency[] = [];
-
-    // Try to find install_requires
-    const installRequiresMatch = content.match(/install_requires\s*=\s*\[([^\]]+)\]/);
-    if (installRequiresMatch) {
-      const packages = installRequiresMatch[1].match(/["']([^"']+)["']/g);
-      if (packages) {
-        for (const pkg of packages) {
-          const name = pkg.replace(/["']/g, '');
-          dependencies.push({
-            name,
-            type: 'runtime',
-            source: 'registry'
-          });
-        }
+      if (typeof spec.path === 'string') {
+        return { name, type: 'runtime', source: 'path', sourceUrl: spec.path, ...details };
       }
+      const dep = this.parsePipfileDependency(name, typeof spec.version === 'string' ? spec.version : '*');
+      return dep && { ...dep, ...details };
     }
 
-    return dependencies;
-  }
-
-  /**
-   * Parse setup.cfg content
-   */
-  private parseSetupCfg(content: string): Dependency[] {
-    const dependencies: Dependency[] = [];
-    let inOptions = false;
-
-    const lines = content.split('\n');
-    for (const line of lines) {
-      const trimmed = line.trim();
-
-      if (trimmed === '[options]') {
-        inOptions = true;
-        continue;
-      }
-
-      if (trimmed.startsWith('[')) {
-        inOptions = false;
-        continue;
-      }
-
-      if (inOptions && trimmed.startsWith('install_requires')) {
-        const deps = trimmed.split('=')[1]?.trim();
-        if (deps) {
-          const packages = deps.split(',').map(p => p.trim().replace(/["']/g, ''));
-          for (const pkg of packages) {
-            dependencies.push({
-              name: pkg,
-              type: 'runtime',
-              source: 'registry'
-            });
-          }
-        }
-      }
+    if (typeof spec !== 'string') {
+      return null;
     }
-
-    return dependencies;
+    const version = Pep440.exactVersion(spec);
+    return {
+      name,
+      versionConstraint: Pep440.normalizeSpecifierSet(spec) ?? spec,
+      ...(version && { version }),
+      type: 'runtime',
+      source: 'registry'
+    };
   }
 
   /**
-   * Parse environment.yml content
+   * Record the file dependencies were read from
    */
-  private parseEnvironmentYml(content: string): Dependency[] {
-    const dependencies: Dependency[] = [];
-    const lines = content.split('\n');
-    let inDependencies = false;
-
-    for (const line of lines) {
-      const trimmed = line.trim();
-
-      if (trimmed === 'dependencies:' || trimmed.startsWith('dependencies:')) {
-        inDependencies = true;
-        continue;
-      }
-
-      if (trimmed.startsWith('-') && inDependencies) {
-        const name = trimmed.substring(1).trim().split('=')[0];
-        if (name && !name.startsWith('python')) {
-          dependencies.push({
-            name,
-            type: 'runtime',
-            source: 'registry'
-          });
-        }
-      }
-    }
-
-    return dependencies;
+  private withSourceFile(dependencies: Dependency[], sourceFile: string): Dependency[] {
+    return dependencies.map(dep => ({ ...dep, sourceFile }));
   }
 
   /**
@@ -417,7 +334,7 @@ export class PythonExtractor extends BaseDependencyExtractor {
    */
   private mergeDependencies(target: Dependency[], source: Dependency[]): void {
     for (const sourceDep of source) {
-      const existingIndex = target.findIndex(d => d.name === sourceDep.name);
+      const existingIndex = target.findIndex(d => Pep440.normalizeName(d.name) === Pep440.normalizeName(sourceDep.name));
       if (existingIndex !== -1) {
         // Prefer source version if it exists
         if (sourceDep.version) {
@@ -6,7 +6,9 @@ import { BaseDependencyExtractor } from './base.js';
 import { Dependency, DependencyExtractionResult } from '../types.js';
 import { FileUtils } from '../utils/fileUtils.js';
 import { GemfileParser } from '../parsers/gemfileParser.js';
+import { GemfileLockParser } from '../parsers/gemfileLockParser.js';
 import { fileExists } from '../../../utils/fileSystem.js';
+import { RubyGems } from '../../../utils/versioning/rubygems.js';
 
 /**
  * Extract Ruby dependencies
@@ -30,9 +32,7 @@ export class RubyExtractor extends BaseDependencyExtractor {
     const gemfileLockPath = FileUtils.joinPath(projectPath, 'Gemfile.lock');
     if (await fileExists(gemfileLockPath)) {
       try {
-        const result = await this.parseGemfileLock(gemfileLockPath);
-        dependencies = result.dependencies;
-        devDependencies = result.devDependencies;
+        dependencies = GemfileLockParser.parseContent(await FileUtils.safeReadFile(gemfileLockPath) ?? '').dependencies;
       } catch (error) {
         errors.push(`Failed to parse Gemfile.lock: ${error}`);
       }
@@ -49,8 +49,8 @@ export class RubyExtractor extends BaseDependencyExtractor {
           devDependencies = result.devDependencies;
         } else {
           // Merge to update version constraints
-          this.mergeDependencies(dependencies, result.dependencies);
-          this.mergeDependencies(devDependencies, result.devDependencies);
+          warnings.push(...this.mergeDependencies(dependencies, result.dependencies));
+          warnings.push(...this.mergeDependencies(devDependencies, result.devDependencies));
         }
       } catch (error) {
         errors.push(`Failed to parse Gemfile: ${error}`);
@@ -77,86 +77,39 @@ export class RubyExtractor extends BaseDependencyExtractor {
   }
 
   /**
-   * Parse Gemfile.lock
+   * Merge Gemfile requirements into locked dependencies
+   * @returns Warnings for locked versions the Gemfile requirements no longer allow
    */
-  private async parseGemfileLock(filePath: string): Promise<{
-    dependencies: Dependency[];
-    devDependencies: Dependency[];
-  }> {
-    const content = await FileUtils.safeReadFile(filePath);
-    if (!content) {
-      return { dependencies: [], devDependencies: [] };
-    }
-
-    const dependencies: Dependency[] = [];
-    const devDependencies: Dependency[] = [];
-    const lines = content.split('\n');
-
-    let inGems = false;
-    let inDevDependencies = false;
-
-    for (const line of lines) {
-      const trimmed = line.trim();
-
-      if (trimmed === 'GEM') {
-        inGems = true;
-        inDevDependencies = false;
-        continue;
-      }
-
-      if (trimmed === 'DEPENDENCIES') {
-        inGems = false;
-        inDevDependencies = true;
-        continue;
-      }
-
-      if (trimmed.startsWith('  ') && inGems) {
-        // Format: "    gem-name (version)"
-        const match = trimmed.match(/^\s+([^\s(]+)\s+\(([^)]+)\)/);
-        if (match) {
-          dependencies.push({
-            name: match[1],
-            version: match[2],
-            versionConstraint: `==${match[2]}`,
-            type: 'runtime',
-            source: 'registry'
-          });
-        }
-      }
-
-      if (trimmed.startsWith('  ') && inDevDependencies) {
-        // Format: "    gem-name (version)"
-        const match = trimmed.match(/^\s+([^\s(]+)\s+\(([^)]+)\)/);
-        if (match) {
-          devDependencies.push({
-            name: match[1],
-            version: match[2],
-            versionConstraint: `==${match[2]}`,
-            type: 'development',
-            source: 'registry'
-          });
-        }
-      }
-    }
-
-    return { dependencies, devDependencies };
-  }
-
-  /**
-   * Merge dependencies, preferring versions from second array
-   */
-  private mergeDependencies(target: Dependency[], source: Dependency[]): void {
+  private mergeDependencies(target: Dependency[], source: Dependency[]): string[] {
+    const warnings: string[] = [];
     for (const sourceDep of source) {
       const existingIndex = target.findIndex(d => d.name === sourceDep.name);
       if (existingIndex !== -1) {
         // Update version constraint if source has one
         if (sourceDep.versionConstraint) {
-          target[existingIndex].versionConstraint = sourceDep.versionConstraint;
+          const existing = target[existingIndex];
+          existing.versionConstraint = sourceDep.versionConstraint;
+          existing.constraints = sourceDep.constraints;
+          if (existing.version && !this.satisfies(existing.version, sourceDep.versionConstraint)) {
+            warnings.push(`Gemfile.lock has ${existing.name} ${existing.version}, which does not satisfy "${sourceDep.versionConstraint}" in Gemfile`);
+          }
         }
       } else {
         target.push(sourceDep);
       }
     }
+    return warnings;
+  }
+
+  /**
+   * Check a locked version against Gemfile requirements (unparseable requirements pass)
+   */
+  private satisfies(version: string, requirements: string): boolean {
+    try {
+      return RubyGems.satisfiedBy(version, requirements);
+    } catch {
+      return true;
+    }
   }
 }
 
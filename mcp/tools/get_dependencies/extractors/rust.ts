@@ -6,7 +6,9 @@ import { BaseDependencyExtractor } from './base.js';
 import { Dependency, DependencyExtractionResult } from '../types.js';
 import { FileUtils } from '../utils/fileUtils.js';
 import { CargoParser } from '../parsers/cargoParser.js';
+import { CargoLockParser } from '../parsers/cargoLockParser.js';
 import { fileExists } from '../../../utils/fileSystem.js';
+import { CargoRequirement } from '../../../utils/versioning/cargoRequirement.js';
 
 /**
  * Extract Rust dependencies
@@ -30,9 +32,7 @@ export class RustExtractor extends BaseDependencyExtractor {
     const cargoLockPath = FileUtils.joinPath(projectPath, 'Cargo.lock');
     if (await fileExists(cargoLockPath)) {
       try {
-        const result = await this.parseCargoLock(cargoLockPath);
-        dependencies = result.dependencies;
-        devDependencies = result.devDependencies;
+        dependencies = CargoLockParser.parseContent(await FileUtils.safeReadFile(cargoLockPath) ?? '').dependencies;
       } catch (error) {
         errors.push(`Failed to parse Cargo.lock: ${error}`);
       }
@@ -49,8 +49,8 @@ export class RustExtractor extends BaseDependencyExtractor {
           devDependencies = result.devDependencies;
         } else {
           // Merge to update version constraints
-          this.mergeDependencies(dependencies, result.dependencies);
-          this.mergeDependencies(devDependencies, result.devDependencies);
+          warnings.push(...this.mergeDependencies(dependencies, result.dependencies));
+          warnings.push(...this.mergeDependencies(devDependencies, result.devDependencies));
         }
       } catch (error) {
         errors.push(`Failed to parse Cargo.toml: ${error}`);
@@ -77,97 +77,40 @@ export class RustExtractor extends BaseDependencyExtractor {
   }
 
   /**
-   * Parse Cargo.lock
+   * Merge Cargo.toml requirements into locked dependencies
+   * Cargo.lock may hold several semver-incompatible versions of a crate; the requirement
+   * goes to the one it allows
+   * @returns Warnings for crates whose locked versions the requirements no longer allow
    */
-  private async parseCargoLock(filePath: string): Promise<{
-    dependencies: Dependency[];
-    devDependencies: Dependency[];
-  }> {
-    const content = await FileUtils.safeReadFile(filePath);
-    if (!content) {
-      return { dependencies: [], devDependencies: [] };
-    }
-
-    const dependencies: Dependency[] = [];
-    const devDependencies: Dependency[] = [];
-    const lines = content.split('\n');
-
-    let currentPackage: { name?: string; version?: string; isDev?: boolean } = {};
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-
-      // Package entry: [[package]]
-      if (line === '[[package]]') {
-        if (currentPackage.name && currentPackage.version) {
-          const dep: Dependency = {
-            name: currentPackage.name,
-            version: currentPackage.version,
-            versionConstraint: `==${currentPackage.version}`,
-            type: currentPackage.isDev ? 'development' : 'runtime',
-            source: 'registry'
-          };
-          if (currentPackage.isDev) {
-            devDependencies.push(dep);
-          } else {
-            dependencies.push(dep);
-          }
-        }
-        currentPackage = {};
+  private mergeDependencies(target: Dependency[], source: Dependency[]): string[] {
+    const warnings: string[] = [];
+    for (const sourceDep of source) {
+      const locked = target.filter(d => d.name === sourceDep.name);
+      if (locked.length === 0) {
+        target.push(sourceDep);
         continue;
       }
 
-      // Name field
-      if (line.startsWith('name = ')) {
-        const match = line.match(/name\s*=\s*["']([^"']+)["']/);
-        if (match) {
-          currentPackage.name = match[1];
-        }
-      }
-
-      // Version field
-      if (line.startsWith('version = ')) {
-        const match = line.match(/version\s*=\s*["']([^"']+)["']/);
-        if (match) {
-          currentPackage.version = match[1];
+      // Update version constraint if source has one
+      if (sourceDep.versionConstraint) {
+        const matching = locked.find(d => !d.version || this.satisfies(d.version, sourceDep.versionConstraint!));
+        (matching || locked[0]).versionConstraint = sourceDep.versionConstraint;
+        if (!matching) {
+          warnings.push(`Cargo.lock has ${sourceDep.name} ${locked.map(d => d.version).join(', ')}, which does not satisfy "${sourceDep.versionConstraint}" in Cargo.toml`);
         }
       }
     }
-
-    // Add last package
-    if (currentPackage.name && currentPackage.version) {
-      const dep: Dependency = {
-        name: currentPackage.name,
-        version: currentPackage.version,
-        versionConstraint: `==${currentPackage.version}`,
-        type: currentPackage.isDev ? 'development' : 'runtime',
-        source: 'registry'
-      };
-      if (currentPackage.isDev) {
-        devDependencies.push(dep);
-      } else {
-        dependencies.push(dep);
-      }
-    }
-
-    return { dependencies, devDependencies };
+    return warnings;
   }
 
   /**
-   * Merge dependencies, preferring versions from second array
+   * Check a locked version against a Cargo.toml requirement (unparseable requirements pass)
    */
-  private mergeDependencies(target: Dependency[], source: Dependency[]): void {
-    for (const sourceDep of source) {
-      const existingIndex = target.findIndex(d => d.name === sourceDep.name);
-      if (existingIndex !== -1) {
-        // Update version constraint if source has one
-        if (sourceDep.versionConstraint) {
-          target[existingIndex].versionConstraint = sourceDep.versionConstraint;
-        }
-      } else {
-        target.push(sourceDep);
-      }
+  private satisfies(version: string, requirement: string): boolean {
+    try {
+      return CargoRequirement.matches(version, requirement);
+    } catch {
+      return true;
     }
   }
 }
-
@@ -185,6 +185,9 @@ function formatResponse(result: DependencyExtractionResult): {
     if (group.optionalDependencies) {
       response.optionalDependencies = group.optionalDependencies;
     }
+    if (group.runtime) {
+      response.runtime = group.runtime;
+    }
     if (group.lockFile) {
       response.lockFile = group.lockFile;
     }
@@ -0,0 +1,57 @@
+/**
+ * Parser for Cargo.lock files (Cargo)
+ */
+
+import { Dependency, LockedRequirement } from '../types.js';
+import { Toml, TomlTable } from '../../../utils/toml.js';
+
+/**
+ * Parse Cargo.lock file
+ * Every [[package]] is a resolved crate version. Its dependencies array names the locked
+ * crates it uses as "name", "name version" or "name version (source)"; the bare name is
+ * used when only one version of the crate is locked
+ */
+export class CargoLockParser {
+  /**
+   * Parse Cargo.lock content
+   * @param content File content
+   * @returns Locked crates, each requiring the exact versions it was resolved against ("=1.0.2")
+   * @throws TomlError if the content is not valid TOML
+   */
+  static parseContent(content: string): { dependencies: Dependency[] } {
+    const lock = Toml.parse(content);
+    const packages = (Array.isArray(lock.package) ? lock.package : [])
+      .filter(Toml.isTable)
+      .filter((pkg): pkg is TomlTable & { name: string; version: string } =>
+        typeof pkg.name === 'string' && typeof pkg.version === 'string');
+
+    const lockedVersions = new Map<string, string[]>();
+    for (const pkg of packages) {
+      lockedVersions.set(pkg.name, [...(lockedVersions.get(pkg.name) || []), pkg.version]);
+    }
+
+    const dependencies: Dependency[] = packages.map(pkg => {
+      const requires: LockedRequirement[] = [];
+      for (const entry of Array.isArray(pkg.dependencies) ? pkg.dependencies : []) {
+        if (typeof entry !== 'string') continue;
+        const [name, version] = entry.split(' ');
+        const locked = lockedVersions.get(name) || [];
+        const pinned = version || (locked.length === 1 ? locked[0] : undefined);
+        if (pinned) {
+          requires.push({ name, constraint: `=${pinned}` });
+        }
+      }
+
+      return {
+        name: pkg.name,
+        version: pkg.version,
+        versionConstraint: pkg.version,
+        type: 'runtime',
+        source: 'registry',
+        ...(requires.length > 0 && { requires })
+      };
+    });
+
+    return { dependencies };
+  }
+}
@@ -4,6 +4,8 @@
 
 import { Dependency } from '../types.js';
 import { FileUtils } from '../utils/fileUtils.js';
+import { Toml, TomlTable, TomlValue } from '../../../utils/toml.js';
+import { CargoRequirement } from '../../../utils/versioning/cargoRequirement.js';
 
 /**
  * Parse Cargo.toml file
@@ -19,153 +21,107 @@ export class CargoParser {
     dependencies: Dependency[];
     devDependencies: Dependency[];
   }> {
-    try {
-      const content = await FileUtils.safeReadFile(filePath);
-      if (!content) {
-        return { dependencies: [], devDependencies: [] };
-      }
-
-      return this.parseContent(content);
-    } catch (error) {
-      console.error(`Error parsing Cargo.toml: ${error}`);
+    const content = await FileUtils.safeReadFile(filePath);
+    if (!content) {
       return { dependencies: [], devDependencies: [] };
     }
+
+    // TOML errors propagate so the caller can report their line and column
+    return this.parseContent(content);
   }
 
   /**
    * Parse Cargo.toml content
    * @param content File content
    * @returns Parsed dependencies
+   * @throws TomlError if the content is not valid TOML
    */
-  private static parseContent(content: string): {
+  static parseContent(content: string): {
     dependencies: Dependency[];
     devDependencies: Dependency[];
   } {
-    const dependencies: Dependency[] = [];
-    const devDependencies: Dependency[] = [];
-
-    let inDependencies = false;
-    let inDevDependencies = false;
-
-    const lines = content.split('\n');
-    
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-
-      // Check for [dependencies] section
-      if (line === '[dependencies]') {
-        inDependencies = true;
-        inDevDependencies = false;
-        continue;
-      }
-
-      // Check for [dev-dependencies] section
-      if (line === '[dev-dependencies]') {
-        inDependencies = false;
-        inDevDependencies = true;
-        continue;
-      }
-
-      // Check if we're leaving a section
-      if (line.startsWith('[') && line !== '[dependencies]' && line !== '[dev-dependencies]') {
-        inDependencies = false;
-        inDevDependencies = false;
-        continue;
-      }
-
-      // Parse dependency line
-      if (inDependencies || inDevDependencies) {
-        // Skip comments and empty lines
-        if (!line || line.startsWith('#')) {
-          continue;
-        }
-
-        const dep = this.parseDependencyLine(line);
-        if (dep) {
-          if (inDependencies) {
-            dependencies.push(dep);
-          } else {
-            devDependencies.push(dep);
-          }
-        }
-      }
-    }
+    const manifest = Toml.parse(content);
+    return {
+      dependencies: this.parseTable(Toml.table(manifest, ['dependencies'])),
+      devDependencies: this.parseTable(Toml.table(manifest, ['dev-dependencies']))
+    };
+  }
 
-    return { dependencies, devDependencies };
+  /**
+   * Parse a dependency table
+   * @param table [dependencies] or [dev-dependencies] table
+   * @returns Dependencies
+   */
+  private static parseTable(table: TomlTable | undefined): Dependency[] {
+    return Object.entries(table || {})
+      .map(([name, spec]) => this.parseDependency(name, spec))
+      .filter((dep): dep is Dependency => dep !== null);
   }
 
   /**
-   * Parse a single dependency line
-   * @param line Line content
+   * Parse one dependency
+   * Format: name = "version" or name = { version = "1.0", features = ["feature1"] }
+   * or: name = { path = "../local" } or name = { git = "https://..." }
+   * @param name Crate name
+   * @param spec Version requirement or detailed dependency table
    * @returns Dependency or null
    */
-  private static parseDependencyLine(line: string): Dependency | null {
-    // Format: name = "version" or name = { version = "1.0", features = ["feature1"] }
-    // or: name = { path = "../local" } or name = { git = "https://..." }
-
-    // Extract package name
-    const nameMatch = line.match(/^([^=]+)\s*=/);
-    if (!nameMatch) {
+  private static parseDependency(name: string, spec: TomlValue): Dependency | null {
+    if (typeof spec === 'string') {
+      return this.registryDependency(name, spec);
+    }
+    if (!Toml.isTable(spec)) {
       return null;
     }
 
-    const name = nameMatch[1].trim();
-
-    // Check for simple version format: name = "version"
-    const simpleVersionMatch = line.match(/=\s*["']([^"']+)["']/);
-    if (simpleVersionMatch) {
-      const version = simpleVersionMatch[1];
+    if (typeof spec.path === 'string') {
       return {
         name,
-        versionConstraint: version,
-        version: version.match(/^\d+\.\d+\.\d+/) ? version : undefined,
         type: 'runtime',
-        source: 'registry'
+        source: 'path',
+        sourceUrl: spec.path
       };
     }
 
-    // Check for table format: name = { ... }
-    const tableMatch = line.match(/\{([^}]+)\}/);
-    if (tableMatch) {
-      const tableContent = tableMatch[1];
+    if (typeof spec.git === 'string') {
+      return {
+        name,
+        type: 'runtime',
+        source: 'git',
+        sourceUrl: spec.git
+      };
+    }
 
-      // Check for path dependency
-      const pathMatch = tableContent.match(/path\s*=\s*["']([^"']+)["']/);
-      if (pathMatch) {
-        return {
-          name,
-          type: 'runtime',
-          source: 'path',
-          sourceUrl: pathMatch[1]
-        };
-      }
+    if (typeof spec.version === 'string') {
+      return this.registryDependency(name, spec.version);
+    }
 
-      // Check for git dependency
-      const gitMatch = tableContent.match(/git\s*=\s*["']([^"']+)["']/);
-      if (gitMatch) {
-        return {
-          name,
-          type: 'runtime',
-          source: 'git',
-          sourceUrl: gitMatch[1]
-        };
-      }
+    return null;
+  }
 
-      // Check for version
-      const versionMatch = tableContent.match(/version\s*=\s*["']([^"']+)["']/);
-      if (versionMatch) {
-        const version = versionMatch[1];
-        return {
-          name,
-          versionConstraint: version,
-          version: version.match(/^\d+\.\d+\.\d+/) ? version : undefined,
-          type: 'runtime',
-          source: 'registry'
-        };
-      }
+  /**
+   * Build a registry dependency from its version requirement
+   * The requirement is spelled out ("0.3" -> ">=0.3.0, <0.4.0") because a bare version is
+   * a caret requirement in Cargo, not a pin; requirements Cargo would reject are kept as written
+   * @param name Crate name
+   * @param requirement Version requirement
+   * @returns Dependency
+   */
+  private static registryDependency(name: string, requirement: string): Dependency {
+    let versionConstraint = requirement;
+    try {
+      versionConstraint = CargoRequirement.format(requirement);
+    } catch {
+      // Keep the requirement as written
     }
 
-    return null;
+    return {
+      name,
+      versionConstraint,
+      version: CargoRequirement.exactVersion(requirement) ?? undefined,
+      type: 'runtime',
+      source: 'registry'
+    };
   }
 }
 
@@ -0,0 +1,276 @@
+/**
+ * Parser for Conda environment files and lockfiles
+ */
+
+import { Dependency } from '../types.js';
+import { RequirementsParser } from './requirementsParser.js';
+import { Yaml, YamlValue } from '../../../utils/yaml.js';
+import { readTextFile } from '../../../utils/fileSystem.js';
+
+/**
+ * Parse environment.yml, conda-lock.yml and explicit (@EXPLICIT) lock files
+ * Conda packages carry group "conda" and packages from the pip subsection group "pip";
+ * a package's channel is its sourceUrl
+ */
+export class CondaParser {
+  /**
+   * Parse environment.yml content
+   * Packages without a "channel::" prefix come from the first listed channel. Includes
+   * (-r, -c) in the pip subsection need a file to resolve against and are skipped; use
+   * parseEnvironmentFile for them
+   * @param content File content
+   * @returns Conda and pip dependencies, and the python spec (python is left out of the dependencies)
+   * @throws YamlError if the content is not valid YAML
+   */
+  static parseEnvironment(content: string): { dependencies: Dependency[]; python?: string } {
+    const { dependencies, python, pip } = this.readEnvironment(content);
+    dependencies.push(...this.pipGroup(RequirementsParser.parse(pip.join('\n'))));
+    return { dependencies, ...(python && { python }) };
+  }
+
+  /**
+   * Parse an environment.yml file, following the includes of its pip subsection
+   * like a requirements file's (paths are relative to the environment file)
+   * @param filePath Path to the environment file
+   * @returns Conda and pip dependencies, the python spec, and warnings about includes
+   * @throws YamlError if the content is not valid YAML
+   */
+  static async parseEnvironmentFile(filePath: string): Promise<{ dependencies: Dependency[]; python?: string; warnings: string[] }> {
+    const { dependencies, python, pip } = this.readEnvironment(await readTextFile(filePath));
+    const requirements = await RequirementsParser.parseIncluding(pip.join('\n'), filePath);
+    dependencies.push(...this.pipGroup(requirements.dependencies));
+    return { dependencies, ...(python && { python }), warnings: requirements.warnings };
+  }
+
+  /**
+   * Conda packages, python spec and pip subsection lines of environment.yml content
+   */
+  private static readEnvironment(content: string): { dependencies: Dependency[]; python?: string; pip: string[] } {
+    const environment = Yaml.parse(content);
+    if (!Yaml.isMapping(environment)) {
+      return { dependencies: [], pip: [] };
+    }
+
+    const channels = this.strings(environment.channels).filter(channel => channel !== 'nodefaults');
+    const dependencies: Dependency[] = [];
+    const pip: string[] = [];
+    let python: string | undefined;
+
+    for (const entry of Array.isArray(environment.dependencies) ? environment.dependencies : []) {
+      if (typeof entry === 'string') {
+        const dep = this.parseMatchSpec(entry, channels[0]);
+        if (!dep) continue;
+        if (dep.name === 'python') {
+          python = dep.versionConstraint;
+        } else {
+          dependencies.push(dep);
+        }
+      } else if (Yaml.isMapping(entry) && 'pip' in entry) {
+        pip.push(...this.strings(entry.pip));
+      }
+    }
+
+    return { dependencies, python, pip };
+  }
+
+  /**
+   * Requirements of the pip subsection, in group "pip"
+   */
+  private static pipGroup(requirements: Dependency[]): Dependency[] {
+    return requirements.map(dep => ({ ...dep, group: 'pip' }));
+  }
+
+  /**
+   * Parse conda-lock.yml content (lockfile version 1)
+   * Packages are listed once per platform; a package file shared by several platforms
+   * (noarch) is reported once. Categories other than "main" are development dependencies
+   * @param content File content
+   * @returns Locked runtime and development dependencies
+   * @throws YamlError if the content is not valid YAML
+   */
+  static parseLock(content: string): { dependencies: Dependency[]; devDependencies: Dependency[] } {
+    const lock = Yaml.parse(content);
+    const packages = (Yaml.isMapping(lock) && Array.isArray(lock.package) ? lock.package : []).filter(Yaml.isMapping);
+    const dependencies: Dependency[] = [];
+    const devDependencies: Dependency[] = [];
+    const seen = new Set<string>();
+
+    for (const pkg of packages) {
+      if (typeof pkg.name !== 'string' || typeof pkg.version !== 'string') continue;
+
+      const url = typeof pkg.url === 'string' ? pkg.url : undefined;
+      const manager = pkg.manager === 'pip' ? 'pip' : 'conda';
+      const key = url ?? `${manager}:${pkg.name}@${pkg.version}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const dep: Dependency = {
+        name: pkg.name,
+        version: pkg.version,
+        versionConstraint: `==${pkg.version}`,
+        type: 'runtime',
+        source: 'registry',
+        group: manager,
+        ...(url && manager === 'conda' ? this.fromPackageUrl(url, pkg.name, pkg.version) : url && { sourceUrl: url }),
+        ...this.lockHashes(pkg.hash, manager)
+      };
+      if (pkg.category === undefined || pkg.category === 'main') {
+        dependencies.push(dep);
+      } else {
+        devDependencies.push({ ...dep, type: 'development' });
+      }
+    }
+
+    return { dependencies, devDependencies };
+  }
+
+  /**
+   * Parse an explicit lock file (the output of "conda list --explicit" or a conda-lock
+   * "explicit" render): package URLs after an @EXPLICIT line, each with an optional
+   * "#md5" or "#sha256" suffix (kept in condaHashes)
+   * @param content File content
+   * @returns Exact packages, or an empty list if the file has no @EXPLICIT line
+   */
+  static parseExplicit(content: string): Dependency[] {
+    const lines = content.split(/\r?\n/).map(line => line.trim());
+    const start = lines.indexOf('@EXPLICIT');
+    if (start === -1) {
+      return [];
+    }
+
+    const dependencies: Dependency[] = [];
+    for (const line of lines.slice(start + 1)) {
+      if (!line || line.startsWith('#')) continue;
+
+      const [url, hash] = line.split('#');
+      const file = url.slice(url.lastIndexOf('/') + 1).replace(/\.(conda|tar\.bz2)$/, '');
+      const parts = file.split('-');
+      if (parts.length < 3) continue;
+
+      const name = parts.slice(0, -2).join('-');
+      const version = parts[parts.length - 2];
+      const algorithm = hash && (hash.length === 64 ? 'sha256' : hash.length === 32 ? 'md5' : undefined);
+      dependencies.push({
+        name,
+        version,
+        versionConstraint: `==${version}`,
+        type: 'runtime',
+        source: 'registry',
+        group: 'conda',
+        ...this.fromPackageUrl(url, name, version),
+        ...(algorithm && { condaHashes: [`${algorithm}:${hash}`] })
+      });
+    }
+    return dependencies;
+  }
+
+  /**
+   * Parse a conda MatchSpec
+   * Forms: "numpy", "numpy=1.26" and "numpy 1.26" (fuzzy: "==1.26.*"), "numpy==1.26.4", "numpy>=1.20,<2",
+   * "numpy=1.26.4=py311h64a7726_0", "numpy 1.26.4 py311h64a7726_0",
+   * "conda-forge::numpy", "numpy[version='>=1.20',build=py*]"
+   * @param spec MatchSpec
+   * @param defaultChannel Channel for specs without a "channel::" prefix
+   * @returns Dependency with its conda version spec as the constraint (fuzzy matches written
+   * as "==1.26.*"; the version is set only for exact pins), or null if the spec has no name
+   */
+  static parseMatchSpec(spec: string, defaultChannel?: string): Dependency | null {
+    let text = spec.trim();
+    let channel = defaultChannel;
+    const prefix = text.match(/^(.+?)::(.*)$/);
+    if (prefix) {
+      channel = prefix[1];
+      text = prefix[2];
+    }
+
+    // Bracketed options: name[version='...', build=...]
+    const options: Record<string, string> = {};
+    const bracket = text.match(/^([^[]*)\[(.*)\]\s*$/);
+    if (bracket) {
+      text = bracket[1].trim();
+      for (const option of bracket[2].matchAll(/(\w+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^,\s]*))/g)) {
+        options[option[1]] = option[2] ?? option[3] ?? option[4];
+      }
+    }
+
+    const match = text.match(/^([A-Za-z0-9_][A-Za-z0-9_.-]*)\s*(.*)$/);
+    if (!match) {
+      return null;
+    }
+    const name = match[1];
+    let constraint: string | undefined = options.version;
+    let build = options.build;
+
+    const rest = match[2].trim().replace(/([<>=!~]=?)\s+/g, '$1').replace(/\s*([,|])\s*/g, '$1');
+    const pinned = rest.match(/^==?([^=\s]+)=([^=\s]+)$/);
+    if (pinned) {
+      // name=version=build pins both
+      constraint = `==${pinned[1]}`;
+      build = pinned[2];
+    } else if (rest) {
+      const [version, buildString] = rest.split(/\s+/);
+      constraint = version;
+      build = buildString ?? build;
+    }
+
+    // A bare version pins exactly only next to a build string ("numpy 1.26.4 py311h64a7726_0");
+    // alone it is a fuzzy match like a single "=": "numpy 1.26" and "numpy=1.26" allow 1.26.4
+    if (constraint === '*') {
+      constraint = undefined;
+    } else if (build && constraint?.match(/^[^=<>!~*,|\s]+$/)) {
+      constraint = `==${constraint}`;
+    }
+    const fuzzy = constraint?.match(/^=?([^=<>!~,|\s]+)$/);
+    if (fuzzy) {
+      constraint = `==${fuzzy[1].replace(/\.?\*$/, '')}.*`;
+    }
+    const exact = constraint?.match(/^==([^=<>!~*,|\s]+)$/);
+    return {
+      name,
+      ...(constraint && { versionConstraint: constraint }),
+      ...(exact && { version: exact[1] }),
+      ...(build && { build }),
+      type: 'runtime',
+      source: 'registry',
+      ...(channel && { sourceUrl: channel }),
+      group: 'conda'
+    };
+  }
+
+  /**
+   * Channel and build string of a conda package file URL
+   * (".../conda-forge/linux-64/numpy-1.26.4-py311h64a7726_0.conda")
+   */
+  private static fromPackageUrl(url: string, name: string, version: string): Pick<Dependency, 'sourceUrl' | 'build'> {
+    const segments = url.split('/');
+    const file = segments[segments.length - 1].replace(/\.(conda|tar\.bz2)$/, '');
+    const prefix = `${name}-${version}-`;
+    return {
+      sourceUrl: segments.slice(0, -2).join('/'),
+      ...(file.startsWith(prefix) && { build: file.slice(prefix.length) })
+    };
+  }
+
+  /**
+   * Hashes of a conda-lock package ({ md5: ..., sha256: ... })
+   * Conda package file hashes go to condaHashes: pip cannot check them. Pip packages keep
+   * their wheel or sdist hashes, without md5 which pip does not accept
+   */
+  private static lockHashes(hash: YamlValue | undefined, manager: string): Pick<Dependency, 'hashes' | 'condaHashes'> {
+    const hashes = Object.entries(Yaml.isMapping(hash) ? hash : {})
+      .filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+      .filter(([algorithm]) => manager === 'conda' || algorithm !== 'md5')
+      .map(([algorithm, value]) => `${algorithm}:${value}`);
+    if (hashes.length === 0) {
+      return {};
+    }
+    return manager === 'conda' ? { condaHashes: hashes } : { hashes };
+  }
+
+  /**
+   * Strings of a sequence
+   */
+  private static strings(value: YamlValue | undefined): string[] {
+    return (Array.isArray(value) ? value : []).filter((item): item is string => typeof item === 'string');
+  }
+}
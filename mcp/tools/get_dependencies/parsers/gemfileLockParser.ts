@@ -0,0 +1,78 @@
+/**
+ * Parser for Gemfile.lock files (Bundler)
+ */
+
+import { Dependency } from '../types.js';
+
+/**
+ * Parse Gemfile.lock file
+ * The GEM, GIT and PATH sections list resolved gems under "specs:", indented by four spaces
+ * ("    rack (2.2.4)"); each gem's own requirements follow, indented by six
+ * ("      rack-test (~> 2.0, >= 2.0.1)")
+ */
+export class GemfileLockParser {
+  /**
+   * Platform suffix of a platform-specific gem version (e.g., "1.13.0-x86_64-linux")
+   */
+  private static readonly GEM_PLATFORM_PATTERN = /-(?:x86|x64|arm|aarch64|java|universal|mingw|mswin|darwin|linux)[\w.-]*$/;
+
+  /**
+   * Source type of each section with specs
+   */
+  private static readonly SOURCES: Record<string, Dependency['source']> = {
+    GEM: 'registry',
+    GIT: 'git',
+    PATH: 'path'
+  };
+
+  /**
+   * Parse Gemfile.lock content
+   * @param content File content
+   * @returns Locked gems with what each requires (a requirement without a constraint is ">= 0")
+   */
+  static parseContent(content: string): { dependencies: Dependency[] } {
+    const dependencies: Dependency[] = [];
+    let source: Dependency['source'] | undefined;
+    let remote: string | undefined;
+    let current: Dependency | undefined;
+
+    for (const line of content.split(/\r?\n/)) {
+      // Top-level sections (GEM, GIT, PATH, PLATFORMS, DEPENDENCIES, ...) are not indented
+      if (/^\S/.test(line)) {
+        source = this.SOURCES[line.trim()];
+        remote = undefined;
+        current = undefined;
+        continue;
+      }
+      if (!source) continue;
+
+      const location = line.match(/^ {2}remote: (.+)$/);
+      const spec = line.match(/^ {4}([^\s(]+) \(([^)]+)\)\s*$/);
+      const requirement = line.match(/^ {6}([^\s(]+)(?: \(([^)]+)\))?\s*$/);
+
+      if (location) {
+        remote = location[1].trim();
+      } else if (spec) {
+        const version = spec[2].replace(this.GEM_PLATFORM_PATTERN, '');
+        // Platform-specific builds of one version are listed once each; the first is kept
+        if (dependencies.some(dep => dep.name === spec[1] && dep.version === version)) {
+          current = undefined;
+          continue;
+        }
+        current = {
+          name: spec[1],
+          version,
+          versionConstraint: version,
+          type: 'runtime',
+          source,
+          ...(source !== 'registry' && remote && { sourceUrl: remote })
+        };
+        dependencies.push(current);
+      } else if (requirement && current) {
+        current.requires = [...(current.requires || []), { name: requirement[1], constraint: requirement[2] || '>= 0' }];
+      }
+    }
+
+    return { dependencies };
+  }
+}
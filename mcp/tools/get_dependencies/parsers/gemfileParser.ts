@@ -4,6 +4,7 @@
 
 import { Dependency } from '../types.js';
 import { FileUtils } from '../utils/fileUtils.js';
+import { RubyGems } from '../../../utils/versioning/rubygems.js';
 
 /**
  * Parse Gemfile
@@ -97,20 +98,24 @@ export class GemfileParser {
    * @returns Dependency or null
    */
   private static parseGemLine(line: string): Dependency | null {
-    // Format: gem 'name', '~> 1.0' or gem "name", "~> 1.0"
+    // Format: gem 'name', '~> 1.0', '>= 1.0.4', require: false
     // Remove 'gem' keyword
     line = line.replace(/^gem\s+/, '').trim();
 
-    // Extract gem name and version
-    const matches = line.matchAll(/['"]([^'"]+)['"]/g);
-    const values = Array.from(matches).map(m => m[1]);
-
-    if (values.length === 0) {
+    // Extract gem name and the version requirements that follow it (options come last)
+    const nameMatch = line.match(/^\(?\s*(['"])([^'"]+)\1/);
+    if (!nameMatch) {
       return null;
     }
 
-    const name = values[0];
-    const version = values[1];
+    const name = nameMatch[2];
+    const constraints: string[] = [];
+    let rest = line.slice(nameMatch[0].length);
+    let requirement: RegExpMatchArray | null;
+    while ((requirement = rest.match(/^\s*,\s*(['"])([^'"]*)\1/))) {
+      constraints.push(requirement[2].trim());
+      rest = rest.slice(requirement[0].length);
+    }
 
     // Determine source
     let source: Dependency['source'] = 'registry';
@@ -136,8 +141,9 @@ export class GemfileParser {
 
     return {
       name,
-      versionConstraint: version,
-      version: version && !version.match(/[~><=]/) ? version : undefined,
+      versionConstraint: constraints.length > 0 ? constraints.join(', ') : undefined,
+      ...(constraints.length > 0 && { constraints }),
+      version: constraints.length > 0 ? RubyGems.exactVersion(constraints) ?? undefined : undefined,
       type: 'runtime',
       source,
       sourceUrl
@@ -2,12 +2,12 @@
  * Parser for go.mod files (Go)
  */
 
-import { Dependency } from '../types.js';
+import { Dependency, GoModFile } from '../types.js';
 import { FileUtils } from '../utils/fileUtils.js';
 
 /**
  * Parse go.mod file
- * Extracts require directives, handles replace and exclude
+ * Extracts require directives and blocks, handles replace and exclude
  */
 export class GomodParser {
   /**
@@ -31,85 +31,120 @@ export class GomodParser {
 
   /**
    * Parse go.mod content
+   * Replace directives point a dependency at its replacement module or directory
    * @param content File content
    * @returns Array of dependencies
    */
-  private static parseContent(content: string): Dependency[] {
-    const dependencies: Dependency[] = [];
-    const lines = content.split('\n');
+  static parseContent(content: string): Dependency[] {
+    const modFile = this.parseModFile(content);
+    const dependencies: Dependency[] = modFile.require.map(({ path, version }) => ({
+      name: path,
+      version,
+      versionConstraint: version,
+      type: 'runtime',
+      source: 'registry'
+    }));
+
+    for (const { old, new: replacement } of modFile.replace) {
+      const depIndex = dependencies.findIndex(d => d.name === old.path && (!old.version || d.version === old.version));
+      if (depIndex !== -1) {
+        dependencies[depIndex] = {
+          ...dependencies[depIndex],
+          name: replacement.path,
+          source: this.isLocalPath(replacement.path) ? 'path' : 'registry',
+          sourceUrl: replacement.path,
+          version: replacement.version,
+          versionConstraint: replacement.version
+        };
+      }
+    }
 
-    for (const line of lines) {
-      const trimmed = line.trim();
+    return dependencies;
+  }
+
+  /**
+   * Parse the module, go, require, replace and exclude directives of a go.mod
+   * Versions are kept whole, so pseudo-versions keep their commit time and hash
+   * and "+incompatible" is preserved
+   * @param content File content
+   * @returns Directives
+   */
+  static parseModFile(content: string): GoModFile {
+    const modFile: GoModFile = { require: [], replace: [], exclude: [] };
+    let block: string | null = null;
+
+    for (const line of content.split('\n')) {
+      const indirect = /\/\/\s*indirect\b/.test(line);
+      const trimmed = line.replace(/\/\/.*$/, '').trim();
 
       // Skip comments and empty lines
-      if (!trimmed || trimmed.startsWith('//')) {
+      if (!trimmed) {
         continue;
       }
 
-      // Parse require directive
-      if (trimmed.startsWith('require ')) {
-        const dep = this.parseRequireLine(trimmed);
-        if (dep) {
-          dependencies.push(dep);
-        }
+      // Directive blocks: require ( ... ), replace ( ... ), exclude ( ... )
+      const blockStart = trimmed.match(/^(\w+)\s*\($/);
+      if (blockStart) {
+        block = blockStart[1];
+        continue;
+      }
+      if (block !== null && trimmed === ')') {
+        block = null;
+        continue;
       }
 
-      // Handle replace directives (modify existing dependencies)
-      if (trimmed.startsWith('replace ')) {
-        const replaceMatch = trimmed.match(/replace\s+([^\s]+)\s+=>\s+([^\s]+)(?:\s+([^\s]+))?/);
-        if (replaceMatch) {
-          const oldPath = replaceMatch[1];
-          const newPath = replaceMatch[2];
-          const version = replaceMatch[3];
-
-          // Find and update the dependency
-          const depIndex = dependencies.findIndex(d => d.name === oldPath);
-          if (depIndex !== -1) {
-            dependencies[depIndex] = {
-              ...dependencies[depIndex],
-              name: newPath,
-              source: newPath.startsWith('./') || newPath.startsWith('../') ? 'path' : 'registry',
-              sourceUrl: newPath,
-              version: version,
-              versionConstraint: version ? `==${version}` : undefined
-            };
+      const tokens = this.tokenize(block !== null ? `${block} ${trimmed}` : trimmed);
+      const [directive, ...args] = tokens;
+      switch (directive) {
+        case 'module':
+          modFile.module = args[0];
+          break;
+        case 'go':
+          modFile.go = args[0];
+          break;
+        case 'require':
+          if (args.length >= 2) {
+            modFile.require.push({ path: args[0], version: args[1], indirect });
+          }
+          break;
+        case 'exclude':
+          if (args.length >= 2) {
+            modFile.exclude.push({ path: args[0], version: args[1] });
+          }
+          break;
+        case 'replace': {
+          // replace old [version] => new [version]
+          const arrow = args.indexOf('=>');
+          if (arrow === 1 || arrow === 2) {
+            modFile.replace.push({
+              old: { path: args[0], ...(arrow === 2 && { version: args[1] }) },
+              new: { path: args[arrow + 1], ...(args[arrow + 2] && { version: args[arrow + 2] }) }
+            });
           }
+          break;
         }
       }
     }
 
-    return dependencies;
+    return modFile;
   }
 
   /**
-   * Parse a require directive line
-   * @param line Line content
-   * @returns Dependency or null
+   * Check whether a replacement is a local directory rather than a module
+   * @param modulePath Replacement path
+   * @returns True for relative and absolute directory paths
    */
-  private static parseRequireLine(line: string): Dependency | null {
-    // Format: require module/path v1.2.3
-    // or: require ( multi-line )
-    const requireMatch = line.match(/require\s+([^\s]+)(?:\s+([^\s]+))?/);
-    if (!requireMatch) {
-      return null;
-    }
-
-    const modulePath = requireMatch[1];
-    const version = requireMatch[2];
-
-    // Handle version suffixes: v1.2.3+incompatible, v0.0.0-20210101000000-abcdef123456
-    let cleanVersion = version;
-    if (version) {
-      cleanVersion = version.split('+')[0].split('-')[0];
-    }
+  static isLocalPath(modulePath: string): boolean {
+    return /^(?:\.{1,2}\/|\/|[A-Za-z]:[\\/])/.test(modulePath);
+  }
 
-    return {
-      name: modulePath,
-      version: cleanVersion,
-      versionConstraint: version ? `==${version}` : undefined,
-      type: 'runtime',
-      source: 'registry'
-    };
+  /**
+   * Split a directive into tokens, unquoting quoted module paths
+   * @param line Directive without comments
+   * @returns Tokens
+   */
+  private static tokenize(line: string): string[] {
+    return (line.match(/"(?:[^"\\]|\\.)*"|`[^`]*`|\S+/g) || [])
+      .map(token => /^["`]/.test(token) ? token.slice(1, -1) : token);
   }
 }
-
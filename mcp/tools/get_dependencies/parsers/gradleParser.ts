@@ -4,6 +4,7 @@
 
 import { Dependency } from '../types.js';
 import { FileUtils } from '../utils/fileUtils.js';
+import { MavenVersion } from '../../../utils/versioning/mavenVersion.js';
 
 /**
  * Parse build.gradle file
@@ -103,8 +104,8 @@ export class GradleParser {
 
         return {
           name,
-          version,
-          versionConstraint: version ? `==${version}` : undefined,
+          version: this.exactVersion(version),
+          versionConstraint: version,
           type: isTest ? 'development' : 'runtime',
           source: 'registry'
         };
@@ -124,8 +125,8 @@ export class GradleParser {
 
       return {
         name,
-        version,
-        versionConstraint: version ? `==${version}` : undefined,
+        version: this.exactVersion(version),
+        versionConstraint: version,
         type: isTest ? 'development' : 'runtime',
         source: 'registry'
       };
@@ -133,5 +134,15 @@ export class GradleParser {
 
     return null;
   }
-}
 
+  /**
+   * Get the version a requirement pins
+   * Maven ranges ("[1.0,2.0)") and Gradle dynamic versions ("1.+", "latest.release") pin nothing
+   * @param version Version requirement
+   * @returns Exact version or undefined
+   */
+  private static exactVersion(version: string | undefined): string | undefined {
+    if (!version || version.includes('+') || version.startsWith('latest.')) return undefined;
+    return MavenVersion.exactVersion(version) ?? undefined;
+  }
+}
@@ -5,6 +5,7 @@
 import { Dependency } from '../types.js';
 import { readJsonFile } from '../../../utils/fileSystem.js';
 import { FileUtils } from '../utils/fileUtils.js';
+import { NpmRange } from '../../../utils/versioning/npmRange.js';
 
 /**
  * Parse package.json file
@@ -122,10 +123,12 @@ export class PackageJsonParser {
       };
     }
 
-    // Regular version constraint
+    // Regular semver range or dist-tag (e.g., "latest"); exact ranges also pin the version
+    const exact = NpmRange.exactVersion(version);
     return {
       name: packageName,
       versionConstraint: version,
+      ...(exact && { version: exact }),
       type,
       source: 'registry',
       scope
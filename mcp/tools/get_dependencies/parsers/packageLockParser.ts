@@ -0,0 +1,194 @@
+/**
+ * Parser for package-lock.json and npm-shrinkwrap.json files (npm)
+ */
+
+import { Dependency, LockedRequirement } from '../types.js';
+
+/**
+ * An entry of the "packages" map (v2/v3) or the "dependencies" tree (v1)
+ */
+interface PackageLockEntry {
+  name?: string;
+  version?: string;
+  resolved?: string;
+  integrity?: string;
+  link?: boolean;
+  dev?: boolean;
+  optional?: boolean;
+  devOptional?: boolean;
+  peer?: boolean;
+  requires?: Record<string, unknown>;  // Ranges of a v1 entry (its "dependencies" are nested installs)
+  dependencies?: Record<string, unknown>;
+  devDependencies?: Record<string, unknown>;
+  optionalDependencies?: Record<string, unknown>;
+  peerDependencies?: Record<string, unknown>;
+}
+
+interface PackageLockResult {
+  dependencies: Dependency[];
+  devDependencies: Dependency[];
+  peerDependencies: Dependency[];
+  optionalDependencies: Dependency[];
+}
+
+/**
+ * Parse package-lock.json into its install tree
+ * Every installed copy of a package is one dependency with its install path
+ * ("node_modules/a/node_modules/b"). Packages the root or a workspace declares and that
+ * sit in its own node_modules are direct; everything else is transitive
+ */
+export class PackageLockParser {
+  /**
+   * Parse a lockfile
+   * v2 and v3 lockfiles list installs in "packages"; v1 lockfiles nest them in "dependencies"
+   * and do not record what the root declares, so the manifest is used for that
+   * @param lock Parsed lockfile
+   * @param manifest Parsed package.json (only needed for v1 lockfiles)
+   * @returns Installed packages by their dev, peer and optional flags
+   */
+  static parseContent(lock: Record<string, unknown>, manifest?: Record<string, unknown>): PackageLockResult {
+    const result: PackageLockResult = { dependencies: [], devDependencies: [], peerDependencies: [], optionalDependencies: [] };
+
+    if (this.isObject(lock.packages)) {
+      this.parsePackages(lock.packages, result);
+    } else if (this.isObject(lock.dependencies)) {
+      const declared = new Set(manifest ? this.declaredNames(manifest as PackageLockEntry) : []);
+      this.parseDependencyTree(lock.dependencies, '', declared, result);
+    }
+
+    return result;
+  }
+
+  /**
+   * Read the "packages" map (v2/v3)
+   * Keys are install paths; "" is the root package and paths outside node_modules are
+   * workspace folders, whose installs are reached through "link" entries
+   */
+  private static parsePackages(packages: Record<string, unknown>, result: PackageLockResult): void {
+    const entries = Object.entries(packages)
+      .filter((entry): entry is [string, PackageLockEntry] => this.isObject(entry[1]));
+    const folders = new Map(entries.filter(([path]) => !path.includes('node_modules/') && path !== 'node_modules'));
+
+    for (const [path, entry] of entries) {
+      const nameStart = path.lastIndexOf('node_modules/');
+      if (nameStart === -1) continue;
+
+      const folder = nameStart === 0 ? '' : path.slice(0, nameStart - 1);
+      const installName = path.slice(nameStart + 'node_modules/'.length);
+      const owner = folders.get(folder);
+      const direct = owner !== undefined && this.declaredNames(owner).includes(installName);
+
+      if (entry.link) {
+        const target = entry.resolved !== undefined ? folders.get(entry.resolved) : undefined;
+        this.add(result, {
+          ...this.toDependency(target?.name ?? installName, path, { ...target, ...entry, resolved: undefined }, direct),
+          source: 'local',
+          ...(entry.resolved && { sourceUrl: entry.resolved })
+        }, entry);
+      } else {
+        this.add(result, {
+          ...this.toDependency(entry.name ?? installName, path, entry, direct),
+          ...this.requirements({ ...entry.dependencies, ...entry.optionalDependencies }, entry.peerDependencies)
+        }, entry);
+      }
+    }
+  }
+
+  /**
+   * Read the nested "dependencies" tree (v1)
+   * @param tree Dependencies of one level
+   * @param parentPath Install path of the package that holds this level ("" for the root)
+   * @param declared Names the root declares (only used on the first level)
+   * @param result Lists being filled
+   */
+  private static parseDependencyTree(
+    tree: Record<string, unknown>,
+    parentPath: string,
+    declared: Set<string>,
+    result: PackageLockResult
+  ): void {
+    for (const [name, value] of Object.entries(tree)) {
+      if (!this.isObject(value)) continue;
+      const entry = value as PackageLockEntry;
+      const path = `${parentPath ? `${parentPath}/` : ''}node_modules/${name}`;
+      const direct = parentPath === '' && declared.has(name);
+
+      // v1 records links (and other local installs) as "file:" versions
+      if (entry.version?.startsWith('file:')) {
+        this.add(result, {
+          ...this.toDependency(name, path, { ...entry, version: undefined, resolved: undefined }, direct),
+          source: 'local',
+          sourceUrl: entry.version.slice('file:'.length)
+        }, entry);
+      } else {
+        this.add(result, { ...this.toDependency(name, path, entry, direct), ...this.requirements(entry.requires) }, entry);
+      }
+
+      if (this.isObject(entry.dependencies)) {
+        this.parseDependencyTree(entry.dependencies, path, declared, result);
+      }
+    }
+  }
+
+  /**
+   * Build a dependency from an install entry
+   * @param name Package name
+   * @param installPath Install path
+   * @param entry Lockfile entry
+   * @param direct Whether the owning package declares it
+   */
+  private static toDependency(name: string, installPath: string, entry: PackageLockEntry, direct: boolean): Dependency {
+    const scope = name.match(/^@([^/]+)\/(.+)$/);
+    const resolved = entry.resolved;
+    return {
+      name: scope ? scope[2] : name,
+      ...(entry.version && { version: entry.version, versionConstraint: entry.version }),
+      type: entry.dev ? 'development' : entry.peer ? 'peer' : entry.optional || entry.devOptional ? 'optional' : 'runtime',
+      source: !resolved ? 'registry' : /^git(\+|:)/.test(resolved) ? 'git' : resolved.startsWith('file:') ? 'path' : 'registry',
+      ...(resolved && { sourceUrl: resolved }),
+      ...(scope && { scope: scope[1] }),
+      ...(entry.integrity && { hashes: [entry.integrity] }),
+      installPath,
+      direct
+    };
+  }
+
+  /**
+   * What an install requires of other packages
+   * @param ranges Ranges by package name
+   * @param peerRanges Peer dependency ranges by package name
+   */
+  private static requirements(ranges: Record<string, unknown> = {}, peerRanges: Record<string, unknown> = {}): Pick<Dependency, 'requires'> {
+    const requires: LockedRequirement[] = [
+      ...Object.entries(ranges).map(([name, range]) => ({ name, constraint: String(range) })),
+      ...Object.entries(peerRanges).map(([name, range]) => ({ name, constraint: String(range), peer: true }))
+    ];
+    return requires.length > 0 ? { requires } : {};
+  }
+
+  /**
+   * Add a dependency to the list for its flags
+   */
+  private static add(result: PackageLockResult, dep: Dependency, entry: PackageLockEntry): void {
+    if (entry.dev) result.devDependencies.push(dep);
+    else if (entry.peer) result.peerDependencies.push(dep);
+    else if (entry.optional || entry.devOptional) result.optionalDependencies.push(dep);
+    else result.dependencies.push(dep);
+  }
+
+  /**
+   * Names a package declares in any of its dependency maps
+   */
+  private static declaredNames(pkg: PackageLockEntry): string[] {
+    return [pkg.dependencies, pkg.devDependencies, pkg.optionalDependencies, pkg.peerDependencies]
+      .filter(map => this.isObject(map))
+      .flatMap(map => Object.keys(map!));
+  }
+
+  /**
+   * Check whether a JSON value is an object
+   */
+  private static isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
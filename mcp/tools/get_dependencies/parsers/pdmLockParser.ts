@@ -0,0 +1,108 @@
+/**
+ * Parser for pdm.lock files (PDM)
+ */
+
+import { Dependency, LockedRequirement } from '../types.js';
+import { RequirementsParser } from './requirementsParser.js';
+import { Pep440 } from '../../../utils/versioning/pep440.js';
+import { Toml, TomlTable } from '../../../utils/toml.js';
+
+/**
+ * Parse pdm.lock file
+ * Every [[package]] is a resolved version and lists the groups that need it
+ * ("default" is the runtime group); lockfiles before lock_version 4.4 call them sections.
+ * Its dependencies are PEP 508 requirement strings; a package locked with extras is
+ * listed again with an extras array and the requirements those extras add
+ */
+export class PdmLockParser {
+  /**
+   * Parse pdm.lock content
+   * @param content File content
+   * @returns Locked runtime and development dependencies
+   * @throws TomlError if the content is not valid TOML
+   */
+  static parseContent(content: string): { dependencies: Dependency[]; devDependencies: Dependency[] } {
+    const lock = Toml.parse(content);
+    const packages = (Array.isArray(lock.package) ? lock.package : []).filter(Toml.isTable);
+    const legacyFiles = Toml.table(lock, ['metadata', 'files']) || {};
+    const dependencies: Dependency[] = [];
+    const devDependencies: Dependency[] = [];
+
+    for (const pkg of packages) {
+      if (typeof pkg.name !== 'string') continue;
+
+      const groups = [pkg.groups, pkg.sections]
+        .filter(Array.isArray)
+        .flat()
+        .filter((group): group is string => typeof group === 'string');
+      const dep = { ...this.lockedDependency(pkg, legacyFiles), ...this.requirements(pkg) };
+      if (groups.length === 0 || groups.includes('default')) {
+        dependencies.push({ ...dep, type: 'runtime' });
+      } else {
+        devDependencies.push({ ...dep, type: 'development', group: groups[0] });
+      }
+    }
+
+    return { dependencies, devDependencies };
+  }
+
+  /**
+   * Build a dependency from a [[package]] entry
+   * Files are listed in the package's files array, or under [metadata.files] keyed by
+   * "name version" in older lockfiles
+   * @param pkg Package table
+   * @param legacyFiles [metadata.files] table
+   * @returns Dependency without its type
+   */
+  private static lockedDependency(pkg: TomlTable, legacyFiles: TomlTable): Omit<Dependency, 'type'> {
+    const version = typeof pkg.version === 'string' ? pkg.version : undefined;
+    const listed = Array.isArray(pkg.files) ? pkg.files : legacyFiles[`${pkg.name} ${version}`];
+    const files = (Array.isArray(listed) ? listed : []).filter(Toml.isTable);
+    const hashes = files.map(file => file.hash).filter((hash): hash is string => typeof hash === 'string');
+    const wheels = files
+      .map(file => file.file ?? file.url)
+      .filter((file): file is string => typeof file === 'string' && file.endsWith('.whl'))
+      .map(file => file.slice(file.lastIndexOf('/') + 1));
+
+    return {
+      name: String(pkg.name),
+      ...(version && { version, versionConstraint: `==${version}` }),
+      ...this.source(pkg),
+      ...(typeof pkg.marker === 'string' && pkg.marker && { markers: pkg.marker }),
+      ...(hashes.length > 0 && { hashes }),
+      ...(wheels.length > 0 && { wheels })
+    };
+  }
+
+  /**
+   * Requirements of a [[package]] entry
+   * An entry with extras requires its own base package, which is left out; the rest is
+   * only needed by those extras
+   * @param pkg Package table
+   */
+  private static requirements(pkg: TomlTable): Pick<Dependency, 'requires'> {
+    const lines = (Array.isArray(pkg.dependencies) ? pkg.dependencies : []).filter((line): line is string => typeof line === 'string');
+    const forExtras = (Array.isArray(pkg.extras) ? pkg.extras : []).filter((extra): extra is string => typeof extra === 'string');
+    const requires: LockedRequirement[] = RequirementsParser.parse(lines.join('\n'))
+      .filter(dep => forExtras.length === 0 || Pep440.normalizeName(dep.name) !== Pep440.normalizeName(String(pkg.name)))
+      .map(dep => ({
+        name: dep.name,
+        constraint: dep.versionConstraint || '',
+        ...(dep.extras && { extras: dep.extras }),
+        ...(forExtras.length > 0 && { forExtras })
+      }));
+    return requires.length > 0 ? { requires } : {};
+  }
+
+  /**
+   * Source of a locked package (git, path and url keys sit on the package itself)
+   * @param pkg Package table
+   * @returns Source type and location
+   */
+  private static source(pkg: TomlTable): Pick<Dependency, 'source' | 'sourceUrl'> {
+    if (typeof pkg.git === 'string') return { source: 'git', sourceUrl: pkg.git };
+    if (typeof pkg.path === 'string') return { source: 'path', sourceUrl: pkg.path };
+    if (typeof pkg.url === 'string') return { source: 'url', sourceUrl: pkg.url };
+    return { source: 'registry' };
+  }
+}
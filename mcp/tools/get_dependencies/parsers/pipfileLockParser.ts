@@ -0,0 +1,74 @@
+/**
+ * Parser for Pipfile.lock files (Pipenv)
+ */
+
+import { Dependency } from '../types.js';
+
+/**
+ * A package entry of Pipfile.lock (versions are written as "==1.2.3")
+ */
+interface PipfileEntry {
+  version?: string;
+  git?: string;
+  ref?: string;
+  path?: string;
+  extras?: string[];
+  markers?: string;
+  hashes?: string[];
+}
+
+/**
+ * Parse Pipfile.lock
+ * "default" holds the resolved runtime packages and "develop" the development ones.
+ * Only pins are recorded: the lockfile lists no dependency edges
+ */
+export class PipfileLockParser {
+  /**
+   * Parse a lockfile
+   * Entries without a version (git and path checkouts) are left out
+   * @param lock Parsed lockfile
+   * @returns Locked runtime and development dependencies
+   */
+  static parseContent(lock: Record<string, unknown>): { dependencies: Dependency[]; devDependencies: Dependency[] } {
+    return {
+      dependencies: this.section(lock.default, 'runtime'),
+      devDependencies: this.section(lock.develop, 'development')
+    };
+  }
+
+  /**
+   * Locked packages of the "default" or "develop" section
+   */
+  private static section(section: unknown, type: Dependency['type']): Dependency[] {
+    const dependencies: Dependency[] = [];
+    for (const [name, info] of Object.entries(this.isEntry(section) ? section : {})) {
+      if (this.isEntry(info) && typeof info.version === 'string') {
+        dependencies.push({ ...this.lockedDependency(name, info.version, info), type });
+      }
+    }
+    return dependencies;
+  }
+
+  /**
+   * Build a dependency from a Pipfile.lock entry; markers, extras and hashes are kept
+   */
+  private static lockedDependency(name: string, pinned: string, info: PipfileEntry): Omit<Dependency, 'type'> {
+    const version = pinned.replace(/^==/, '');
+    return {
+      name,
+      version,
+      versionConstraint: `==${version}`,
+      source: 'registry',
+      ...(Array.isArray(info.extras) && info.extras.length > 0 && { extras: info.extras }),
+      ...(typeof info.markers === 'string' && info.markers && { markers: info.markers }),
+      ...(Array.isArray(info.hashes) && info.hashes.length > 0 && { hashes: info.hashes })
+    };
+  }
+
+  /**
+   * Check whether a Pipfile.lock value is an object (a section or a package entry)
+   */
+  private static isEntry(info: unknown): info is PipfileEntry & Record<string, unknown> {
+    return typeof info === 'object' && info !== null && !Array.isArray(info);
+  }
+}
@@ -0,0 +1,417 @@
+/**
+ * Parser for pnpm-lock.yaml files (pnpm)
+ */
+
+import * as path from 'path';
+import { Dependency, LockedRequirement } from '../types.js';
+import { Yaml, YamlMapping } from '../../../utils/yaml.js';
+
+/**
+ * Packages one workspace package (importer) depends on
+ */
+export interface PnpmImporter {
+  dependencies: Dependency[];
+  devDependencies: Dependency[];
+  optionalDependencies: Dependency[];
+}
+
+export interface PnpmLockResult {
+  lockfileVersion?: string;
+  importers: Record<string, PnpmImporter>;  // Keyed by workspace folder ("." is the root)
+  dependencies: Dependency[];
+  devDependencies: Dependency[];
+  optionalDependencies: Dependency[];
+}
+
+const IMPORTER_FIELDS = [
+  ['dependencies', 'runtime'],
+  ['devDependencies', 'development'],
+  ['optionalDependencies', 'optional']
+] as const;
+
+/**
+ * Parse pnpm-lock.yaml (lockfile v5, v6 and v9)
+ * Importers declare each workspace package's dependencies with their specifier and resolved
+ * version; the resolved graph is "packages" (v5, v6) or "snapshots" with metadata in "packages" (v9).
+ * Graph keys and versions carry the peers a package was resolved against as a suffix:
+ * "react-dom@18.2.0(react@18.2.0)" is react-dom 18.2.0 with peers ["react@18.2.0"]
+ * (v5 writes "/react-dom/18.2.0_react@18.2.0", which is read in the later form)
+ */
+export class PnpmLockParser {
+  /**
+   * Parse a lockfile
+   * Every package of the graph is reported once. It is direct when an importer declares it
+   * (workspaces lists which), and a development dependency when only devDependencies reach it.
+   * Each importer also gets the packages it reaches, typed from its own dependencies, with
+   * the specifiers it declares its direct ones with as constraints
+   * @param content File content
+   * @returns The resolved packages by importer and by type
+   * @throws YamlError if the content is not valid YAML
+   */
+  static parseContent(content: string): PnpmLockResult {
+    const result: PnpmLockResult = { importers: {}, dependencies: [], devDependencies: [], optionalDependencies: [] };
+    const parsed = Yaml.parse(content);
+    if (!Yaml.isMapping(parsed)) {
+      return result;
+    }
+    if (typeof parsed.lockfileVersion === 'string') {
+      result.lockfileVersion = parsed.lockfileVersion;
+    }
+    const lock = Number.parseFloat(result.lockfileVersion ?? '') < 6 ? this.fromV5Lock(parsed) : parsed;
+
+    const packages = this.byKey(Yaml.mapping(lock, ['packages']));
+    const snapshots = lock.snapshots !== undefined ? this.byKey(Yaml.mapping(lock, ['snapshots'])) : packages;
+
+    // Graph keys each importer references, and the ones production dependencies start from
+    const declaredBy = new Map<string, string[]>();
+    const production: string[] = [];
+    const links = new Map<string, Dependency>();
+
+    // Lockfiles of single-package projects before v9 declare the root's dependencies at the top level
+    for (const [folder, importer] of Object.entries(Yaml.mapping(lock, ['importers']) ?? { '.': lock })) {
+      if (!Yaml.isMapping(importer)) continue;
+      const specifiers = Yaml.mapping(importer, ['specifiers']);
+      const declared = new Map<string, Pick<Dependency, 'workspaces' | 'constraints'>>();
+      const importerProduction: string[] = [];
+      const importerLinks: Dependency[] = [];
+
+      for (const [field, type] of IMPORTER_FIELDS) {
+        for (const [name, value] of Object.entries(Yaml.mapping(importer, [field]) ?? {})) {
+          // { specifier, version } since v6; earlier lockfiles list specifiers separately
+          const reference = Yaml.isMapping(value) ? value.version : value;
+          const specifier = Yaml.isMapping(value) ? value.specifier : specifiers?.[name];
+          if (typeof reference !== 'string') continue;
+
+          const dep = this.importerDependency(name, reference, typeof specifier === 'string' ? specifier : undefined, type, folder);
+          if (dep.source === 'local' && dep.sourceUrl !== undefined) {
+            // Workspace packages are not in the graph; each is reported once
+            const local: Dependency = { ...this.splitName(name), type, source: 'local', sourceUrl: dep.sourceUrl, workspaces: [folder] };
+            const link = links.get(dep.sourceUrl);
+            links.set(dep.sourceUrl, link ? { ...link, workspaces: [...link.workspaces!, folder] } : local);
+            importerLinks.push({ ...local, direct: true });
+            continue;
+          }
+
+          const key = this.resolveKey(name, reference, snapshots);
+          if (key === undefined) continue;
+          declaredBy.set(key, [...(declaredBy.get(key) ?? []), folder]);
+          const constraints = declared.get(key)?.constraints ?? [];
+          if (dep.versionConstraint && !constraints.includes(dep.versionConstraint)) {
+            constraints.push(dep.versionConstraint);
+          }
+          declared.set(key, { workspaces: [folder], ...(constraints.length > 0 && { constraints }) });
+          if (type !== 'development') {
+            production.push(key);
+            importerProduction.push(key);
+          }
+        }
+      }
+
+      const reached = this.reachable([...declared.keys()], snapshots);
+      const packagesOf: PnpmImporter = { dependencies: [], devDependencies: [], optionalDependencies: [] };
+      this.addPackages(packagesOf, [...snapshots.keys()].filter(key => reached.has(key)), declared, importerProduction, snapshots, packages);
+      importerLinks.forEach(link => this.add(packagesOf, link));
+      result.importers[folder] = packagesOf;
+    }
+
+    const workspacesOf = new Map([...declaredBy].map(([key, workspaces]) => [key, { workspaces }]));
+    this.addPackages(result, snapshots.keys(), workspacesOf, production, snapshots, packages);
+    for (const link of links.values()) {
+      this.add(result, { ...link, direct: true });
+    }
+
+    return result;
+  }
+
+  /**
+   * Split a graph key or version reference into its version and the peers it was resolved against
+   * Peers can have peers of their own ("(react-dom@18.2.0(react@18.2.0))"); those are not repeated
+   * @param reference e.g. "18.2.0(react-dom@18.2.0(react@18.2.0))(react@18.2.0)"
+   * @returns The reference without its suffix, and the peers ("react-dom@18.2.0", "react@18.2.0")
+   */
+  static decodePeers(reference: string): { base: string; peers: string[] } {
+    const start = reference.indexOf('(');
+    if (start === -1) {
+      return { base: reference, peers: [] };
+    }
+
+    const peers: string[] = [];
+    let depth = 0;
+    let peerStart = start;
+    for (let i = start; i < reference.length; i++) {
+      if (reference[i] === '(') {
+        if (depth === 0) peerStart = i + 1;
+        depth++;
+      } else if (reference[i] === ')') {
+        depth--;
+        if (depth === 0) peers.push(this.stripPeers(reference.slice(peerStart, i)));
+      }
+    }
+    return { base: reference.slice(0, start), peers };
+  }
+
+  /**
+   * Build a dependency an importer declares
+   * "link:" versions point at another workspace folder, relative to the importer
+   */
+  private static importerDependency(
+    name: string,
+    reference: string,
+    specifier: string | undefined,
+    type: Dependency['type'],
+    folder: string
+  ): Dependency {
+    const { base, peers } = this.decodePeers(reference);
+    const dep: Dependency = {
+      ...this.splitName(name),
+      ...(specifier && { versionConstraint: specifier }),
+      type,
+      source: 'registry',
+      direct: true
+    };
+
+    if (base.startsWith('link:')) {
+      return { ...dep, source: 'local', sourceUrl: path.posix.join(folder, base.slice('link:'.length)) };
+    }
+    if (base.startsWith('file:')) {
+      return { ...dep, source: 'path', sourceUrl: base.slice('file:'.length) };
+    }
+
+    // npm aliases resolve to "/real-name@version" (v6) or "real-name@version" (v9)
+    const at = base.indexOf('@', 1);
+    const version = at === -1 ? base : base.slice(at + 1);
+    return { ...dep, ...(version && { version }), ...(peers.length > 0 && { peers }) };
+  }
+
+  /**
+   * Add graph packages, typed by whether production dependencies reach them
+   * @param target Lists to add to
+   * @param keys Graph keys to report
+   * @param declared Fields for the keys an importer declares (which makes them direct)
+   * @param production Graph keys the production dependencies start from
+   * @param snapshots Resolved graph
+   * @param packages Package metadata (the graph itself before v9)
+   */
+  private static addPackages(
+    target: PnpmImporter,
+    keys: Iterable<string>,
+    declared: Map<string, Partial<Dependency>>,
+    production: string[],
+    snapshots: Map<string, YamlMapping>,
+    packages: Map<string, YamlMapping>
+  ): void {
+    const reachable = this.reachable(production, snapshots);
+    for (const key of keys) {
+      const snapshot = snapshots.get(key);
+      if (!snapshot) continue;
+      const metadata = packages.get(this.stripPeers(key)) ?? snapshot;
+      const dep = this.graphDependency(key, metadata);
+      if (!dep) continue;
+
+      const type = !reachable.has(key) ? 'development' : snapshot.optional === true ? 'optional' : 'runtime';
+      this.add(target, {
+        ...dep,
+        type,
+        direct: declared.has(key),
+        ...declared.get(key),
+        ...this.requirements(snapshot, metadata)
+      });
+    }
+  }
+
+  /**
+   * Build a dependency from a graph entry
+   * @param key Graph key ("react-dom@18.2.0(react@18.2.0)")
+   * @param metadata Package metadata (the graph entry itself for v6 lockfiles)
+   * @returns The dependency as a runtime one, or undefined if the key names no package
+   */
+  private static graphDependency(key: string, metadata: YamlMapping): Dependency | undefined {
+    const { base, peers } = this.decodePeers(key);
+    const at = base.indexOf('@', 1);
+    // Packages from git or a tarball have their name and version as fields
+    const name = typeof metadata.name === 'string' ? metadata.name : at === -1 ? undefined : base.slice(0, at);
+    const version = typeof metadata.version === 'string' ? metadata.version : at === -1 ? undefined : base.slice(at + 1);
+    if (!name) {
+      return undefined;
+    }
+
+    const resolution = Yaml.mapping(metadata, ['resolution']) ?? {};
+    const integrity = typeof resolution.integrity === 'string' ? resolution.integrity : undefined;
+    return {
+      ...this.splitName(name),
+      ...(version && { version, versionConstraint: version }),
+      type: 'runtime',
+      ...this.resolutionSource(resolution),
+      ...(integrity && { hashes: [integrity] }),
+      ...(peers.length > 0 && { peers })
+    };
+  }
+
+  /**
+   * What a graph entry requires: the versions its dependencies resolved to, and the
+   * ranges of its peer dependencies
+   * @param snapshot Graph entry
+   * @param metadata Package metadata (the graph entry itself before v9)
+   */
+  private static requirements(snapshot: YamlMapping, metadata: YamlMapping): Pick<Dependency, 'requires'> {
+    const requires: LockedRequirement[] = [];
+    for (const field of ['dependencies', 'optionalDependencies']) {
+      for (const [name, reference] of Object.entries(Yaml.mapping(snapshot, [field]) ?? {})) {
+        if (typeof reference !== 'string') continue;
+        // Aliases resolve to "real-name@version"; links, files and git checkouts allow any version
+        const { base } = this.decodePeers(reference.replace(/^\//, ''));
+        const at = base.indexOf('@', 1);
+        const [dependency, version] = at === -1 ? [name, base] : [base.slice(0, at), base.slice(at + 1)];
+        requires.push({ name: dependency, constraint: /^\d/.test(version) ? version : '' });
+      }
+    }
+    for (const [name, range] of Object.entries(Yaml.mapping(metadata, ['peerDependencies']) ?? {})) {
+      if (typeof range === 'string') {
+        requires.push({ name, constraint: range, peer: true });
+      }
+    }
+    return requires.length > 0 ? { requires } : {};
+  }
+
+  /**
+   * Source type and location of a package resolution ({ integrity }, { tarball },
+   * { type: git, repo, commit } or { type: directory, directory })
+   */
+  private static resolutionSource(resolution: YamlMapping): Pick<Dependency, 'source' | 'sourceUrl'> {
+    if (resolution.type === 'git' && typeof resolution.repo === 'string') {
+      const commit = typeof resolution.commit === 'string' ? `#${resolution.commit}` : '';
+      return { source: 'git', sourceUrl: `${resolution.repo}${commit}` };
+    }
+    if (resolution.type === 'directory' && typeof resolution.directory === 'string') {
+      return { source: 'path', sourceUrl: resolution.directory };
+    }
+    if (typeof resolution.tarball === 'string') {
+      return resolution.tarball.startsWith('file:')
+        ? { source: 'path', sourceUrl: resolution.tarball.slice('file:'.length) }
+        : { source: 'url', sourceUrl: resolution.tarball };
+    }
+    return { source: 'registry' };
+  }
+
+  /**
+   * Graph keys reachable from the given keys through dependencies and optionalDependencies
+   */
+  private static reachable(start: string[], snapshots: Map<string, YamlMapping>): Set<string> {
+    const seen = new Set<string>();
+    const queue = [...start];
+    while (queue.length > 0) {
+      const key = queue.pop()!;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const snapshot = snapshots.get(key);
+      for (const field of ['dependencies', 'optionalDependencies']) {
+        for (const [name, reference] of Object.entries(Yaml.mapping(snapshot ?? {}, [field]) ?? {})) {
+          const child = typeof reference === 'string' ? this.resolveKey(name, reference, snapshots) : undefined;
+          if (child !== undefined) queue.push(child);
+        }
+      }
+    }
+    return seen;
+  }
+
+  /**
+   * Graph key a dependency reference resolves to
+   * References are a version ("18.2.0(react@18.2.0)"), an alias ("string-width@4.2.3"),
+   * or a full v6 key ("/string-width@4.2.3")
+   */
+  private static resolveKey(name: string, reference: string, snapshots: Map<string, YamlMapping>): string | undefined {
+    const candidates = [`${name}@${reference}`, reference.replace(/^\//, '')];
+    return candidates.find(candidate => snapshots.has(candidate));
+  }
+
+  /**
+   * Rewrite a lockfile before v6 in the form of v6: graph keys and the version references of
+   * importers and packages are rewritten with fromV5
+   */
+  private static fromV5Lock(lock: YamlMapping): YamlMapping {
+    const withReferences = (entry: YamlMapping): YamlMapping => {
+      const rewritten: YamlMapping = { ...entry };
+      for (const [field] of IMPORTER_FIELDS) {
+        const references = Yaml.mapping(entry, [field]);
+        if (references) {
+          rewritten[field] = Object.fromEntries(Object.entries(references)
+            .map(([name, reference]) => [name, typeof reference === 'string' ? this.fromV5(reference) : reference]));
+        }
+      }
+      return rewritten;
+    };
+    const rewrite = (section: YamlMapping, key: (key: string) => string): YamlMapping =>
+      Object.fromEntries(Object.entries(section).map(([k, entry]) => [key(k), Yaml.isMapping(entry) ? withReferences(entry) : entry]));
+
+    const importers = Yaml.mapping(lock, ['importers']);
+    return {
+      ...withReferences(lock),
+      packages: rewrite(Yaml.mapping(lock, ['packages']) ?? {}, key => this.fromV5(key)),
+      ...(importers && { importers: rewrite(importers, folder => folder) })
+    };
+  }
+
+  /**
+   * Rewrite a v5 graph key or version reference in the form of v6
+   * "/react-dom/18.2.0_react@18.2.0" becomes "/react-dom@18.2.0(react@18.2.0)" and
+   * "18.2.0_react@18.2.0" becomes "18.2.0(react@18.2.0)". Peers are joined by "+", which also
+   * stands for the "/" of scoped peer names ("_@types+react@18.2.0"); long peer lists are
+   * replaced by a hash, which is left out. Links and git or tarball keys are kept as written
+   */
+  private static fromV5(reference: string): string {
+    const registryKey = reference.match(/^\/((?:@[^/]+\/)?[^/@]+)\/([^/]+)$/);
+    const version = registryKey ? registryKey[2] : reference;
+    if (!registryKey && !/^\d[^/:]*$/.test(reference)) {
+      return reference;
+    }
+
+    const underscore = version.indexOf('_');
+    const peers: string[] = [];
+    for (const part of underscore === -1 ? [] : version.slice(underscore + 1).split('+')) {
+      const last = peers[peers.length - 1];
+      if (last?.startsWith('@') && last.indexOf('@', 1) === -1) {
+        peers[peers.length - 1] = `${last}/${part}`;
+      } else {
+        peers.push(part);
+      }
+    }
+    const decoded = (underscore === -1 ? version : version.slice(0, underscore)) +
+      peers.filter(peer => peer.indexOf('@', 1) !== -1).map(peer => `(${peer})`).join('');
+    return registryKey ? `/${registryKey[1]}@${decoded}` : decoded;
+  }
+
+  /**
+   * Entries of "packages" or "snapshots" keyed without the leading "/" of v6 keys
+   */
+  private static byKey(section: YamlMapping | undefined): Map<string, YamlMapping> {
+    return new Map(Object.entries(section ?? {})
+      .filter((entry): entry is [string, YamlMapping] => Yaml.isMapping(entry[1]))
+      .map(([key, entry]) => [key.replace(/^\//, ''), entry]));
+  }
+
+  /**
+   * Graph key without its peer suffix
+   */
+  private static stripPeers(key: string): string {
+    const start = key.indexOf('(');
+    return start === -1 ? key : key.slice(0, start);
+  }
+
+  /**
+   * Name and scope of a package name, as package.json entries are stored
+   */
+  private static splitName(name: string): Pick<Dependency, 'name' | 'scope'> {
+    const scope = name.match(/^@([^/]+)\/(.+)$/);
+    return scope ? { name: scope[2], scope: scope[1] } : { name };
+  }
+
+  /**
+   * Add a dependency to the list for its type
+   */
+  private static add(result: PnpmImporter, dep: Dependency): void {
+    if (dep.type === 'development') result.devDependencies.push(dep);
+    else if (dep.type === 'optional') result.optionalDependencies.push(dep);
+    else result.dependencies.push(dep);
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Parser for poetry.lock files (Poetry)
+ */
+
+import { Dependency, LockedRequirement } from '../types.js';
+import { Toml, TomlTable, TomlValue } from '../../../utils/toml.js';
+import { PoetryConstraint } from '../../../utils/versioning/poetryConstraint.js';
+import { Pep440 } from '../../../utils/versioning/pep440.js';
+
+/**
+ * Parse poetry.lock file
+ * Every [[package]] is a resolved version. Older lockfiles mark development packages with
+ * category = "dev" and keep file hashes under [metadata.files]; newer ones list them in
+ * each package's files array. [package.dependencies] holds what each package requires
+ */
+export class PoetryLockParser {
+  /**
+   * Parse poetry.lock content
+   * @param content File content
+   * @returns Locked runtime and development dependencies
+   * @throws TomlError if the content is not valid TOML
+   */
+  static parseContent(content: string): { dependencies: Dependency[]; devDependencies: Dependency[] } {
+    const lock = Toml.parse(content);
+    const packages = (Array.isArray(lock.package) ? lock.package : []).filter(Toml.isTable);
+    const legacyFiles = new Map(Object.entries(Toml.table(lock, ['metadata', 'files']) || {})
+      .map(([name, files]) => [Pep440.normalizeName(name), files]));
+    const dependencies: Dependency[] = [];
+    const devDependencies: Dependency[] = [];
+
+    for (const pkg of packages) {
+      if (typeof pkg.name !== 'string' || typeof pkg.version !== 'string') continue;
+
+      const listed = Array.isArray(pkg.files) && pkg.files.length > 0 ? pkg.files : legacyFiles.get(Pep440.normalizeName(pkg.name));
+      const isDev = pkg.category === 'dev';
+      const dep: Dependency = {
+        name: pkg.name,
+        version: pkg.version,
+        versionConstraint: `==${pkg.version}`,
+        type: isDev ? 'development' : 'runtime',
+        source: 'registry',
+        ...this.hashes(listed),
+        ...this.requirements(Toml.table(pkg, ['dependencies']), Toml.table(pkg, ['extras']))
+      };
+      if (isDev) {
+        devDependencies.push(dep);
+      } else {
+        dependencies.push(dep);
+      }
+    }
+
+    return { dependencies, devDependencies };
+  }
+
+  /**
+   * Hashes of a files array ([{ file = "...", hash = "sha256:..." }, ...])
+   */
+  private static hashes(files: TomlValue | undefined): Pick<Dependency, 'hashes'> {
+    const hashes = (Array.isArray(files) ? files : [])
+      .filter(Toml.isTable)
+      .map(file => file.hash)
+      .filter((hash): hash is string => typeof hash === 'string');
+    return hashes.length > 0 ? { hashes } : {};
+  }
+
+  /**
+   * Requirements of a [package.dependencies] table
+   * Entries are a constraint or a table with a version; lists of marker-specific
+   * constraints are left out, since only one of them applies. Optional entries are
+   * only needed by the extras of [package.extras] that list them
+   * @param table [package.dependencies] table
+   * @param extras [package.extras] table (extra name to requirement strings, e.g., "pysocks (>=1.5.6)")
+   */
+  private static requirements(table: TomlTable | undefined, extras: TomlTable | undefined): Pick<Dependency, 'requires'> {
+    const requires: LockedRequirement[] = [];
+    for (const [name, spec] of Object.entries(table || {})) {
+      const constraint = typeof spec === 'string' ? spec : Toml.isTable(spec) ? spec.version : undefined;
+      if (typeof constraint !== 'string') continue;
+
+      const requested = Toml.isTable(spec) && Array.isArray(spec.extras)
+        ? spec.extras.filter((extra): extra is string => typeof extra === 'string')
+        : [];
+      const forExtras = Toml.isTable(spec) && spec.optional === true
+        ? Object.entries(extras || {})
+          .filter(([, listed]) => Array.isArray(listed) && listed.some(entry =>
+            typeof entry === 'string' && Pep440.normalizeName(entry.split(/[\s([;]/)[0]) === Pep440.normalizeName(name)))
+          .map(([extra]) => extra)
+        : undefined;
+      requires.push({
+        name,
+        constraint: PoetryConstraint.toSpecifierSet(constraint) ?? constraint,
+        ...(requested.length > 0 && { extras: requested }),
+        ...(forExtras && { forExtras })
+      });
+    }
+    return requires.length > 0 ? { requires } : {};
+  }
+}
@@ -4,6 +4,7 @@
 
 import { Dependency } from '../types.js';
 import { FileUtils } from '../utils/fileUtils.js';
+import { MavenVersion } from '../../../utils/versioning/mavenVersion.js';
 
 /**
  * Parse pom.xml file
@@ -34,14 +35,14 @@ export class PomParser {
    * @param content File content
    * @returns Array of dependencies
    */
-  private static parseContent(content: string): Dependency[] {
+  static parseContent(content: string): Dependency[] {
     const dependencies: Dependency[] = [];
 
     // Extract properties for variable substitution
     const properties: Record<string, string> = {};
     const propertyMatches = content.matchAll(/<([^>]+)\.version>([^<]+)<\/[^>]+\.version>/g);
     for (const match of propertyMatches) {
-      properties[match[1]] = match[2];
+      properties[`${match[1]}.version`] = match[2];
     }
 
     // Extract dependencies section
@@ -72,10 +73,11 @@ export class PomParser {
         // Maven dependency name is groupId:artifactId
         const name = `${groupId}:${artifactId}`;
 
+        // A plain version or "[1.5]" pins; ranges like "[1.0,2.0)" only constrain
         dependencies.push({
           name,
-          version,
-          versionConstraint: version ? `==${version}` : undefined,
+          version: version ? MavenVersion.exactVersion(version) ?? undefined : undefined,
+          versionConstraint: version,
           type: scope === 'test' ? 'development' : 'runtime',
           source: 'registry'
         });
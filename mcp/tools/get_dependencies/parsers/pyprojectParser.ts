@@ -3,121 +3,262 @@
  */
 
 import { Dependency } from '../types.js';
-import { readJsonFile } from '../../../utils/fileSystem.js';
 import { FileUtils } from '../utils/fileUtils.js';
+import { Toml, TomlTable, TomlValue } from '../../../utils/toml.js';
+import { Pep440 } from '../../../utils/versioning/pep440.js';
+import { PoetryConstraint } from '../../../utils/versioning/poetryConstraint.js';
 
 /**
  * Parse pyproject.toml file
- * Extracts from [project.dependencies] and [project.optional-dependencies]
+ * Extracts dependencies and optional-dependencies from the [project] table, PEP 735
+ * [dependency-groups], uv's and PDM's dev-dependencies, Hatch environments, and
+ * Poetry's [tool.poetry.dependencies], dependency groups and dev-dependencies
  */
 export class PyprojectParser {
   /**
    * Parse pyproject.toml file
    * @param filePath Path to pyproject.toml
-   * @returns Object with dependencies and optional dependencies
+   * @returns Object with runtime, development (grouped) and optional dependencies
    */
   static async parse(filePath: string): Promise<{
     dependencies: Dependency[];
+    devDependencies: Dependency[];
     optionalDependencies: Record<string, Dependency[]>;
   }> {
-    try {
-      // Note: pyproject.toml is TOML format, not JSON
-      // For now, we'll read as text and parse manually
-      // In production, use a TOML parser library
-      const content = await FileUtils.safeReadFile(filePath);
-      if (!content) {
-        return { dependencies: [], optionalDependencies: {} };
-      }
-
-      return this.parseContent(content);
-    } catch (error) {
-      console.error(`Error parsing pyproject.toml: ${error}`);
-      return { dependencies: [], optionalDependencies: {} };
+    const content = await FileUtils.safeReadFile(filePath);
+    if (!content) {
+      return { dependencies: [], devDependencies: [], optionalDependencies: {} };
     }
+
+    // TOML errors propagate so the caller can report their line and column
+    return this.parseContent(content);
   }
 
   /**
    * Parse pyproject.toml content
+   * Every development and optional dependency carries the name of its group or extra
    * @param content File content
    * @returns Parsed dependencies
+   * @throws TomlError if the content is not valid TOML
    */
-  private static parseContent(content: string): {
+  static parseContent(content: string): {
     dependencies: Dependency[];
+    devDependencies: Dependency[];
     optionalDependencies: Record<string, Dependency[]>;
   } {
-    const dependencies: Dependency[] = [];
+    const manifest = Toml.parse(content);
+    const project = Toml.table(manifest, ['project']) || {};
+    const dependencies = this.parseRequirements(project.dependencies);
+    const devDependencies: Dependency[] = [];
     const optionalDependencies: Record<string, Dependency[]> = {};
 
-    let inProjectSection = false;
-    let inDependencies = false;
-    let inOptionalDependencies = false;
-    let currentOptionalGroup = '';
+    const optional = Toml.isTable(project['optional-dependencies']) ? project['optional-dependencies'] : {};
+    for (const [group, requirements] of Object.entries(optional)) {
+      optionalDependencies[group] = this.parseRequirements(requirements).map(dep => ({ ...dep, group }));
+    }
 
-    const lines = content.split('\n');
-    
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-
-      // Check for [project] section
-      if (line === '[project]') {
-        inProjectSection = true;
-        inDependencies = false;
-        inOptionalDependencies = false;
-        continue;
-      }
+    const dependencyGroups = Toml.table(manifest, ['dependency-groups']);
+    if (dependencyGroups) {
+      devDependencies.push(...this.parseDependencyGroups(dependencyGroups));
+    }
 
-      // Check for [project.dependencies]
-      if (line === '[project.dependencies]') {
-        inDependencies = true;
-        inOptionalDependencies = false;
-        continue;
-      }
+    // [tool.uv] dev-dependencies predates PEP 735 and is uv's "dev" group
+    const uv = Toml.table(manifest, ['tool', 'uv']) || {};
+    devDependencies.push(...this.parseRequirements(uv['dev-dependencies'])
+      .map(dep => ({ ...dep, type: 'development' as const, group: 'dev' })));
 
-      // Check for [project.optional-dependencies]
-      if (line === '[project.optional-dependencies]') {
-        inDependencies = false;
-        inOptionalDependencies = true;
-        continue;
-      }
+    const pdmGroups = Toml.table(manifest, ['tool', 'pdm', 'dev-dependencies']) || {};
+    for (const [group, requirements] of Object.entries(pdmGroups)) {
+      devDependencies.push(...this.parseRequirements(requirements)
+        .map(dep => ({ ...dep, type: 'development' as const, group })));
+    }
+
+    const hatchEnvs = Toml.table(manifest, ['tool', 'hatch', 'envs']);
+    if (hatchEnvs) {
+      devDependencies.push(...this.parseHatchEnvironments(hatchEnvs));
+    }
 
-      // Check for optional dependency group: [project.optional-dependencies.groupname]
-      const optionalGroupMatch = line.match(/^\[project\.optional-dependencies\.([^\]]+)\]$/);
-      if (optionalGroupMatch) {
-        currentOptionalGroup = optionalGroupMatch[1];
-        if (!optionalDependencies[currentOptionalGroup]) {
-          optionalDependencies[currentOptionalGroup] = [];
+    const poetry = Toml.table(manifest, ['tool', 'poetry']);
+    if (poetry) {
+      // Poetry 2 reads [project] first; [tool.poetry.dependencies] only adds packages it lacks
+      const declared = new Set(dependencies.map(dep => Pep440.normalizeName(dep.name)));
+      const poetryDependencies = this.parsePoetryTable(Toml.table(poetry, ['dependencies']), 'runtime')
+        .filter(dep => !declared.has(Pep440.normalizeName(dep.name)));
+      dependencies.push(...poetryDependencies.filter(dep => dep.type !== 'optional'));
+
+      // Optional packages are installed through the extras that list them
+      const extras = Toml.table(poetry, ['extras']) || {};
+      for (const [extra, packages] of Object.entries(extras)) {
+        const names = new Set((Array.isArray(packages) ? packages : []).map(p => Pep440.normalizeName(String(p))));
+        const members = poetryDependencies.filter(dep => dep.type === 'optional' && names.has(Pep440.normalizeName(dep.name)));
+        if (members.length > 0) {
+          (optionalDependencies[extra] ??= []).push(...members.map(dep => ({ ...dep, group: extra })));
         }
-        continue;
       }
 
-      // Check if we're leaving project section
-      if (line.startsWith('[') && !line.startsWith('[project')) {
-        inProjectSection = false;
-        inDependencies = false;
-        inOptionalDependencies = false;
-        continue;
+      // [tool.poetry.dev-dependencies] is the pre-1.2 spelling of the "dev" group
+      const legacyDev = this.parsePoetryTable(Toml.table(poetry, ['dev-dependencies']), 'development');
+      devDependencies.push(...legacyDev.map(dep => ({ ...dep, group: 'dev' })));
+      for (const group of Object.keys(Toml.table(poetry, ['group']) || {})) {
+        const members = this.parsePoetryTable(Toml.table(poetry, ['group', group, 'dependencies']), 'development');
+        devDependencies.push(...members.map(dep => ({ ...dep, group })));
       }
+    }
 
-      // Parse dependency line
-      if (inDependencies || inOptionalDependencies) {
-        // Skip comments and empty lines
-        if (!line || line.startsWith('#')) {
-          continue;
-        }
+    return { dependencies, devDependencies, optionalDependencies };
+  }
 
-        // Parse dependency: "package==version" or "package>=version"
-        const dep = this.parseDependencyLine(line);
-        if (dep) {
-          if (inDependencies) {
-            dependencies.push(dep);
-          } else if (inOptionalDependencies && currentOptionalGroup) {
-            optionalDependencies[currentOptionalGroup].push(dep);
-          }
-        }
+  /**
+   * Parse PEP 735 dependency groups
+   * A group lists requirements and { include-group = "name" } entries, which pull in
+   * another group's requirements; group names compare in normalized form
+   * @param groups [dependency-groups] table
+   * @returns Development dependencies named after the group that lists (or includes) them
+   * @throws Error on unknown groups and include cycles
+   */
+  private static parseDependencyGroups(groups: TomlTable): Dependency[] {
+    const names = new Map(Object.keys(groups).map(name => [Pep440.normalizeName(name), name]));
+
+    const expand = (name: string, path: string[]): string[] => {
+      const key = Pep440.normalizeName(name);
+      if (path.includes(key)) {
+        throw new Error(`Dependency group include cycle: ${[...path, key].join(' -> ')}`);
+      }
+      const group = names.get(key);
+      const entries = group === undefined ? undefined : groups[group];
+      if (!Array.isArray(entries)) {
+        throw new Error(`Unknown dependency group: ${name}`);
       }
+      return entries.flatMap(entry => {
+        if (typeof entry === 'string') return [entry];
+        const include = Toml.isTable(entry) ? entry['include-group'] : undefined;
+        return typeof include === 'string' ? expand(include, [...path, key]) : [];
+      });
+    };
+
+    return Object.keys(groups).flatMap(group => this.parseRequirements(expand(group, []))
+      .map(dep => ({ ...dep, type: 'development' as const, group })));
+  }
+
+  /**
+   * Parse Hatch environments ([tool.hatch.envs] in pyproject.toml, [envs] in hatch.toml)
+   * An environment inherits dependencies from its template ("default" unless set, none
+   * when detached) until it defines its own, and extra-dependencies add to either
+   * @param envs Environments by name
+   * @returns Development dependencies named after their environment
+   */
+  static parseHatchEnvironments(envs: TomlTable): Dependency[] {
+    const requirements = (name: string, path: string[]): TomlValue[] => {
+      const env = Toml.table(envs, [name]) || {};
+      const template = env.detached === true ? undefined : (typeof env.template === 'string' ? env.template : 'default');
+      const inherited = template && template !== name && !path.includes(template) && Toml.table(envs, [template])
+        ? requirements(template, [...path, name])
+        : [];
+      const own = Array.isArray(env.dependencies) ? env.dependencies : inherited;
+      return [...own, ...(Array.isArray(env['extra-dependencies']) ? env['extra-dependencies'] : [])];
+    };
+
+    return Object.keys(envs).flatMap(env => this.parseRequirements(requirements(env, []))
+      .map(dep => ({ ...dep, type: 'development' as const, group: env })));
+  }
+
+  /**
+   * Parse a Poetry dependency table
+   * @param table [tool.poetry.dependencies] or a group's dependencies
+   * @param type Dependency type of the table's packages
+   * @returns Dependencies ("python" is the interpreter requirement, not a package)
+   */
+  private static parsePoetryTable(table: TomlTable | undefined, type: Dependency['type']): Dependency[] {
+    return Object.entries(table || {})
+      .filter(([name]) => name.toLowerCase() !== 'python')
+      .flatMap(([name, spec]) => (Array.isArray(spec) ? spec : [spec])
+        .map(entry => this.parsePoetryDependency(name, entry, type)))
+      .filter((dep): dep is Dependency => dep !== null);
+  }
+
+  /**
+   * Parse one Poetry dependency
+   * The spec is a constraint ("^2.28") or a table with version, extras, optional,
+   * python, markers, git or path; a list of tables gives one dependency per entry
+   * @param name Package name
+   * @param spec Constraint or table
+   * @param type Dependency type
+   * @returns Dependency or null
+   */
+  private static parsePoetryDependency(name: string, spec: TomlValue, type: Dependency['type']): Dependency | null {
+    if (typeof spec === 'string') {
+      return { name, ...this.poetryVersion(spec), type, source: 'registry' };
     }
+    if (!Toml.isTable(spec)) {
+      return null;
+    }
+
+    const extras = Array.isArray(spec.extras) ? spec.extras.filter((e): e is string => typeof e === 'string') : [];
+    const python = typeof spec.python === 'string' ? this.pythonMarker(spec.python) : '';
+    const marker = typeof spec.markers === 'string' ? spec.markers : '';
+    const markers = python && marker ? `(${python}) and (${marker})` : python || marker;
+    const details = {
+      type: spec.optional === true && type === 'runtime' ? 'optional' as const : type,
+      ...(extras.length > 0 && { extras }),
+      ...(markers && { markers })
+    };
 
-    return { dependencies, optionalDependencies };
+    if (typeof spec.git === 'string') {
+      return { name, source: 'git', sourceUrl: spec.git, ...details };
+    }
+    if (typeof spec.path === 'string') {
+      return { name, source: 'path', sourceUrl: spec.path, ...details };
+    }
+    return {
+      name,
+      ...(typeof spec.version === 'string' && this.poetryVersion(spec.version)),
+      source: 'registry',
+      ...details
+    };
+  }
+
+  /**
+   * Translate a Poetry constraint to a PEP 440 specifier set
+   * @param constraint Poetry constraint (e.g., "^2.28", "~1.4", "*")
+   * @returns Constraint and exact version; unions are kept as written
+   */
+  private static poetryVersion(constraint: string): Pick<Dependency, 'versionConstraint' | 'version'> {
+    const specifiers = PoetryConstraint.toSpecifierSet(constraint);
+    const version = specifiers ? Pep440.exactVersion(specifiers) : null;
+    return {
+      versionConstraint: specifiers === null ? constraint : specifiers || '*',
+      ...(version && { version })
+    };
+  }
+
+  /**
+   * Express a Poetry python constraint as a PEP 508 marker
+   * @param constraint Python constraint (e.g., "^3.8")
+   * @returns Marker (e.g., python_version >= "3.8" and python_version < "4.0")
+   */
+  private static pythonMarker(constraint: string): string {
+    const specifiers = PoetryConstraint.toSpecifierSet(constraint);
+    if (specifiers === null) {
+      return '';
+    }
+    return Pep440.parseSpecifierSet(specifiers)
+      .map(({ operator, version }) => `python_version ${operator} "${version}"`)
+      .join(' and ');
+  }
+
+  /**
+   * Parse an array of PEP 508 requirement strings
+   * @param requirements TOML value (anything but an array of strings yields nothing)
+   * @returns Dependencies
+   */
+  private static parseRequirements(requirements: TomlValue | undefined): Dependency[] {
+    if (!Array.isArray(requirements)) {
+      return [];
+    }
+    return requirements
+      .filter((requirement): requirement is string => typeof requirement === 'string')
+      .map(requirement => this.parseDependencyLine(requirement))
+      .filter((dep): dep is Dependency => dep !== null);
   }
 
   /**
@@ -126,29 +267,41 @@ export class PyprojectParser {
    * @returns Dependency or null
    */
   private static parseDependencyLine(line: string): Dependency | null {
-    // Remove quotes
-    line = line.replace(/^["']|["']$/g, '');
+    // Editable installs in PDM groups: "-e file:///${PROJECT_ROOT}/lib#egg=lib" or "-e ./lib"
+    const editable = line.trim().match(/^-e\s+([^#\s]+)(?:#egg=([^&\s]+))?/);
+    if (editable) {
+      return {
+        name: editable[2] ?? editable[1].replace(/\/+$/, '').split('/').pop()!,
+        type: 'runtime',
+        source: 'path',
+        sourceUrl: editable[1]
+      };
+    }
+
+    // Split off environment markers: package>=1.0; python_version < "3.8"
+    const [requirement, ...markerParts] = line.split(';');
+    const markers = markerParts.join(';').trim() || undefined;
+    line = requirement.trim();
 
     // Handle extras: package[extra1,extra2]
     const extrasMatch = line.match(/^([^\[]+)\[([^\]]+)\]/);
-    const packagePart = extrasMatch ? extrasMatch[1] : line;
+    const packagePart = extrasMatch ? extrasMatch[1] + line.slice(extrasMatch[0].length) : line;
     const extras = extrasMatch ? extrasMatch[2].split(',').map(e => e.trim()) : undefined;
 
-    // Extract version constraint
-    const versionMatch = packagePart.match(/^([^\s=<>!~]+)\s*(==|>=|<=|>|<|!=|~=)\s*(.+)$/);
+    // Extract the PEP 440 specifier set, optionally in parentheses: package (>=1.0,<2)
+    const versionMatch = packagePart.match(/^([^\s=<>!~(]+)\s*\(?\s*((?:===|==|>=|<=|>|<|!=|~=)[^)]*?)\s*\)?$/);
     
     if (versionMatch) {
       const name = versionMatch[1].trim();
-      const operator = versionMatch[2];
-      const version = versionMatch[3].trim();
 
       return {
         name,
-        versionConstraint: `${operator}${version}`,
-        version: operator === '==' ? version : undefined,
+        versionConstraint: Pep440.normalizeSpecifierSet(versionMatch[2]) ?? versionMatch[2],
+        version: Pep440.exactVersion(versionMatch[2]) ?? undefined,
         type: 'runtime',
         source: 'registry',
-        extras
+        extras,
+        ...(markers && { markers })
       };
     }
 
@@ -159,7 +312,8 @@ export class PyprojectParser {
         name: nameMatch[1].trim(),
         type: 'runtime',
         source: 'registry',
-        extras
+        extras,
+        ...(markers && { markers })
       };
     }
 
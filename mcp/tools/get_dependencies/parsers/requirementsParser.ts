@@ -2,103 +2,299 @@
  * Parser for requirements.txt files
  */
 
-import { Dependency } from '../types.js';
-import { VersionParser } from '../utils/versionParser.js';
+import * as path from 'path';
+import { Dependency, RequirementsFile } from '../types.js';
+import { FileUtils } from '../utils/fileUtils.js';
+import { fileExists } from '../../../utils/fileSystem.js';
+import { Pep440 } from '../../../utils/versioning/pep440.js';
+import { getVersionScheme } from '../../../utils/versioning/schemeRegistry.js';
+import { RangeUtils } from '../../../utils/versioning/rangeUtils.js';
 
 /**
- * Parse requirements.txt file content
- * Handles: package==version, package>=version, comments (#), continuation (\), constraints, extras, git/URL dependencies, environment markers
+ * Parse requirements.txt file content (pip's requirements file format)
+ * Handles: package==version, package>=version, comments (#), continuation (\), extras, git/URL
+ * dependencies, environment markers, --hash options, ${ENV_VAR} substitution, index options,
+ * and -r/-c includes when reading from a file
  */
 export class RequirementsParser {
+  private static readonly INCLUDE_PATTERN = /^(-r|--requirement|-c|--constraint)(?:\s*=\s*|\s+)(\S+)$/;
+
+  private static readonly OPTION_PATTERN = /^(-i|--index-url|--extra-index-url|-f|--find-links)(?:\s*=\s*|\s+)(\S+)$/;
+
   /**
    * Parse requirements.txt content
+   * Includes (-r, -c) need a file to resolve against and are skipped; use parseFile for them
    * @param content File content
+   * @param env Environment for ${VAR} substitution
    * @returns Array of dependencies
    */
-  static parse(content: string): Dependency[] {
-    const dependencies: Dependency[] = [];
-    const lines = content.split('\n');
-    let currentLine = '';
+  static parse(content: string, env: Record<string, string | undefined> = process.env): Dependency[] {
+    const file = this.emptyFile();
+    for (const line of this.logicalLines(content, env)) {
+      if (!this.INCLUDE_PATTERN.test(line)) {
+        this.readLine(line, file, file.dependencies);
+      }
+    }
+    return this.withIndex(file).dependencies;
+  }
+
+  /**
+   * Parse a requirements file and everything it includes
+   * "-r" files add requirements, "-c" files add constraints: a constraint only bounds a
+   * package some requirement names, and never adds one. Include paths are relative to the
+   * including file; a file that includes itself (directly or not) is reported and skipped
+   * @param filePath Path to the requirements file
+   * @param env Environment for ${VAR} substitution
+   * @returns Requirements with constraints applied, index options and warnings
+   */
+  static async parseFile(filePath: string, env: Record<string, string | undefined> = process.env): Promise<RequirementsFile> {
+    const file = this.emptyFile();
+    const constraints: Dependency[] = [];
+    const root = path.resolve(filePath);
+    await this.readFile(root, path.dirname(root), [], new Set(), 'requirements', file, constraints, env);
+    this.applyConstraints(file, constraints);
+    return this.withIndex(file);
+  }
+
+  /**
+   * Parse requirements read from another file, following their includes like parseFile does
+   * (the pip subsection of a conda environment file, for example)
+   * @param content Requirements
+   * @param filePath File the requirements come from; include paths are relative to it
+   * @param env Environment for ${VAR} substitution
+   * @returns Requirements with constraints applied, index options and warnings
+   */
+  static async parseIncluding(
+    content: string,
+    filePath: string,
+    env: Record<string, string | undefined> = process.env
+  ): Promise<RequirementsFile> {
+    const file = this.emptyFile();
+    const constraints: Dependency[] = [];
+    const root = path.resolve(filePath);
+    await this.readLines(content, root, path.dirname(root), [], new Set([root]), 'requirements', file, constraints, env);
+    this.applyConstraints(file, constraints);
+    return this.withIndex(file);
+  }
+
+  /**
+   * Read one file of an include tree
+   * @param filePath Absolute path
+   * @param rootDir Directory of the top-level file (for messages)
+   * @param stack Files that include this one
+   * @param visited Files already read
+   * @param kind Whether the file lists requirements or constraints
+   * @param file Result being collected
+   * @param constraints Constraints being collected
+   * @param env Environment for ${VAR} substitution
+   */
+  private static async readFile(
+    filePath: string,
+    rootDir: string,
+    stack: string[],
+    visited: Set<string>,
+    kind: 'requirements' | 'constraints',
+    file: RequirementsFile,
+    constraints: Dependency[],
+    env: Record<string, string | undefined>
+  ): Promise<void> {
+    const display = (p: string): string => path.relative(rootDir, p) || path.basename(p);
+    if (stack.includes(filePath)) {
+      file.warnings.push(`Include cycle skipped: ${[...stack, filePath].map(display).join(' -> ')}`);
+      return;
+    }
+    if (visited.has(filePath)) {
+      return;
+    }
+    visited.add(filePath);
 
-    for (let i = 0; i < lines.length; i++) {
-      let line = lines[i].trim();
+    const content = await fileExists(filePath) ? await FileUtils.safeReadFile(filePath) : null;
+    if (content === null) {
+      file.warnings.push(`Cannot read ${display(filePath)}${stack.length > 0 ? ` (included from ${display(stack[stack.length - 1])})` : ''}`);
+      return;
+    }
+    await this.readLines(content, filePath, rootDir, stack, visited, kind, file, constraints, env);
+  }
 
-      // Handle line continuation
-      if (line.endsWith('\\')) {
-        currentLine += line.slice(0, -1).trim() + ' ';
+  /**
+   * Read the lines of one file of an include tree, following its includes
+   * @param content File content
+   * @param filePath Absolute path of the file
+   * @param rootDir Directory of the top-level file (for messages)
+   * @param stack Files that include this one
+   * @param visited Files already read
+   * @param kind Whether the file lists requirements or constraints
+   * @param file Result being collected
+   * @param constraints Constraints being collected
+   * @param env Environment for ${VAR} substitution
+   */
+  private static async readLines(
+    content: string,
+    filePath: string,
+    rootDir: string,
+    stack: string[],
+    visited: Set<string>,
+    kind: 'requirements' | 'constraints',
+    file: RequirementsFile,
+    constraints: Dependency[],
+    env: Record<string, string | undefined>
+  ): Promise<void> {
+    for (const line of this.logicalLines(content, env)) {
+      const include = line.match(this.INCLUDE_PATTERN);
+      if (!include) {
+        this.readLine(line, file, kind === 'constraints' ? constraints : file.dependencies);
         continue;
-      } else {
-        currentLine += line;
-        line = currentLine.trim();
-        currentLine = '';
       }
 
-      // Skip empty lines and comments
-      if (!line || line.startsWith('#')) {
+      const target = include[2];
+      if (/^[a-z][a-z0-9+.-]*:\/\//i.test(target)) {
+        file.warnings.push(`Remote include not followed: ${target}`);
         continue;
       }
+      // A -r inside a constraints file reads more constraints
+      const nestedKind = include[1] === '-c' || include[1] === '--constraint' ? 'constraints' : kind;
+      await this.readFile(
+        path.resolve(path.dirname(filePath), target),
+        rootDir,
+        [...stack, filePath],
+        visited,
+        nestedKind,
+        file,
+        constraints,
+        env
+      );
+    }
+  }
 
-      // Parse the dependency line
-      const dependency = this.parseLine(line);
-      if (dependency) {
-        dependencies.push(dependency);
+  /**
+   * Split content into logical lines: continuations joined, comments removed and
+   * ${VAR} references replaced (unset variables are left as written, like pip does)
+   * @param content File content
+   * @param env Environment
+   * @returns Non-empty lines
+   */
+  private static logicalLines(content: string, env: Record<string, string | undefined>): string[] {
+    return content
+      .replace(/\\\r?\n/g, ' ')
+      .split(/\r?\n/)
+      // "#" starts a comment at the start of a line or after whitespace (so "#egg=" stays)
+      .map(line => line.replace(/(^|\s)#.*$/, '').trim())
+      .map(line => line.replace(/\$\{([A-Z0-9_]+)\}/g, (ref, name: string) => env[name] ?? ref))
+      .filter(Boolean);
+  }
+
+  /**
+   * Read an option or requirement line
+   * @param line Logical line
+   * @param file Result being collected (index options)
+   * @param target List the requirement goes to
+   */
+  private static readLine(line: string, file: RequirementsFile, target: Dependency[]): void {
+    const option = line.match(this.OPTION_PATTERN);
+    if (option) {
+      const [, name, value] = option;
+      if (name === '-i' || name === '--index-url') {
+        file.indexUrl = value;
+      } else if (name === '--extra-index-url') {
+        file.extraIndexUrls.push(value);
+      } else {
+        file.findLinks.push(value);
       }
+      return;
     }
 
-    return dependencies;
+    // Other global options (--pre, --no-index, --trusted-host, ...) do not name packages
+    if (line.startsWith('-') && !/^(-e|--editable)\s/.test(line)) {
+      return;
+    }
+
+    const dependency = this.parseLine(line);
+    if (dependency) {
+      target.push(dependency);
+    }
   }
 
   /**
-   * Parse a single line from requirements.txt
-   * @param line Line content
+   * Parse a single requirement line
+   * @param line Logical line without comments
    * @returns Dependency or null
    */
   private static parseLine(line: string): Dependency | null {
-    // Remove inline comments
-    const commentIndex = line.indexOf('#');
-    if (commentIndex !== -1) {
-      line = line.substring(0, commentIndex).trim();
-    }
+    // Per-requirement options: keep hashes, drop the rest (--config-settings, --global-option)
+    const hashes = [...line.matchAll(/\s--hash(?:=|\s+)(\S+)/g)].map(match => match[1]);
+    line = line
+      .replace(/\s--hash(?:=|\s+)\S+/g, '')
+      .replace(/\s(?:--config-settings|-C|--global-option|--install-option)(?:=|\s+)\S+/g, '')
+      .trim();
 
     if (!line) return null;
 
+    const dependency = this.parseRequirement(line);
+    return dependency && hashes.length > 0 ? { ...dependency, hashes } : dependency;
+  }
+
+  /**
+   * Parse a requirement without options
+   * @param line Requirement (e.g., 'requests[socks]>=2.0; python_version >= "3.8"')
+   * @returns Dependency or null
+   */
+  private static parseRequirement(line: string): Dependency | null {
+    // Handle editable installs (-e)
+    const editable = /^(-e|--editable)\s+/.test(line);
+    line = line.replace(/^(-e|--editable)\s+/, '');
+
     // Handle git/URL dependencies
-    if (line.startsWith('git+') || line.startsWith('http://') || line.startsWith('https://')) {
+    if (/^(git\+|hg\+|svn\+|bzr\+|https?:\/\/|file:)/.test(line)) {
       return this.parseUrlDependency(line);
     }
 
-    // Handle editable installs (-e)
-    if (line.startsWith('-e ') || line.startsWith('--editable ')) {
-      line = line.replace(/^(-e|--editable)\s+/, '');
+    // Handle local directories and archives (-e ., ./pkg, ../pkg.whl)
+    if (editable || /^(\.{1,2}(\/|$)|\/)/.test(line)) {
+      const location = line.replace(/#.*$/, '');
+      const egg = line.match(/#egg=([^&\s]+)/);
+      return {
+        name: egg ? egg[1] : path.basename(path.resolve(location)),
+        type: 'runtime',
+        source: 'path',
+        sourceUrl: location
+      };
     }
 
     // Parse package name, version, and extras
     // Format: package[extra1,extra2]==version; marker
-    const parts = line.split(';');
-    const marker = parts.length > 1 ? parts[1].trim() : undefined;
-    const mainPart = parts[0].trim();
+    const [mainPart, ...markerParts] = line.split(';');
+    const marker = markerParts.join(';').trim() || undefined;
+
+    // Direct references: package @ https://... (PEP 508)
+    const direct = mainPart.match(/^([A-Za-z0-9][A-Za-z0-9._-]*)\s*(?:\[([^\]]+)\])?\s*@\s*(\S+)$/);
+    if (direct) {
+      return {
+        ...this.parseUrlDependency(direct[3]),
+        name: direct[1],
+        ...(direct[2] && { extras: direct[2].split(',').map(e => e.trim()) }),
+        ...(marker && { markers: marker })
+      };
+    }
 
     // Extract extras: package[extra1,extra2]
-    const extrasMatch = mainPart.match(/^([^\[]+)\[([^\]]+)\]/);
-    const packagePart = extrasMatch ? extrasMatch[1] : mainPart;
+    const extrasMatch = mainPart.trim().match(/^([^[]+)\[([^\]]+)\]/);
+    const packagePart = extrasMatch ? extrasMatch[1] + mainPart.trim().slice(extrasMatch[0].length) : mainPart.trim();
     const extras = extrasMatch ? extrasMatch[2].split(',').map(e => e.trim()) : undefined;
 
-    // Extract version constraint
-    const versionMatch = packagePart.match(/^([^\s=<>!~]+)\s*(==|>=|<=|>|<|!=|~=)\s*(.+)$/);
-    
+    // Extract the PEP 440 specifier set, optionally in parentheses: package (>=1.0,<2)
+    const versionMatch = packagePart.match(/^([^\s=<>!~(]+)\s*\(?\s*((?:===|==|>=|<=|>|<|!=|~=)[^)]*?)\s*\)?$/);
+
     if (versionMatch) {
       const name = versionMatch[1].trim();
-      const operator = versionMatch[2];
-      const version = versionMatch[3].trim();
 
       return {
         name,
-        versionConstraint: `${operator}${version}`,
-        version: operator === '==' ? version : undefined,
+        versionConstraint: Pep440.normalizeSpecifierSet(versionMatch[2]) ?? versionMatch[2],
+        version: Pep440.exactVersion(versionMatch[2]) ?? undefined,
         type: 'runtime',
         source: 'registry',
         extras,
-        ...(marker && { sourceUrl: `marker:${marker}` })
+        ...(marker && { markers: marker })
       };
     }
 
@@ -109,7 +305,8 @@ export class RequirementsParser {
         name: nameMatch[1].trim(),
         type: 'runtime',
         source: 'registry',
-        extras
+        extras,
+        ...(marker && { markers: marker })
       };
     }
 
@@ -121,7 +318,7 @@ export class RequirementsParser {
    * @param line Line content
    * @returns Dependency
    */
-  private static parseUrlDependency(line: string): Dependency | null {
+  private static parseUrlDependency(line: string): Dependency {
     // Extract package name from URL if possible
     // Format: git+https://github.com/user/repo.git@branch#egg=package
     const eggMatch = line.match(/#egg=([^&]+)/);
@@ -130,9 +327,69 @@ export class RequirementsParser {
     return {
       name,
       type: 'runtime',
-      source: 'git',
+      source: /^(git|hg|svn|bzr)\+/.test(line) ? 'git' : 'url',
       sourceUrl: line
     };
   }
-}
 
+  /**
+   * Bound requirements by the constraints on the same package
+   * The constraint is added to the requirement's specifier set (and listed in
+   * constraints); constraints that leave no version are reported
+   * @param file Parsed requirements
+   * @param constraints Parsed constraints
+   */
+  private static applyConstraints(file: RequirementsFile, constraints: Dependency[]): void {
+    const scheme = getVersionScheme('python');
+
+    file.dependencies = file.dependencies.map(dep => {
+      const bounds = constraints
+        .filter(c => Pep440.normalizeName(c.name) === Pep440.normalizeName(dep.name) && c.versionConstraint)
+        .map(c => c.versionConstraint!);
+      if (bounds.length === 0 || dep.source !== 'registry') {
+        return dep;
+      }
+
+      const declared = [...(dep.versionConstraint ? [dep.versionConstraint] : []), ...bounds];
+      const combined = declared.join(',');
+      try {
+        const range = RangeUtils.intersectAll(declared.map(spec => scheme.parseConstraint(spec)), (a, b) => scheme.compare(a, b));
+        if (RangeUtils.isEmpty(range)) {
+          file.warnings.push(`${dep.name}: constraints ${bounds.map(b => `"${b}"`).join(', ')} leave no version allowed by "${dep.versionConstraint}"`);
+        }
+      } catch {
+        // Constraints that do not parse are kept as written
+      }
+
+      // A "==" constraint pins the version when the requirement allows it
+      const pin = Pep440.parseSpecifierSet(Pep440.normalizeSpecifierSet(combined) ?? '')
+        .find(s => s.operator === '==' && !s.version.endsWith('.*') && Pep440.contains(combined, s.version, true));
+      return {
+        ...dep,
+        versionConstraint: Pep440.normalizeSpecifierSet(combined) ?? combined,
+        version: pin?.version ?? dep.version,
+        constraints: declared
+      };
+    });
+  }
+
+  /**
+   * Record the index URL as the source of registry requirements
+   * @param file Parsed requirements
+   * @returns The same file
+   */
+  private static withIndex(file: RequirementsFile): RequirementsFile {
+    if (file.indexUrl) {
+      file.dependencies = file.dependencies.map(dep =>
+        dep.source === 'registry' ? { ...dep, sourceUrl: file.indexUrl } : dep);
+    }
+    return file;
+  }
+
+  /**
+   * Create an empty result
+   */
+  private static emptyFile(): RequirementsFile {
+    return { dependencies: [], extraIndexUrls: [], findLinks: [], warnings: [] };
+  }
+}
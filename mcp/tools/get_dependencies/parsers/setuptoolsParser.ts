@@ -0,0 +1,199 @@
+/**
+ * Parser for setuptools metadata (setup.py and setup.cfg)
+ */
+
+import { Dependency, SetuptoolsMetadata } from '../types.js';
+import { RequirementsParser } from './requirementsParser.js';
+import { NOT_LITERAL, PythonLiteral, PythonValue } from '../utils/pythonLiteral.js';
+import { Pep440 } from '../../../utils/versioning/pep440.js';
+
+/**
+ * Parse the requirements given to setuptools
+ * setup.py is evaluated statically (no Python runs), so only literal arguments and names
+ * bound to literals are read; setup.cfg is read as an INI file with setuptools' list rules
+ */
+export class SetuptoolsParser {
+  /**
+   * Parse setup.py content
+   * @param content File content
+   * @returns Requirements, extras and python_requires; non-literal arguments are reported in warnings
+   * @throws Error on an unterminated string
+   */
+  static parseSetupPy(content: string): SetuptoolsMetadata {
+    const args = PythonLiteral.setupArguments(content);
+    if (!args) {
+      return { ...this.fromOptions({}), warnings: ['No setup() call found'] };
+    }
+    return this.fromOptions(args);
+  }
+
+  /**
+   * Parse setup.cfg content
+   * Reads install_requires, tests_require, setup_requires and python_requires from
+   * [options] and every extra from [options.extras_require]
+   * @param content File content
+   * @returns Requirements, extras and python_requires
+   */
+  static parseSetupCfg(content: string): SetuptoolsMetadata {
+    const sections = this.parseIni(content);
+    const skipped: string[] = [];
+    const lists = (section: Record<string, string>, keys: string[]): Record<string, PythonValue> => {
+      const values: Record<string, PythonValue> = {};
+      for (const key of keys.filter(key => key in section)) {
+        const value = section[key];
+        if (/^(file|attr):/.test(value)) {
+          skipped.push(`${key} is read from "${value}" and was skipped`);
+        } else {
+          // One requirement per line, or a single line separated by ";" (deprecated)
+          values[key] = value.includes('\n') ? value.split('\n') : value.split(';');
+        }
+      }
+      return values;
+    };
+
+    // setuptools also accepts option names spelled with "-"
+    const options = Object.fromEntries(Object.entries(sections.get('options') || {})
+      .map(([key, value]) => [key.replace(/-/g, '_'), value]));
+    const extras = sections.get('options.extras_require');
+    const metadata = this.fromOptions({
+      ...lists(options, ['install_requires', 'tests_require', 'setup_requires']),
+      ...(extras && { extras_require: lists(extras, Object.keys(extras)) }),
+      ...('python_requires' in options && { python_requires: options.python_requires })
+    });
+    return { ...metadata, warnings: [...metadata.warnings, ...skipped] };
+  }
+
+  /**
+   * Read an INI file the way configparser does: "key = value" or "key: value" entries,
+   * values continued on more indented lines, and whole-line "#" or ";" comments
+   * @param content File content
+   * @returns Entries by section, with lowercase keys
+   */
+  private static parseIni(content: string): Map<string, Record<string, string>> {
+    const sections = new Map<string, Record<string, string>>();
+    let section: Record<string, string> | undefined;
+    let key: string | undefined;
+    let keyIndent = 0;
+
+    for (const line of content.split(/\r?\n/)) {
+      const trimmed = line.trim();
+      const indent = line.length - line.trimStart().length;
+      if (!trimmed || /^[#;]/.test(trimmed)) {
+        continue;
+      }
+
+      if (section && key && indent > keyIndent) {
+        section[key] += `\n${trimmed}`;
+        continue;
+      }
+
+      const header = trimmed.match(/^\[([^\]]+)\]$/);
+      if (header) {
+        const name = header[1].trim();
+        section = sections.get(name) ?? {};
+        sections.set(name, section);
+        key = undefined;
+        continue;
+      }
+
+      const entry = trimmed.match(/^([^=:]+?)\s*[=:]\s*(.*)$/);
+      if (section && entry) {
+        key = entry[1].toLowerCase();
+        keyIndent = indent;
+        section[key] = entry[2];
+      }
+    }
+
+    return sections;
+  }
+
+  /**
+   * Turn setup() keywords (or setup.cfg options) into dependencies
+   * extras_require keys may carry a marker ("ssl:sys_platform == 'win32'"); a key that is
+   * only a marker (":python_version < '3.8'") adds conditional runtime requirements
+   * @param options Keyword arguments
+   * @returns Metadata
+   */
+  private static fromOptions(options: Record<string, PythonValue>): SetuptoolsMetadata {
+    const warnings: string[] = [];
+    const dependencies = this.requirements(options.install_requires, 'install_requires', warnings);
+    const optionalDependencies: Record<string, Dependency[]> = {};
+
+    const extras = options.extras_require;
+    if (PythonLiteral.isDict(extras)) {
+      for (const [key, value] of Object.entries(extras)) {
+        const separator = key.indexOf(':');
+        const extra = (separator === -1 ? key : key.slice(0, separator)).trim();
+        const marker = separator === -1 ? '' : key.slice(separator + 1).trim();
+        const deps = this.requirements(value, `extras_require["${key}"]`, warnings)
+          .map(dep => this.withMarker(dep, marker));
+        if (extra) {
+          (optionalDependencies[extra] ??= []).push(...deps.map(dep => ({ ...dep, type: 'optional' as const, group: extra })));
+        } else {
+          dependencies.push(...deps);
+        }
+      }
+    } else if (extras !== undefined) {
+      warnings.push('extras_require is not a literal dict and was skipped');
+    }
+
+    const devDependencies = [
+      ...this.requirements(options.tests_require, 'tests_require', warnings)
+        .map(dep => ({ ...dep, type: 'development' as const, group: 'test' })),
+      ...this.requirements(options.setup_requires, 'setup_requires', warnings)
+        .map(dep => ({ ...dep, type: 'build' as const }))
+    ];
+
+    const python = options.python_requires;
+    if (python !== undefined && typeof python !== 'string') {
+      warnings.push('python_requires is not a literal string and was skipped');
+    }
+
+    return {
+      dependencies,
+      devDependencies,
+      optionalDependencies,
+      ...(typeof python === 'string' && python.trim() && { pythonRequires: Pep440.normalizeSpecifierSet(python) ?? python.trim() }),
+      warnings
+    };
+  }
+
+  /**
+   * Parse a requirements value: a list of PEP 508 strings, or one string with a
+   * requirement per line
+   * @param value Keyword value
+   * @param label Name used in warnings
+   * @param warnings Warnings being collected
+   * @returns Dependencies
+   */
+  private static requirements(value: PythonValue | undefined, label: string, warnings: string[]): Dependency[] {
+    if (value === undefined) {
+      return [];
+    }
+
+    let lines: string[];
+    if (typeof value === 'string') {
+      lines = value.split('\n');
+    } else if (Array.isArray(value)) {
+      lines = value.filter((item): item is string => typeof item === 'string');
+      if (lines.length < value.length) {
+        warnings.push(`${label} has entries that are not literal strings; they were skipped`);
+      }
+    } else {
+      warnings.push(`${label} is not a literal${value === NOT_LITERAL ? '' : ' list'} and was skipped`);
+      return [];
+    }
+
+    return RequirementsParser.parse(lines.map(line => line.trim()).filter(line => line && !line.startsWith('#')).join('\n'), {});
+  }
+
+  /**
+   * Add an extras_require marker to a dependency's own markers
+   */
+  private static withMarker(dep: Dependency, marker: string): Dependency {
+    if (!marker) {
+      return dep;
+    }
+    return { ...dep, markers: dep.markers ? `(${dep.markers}) and (${marker})` : marker };
+  }
+}
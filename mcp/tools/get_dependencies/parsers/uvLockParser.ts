@@ -0,0 +1,186 @@
+/**
+ * Parser for uv.lock files (uv)
+ */
+
+import { Dependency, LockedRequirement } from '../types.js';
+import { Toml, TomlTable, TomlValue } from '../../../utils/toml.js';
+import { Pep440 } from '../../../utils/versioning/pep440.js';
+
+/**
+ * Parse uv.lock file
+ * Every [[package]] is a resolved version; workspace members (editable or virtual
+ * sources such as the project itself) say which packages are direct and which
+ * belong to dependency groups. A package's dependencies name the locked packages it
+ * uses, with a version only when several versions of one are locked
+ */
+export class UvLockParser {
+  /**
+   * Parse uv.lock content
+   * Packages that only the members' dependency groups reach are development dependencies
+   * @param content File content
+   * @returns Locked runtime and development dependencies (workspace members left out)
+   * @throws TomlError if the content is not valid TOML
+   */
+  static parseContent(content: string): { dependencies: Dependency[]; devDependencies: Dependency[] } {
+    const lock = Toml.parse(content);
+    const packages = (Array.isArray(lock.package) ? lock.package : []).filter(Toml.isTable);
+    const members = packages.filter(pkg => this.isWorkspaceMember(pkg));
+
+    const byName = new Map<string, TomlTable[]>();
+    for (const pkg of packages) {
+      const name = Pep440.normalizeName(String(pkg.name));
+      byName.set(name, [...(byName.get(name) || []), pkg]);
+    }
+
+    const runtime = this.reachable(members.flatMap(member => [
+      ...this.dependencyNames(member.dependencies),
+      ...this.groupDependencyNames(member['optional-dependencies'])
+    ]), byName);
+    const development = this.reachable(
+      members.flatMap(member => this.groupDependencyNames(member['dev-dependencies'])),
+      byName
+    );
+
+    const dependencies: Dependency[] = [];
+    const devDependencies: Dependency[] = [];
+    for (const pkg of packages) {
+      if (typeof pkg.name !== 'string' || members.includes(pkg)) continue;
+
+      const name = Pep440.normalizeName(pkg.name);
+      const dep = { ...this.lockedDependency(pkg), ...this.requirements(pkg, byName) };
+      if (development.has(name) && !runtime.has(name)) {
+        devDependencies.push({ ...dep, type: 'development' });
+      } else {
+        dependencies.push({ ...dep, type: 'runtime' });
+      }
+    }
+
+    return { dependencies, devDependencies };
+  }
+
+  /**
+   * Build a dependency from a [[package]] entry
+   * Hashes come from the sdist and every wheel; wheels are listed by file name
+   * @param pkg Package table
+   * @returns Dependency without its type
+   */
+  private static lockedDependency(pkg: TomlTable): Omit<Dependency, 'type'> {
+    const source = Toml.isTable(pkg.source) ? pkg.source : {};
+    const wheels = (Array.isArray(pkg.wheels) ? pkg.wheels : []).filter(Toml.isTable);
+    const files = [...(Toml.isTable(pkg.sdist) ? [pkg.sdist] : []), ...wheels];
+    const hashes = files.map(file => file.hash).filter((hash): hash is string => typeof hash === 'string');
+    const wheelNames = wheels
+      .map(wheel => wheel.filename ?? wheel.url ?? wheel.path)
+      .filter((file): file is string => typeof file === 'string')
+      .map(file => file.slice(file.lastIndexOf('/') + 1));
+    const version = typeof pkg.version === 'string' ? pkg.version : undefined;
+
+    return {
+      name: String(pkg.name),
+      ...(version && { version, versionConstraint: `==${version}` }),
+      ...this.source(source),
+      ...(hashes.length > 0 && { hashes }),
+      ...(wheelNames.length > 0 && { wheels: wheelNames })
+    };
+  }
+
+  /**
+   * Requirements of a [[package]] entry, each on the exact version it was locked against
+   * Entries of [package.optional-dependencies] are only needed by the extras that list them
+   * @param pkg Package table
+   * @param byName Packages by normalized name
+   */
+  private static requirements(pkg: TomlTable, byName: Map<string, TomlTable[]>): Pick<Dependency, 'requires'> {
+    const requires: LockedRequirement[] = [];
+    const entries = [
+      ...(Array.isArray(pkg.dependencies) ? pkg.dependencies : []).map(entry => ({ entry, extra: undefined })),
+      ...Object.entries(Toml.table(pkg, ['optional-dependencies']) || {})
+        .flatMap(([extra, list]) => (Array.isArray(list) ? list : []).map(entry => ({ entry, extra })))
+    ];
+
+    for (const { entry, extra } of entries) {
+      if (!Toml.isTable(entry) || typeof entry.name !== 'string') continue;
+      const locked = (byName.get(Pep440.normalizeName(entry.name)) || []).map(candidate => candidate.version);
+      const version = typeof entry.version === 'string' ? entry.version : locked.length === 1 ? locked[0] : undefined;
+      const extras = (Array.isArray(entry.extra) ? entry.extra : []).filter((name): name is string => typeof name === 'string');
+      const existing = extra && requires.find(req => req.forExtras && req.name === entry.name);
+      if (existing) {
+        existing.forExtras!.push(extra);
+        continue;
+      }
+      requires.push({
+        name: entry.name,
+        constraint: typeof version === 'string' ? `==${version}` : '',
+        ...(extras.length > 0 && { extras }),
+        ...(extra && { forExtras: [extra] })
+      });
+    }
+    return requires.length > 0 ? { requires } : {};
+  }
+
+  /**
+   * Map a package source table
+   * @param source Source table (e.g., { registry = "https://pypi.org/simple" })
+   * @returns Source type and location
+   */
+  private static source(source: TomlTable): Pick<Dependency, 'source' | 'sourceUrl'> {
+    const location = (key: string): string => String(source[key]);
+    if ('registry' in source) return { source: 'registry', sourceUrl: location('registry') };
+    if ('git' in source) return { source: 'git', sourceUrl: location('git') };
+    if ('url' in source) return { source: 'url', sourceUrl: location('url') };
+    for (const key of ['path', 'directory', 'editable']) {
+      if (key in source) return { source: 'path', sourceUrl: location(key) };
+    }
+    return { source: 'registry' };
+  }
+
+  /**
+   * Check whether a package is a workspace member (the project or one of its packages)
+   * @param pkg Package table
+   * @returns True for editable and virtual sources
+   */
+  private static isWorkspaceMember(pkg: TomlTable): boolean {
+    return Toml.isTable(pkg.source) && ('editable' in pkg.source || 'virtual' in pkg.source);
+  }
+
+  /**
+   * Collect every package name reachable from some starting names
+   * @param start Normalized names to start from
+   * @param byName Packages by normalized name
+   * @returns Reachable normalized names
+   */
+  private static reachable(start: string[], byName: Map<string, TomlTable[]>): Set<string> {
+    const seen = new Set<string>();
+    const queue = [...start];
+    while (queue.length > 0) {
+      const name = queue.shift()!;
+      if (seen.has(name)) continue;
+      seen.add(name);
+      for (const pkg of byName.get(name) || []) {
+        queue.push(...this.dependencyNames(pkg.dependencies));
+      }
+    }
+    return seen;
+  }
+
+  /**
+   * Names in a dependencies array ([{ name = "idna" }, ...])
+   * @param dependencies TOML value
+   * @returns Normalized names
+   */
+  private static dependencyNames(dependencies: TomlValue | undefined): string[] {
+    return (Array.isArray(dependencies) ? dependencies : [])
+      .filter(Toml.isTable)
+      .filter(dep => typeof dep.name === 'string')
+      .map(dep => Pep440.normalizeName(dep.name as string));
+  }
+
+  /**
+   * Names in a table of dependency arrays keyed by group or extra
+   * @param groups TOML value
+   * @returns Normalized names
+   */
+  private static groupDependencyNames(groups: TomlValue | undefined): string[] {
+    return Toml.isTable(groups) ? Object.values(groups).flatMap(deps => this.dependencyNames(deps)) : [];
+  }
+}
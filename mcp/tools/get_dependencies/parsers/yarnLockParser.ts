@@ -0,0 +1,219 @@
+/**
+ * Parser for yarn.lock files (Yarn v1 and Yarn Berry)
+ */
+
+import { Dependency, LockedRequirement } from '../types.js';
+import { Yaml, YamlMapping } from '../../../utils/yaml.js';
+
+export interface YarnLockResult {
+  format: 'yarn-v1' | 'yarn-berry';
+  lockfileVersion?: string;  // __metadata.version of a Berry lockfile (e.g., "8")
+  dependencies: Dependency[];
+}
+
+/**
+ * Parse yarn.lock into its resolved packages
+ * Each entry is keyed by the descriptors (name@range) that resolved to it; those ranges are
+ * kept in constraints, and the ranges the entry itself declares in requires. Yarn v1 lockfiles use their own text format, Berry (Yarn 2+) lockfiles
+ * are YAML with a __metadata entry and protocol-prefixed descriptors ("npm:", "workspace:",
+ * "patch:", "portal:")
+ */
+export class YarnLockParser {
+  /**
+   * Parse yarn.lock content
+   * @param content File content
+   * @returns Resolved packages and the detected lockfile format
+   * @throws YamlError if a Berry lockfile is not valid YAML
+   */
+  static parseContent(content: string): YarnLockResult {
+    if (/^__metadata:/m.test(content)) {
+      return this.parseBerry(content);
+    }
+    return { format: 'yarn-v1', dependencies: this.parseV1(content) };
+  }
+
+  /**
+   * Parse a Berry lockfile
+   * The project's own workspace (workspace:.) is left out; other workspaces, portals and links
+   * are local packages. A package is direct when a workspace declares one of its descriptors
+   */
+  private static parseBerry(content: string): YarnLockResult {
+    const lock = Yaml.parse(content);
+    const entries = Object.entries(Yaml.isMapping(lock) ? lock : {})
+      .filter((entry): entry is [string, YamlMapping] => entry[0] !== '__metadata' && Yaml.isMapping(entry[1]));
+    const metadata = Yaml.mapping(lock, ['__metadata']);
+
+    // Descriptors the workspaces declare, in the form used by the entry keys
+    const declared = new Set<string>();
+    for (const [, entry] of entries) {
+      if (typeof entry.resolution !== 'string' || !this.splitDescriptor(entry.resolution).range.startsWith('workspace:')) continue;
+      for (const field of ['dependencies', 'peerDependencies']) {
+        for (const [name, range] of Object.entries(Yaml.mapping(entry, [field]) ?? {})) {
+          if (typeof range === 'string') {
+            declared.add(`${name}@${range.includes(':') ? range : `npm:${range}`}`);
+          }
+        }
+      }
+    }
+
+    const dependencies: Dependency[] = [];
+    for (const [key, entry] of entries) {
+      if (typeof entry.resolution !== 'string') continue;
+      const { name, range: reference } = this.splitDescriptor(entry.resolution);
+      if (reference === 'workspace:.') continue;
+
+      const descriptors = key.split(',').map(descriptor => descriptor.trim());
+      const version = typeof entry.version === 'string' && entry.version !== '0.0.0-use.local' ? entry.version : undefined;
+      const scope = name.match(/^@([^/]+)\/(.+)$/);
+      const checksum = typeof entry.checksum === 'string' ? entry.checksum.replace(/^\w+\//, '') : undefined;
+      const requires = ['dependencies', 'peerDependencies'].flatMap(field =>
+        Object.entries(Yaml.mapping(entry, [field]) ?? {})
+          .filter((requirement): requirement is [string, string] => typeof requirement[1] === 'string')
+          .map(([dependency, range]) => this.requirement(dependency, range, field === 'peerDependencies')));
+
+      dependencies.push({
+        name: scope ? scope[2] : name,
+        ...(version && { version, versionConstraint: version }),
+        constraints: descriptors.map(descriptor => this.splitDescriptor(descriptor).range),
+        type: 'runtime',
+        ...this.berrySource(reference),
+        ...(scope && { scope: scope[1] }),
+        ...(checksum && { hashes: [`sha512:${checksum}`] }),
+        ...(requires.length > 0 && { requires }),
+        // Relative descriptors (portal:, file:) are bound to their workspace with a "::locator=" suffix
+        direct: descriptors.some(descriptor => declared.has(descriptor.replace(/::.*$/, '')))
+      });
+    }
+
+    return {
+      format: 'yarn-berry',
+      ...(typeof metadata?.version === 'string' && { lockfileVersion: metadata.version }),
+      dependencies
+    };
+  }
+
+  /**
+   * Source type and location of a Berry locator reference ("npm:1.0.0", "workspace:packages/a",
+   * "patch:resolve@npm%3A1.22.8#...", "https://github.com/a/b.git#commit=...")
+   */
+  private static berrySource(reference: string): Pick<Dependency, 'source' | 'sourceUrl'> {
+    const protocol = reference.match(/^([a-z]+):/)?.[1];
+    const location = reference.slice((protocol?.length ?? -1) + 1).replace(/::.*$/, '');
+
+    switch (protocol) {
+      case 'npm':
+        return { source: 'registry' };
+      case 'workspace':
+      case 'portal':
+      case 'link':
+        return { source: 'local', sourceUrl: location };
+      case 'file':
+      case 'exec':
+        return { source: 'path', sourceUrl: location };
+      case 'patch': {
+        // The patched package is the URL-encoded locator before "#"
+        const patched = decodeURIComponent(location.split('#')[0]);
+        return this.berrySource(this.splitDescriptor(patched).range);
+      }
+    }
+
+    if (/^(git(\+[a-z]+)?|github):/.test(reference) || /\.git(#|$)|#commit=/.test(reference)) {
+      return { source: 'git', sourceUrl: reference };
+    }
+    if (/^https?:/.test(reference)) {
+      return { source: 'url', sourceUrl: reference };
+    }
+    return { source: 'registry' };
+  }
+
+  /**
+   * Parse a Yarn v1 lockfile
+   * Entries start with an unindented line of comma-separated descriptors ending in ":";
+   * their fields are indented key-value pairs ("version "1.0.0""), and the ranges they
+   * require are nested under "dependencies:" and "optionalDependencies:"
+   */
+  private static parseV1(content: string): Dependency[] {
+    const dependencies: Dependency[] = [];
+    let current: { descriptors: string[]; fields: Record<string, string>; requires: LockedRequirement[] } | undefined;
+    let inRequirements = false;
+
+    const flush = (): void => {
+      if (!current || current.descriptors.length === 0) return;
+      const { name } = this.splitDescriptor(current.descriptors[0]);
+      const { version, resolved, integrity } = current.fields;
+      const scope = name.match(/^@([^/]+)\/(.+)$/);
+      dependencies.push({
+        name: scope ? scope[2] : name,
+        ...(version && { version, versionConstraint: version }),
+        constraints: current.descriptors.map(descriptor => this.splitDescriptor(descriptor).range),
+        type: 'runtime',
+        source: !resolved ? 'registry' : /^git(\+|:)/.test(resolved) ? 'git' : resolved.startsWith('file:') ? 'path' : 'registry',
+        ...(resolved && { sourceUrl: resolved }),
+        ...(scope && { scope: scope[1] }),
+        ...(integrity && { hashes: [integrity] }),
+        ...(current.requires.length > 0 && { requires: current.requires })
+      });
+    };
+
+    for (const line of content.split(/\r?\n/)) {
+      if (!line.trim() || line.trimStart().startsWith('#')) continue;
+
+      if (!/^\s/.test(line)) {
+        flush();
+        inRequirements = false;
+        current = {
+          descriptors: line.replace(/:\s*$/, '').split(',').map(descriptor => this.unquote(descriptor.trim())),
+          fields: {},
+          requires: []
+        };
+        continue;
+      }
+
+      // The entry's own fields have two spaces, the entries of nested maps four
+      const section = line.match(/^ {2}([^\s:]+):\s*$/);
+      const field = line.match(/^ {2}([^\s:]+)\s+(.+)$/);
+      const nested = line.match(/^ {4}(\S+)\s+(.+)$/);
+      if (section) {
+        inRequirements = section[1] === 'dependencies' || section[1] === 'optionalDependencies';
+      } else if (current && field) {
+        current.fields[this.unquote(field[1])] = this.unquote(field[2].trim());
+        inRequirements = false;
+      } else if (current && nested && inRequirements) {
+        current.requires.push(this.requirement(this.unquote(nested[1]), this.unquote(nested[2].trim()), false));
+      }
+    }
+    flush();
+
+    return dependencies;
+  }
+
+  /**
+   * Requirement of an entry on a package
+   * Ranges are plain ("^4.1.0"), "npm:"-prefixed, or npm aliases of another package
+   * ("npm:string-width@^4.2.0"); other protocols and URLs allow any version
+   * @param name Dependency name
+   * @param range Range as written in the entry
+   * @param peer Whether it is a peer dependency
+   */
+  private static requirement(name: string, range: string, peer: boolean): LockedRequirement {
+    const npmRange = range.replace(/^npm:/, '');
+    const alias = range.startsWith('npm:') && npmRange.indexOf('@', 1) !== -1 ? this.splitDescriptor(npmRange) : undefined;
+    const constraint = alias ? alias.range : /^[a-z][a-z+]*:|\//i.test(npmRange) ? '' : npmRange;
+    return { name: alias?.name ?? name, constraint, ...(peer && { peer }) };
+  }
+
+  /**
+   * Split a descriptor or locator into its package name and range ("@babel/core@npm:^7.0.0")
+   */
+  private static splitDescriptor(descriptor: string): { name: string; range: string } {
+    const at = descriptor.indexOf('@', 1);
+    return at === -1 ? { name: descriptor, range: '' } : { name: descriptor.slice(0, at), range: descriptor.slice(at + 1) };
+  }
+
+  /**
+   * Strip the double quotes around a v1 lockfile string
+   */
+  private static unquote(value: string): string {
+    return value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value;
+  }
+}
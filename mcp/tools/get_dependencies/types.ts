@@ -6,11 +6,35 @@ export interface Dependency {
   name: string;
   version?: string;
   versionConstraint?: string;  // e.g., "^1.0.0", "~> 2.0", ">=1.0.0"
+  constraints?: string[];      // Individual requirements as declared (e.g., ["~> 7.0", ">= 7.0.4"])
   type: 'runtime' | 'development' | 'peer' | 'optional' | 'build';
-  source?: 'registry' | 'git' | 'path' | 'local';
+  source?: 'registry' | 'git' | 'path' | 'local' | 'url';
   sourceUrl?: string;
   extras?: string[];  // For Python extras
+  markers?: string;   // PEP 508 environment markers (e.g., python_version < "3.8")
   scope?: string;     // For scoped packages like @scope/package
+  sourceFile?: string; // Manifest or lockfile the dependency was read from
+  hashes?: string[];   // Lockfile hashes of the distribution files (e.g., "sha256:...")
+  condaHashes?: string[]; // Conda package file hashes (e.g., "md5:..."); pip cannot check them
+  wheels?: string[];   // Locked wheel file names (e.g., "idna-3.6-py3-none-any.whl")
+  group?: string;      // Named group or extra it was declared in (e.g., Poetry group "docs")
+  build?: string;      // Conda build string (e.g., "py311h64a7726_0")
+  installPath?: string; // Location in the install tree (e.g., "node_modules/a/node_modules/b")
+  direct?: boolean;    // Declared by the project (or a workspace) rather than pulled in by another package
+  workspaces?: string[]; // Workspace folders that declare it (e.g., [".", "packages/ui"])
+  peers?: string[];    // Peers the package was resolved against (e.g., ["react@18.2.0"])
+  requires?: LockedRequirement[]; // What a locked package requires of other packages, as its lockfile records it
+}
+
+/**
+ * Requirement of a locked package on another package
+ */
+export interface LockedRequirement {
+  name: string;
+  constraint: string;    // In the ecosystem's syntax (e.g., "<3", "~> 2.0", "=1.0.2"); "" allows any version
+  peer?: boolean;        // npm peer dependency (shares the parent's copy)
+  extras?: string[];     // Extras requested of the required package
+  forExtras?: string[];  // Extras of the requiring package that pull it in (unset when always required)
 }
 
 export interface DependencyGroup {
@@ -19,6 +43,7 @@ export interface DependencyGroup {
   devDependencies?: Dependency[];
   peerDependencies?: Dependency[];
   optionalDependencies?: Dependency[];
+  runtime?: Dependency;  // Interpreter the project requires (e.g., python with python_requires as its constraint)
   lockFile?: {
     path: string;
     format: string;
@@ -33,3 +58,65 @@ export interface DependencyExtractionResult {
   warnings?: string[];
 }
 
+
+export interface GoModuleVersion {
+  path: string;
+  version?: string;    // Omitted for local directory replacements and version-less replace patterns
+}
+
+export interface GoRequirement {
+  path: string;
+  version: string;     // Full version, e.g. "v0.0.0-20210101000000-abcdef123456" or "v2.0.0+incompatible"
+  indirect: boolean;   // Marked "// indirect"
+}
+
+export interface GoReplacement {
+  old: GoModuleVersion;
+  new: GoModuleVersion;
+}
+
+/**
+ * Directives of a go.mod file
+ */
+export interface GoModFile {
+  module?: string;
+  go?: string;
+  require: GoRequirement[];
+  replace: GoReplacement[];
+  exclude: GoModuleVersion[];
+}
+
+/**
+ * Module versions Go builds with (the result of minimal version selection)
+ */
+export interface GoBuildList {
+  main?: string;
+  modules: Array<{
+    path: string;
+    version: string;
+    replace?: GoModuleVersion;
+  }>;
+  missing: string[];   // "path@version" of go.mod files that were needed but not provided
+}
+
+/**
+ * A requirements file with its includes read
+ */
+export interface RequirementsFile {
+  dependencies: Dependency[];
+  indexUrl?: string;          // --index-url (replaces PyPI)
+  extraIndexUrls: string[];   // --extra-index-url
+  findLinks: string[];        // --find-links
+  warnings: string[];         // Include cycles, unreadable includes, conflicting constraints
+}
+
+/**
+ * Requirements declared to setuptools (setup.py keywords or setup.cfg options)
+ */
+export interface SetuptoolsMetadata {
+  dependencies: Dependency[];                          // install_requires (and marker-only extras_require keys)
+  devDependencies: Dependency[];                       // tests_require (group "test") and setup_requires (type "build")
+  optionalDependencies: Record<string, Dependency[]>;  // extras_require, by extra
+  pythonRequires?: string;                             // python_requires
+  warnings: string[];                                  // Arguments that are not literals, file:/attr: directives
+}
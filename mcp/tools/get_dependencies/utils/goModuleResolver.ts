@@ -0,0 +1,190 @@
+/**
+ * Minimal version selection for Go modules
+ */
+
+import { GoBuildList, GoModFile, GoModuleVersion } from '../types.js';
+import { GomodParser } from '../parsers/gomodParser.js';
+import { FileUtils } from './fileUtils.js';
+import { fileExists, readTextFile } from '../../../utils/fileSystem.js';
+import { GoVersion } from '../../../utils/versioning/goVersion.js';
+
+/**
+ * Compute the build list of a Go module with minimal version selection (MVS)
+ * Every module gets the highest version any reachable go.mod requires. Only the main
+ * module's replace and exclude directives apply, and from go 1.17 on the graph is pruned:
+ * a dependency that declares go >= 1.17 contributes its own requirements, but their
+ * go.mod files are not read through it
+ */
+export class GoModuleResolver {
+  /**
+   * Resolve the build list
+   * @param mainContent Content of the main module's go.mod
+   * @param modFiles go.mod contents keyed by "path@version" (local directory replacements
+   *   are keyed by the directory as written in the replace directive)
+   * @returns Selected version of every module, sorted by path
+   */
+  static resolve(mainContent: string, modFiles: Record<string, string>): GoBuildList {
+    const main = GomodParser.parseModFile(mainContent);
+    const excluded = new Set(main.exclude.map(m => `${m.path}@${m.version}`));
+    const pruned = this.isPruned(main.go);
+    const selected = new Map<string, string>();
+    const expanded = new Set<string>();
+    const missing: string[] = [];
+
+    const queue: Array<{ path: string; version: string; expand: boolean }> =
+      main.require.map(({ path, version }) => ({ path, version, expand: true }));
+
+    while (queue.length > 0) {
+      const requirement = queue.shift()!;
+      if (requirement.path === main.module || !GoVersion.isValid(requirement.version)) {
+        continue;
+      }
+
+      const version = excluded.has(`${requirement.path}@${requirement.version}`)
+        ? this.nextAllowed(requirement.path, requirement.version, excluded, modFiles)
+        : requirement.version;
+      if (!version) {
+        missing.push(`${requirement.path}@${requirement.version}`);
+        continue;
+      }
+
+      const current = selected.get(requirement.path);
+      selected.set(requirement.path, current ? GoVersion.max(current, version) : version);
+
+      const key = `${requirement.path}@${version}`;
+      if (!requirement.expand || expanded.has(key)) {
+        continue;
+      }
+      expanded.add(key);
+
+      const modFile = this.loadModFile(requirement.path, version, main, modFiles);
+      if (!modFile) {
+        missing.push(key);
+        continue;
+      }
+      const expand = !pruned || !this.isPruned(modFile.go);
+      queue.push(...modFile.require.map(({ path, version }) => ({ path, version, expand })));
+    }
+
+    return {
+      ...(main.module && { main: main.module }),
+      modules: [...selected.entries()]
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        .map(([path, version]) => {
+          const replace = this.replacementFor(path, version, main);
+          return { path, version, ...(replace && { replace }) };
+        }),
+      missing: [...new Set(missing)]
+    };
+  }
+
+  /**
+   * Collect the go.mod files resolve() can use from the module cache and local replacements
+   * Module versions are read from the download cache ("cache/download/<path>/@v/<version>.mod",
+   * upper-case letters escaped as "!" and the lower-case letter); those not there are left out
+   * @param projectPath Main module's directory (local replacements are relative to it)
+   * @param mainContent Content of the main module's go.mod
+   * @param cacheDir Module cache directory (GOMODCACHE)
+   * @returns go.mod contents keyed as resolve() expects them
+   */
+  static async readModFiles(projectPath: string, mainContent: string, cacheDir: string): Promise<Record<string, string>> {
+    const main = GomodParser.parseModFile(mainContent);
+    const modFiles: Record<string, string> = {};
+    const queue = [...main.require];
+    const seen = new Set<string>();
+
+    while (queue.length > 0) {
+      const { path, version } = queue.shift()!;
+      // A directory replacement is read from the directory, any other module from the cache
+      const replace = this.replacementFor(path, version, main);
+      const directory = replace && !replace.version ? replace.path : undefined;
+      const target = replace?.version ? { path: replace.path, version: replace.version } : { path, version };
+      const key = directory ?? `${target.path}@${target.version}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const filePath = directory !== undefined
+        ? FileUtils.joinPath(FileUtils.isAbsolutePath(directory) ? directory : FileUtils.joinPath(projectPath, directory), 'go.mod')
+        : FileUtils.joinPath(cacheDir, 'cache', 'download', this.escape(target.path), '@v', `${this.escape(target.version)}.mod`);
+      if (await fileExists(filePath)) {
+        modFiles[key] = await readTextFile(filePath);
+        queue.push(...GomodParser.parseModFile(modFiles[key]).require);
+      }
+    }
+
+    return modFiles;
+  }
+
+  /**
+   * Escape a module path or version for the module cache ("github.com/Azure" is "github.com/!azure")
+   */
+  private static escape(value: string): string {
+    return value.replace(/[A-Z]/g, letter => `!${letter.toLowerCase()}`);
+  }
+
+  /**
+   * Read the go.mod of a module version, following the main module's replacements
+   * @param path Module path
+   * @param version Module version
+   * @param main Main module's go.mod
+   * @param modFiles Available go.mod contents
+   * @returns Parsed go.mod, or null if it was not provided
+   */
+  private static loadModFile(
+    path: string,
+    version: string,
+    main: GoModFile,
+    modFiles: Record<string, string>
+  ): GoModFile | null {
+    const replace = this.replacementFor(path, version, main);
+    const key = replace
+      ? (replace.version ? `${replace.path}@${replace.version}` : replace.path)
+      : `${path}@${version}`;
+    return key in modFiles ? GomodParser.parseModFile(modFiles[key]) : null;
+  }
+
+  /**
+   * Find the replacement for a module version ("path version =>" wins over "path =>")
+   * @param path Module path
+   * @param version Module version
+   * @param main Main module's go.mod
+   * @returns Replacement module or directory, if any
+   */
+  private static replacementFor(path: string, version: string, main: GoModFile): GoModuleVersion | undefined {
+    return (main.replace.find(r => r.old.path === path && r.old.version === version) ||
+      main.replace.find(r => r.old.path === path && !r.old.version))?.new;
+  }
+
+  /**
+   * Next higher version whose go.mod is available and not excluded, which is what Go
+   * uses in place of an excluded version
+   * @param path Module path
+   * @param version Excluded version
+   * @param excluded Excluded "path@version" keys
+   * @param modFiles Available go.mod contents
+   * @returns Version, or null if there is none
+   */
+  private static nextAllowed(
+    path: string,
+    version: string,
+    excluded: Set<string>,
+    modFiles: Record<string, string>
+  ): string | null {
+    const candidates = Object.keys(modFiles)
+      .filter(key => key.startsWith(`${path}@`) && !excluded.has(key))
+      .map(key => key.slice(path.length + 1))
+      .filter(candidate => GoVersion.isValid(candidate) && GoVersion.compare(candidate, version) > 0)
+      .sort((a, b) => GoVersion.compare(a, b));
+    return candidates[0] ?? null;
+  }
+
+  /**
+   * Check whether a go directive enables module graph pruning (go 1.17 and later)
+   * @param go Version from the go directive (missing means go 1.16 or earlier)
+   * @returns True if pruned
+   */
+  private static isPruned(go?: string): boolean {
+    const [major, minor] = (go || '').split('.').map(part => parseInt(part, 10));
+    return major > 1 || (major === 1 && minor >= 17);
+  }
+}
@@ -0,0 +1,437 @@
+/**
+ * Static evaluation of the literal subset of Python (for setup.py)
+ */
+
+/**
+ * Marks a value that is not a literal (a call, a comprehension, an unknown name, ...)
+ */
+export const NOT_LITERAL: unique symbol = Symbol('not a literal');
+
+export type PythonValue =
+  | string
+  | number
+  | boolean
+  | null
+  | PythonValue[]
+  | { [key: string]: PythonValue }
+  | typeof NOT_LITERAL;
+
+interface Token {
+  kind: 'name' | 'string' | 'fstring' | 'number' | 'op' | 'newline' | 'end';
+  value: string;
+}
+
+/**
+ * Read the arguments of a setup() call without running any Python
+ * Strings, numbers, True/False/None, lists, tuples, sets, dicts, dict(...) calls,
+ * "+" on strings and lists, and names assigned such values earlier in the file are
+ * evaluated; anything else evaluates to NOT_LITERAL
+ */
+export class PythonLiteral {
+  /**
+   * Evaluate the keyword arguments of the setup() call in a setup.py file
+   * @param source File content
+   * @returns Keyword arguments (with **dict arguments merged in), or null if setup() is never called
+   * @throws Error on an unterminated string
+   */
+  static setupArguments(source: string): Record<string, PythonValue> | null {
+    return new PythonEvaluator(this.tokenize(source)).setupArguments();
+  }
+
+  /**
+   * Check whether a value is a dict
+   */
+  static isDict(value: PythonValue | undefined): value is { [key: string]: PythonValue } {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  /**
+   * Split source into tokens; line breaks inside brackets or after a backslash
+   * do not end a statement
+   * @param source Python source
+   * @returns Tokens ending with an "end" token
+   */
+  private static tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    const stringStart = /([rRbBuUfF]{0,2})('''|"""|'|")/y;
+    const name = /[A-Za-z_][A-Za-z0-9_]*/y;
+    const number = /(?:0[xXoObB][0-9A-Fa-f_]+|\d[\d_]*(?:\.[\d_]*)?(?:[eE][+-]?\d+)?|\.\d[\d_]*(?:[eE][+-]?\d+)?)[jJ]?/y;
+    const operator = /\*\*=?|\/\/=?|<<=?|>>=?|->|[=!<>:+\-*/%&|^@]=|[\s\S]/y;
+    let depth = 0;
+    let pos = 0;
+
+    const match = (pattern: RegExp): RegExpExecArray | null => {
+      pattern.lastIndex = pos;
+      return pattern.exec(source);
+    };
+
+    while (pos < source.length) {
+      const c = source[pos];
+      if (c === '#') {
+        const end = source.indexOf('\n', pos);
+        pos = end === -1 ? source.length : end;
+      } else if (c === '\\' && /^\\\r?\n/.test(source.slice(pos, pos + 3))) {
+        pos += source[pos + 1] === '\r' ? 3 : 2;
+      } else if (c === '\n' || c === ';') {
+        if (depth === 0) tokens.push({ kind: 'newline', value: c });
+        pos++;
+      } else if (/\s/.test(c)) {
+        pos++;
+      } else if (match(stringStart)) {
+        const [text, prefix, quote] = match(stringStart)!;
+        pos += text.length;
+        const body = this.readString(source, pos, quote);
+        pos += body.length + quote.length;
+        tokens.push(/[fF]/.test(prefix)
+          ? { kind: 'fstring', value: body }
+          : { kind: 'string', value: /[rR]/.test(prefix) ? body : this.unescape(body) });
+      } else if (match(name)) {
+        const [text] = match(name)!;
+        tokens.push({ kind: 'name', value: text });
+        pos += text.length;
+      } else if (match(number)) {
+        const [text] = match(number)!;
+        tokens.push({ kind: 'number', value: text });
+        pos += text.length;
+      } else {
+        const [text] = match(operator)!;
+        if ('([{'.includes(text)) depth++;
+        if (')]}'.includes(text)) depth = Math.max(0, depth - 1);
+        tokens.push({ kind: 'op', value: text });
+        pos += text.length;
+      }
+    }
+
+    tokens.push({ kind: 'end', value: '' });
+    return tokens;
+  }
+
+  /**
+   * Read the raw body of a string literal
+   * @param source Python source
+   * @param start Position after the opening quote
+   * @param quote Quote the literal was opened with
+   * @returns Body up to (not including) the closing quote
+   */
+  private static readString(source: string, start: number, quote: string): string {
+    let pos = start;
+    while (pos < source.length) {
+      if (source[pos] === '\\') {
+        pos += 2;
+      } else if (source.startsWith(quote, pos)) {
+        return source.slice(start, pos);
+      } else if (source[pos] === '\n' && quote.length === 1) {
+        break;
+      } else {
+        pos++;
+      }
+    }
+    const line = source.slice(0, start).split('\n').length;
+    throw new Error(`Unterminated string at line ${line}`);
+  }
+
+  /**
+   * Replace the escape sequences of a non-raw string (unknown escapes stay as written)
+   */
+  private static unescape(body: string): string {
+    const simple: Record<string, string> = { n: '\n', t: '\t', r: '\r', a: '\x07', b: '\b', f: '\f', v: '\v', '\\': '\\', "'": "'", '"': '"' };
+    return body.replace(/\\(\r?\n|[ntrabfv\\'"]|x[0-9A-Fa-f]{2}|u[0-9A-Fa-f]{4}|U[0-9A-Fa-f]{8}|[0-7]{1,3})/g, (escape, code: string) => {
+      if (code in simple) return simple[code];
+      if (code.startsWith('\n') || code.startsWith('\r')) return '';
+      if (/^[xuU]/.test(code)) return String.fromCodePoint(parseInt(code.slice(1), 16));
+      return String.fromCodePoint(parseInt(code, 8));
+    });
+  }
+}
+
+/**
+ * Walks the tokens of a file: records assignments to plain names and evaluates
+ * the setup() call
+ */
+class PythonEvaluator {
+  private static readonly KEYWORDS = new Set(['def', 'class', 'lambda', 'for', 'while', 'if', 'elif', 'with', 'return', 'import', 'from']);
+
+  private pos = 0;
+  private readonly variables = new Map<string, PythonValue>();
+
+  constructor(private readonly tokens: Token[]) {}
+
+  /**
+   * Find and evaluate the setup() call
+   * @returns Keyword arguments, or null if there is no call
+   */
+  setupArguments(): Record<string, PythonValue> | null {
+    let args: Record<string, PythonValue> | null = null;
+    let depth = 0;
+
+    while (this.peek().kind !== 'end') {
+      const token = this.peek();
+      const previous = this.tokens[this.pos - 1];
+      const next = this.tokens[this.pos + 1];
+      const atStatementStart = !previous || previous.kind === 'newline' || (previous.kind === 'op' && previous.value === ':');
+
+      if (depth === 0 && atStatementStart && token.kind === 'name' && next.kind === 'op' && (next.value === '=' || next.value === '+=')) {
+        this.pos += 2;
+        const value = this.expression();
+        this.variables.set(token.value, next.value === '='
+          ? value
+          : this.add(this.variables.get(token.value) ?? NOT_LITERAL, value));
+      } else if (token.kind === 'name' && token.value === 'setup' && next.kind === 'op' && next.value === '('
+        && !(previous && previous.kind === 'name' && previous.value === 'def')) {
+        this.pos += 2;
+        args = this.callArguments();
+      } else {
+        if (token.kind === 'op' && '([{'.includes(token.value)) depth++;
+        if (token.kind === 'op' && ')]}'.includes(token.value)) depth = Math.max(0, depth - 1);
+        if (token.kind === 'newline') depth = 0;
+        this.pos++;
+      }
+    }
+
+    return args;
+  }
+
+  /**
+   * Evaluate call arguments after the opening parenthesis (positional ones are dropped)
+   * @returns Keyword arguments
+   */
+  private callArguments(): Record<string, PythonValue> {
+    const args: Record<string, PythonValue> = {};
+    while (!this.atOp(')') && this.peek().kind !== 'end') {
+      const token = this.peek();
+      const next = this.tokens[this.pos + 1];
+      if (token.kind === 'name' && next.kind === 'op' && next.value === '=') {
+        this.pos += 2;
+        args[token.value] = this.expression();
+      } else if (this.atOp('**')) {
+        this.pos++;
+        const value = this.expression();
+        if (PythonLiteral.isDict(value)) Object.assign(args, value);
+      } else {
+        this.expression();
+      }
+      if (!this.atOp(',')) break;
+      this.pos++;
+    }
+    this.close(')');
+    return args;
+  }
+
+  /**
+   * Evaluate an expression up to the next ",", ":", closing bracket or end of statement
+   */
+  private expression(): PythonValue {
+    let value = this.term();
+    while (this.atOp('+')) {
+      this.pos++;
+      value = this.add(value, this.term());
+    }
+
+    const token = this.peek();
+    const atEnd = token.kind === 'newline' || token.kind === 'end' || (token.kind === 'op' && [',', ':', ')', ']', '}'].includes(token.value));
+    if (!atEnd) {
+      this.skipExpression();
+      return NOT_LITERAL;
+    }
+    return value;
+  }
+
+  /**
+   * Evaluate a literal, a name or a bracketed display
+   */
+  private term(): PythonValue {
+    const token = this.tokens[this.pos++];
+    switch (token.kind) {
+      case 'string':
+      case 'fstring': {
+        // Adjacent literals are concatenated
+        let text: string | null = token.kind === 'string' ? token.value : null;
+        while (this.peek().kind === 'string' || this.peek().kind === 'fstring') {
+          const part = this.tokens[this.pos++];
+          text = text !== null && part.kind === 'string' ? text + part.value : null;
+        }
+        return text ?? NOT_LITERAL;
+      }
+      case 'number': {
+        const value = Number(token.value.replace(/_/g, ''));
+        return Number.isNaN(value) ? NOT_LITERAL : value;
+      }
+      case 'name':
+        if (token.value === 'True') return true;
+        if (token.value === 'False') return false;
+        if (token.value === 'None') return null;
+        if (token.value === 'dict' && this.atOp('(')) {
+          this.pos++;
+          return this.callArguments();
+        }
+        if (PythonEvaluator.KEYWORDS.has(token.value)) return NOT_LITERAL;
+        return this.variables.get(token.value) ?? NOT_LITERAL;
+      case 'op':
+        if ('([{'.includes(token.value) && this.isComprehension()) {
+          this.close({ '(': ')', '[': ']', '{': '}' }[token.value]!);
+          return NOT_LITERAL;
+        }
+        if (token.value === '[') return this.elements(']');
+        if (token.value === '(') return this.parenthesized();
+        if (token.value === '{') return this.braced();
+        return NOT_LITERAL;
+      default:
+        this.pos--;
+        return NOT_LITERAL;
+    }
+  }
+
+  /**
+   * Check whether the bracket just opened holds a comprehension ("for" at its top level)
+   */
+  private isComprehension(): boolean {
+    let depth = 0;
+    for (let i = this.pos; i < this.tokens.length && depth >= 0; i++) {
+      const token = this.tokens[i];
+      if (token.kind === 'op' && '([{'.includes(token.value)) depth++;
+      if (token.kind === 'op' && ')]}'.includes(token.value)) depth--;
+      if (depth === 0 && token.kind === 'name' && token.value === 'for') return true;
+    }
+    return false;
+  }
+
+  /**
+   * Evaluate a tuple or a parenthesized expression
+   */
+  private parenthesized(): PythonValue {
+    if (this.atOp(')')) {
+      this.pos++;
+      return [];
+    }
+    const first = this.expression();
+    if (this.atOp(',')) {
+      this.pos++;
+      return [first, ...this.elements(')')];
+    }
+    this.close(')');
+    return first;
+  }
+
+  /**
+   * Evaluate a dict or set display
+   */
+  private braced(): PythonValue {
+    if (this.atOp('}')) {
+      this.pos++;
+      return {};
+    }
+    const start = this.pos;
+    if (!this.atOp('**')) {
+      const first = this.expression();
+      if (!this.atOp(':')) {
+        if (!this.atOp(',')) {
+          this.close('}');
+          return [first];
+        }
+        this.pos++;
+        return [first, ...this.elements('}')];
+      }
+      this.pos = start;
+    }
+    return this.dictEntries();
+  }
+
+  /**
+   * Evaluate "key": value pairs and **mapping entries up to the closing brace
+   * @returns Dict, or NOT_LITERAL if a key or mapping is not a literal
+   */
+  private dictEntries(): PythonValue {
+    const dict: { [key: string]: PythonValue } = {};
+    let literal = true;
+    while (!this.atOp('}') && this.peek().kind !== 'end') {
+      if (this.atOp('**')) {
+        this.pos++;
+        const value = this.expression();
+        if (PythonLiteral.isDict(value)) Object.assign(dict, value);
+        else literal = false;
+      } else {
+        const key = this.expression();
+        if (!this.atOp(':')) {
+          literal = false;
+          break;
+        }
+        this.pos++;
+        const value = this.expression();
+        if (typeof key === 'string') dict[key] = value;
+        else literal = false;
+      }
+      if (!this.atOp(',')) break;
+      this.pos++;
+    }
+    this.close('}');
+    return literal ? dict : NOT_LITERAL;
+  }
+
+  /**
+   * Evaluate list, tuple or set elements up to the closing bracket
+   * @param close Closing bracket
+   * @returns Elements (starred lists are spread)
+   */
+  private elements(close: string): PythonValue[] {
+    const items: PythonValue[] = [];
+    while (!this.atOp(close) && this.peek().kind !== 'end') {
+      if (this.atOp('*')) {
+        this.pos++;
+        const value = this.expression();
+        if (Array.isArray(value)) items.push(...value);
+        else items.push(NOT_LITERAL);
+      } else {
+        items.push(this.expression());
+      }
+      if (!this.atOp(',')) break;
+      this.pos++;
+    }
+    this.close(close);
+    return items;
+  }
+
+  /**
+   * Concatenate two strings or two lists
+   */
+  private add(a: PythonValue, b: PythonValue): PythonValue {
+    if (typeof a === 'string' && typeof b === 'string') return a + b;
+    if (Array.isArray(a) && Array.isArray(b)) return [...a, ...b];
+    return NOT_LITERAL;
+  }
+
+  /**
+   * Consume a closing bracket, skipping whatever could not be evaluated before it
+   */
+  private close(bracket: string): void {
+    while (!this.atOp(bracket) && this.peek().kind !== 'end') {
+      this.skipExpression();
+      if (!this.atOp(bracket)) this.pos++;
+    }
+    if (this.atOp(bracket)) this.pos++;
+  }
+
+  /**
+   * Skip to the end of the current expression, over balanced brackets
+   */
+  private skipExpression(): void {
+    let depth = 0;
+    while (this.peek().kind !== 'end') {
+      const token = this.peek();
+      if (depth === 0 && (token.kind === 'newline' || (token.kind === 'op' && [',', ':', ')', ']', '}'].includes(token.value)))) {
+        return;
+      }
+      if (token.kind === 'op' && '([{'.includes(token.value)) depth++;
+      if (token.kind === 'op' && ')]}'.includes(token.value)) depth--;
+      this.pos++;
+    }
+  }
+
+  private peek(): Token {
+    return this.tokens[this.pos];
+  }
+
+  private atOp(value: string): boolean {
+    const token = this.peek();
+    return token.kind === 'op' && token.value === value;
+  }
+}
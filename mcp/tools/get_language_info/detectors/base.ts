@@ -115,6 +115,17 @@ export abstract class BaseLanguageDetector implements ILanguageDetector {
     return `${this.languageName}:${projectPath}:${JSON.stringify(options)}`;
   }
 
+  /**
+   * Extract a version from text using a pattern
+   * @param text Text to search in
+   * @param pattern Pattern whose first group is the version
+   * @returns Extracted version string or null
+   */
+  protected extractVersion(text: string, pattern: RegExp): string | null {
+    const match = text.match(pattern);
+    return match ? match[1] : null;
+  }
+
   /**
    * Extract runtime version from configuration file analysis
    * @param configResult Configuration file analysis result
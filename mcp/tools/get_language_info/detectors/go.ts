@@ -1,7 +1,6 @@
 import { BaseLanguageDetector } from './base.js';
 import { LanguageDetectionResult, DetectionOptions } from '../types.js';
 import { FileUtils } from '../utils/fileUtils.js';
-import { VersionUtils } from '../utils/versionUtils.js';
 
 /**
  * Go language detector
@@ -71,7 +70,7 @@ export class GoDetector extends BaseLanguageDetector {
     // Check for version in go.mod file
     if (configResult && configResult.filePath && configResult.filePath.endsWith('go.mod')) {
       if (configResult.details && typeof configResult.details === 'string') {
-        const goVersion = VersionUtils.extractVersion(configResult.details, /go\s+([0-9.]+)/);
+        const goVersion = this.extractVersion(configResult.details, /go\s+([0-9.]+)/);
         if (goVersion) {
           return goVersion;
         }
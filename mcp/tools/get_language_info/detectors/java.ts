@@ -1,7 +1,6 @@
 import { BaseLanguageDetector } from './base.js';
 import { LanguageDetectionResult, DetectionOptions } from '../types.js';
 import { FileUtils } from '../utils/fileUtils.js';
-import { VersionUtils } from '../utils/versionUtils.js';
 
 /**
  * Java language detector
@@ -75,7 +74,7 @@ export class JavaDetector extends BaseLanguageDetector {
     // Check for version in pom.xml
     if (configResult && configResult.language === 'java' && configResult.filePath && configResult.filePath.endsWith('pom.xml')) {
       if (configResult.details && typeof configResult.details === 'string') {
-        const pomVersion = VersionUtils.extractVersion(configResult.details, /java\.version\s*>\s*([^<]+)/);
+        const pomVersion = this.extractVersion(configResult.details, /java\.version\s*>\s*([^<]+)/);
         if (pomVersion) {
           return pomVersion;
         }
@@ -84,7 +83,7 @@ export class JavaDetector extends BaseLanguageDetector {
 
     // Check for version in build.gradle
     if (configResult && configResult.language === 'java' && configResult.filePath && configResult.filePath.endsWith('build.gradle')) {
-      const gradleVersion = VersionUtils.extractVersion(configResult.details, /sourceCompatibility\s*=\s*['"]([^"']+)['"]/);
+      const gradleVersion = this.extractVersion(configResult.details, /sourceCompatibility\s*=\s*['"]([^"']+)['"]/);
       if (gradleVersion) {
         return gradleVersion;
       }
@@ -1,7 +1,6 @@
 import { BaseLanguageDetector } from './base.js';
 import { LanguageDetectionResult, DetectionOptions } from '../types.js';
 import { FileUtils } from '../utils/fileUtils.js';
-import { VersionUtils } from '../utils/versionUtils.js';
 
 /**
  * Node.js language detector
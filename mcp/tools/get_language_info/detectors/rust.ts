@@ -1,7 +1,6 @@
 import { BaseLanguageDetector } from './base.js';
 import { LanguageDetectionResult, DetectionOptions } from '../types.js';
 import { FileUtils } from '../utils/fileUtils.js';
-import { VersionUtils } from '../utils/versionUtils.js';
 
 /**
  * Rust language detector
@@ -64,7 +63,7 @@ export class RustDetector extends BaseLanguageDetector {
     // Check for version in Cargo.toml
     if (configResult && configResult.language === 'rust' && configResult.filePath && configResult.filePath.endsWith('Cargo.toml')) {
       if (configResult.details && typeof configResult.details === 'string') {
-        const cargoVersion = VersionUtils.extractVersion(configResult.details, /rust-version\s*=\s*["']([^"']+)["']/);
+        const cargoVersion = this.extractVersion(configResult.details, /rust-version\s*=\s*["']([^"']+)["']/);
         if (cargoVersion) {
           return cargoVersion;
         }
@@ -17,18 +17,6 @@ export interface FrameworkDetectionResult {
   confidence: number;
 }
 
-/**
- * Version information interface
- */
-export interface VersionInfo {
-  major: number;
-  minor: number;
-  patch: number;
-  prerelease?: string;
-  build?: string;
-  raw: string;
-}
-
 /**
  * File extension analysis result
  */
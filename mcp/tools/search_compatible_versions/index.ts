@@ -1,32 +1,66 @@
+import { createRegistryClient } from './registry/registryFactory.js';
+import { RegistryClientOptions, VersionSearchResult } from './types.js';
+
 /**
  * Main entry point for search_compatible_versions tool
  * Finds compatible versions for a given dependency
  * @param packageName Name of the package to search
  * @param currentVersion Current version of the package (optional)
  * @param language Programming language/runtime
+ * @param registryOptions Registry client options (e.g., baseUrl for a mirror)
  * @returns MCP tool response with compatible versions
  */
 export async function searchCompatibleVersions(
   packageName: string,
   currentVersion: string | undefined,
-  language: string
+  language: string,
+  registryOptions: RegistryClientOptions = {}
 ): Promise<{
   content: Array<{
     type: 'text';
     text: string;
   }>;
 }> {
-  // TODO: Implement version search
-  return {
-    content: [
-      {
-        type: 'text',
-        text: JSON.stringify({ 
-          compatibleVersions: [],
-          message: 'Version search not yet implemented' 
-        }, null, 2),
-      },
-    ],
-  };
-}
+  try {
+    const client = createRegistryClient(language, registryOptions);
+    const versions = await client.listVersions(packageName);
+
+    const compatibleVersions = client.filterCompatible(versions, currentVersion);
+    const latestVersion = client.filterCompatible(versions)[0];
 
+    const result: VersionSearchResult = {
+      packageName,
+      language,
+      registry: client.registryName,
+      ...(currentVersion && { currentVersion }),
+      compatibleVersions,
+      recommendedVersion: compatibleVersions[0],
+      latestVersion,
+      totalVersions: versions.length
+    };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            packageName,
+            language,
+            compatibleVersions: [],
+            errors: [errorMessage]
+          }, null, 2),
+        },
+      ],
+    };
+  }
+}
@@ -0,0 +1,125 @@
+import { PackageVersion } from '../types.js';
+import { getVersionScheme } from '../../../utils/versioning/schemeRegistry.js';
+import { ParsedVersion, VersionScheme } from '../../../utils/versioning/types.js';
+
+/**
+ * Registry client interface for version lookups
+ */
+export interface IRegistryClient {
+  /**
+   * Name of the registry (e.g., "npm", "pypi")
+   */
+  readonly registryName: string;
+
+  /**
+   * List all published versions of a package
+   * @param packageName Package name in the registry's own notation
+   * @returns Promise<PackageVersion[]> Published versions
+   */
+  listVersions(packageName: string): Promise<PackageVersion[]>;
+
+  /**
+   * Get the declared dependencies of one published version
+   * @param packageName Package name in the registry's own notation
+   * @param version Published version
+   * @returns Promise<Record<string, string>> Dependency name -> constraint
+   */
+  getDependencies(packageName: string, version: string): Promise<Record<string, string>>;
+
+  /**
+   * Filter published versions down to the ones compatible with the current version
+   * @param versions Published versions
+   * @param currentVersion Current version or constraint (optional)
+   * @returns Compatible version strings, newest first
+   */
+  filterCompatible(versions: PackageVersion[], currentVersion?: string): string[];
+}
+
+/**
+ * Base registry client with version filtering helpers
+ */
+export abstract class BaseRegistryClient implements IRegistryClient {
+  abstract readonly registryName: string;
+
+  /**
+   * List all published versions of a package
+   * @param packageName Package name
+   * @returns Published versions
+   */
+  abstract listVersions(packageName: string): Promise<PackageVersion[]>;
+
+  /**
+   * Get the declared dependencies of one published version
+   * @param packageName Package name
+   * @param version Published version
+   * @returns Dependency name -> constraint
+   */
+  abstract getDependencies(packageName: string, version: string): Promise<Record<string, string>>;
+
+  /**
+   * Filter versions to those compatible with the current version
+   * Compatible means: same major (same minor for 0.x) and not older than a current
+   * version, or inside a current constraint; not yanked, and not a prerelease unless
+   * the current version is one
+   * @param versions Published versions
+   * @param currentVersion Current version or constraint (optional)
+   * @returns Compatible version strings, newest first
+   */
+  filterCompatible(versions: PackageVersion[], currentVersion?: string): string[] {
+    const scheme = getVersionScheme(this.registryName);
+    const matches = currentVersion ? this.compatibility(scheme, currentVersion.trim()) : (): boolean => true;
+    const bare = currentVersion ? this.stripOperators(currentVersion) : '';
+    const allowPrerelease = scheme.isValid(bare) && scheme.isPrerelease(bare);
+
+    return versions
+      .filter(entry => !entry.yanked && scheme.isValid(entry.version))
+      .filter(entry => allowPrerelease || !(entry.prerelease || scheme.isPrerelease(entry.version)))
+      .filter(entry => matches(entry.version))
+      .map(entry => entry.version)
+      .sort((a, b) => scheme.compare(b, a));
+  }
+
+  /**
+   * Build the compatibility test for a current version or constraint
+   * @param scheme Version scheme of this registry
+   * @param current Current version or constraint
+   * @returns Test for candidate versions
+   */
+  private compatibility(scheme: VersionScheme, current: string): (version: string) => boolean {
+    if (!scheme.isValid(current)) {
+      try {
+        scheme.parseConstraint(current);
+        return version => scheme.satisfies(version, current);
+      } catch {
+        // Fall back to the version the constraint starts from
+      }
+    }
+
+    const base = scheme.parse(this.stripOperators(current));
+    if (!base) {
+      return () => true;
+    }
+    return version => this.sameLine(scheme.parse(version)!, base) && scheme.compare(version, base.raw) >= 0;
+  }
+
+  /**
+   * Check whether a version is on the same release line (same major, same minor for 0.x)
+   * @param version Candidate version
+   * @param base Current version
+   * @returns True if on the same line
+   */
+  private sameLine(version: ParsedVersion, base: ParsedVersion): boolean {
+    const [major = 0, minor = 0] = version.release;
+    const [baseMajor = 0, baseMinor = 0] = base.release;
+    return major === baseMajor && (baseMajor !== 0 || minor === baseMinor);
+  }
+
+  /**
+   * Strip leading constraint operators (e.g., "^1.2.0", "~> 2.0", ">=1.0")
+   * @param constraint Version or constraint
+   * @returns Bare version string
+   */
+  private stripOperators(constraint: string): string {
+    return constraint.trim().replace(/^(\^|~>|~=|~|==|>=|<=|>|<|=)\s*/, '').split(/[\s,]/)[0];
+  }
+}
@@ -0,0 +1,62 @@
+import { HttpRegistryClient } from './httpClient.js';
+import { PackageVersion } from '../types.js';
+
+/**
+ * crates.io versions response (subset used here)
+ */
+interface CratesVersionsResponse {
+  versions?: Array<{ num: string; yanked?: boolean; created_at?: string }>;
+}
+
+/**
+ * crates.io dependencies response (subset used here)
+ */
+interface CratesDependenciesResponse {
+  dependencies?: Array<{ crate_id: string; req: string; kind?: string; optional?: boolean }>;
+}
+
+/**
+ * Registry client for crates.io
+ * Endpoint: GET {baseUrl}/api/v1/crates/{name}/versions
+ */
+export class CratesIoRegistryClient extends HttpRegistryClient {
+  readonly registryName = 'crates.io';
+  protected defaultBaseUrl = 'https://crates.io';
+
+  /**
+   * List all published versions of a crate
+   * @param packageName Crate name
+   * @returns Published versions
+   */
+  async listVersions(packageName: string): Promise<PackageVersion[]> {
+    const response = await this.fetchJson<CratesVersionsResponse>(
+      `${this.baseUrl}/api/v1/crates/${encodeURIComponent(packageName)}/versions`
+    );
+
+    return (response.versions || []).map(entry => ({
+      version: entry.num,
+      publishedAt: entry.created_at,
+      yanked: entry.yanked === true,
+      prerelease: entry.num.includes('-')
+    }));
+  }
+
+  /**
+   * Get the normal (non-dev, non-build) dependencies of one crate version
+   * @param packageName Crate name
+   * @param version Published version
+   * @returns Dependency name -> requirement
+   */
+  async getDependencies(packageName: string, version: string): Promise<Record<string, string>> {
+    const response = await this.fetchJson<CratesDependenciesResponse>(
+      `${this.baseUrl}/api/v1/crates/${encodeURIComponent(packageName)}/${encodeURIComponent(version)}/dependencies`
+    );
+
+    const dependencies: Record<string, string> = {};
+    for (const dependency of response.dependencies || []) {
+      if (dependency.kind && dependency.kind !== 'normal') continue;
+      dependencies[dependency.crate_id] = dependency.req;
+    }
+    return dependencies;
+  }
+}
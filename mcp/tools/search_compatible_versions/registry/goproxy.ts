@@ -0,0 +1,60 @@
+import { HttpRegistryClient } from './httpClient.js';
+import { PackageVersion } from '../types.js';
+import { GomodParser } from '../../get_dependencies/parsers/gomodParser.js';
+
+/**
+ * Registry client for the Go module proxy protocol
+ * Endpoint: GET {baseUrl}/{escaped module path}/@v/list
+ */
+export class GoProxyRegistryClient extends HttpRegistryClient {
+  readonly registryName = 'goproxy';
+  protected defaultBaseUrl = 'https://proxy.golang.org';
+
+  /**
+   * List all published versions of a Go module
+   * @param packageName Module path (e.g., "github.com/gin-gonic/gin")
+   * @returns Published versions (the list endpoint omits pseudo-versions)
+   */
+  async listVersions(packageName: string): Promise<PackageVersion[]> {
+    const list = await this.fetchText(`${this.baseUrl}/${this.escapePath(packageName)}/@v/list`, 'text/plain');
+
+    return list
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line.length > 0)
+      .map(version => ({
+        version,
+        prerelease: version.replace(/\+incompatible$/, '').includes('-')
+      }));
+  }
+
+  /**
+   * Get the requirements from one module version's go.mod
+   * @param packageName Module path
+   * @param version Module version
+   * @returns Module path -> minimum version
+   */
+  async getDependencies(packageName: string, version: string): Promise<Record<string, string>> {
+    const gomod = await this.fetchText(
+      `${this.baseUrl}/${this.escapePath(packageName)}/@v/${this.escapePath(version)}.mod`,
+      'text/plain'
+    );
+
+    const dependencies: Record<string, string> = {};
+    for (const dependency of GomodParser.parseContent(gomod)) {
+      if (dependency.version) {
+        dependencies[dependency.name] = dependency.version;
+      }
+    }
+    return dependencies;
+  }
+
+  /**
+   * Escape a module path or version per the proxy protocol (uppercase letters become "!" + lowercase)
+   * @param modulePath Module path or version
+   * @returns Escaped path
+   */
+  private escapePath(modulePath: string): string {
+    return modulePath.replace(/[A-Z]/g, letter => `!${letter.toLowerCase()}`);
+  }
+}
@@ -0,0 +1,71 @@
+import { BaseRegistryClient } from './base.js';
+import { RegistryClientOptions } from '../types.js';
+
+/**
+ * Base class for registry clients that talk to a live HTTP registry
+ */
+export abstract class HttpRegistryClient extends BaseRegistryClient {
+  protected abstract defaultBaseUrl: string;
+
+  private static readonly DEFAULT_TIMEOUT = 10 * 1000; // 10 seconds
+
+  protected options: RegistryClientOptions;
+
+  constructor(options: RegistryClientOptions = {}) {
+    super();
+    this.options = options;
+  }
+
+  /**
+   * Registry base URL without trailing slash
+   */
+  protected get baseUrl(): string {
+    return (this.options.baseUrl || this.defaultBaseUrl).replace(/\/+$/, '');
+  }
+
+  /**
+   * Fetch a URL and parse the body as JSON
+   * @param url URL to fetch
+   * @returns Parsed JSON body
+   */
+  protected async fetchJson<T>(url: string): Promise<T> {
+    const body = await this.fetchText(url, 'application/json');
+    try {
+      return JSON.parse(body) as T;
+    } catch (error) {
+      throw new Error(`Invalid JSON from ${this.registryName} registry at ${url}: ${error}`);
+    }
+  }
+
+  /**
+   * Fetch a URL and return the body as text
+   * @param url URL to fetch
+   * @param accept Accept header value
+   * @returns Response body
+   */
+  protected async fetchText(url: string, accept: string = '*/*'): Promise<string> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeoutMs ?? HttpRegistryClient.DEFAULT_TIMEOUT);
+
+    try {
+      const response = await fetch(url, {
+        headers: {
+          'Accept': accept,
+          'User-Agent': 'depfinder-mcp'
+        },
+        signal: controller.signal
+      });
+
+      if (response.status === 404) {
+        throw new Error(`Package not found in ${this.registryName} registry: ${url}`);
+      }
+      if (!response.ok) {
+        throw new Error(`${this.registryName} registry request failed with status ${response.status}: ${url}`);
+      }
+
+      return await response.text();
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
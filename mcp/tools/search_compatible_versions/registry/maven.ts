@@ -0,0 +1,73 @@
+import { HttpRegistryClient } from './httpClient.js';
+import { PackageVersion } from '../types.js';
+import { PomParser } from '../../get_dependencies/parsers/pomParser.js';
+
+/**
+ * Registry client for Maven Central (or any Maven 2 layout repository)
+ * Endpoint: GET {baseUrl}/{group/path}/{artifactId}/maven-metadata.xml
+ */
+export class MavenRegistryClient extends HttpRegistryClient {
+  readonly registryName = 'maven';
+  protected defaultBaseUrl = 'https://repo1.maven.org/maven2';
+
+  /**
+   * List all published versions of a Maven artifact
+   * @param packageName Coordinates in "groupId:artifactId" form
+   * @returns Published versions
+   */
+  async listVersions(packageName: string): Promise<PackageVersion[]> {
+    const metadata = await this.fetchText(`${this.artifactUrl(packageName)}/maven-metadata.xml`, 'application/xml');
+
+    const versionsSection = metadata.match(/<versions>([\s\S]*?)<\/versions>/);
+    if (!versionsSection) {
+      return [];
+    }
+
+    const versions: PackageVersion[] = [];
+    for (const match of versionsSection[1].matchAll(/<version>([^<]+)<\/version>/g)) {
+      const version = match[1].trim();
+      versions.push({
+        version,
+        prerelease: /(alpha|beta|milestone|rc|cr|snapshot|-M\d)/i.test(version)
+      });
+    }
+
+    return versions;
+  }
+
+  /**
+   * Get the non-test dependencies declared in one artifact version's POM
+   * @param packageName Coordinates in "groupId:artifactId" form
+   * @param version Published version
+   * @returns Dependency coordinates -> version
+   */
+  async getDependencies(packageName: string, version: string): Promise<Record<string, string>> {
+    const artifactId = packageName.split(':')[1];
+    const pom = await this.fetchText(
+      `${this.artifactUrl(packageName)}/${encodeURIComponent(version)}/${encodeURIComponent(`${artifactId}-${version}.pom`)}`,
+      'application/xml'
+    );
+
+    const dependencies: Record<string, string> = {};
+    for (const dependency of PomParser.parseContent(pom)) {
+      if (dependency.type === 'development' || !dependency.version) continue;
+      dependencies[dependency.name] = dependency.version;
+    }
+    return dependencies;
+  }
+
+  /**
+   * Build the repository URL of an artifact directory
+   * @param packageName Coordinates in "groupId:artifactId" form
+   * @returns Artifact directory URL
+   */
+  private artifactUrl(packageName: string): string {
+    const [groupId, artifactId] = packageName.split(':');
+    if (!groupId || !artifactId) {
+      throw new Error(`Maven package name must be "groupId:artifactId": ${packageName}`);
+    }
+
+    const groupPath = groupId.split('.').map(encodeURIComponent).join('/');
+    return `${this.baseUrl}/${groupPath}/${encodeURIComponent(artifactId)}`;
+  }
+}
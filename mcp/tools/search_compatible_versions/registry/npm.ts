@@ -0,0 +1,68 @@
+import { HttpRegistryClient } from './httpClient.js';
+import { PackageVersion } from '../types.js';
+
+/**
+ * npm registry packument (subset used here)
+ */
+interface NpmPackument {
+  versions?: Record<string, NpmManifest>;
+  time?: Record<string, string>;
+}
+
+/**
+ * npm version manifest (subset used here)
+ */
+interface NpmManifest {
+  deprecated?: string;
+  dependencies?: Record<string, string>;
+}
+
+/**
+ * Registry client for the npm registry
+ * Endpoint: GET {baseUrl}/{name} (scoped names are URL-encoded)
+ */
+export class NpmRegistryClient extends HttpRegistryClient {
+  readonly registryName = 'npm';
+  protected defaultBaseUrl = 'https://registry.npmjs.org';
+
+  /**
+   * List all published versions of an npm package
+   * @param packageName Package name (e.g., "express" or "@babel/core")
+   * @returns Published versions
+   */
+  async listVersions(packageName: string): Promise<PackageVersion[]> {
+    const packument = await this.fetchJson<NpmPackument>(`${this.baseUrl}/${this.encodeName(packageName)}`);
+
+    return Object.entries(packument.versions || {}).map(([version, manifest]) => ({
+      version,
+      publishedAt: packument.time?.[version],
+      yanked: !!manifest?.deprecated,
+      prerelease: version.includes('-'),
+      dependencies: manifest?.dependencies
+    }));
+  }
+
+  /**
+   * Get the declared dependencies of one npm package version
+   * @param packageName Package name
+   * @param version Published version
+   * @returns Dependency name -> range
+   */
+  async getDependencies(packageName: string, version: string): Promise<Record<string, string>> {
+    const manifest = await this.fetchJson<NpmManifest>(
+      `${this.baseUrl}/${this.encodeName(packageName)}/${encodeURIComponent(version)}`
+    );
+    return manifest.dependencies || {};
+  }
+
+  /**
+   * Encode a package name for a registry URL (the scope's "/" must be escaped)
+   * @param packageName Package name
+   * @returns Encoded name
+   */
+  private encodeName(packageName: string): string {
+    return packageName.startsWith('@')
+      ? `@${encodeURIComponent(packageName.substring(1))}`
+      : encodeURIComponent(packageName);
+  }
+}
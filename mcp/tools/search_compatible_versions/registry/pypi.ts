@@ -0,0 +1,74 @@
+import { HttpRegistryClient } from './httpClient.js';
+import { PackageVersion } from '../types.js';
+
+/**
+ * PyPI JSON API response (subset used here)
+ */
+interface PypiProject {
+  info?: { requires_dist?: string[] | null };
+  releases?: Record<string, Array<{
+    upload_time_iso_8601?: string;
+    upload_time?: string;
+    yanked?: boolean;
+    digests?: { sha256?: string };
+  }>>;
+}
+
+/**
+ * Registry client for PyPI
+ * Endpoint: GET {baseUrl}/pypi/{name}/json
+ */
+export class PypiRegistryClient extends HttpRegistryClient {
+  readonly registryName = 'pypi';
+  protected defaultBaseUrl = 'https://pypi.org';
+
+  /**
+   * List all published versions of a PyPI project
+   * @param packageName Project name
+   * @returns Published versions
+   */
+  async listVersions(packageName: string): Promise<PackageVersion[]> {
+    const project = await this.fetchJson<PypiProject>(
+      `${this.baseUrl}/pypi/${encodeURIComponent(packageName)}/json`
+    );
+
+    return Object.entries(project.releases || {}).map(([version, files]) => {
+      const uploads = files || [];
+      const firstUpload = uploads[0];
+      const hashes = uploads.filter(file => file.digests?.sha256).map(file => `sha256:${file.digests!.sha256}`);
+      return {
+        version,
+        publishedAt: firstUpload?.upload_time_iso_8601 || firstUpload?.upload_time,
+        // A release is yanked only when every file in it was yanked
+        yanked: uploads.length > 0 && uploads.every(file => file.yanked === true),
+        prerelease: /(a|b|rc|\.?dev)\d+/i.test(version),
+        ...(hashes.length > 0 && { hashes })
+      };
+    });
+  }
+
+  /**
+   * Get the declared dependencies of one release (from its Requires-Dist metadata)
+   * Requirements that only apply to an extra are skipped
+   * @param packageName Project name
+   * @param version Release version
+   * @returns Dependency name -> specifier set
+   */
+  async getDependencies(packageName: string, version: string): Promise<Record<string, string>> {
+    const release = await this.fetchJson<PypiProject>(
+      `${this.baseUrl}/pypi/${encodeURIComponent(packageName)}/${encodeURIComponent(version)}/json`
+    );
+
+    const dependencies: Record<string, string> = {};
+    for (const requirement of release.info?.requires_dist || []) {
+      const [spec, marker] = requirement.split(';');
+      if (marker && /\bextra\s*==/.test(marker)) continue;
+
+      const match = spec.trim().match(/^([A-Za-z0-9][A-Za-z0-9._-]*)\s*(?:\[[^\]]*\])?\s*\(?([^)]*)\)?$/);
+      if (match) {
+        dependencies[match[1]] = match[2].trim();
+      }
+    }
+    return dependencies;
+  }
+}
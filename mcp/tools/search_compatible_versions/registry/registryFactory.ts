@@ -0,0 +1,85 @@
+import { IRegistryClient } from './base.js';
+import { NpmRegistryClient } from './npm.js';
+import { PypiRegistryClient } from './pypi.js';
+import { CratesIoRegistryClient } from './cratesio.js';
+import { RubyGemsRegistryClient } from './rubygems.js';
+import { MavenRegistryClient } from './maven.js';
+import { GoProxyRegistryClient } from './goproxy.js';
+import { SnapshotRegistryClient } from './snapshotClient.js';
+import { RegistryClientOptions } from '../types.js';
+import { resolveEcosystem } from '../../../utils/versioning/ecosystems.js';
+import { Ecosystem } from '../../../utils/versioning/types.js';
+
+/**
+ * Registry serving each package ecosystem
+ */
+const ECOSYSTEM_REGISTRIES: Record<Ecosystem, string> = {
+  npm: 'npm',
+  pypi: 'pypi',
+  cargo: 'crates.io',
+  rubygems: 'rubygems',
+  maven: 'maven',
+  go: 'goproxy'
+};
+
+/**
+ * Resolve the registry name for a language or alias
+ * @param language Programming language/runtime
+ * @returns Registry name or null if unsupported
+ */
+export function resolveRegistryName(language: string): string | null {
+  const ecosystem = resolveEcosystem(language);
+  return ecosystem ? ECOSYSTEM_REGISTRIES[ecosystem] : null;
+}
+
+/**
+ * Environment variable naming an offline registry snapshot (for air-gapped machines)
+ */
+export const SNAPSHOT_ENV_VAR = 'DEPFINDER_REGISTRY_SNAPSHOT';
+
+/**
+ * Create the registry client for a language
+ * When a snapshot is configured (options.snapshotPath or DEPFINDER_REGISTRY_SNAPSHOT),
+ * lookups are served from it and the network is never used
+ * @param language Programming language/runtime
+ * @param options Client options (e.g., baseUrl override, snapshotPath)
+ * @returns Registry client
+ */
+export function createRegistryClient(language: string, options: RegistryClientOptions = {}): IRegistryClient {
+  const registryName = resolveRegistryName(language);
+  if (!registryName) {
+    throw new Error(`Unsupported language for version search: ${language}`);
+  }
+
+  const snapshotPath = options.snapshotPath || process.env[SNAPSHOT_ENV_VAR];
+  if (snapshotPath) {
+    return new SnapshotRegistryClient(registryName, snapshotPath);
+  }
+
+  return createHttpRegistryClient(registryName, options);
+}
+
+/**
+ * Create a client for a live HTTP registry, ignoring any configured snapshot
+ * @param registryName Registry name (see resolveRegistryName)
+ * @param options Client options (e.g., baseUrl override)
+ * @returns Registry client
+ */
+export function createHttpRegistryClient(registryName: string, options: RegistryClientOptions = {}): IRegistryClient {
+  switch (registryName) {
+    case 'npm':
+      return new NpmRegistryClient(options);
+    case 'pypi':
+      return new PypiRegistryClient(options);
+    case 'crates.io':
+      return new CratesIoRegistryClient(options);
+    case 'rubygems':
+      return new RubyGemsRegistryClient(options);
+    case 'maven':
+      return new MavenRegistryClient(options);
+    case 'goproxy':
+      return new GoProxyRegistryClient(options);
+    default:
+      throw new Error(`Unsupported registry: ${registryName}`);
+  }
+}
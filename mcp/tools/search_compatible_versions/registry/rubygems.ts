@@ -0,0 +1,62 @@
+import { HttpRegistryClient } from './httpClient.js';
+import { PackageVersion } from '../types.js';
+
+/**
+ * RubyGems version entry (subset used here)
+ */
+interface RubyGemsVersion {
+  number: string;
+  created_at?: string;
+  prerelease?: boolean;
+}
+
+/**
+ * RubyGems v2 version details (subset used here)
+ */
+interface RubyGemsVersionDetails {
+  dependencies?: { runtime?: Array<{ name: string; requirements: string }> };
+}
+
+/**
+ * Registry client for RubyGems.org
+ * Endpoint: GET {baseUrl}/api/v1/versions/{name}.json
+ */
+export class RubyGemsRegistryClient extends HttpRegistryClient {
+  readonly registryName = 'rubygems';
+  protected defaultBaseUrl = 'https://rubygems.org';
+
+  /**
+   * List all published versions of a gem
+   * @param packageName Gem name
+   * @returns Published versions (RubyGems does not list yanked versions)
+   */
+  async listVersions(packageName: string): Promise<PackageVersion[]> {
+    const entries = await this.fetchJson<RubyGemsVersion[]>(
+      `${this.baseUrl}/api/v1/versions/${encodeURIComponent(packageName)}.json`
+    );
+
+    return (entries || []).map(entry => ({
+      version: entry.number,
+      publishedAt: entry.created_at,
+      prerelease: entry.prerelease === true
+    }));
+  }
+
+  /**
+   * Get the runtime dependencies of one gem version
+   * @param packageName Gem name
+   * @param version Published version
+   * @returns Dependency name -> requirement
+   */
+  async getDependencies(packageName: string, version: string): Promise<Record<string, string>> {
+    const details = await this.fetchJson<RubyGemsVersionDetails>(
+      `${this.baseUrl}/api/v2/rubygems/${encodeURIComponent(packageName)}/versions/${encodeURIComponent(version)}.json`
+    );
+
+    const dependencies: Record<string, string> = {};
+    for (const dependency of details.dependencies?.runtime || []) {
+      dependencies[dependency.name] = dependency.requirements;
+    }
+    return dependencies;
+  }
+}
@@ -0,0 +1,169 @@
+import { IRegistryClient } from './base.js';
+import { createHttpRegistryClient, resolveRegistryName } from './registryFactory.js';
+import { RegistrySnapshotLoader } from './snapshotLoader.js';
+import { PackageVersion, RegistryClientOptions, RegistrySnapshot, SnapshotVersion } from '../types.js';
+import { PythonExtractor } from '../../get_dependencies/extractors/python.js';
+import { NodeJSExtractor } from '../../get_dependencies/extractors/nodejs.js';
+import { JavaExtractor } from '../../get_dependencies/extractors/java.js';
+import { RubyExtractor } from '../../get_dependencies/extractors/ruby.js';
+import { GoExtractor } from '../../get_dependencies/extractors/go.js';
+import { RustExtractor } from '../../get_dependencies/extractors/rust.js';
+import { NpmRange } from '../../../utils/versioning/npmRange.js';
+
+/**
+ * Options for building a registry snapshot
+ */
+export interface SnapshotBuildOptions {
+  registryOptions?: RegistryClientOptions;  // Passed to every live registry client
+  maxVersionsWithDependencies?: number;     // Newest compatible versions to fetch dependency metadata for
+  depth?: number;                           // Levels of transitive dependencies to follow
+}
+
+/**
+ * Builds offline registry snapshots from the dependencies of local projects
+ * Must run on a machine with registry access; the result is used where there is none
+ */
+export class RegistrySnapshotBuilder {
+  private snapshot: RegistrySnapshot;
+  private clients = new Map<string, IRegistryClient>();
+  private visited = new Set<string>();
+  private warnings: string[] = [];
+  private registryOptions: RegistryClientOptions;
+  private maxVersionsWithDependencies: number;
+  private depth: number;
+
+  constructor(options: SnapshotBuildOptions = {}) {
+    this.registryOptions = options.registryOptions || {};
+    this.maxVersionsWithDependencies = options.maxVersionsWithDependencies ?? 5;
+    this.depth = options.depth ?? 1;
+    this.snapshot = {
+      formatVersion: RegistrySnapshotLoader.FORMAT_VERSION,
+      generatedAt: new Date().toISOString(),
+      registries: {}
+    };
+  }
+
+  /**
+   * Add every registry dependency declared by a project
+   * @param projectPath Path to project directory
+   */
+  async addProject(projectPath: string): Promise<void> {
+    const extractors = [
+      new PythonExtractor(),
+      new NodeJSExtractor(),
+      new JavaExtractor(),
+      new RubyExtractor(),
+      new GoExtractor(),
+      new RustExtractor()
+    ];
+
+    for (const extractor of extractors) {
+      const result = await extractor.extract(projectPath);
+      const registry = resolveRegistryName(result.language);
+      if (!registry) continue;
+
+      for (const group of result.groups) {
+        const dependencies = [
+          ...group.dependencies,
+          ...(group.devDependencies || []),
+          ...(group.peerDependencies || []),
+          ...(group.optionalDependencies || [])
+        ];
+        for (const dependency of dependencies) {
+          if (dependency.source && dependency.source !== 'registry') continue;
+          await this.addPackage(registry, NpmRange.packageName(dependency), dependency.versionConstraint, 0);
+        }
+      }
+    }
+  }
+
+  /**
+   * Add a package (and, within the configured depth, its dependencies)
+   * @param registry Registry name
+   * @param packageName Package name
+   * @param constraint Constraint used to pick versions for dependency metadata
+   * @param level Current transitive level
+   */
+  async addPackage(registry: string, packageName: string, constraint?: string, level: number = 0): Promise<void> {
+    const key = `${registry}/${packageName}`;
+    if (this.visited.has(key)) return;
+    this.visited.add(key);
+
+    const client = this.getClient(registry);
+    let versions: PackageVersion[];
+    try {
+      versions = await client.listVersions(packageName);
+    } catch (error) {
+      this.warnings.push(`Skipped ${key}: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+
+    const entries: Record<string, SnapshotVersion> = {};
+    for (const version of versions) {
+      entries[version.version] = {
+        ...(version.publishedAt && { publishedAt: version.publishedAt }),
+        ...(version.yanked && { yanked: true }),
+        ...(version.dependencies && { dependencies: version.dependencies }),
+        ...(version.hashes && { hashes: version.hashes })
+      };
+    }
+
+    // Fetch dependency metadata for the newest versions the project could resolve to
+    let selected = client.filterCompatible(versions, constraint);
+    if (selected.length === 0) {
+      selected = client.filterCompatible(versions);
+    }
+    for (const version of selected.slice(0, this.maxVersionsWithDependencies)) {
+      if (!entries[version].dependencies) {
+        try {
+          entries[version].dependencies = await client.getDependencies(packageName, version);
+        } catch (error) {
+          this.warnings.push(`No dependency metadata for ${key}@${version}: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+    }
+
+    if (!this.snapshot.registries[registry]) {
+      this.snapshot.registries[registry] = {};
+    }
+    this.snapshot.registries[registry][packageName] = { versions: entries };
+
+    // Follow the dependencies of the newest selected version
+    if (level < this.depth && selected.length > 0) {
+      const dependencies = entries[selected[0]].dependencies || {};
+      for (const [name, range] of Object.entries(dependencies)) {
+        await this.addPackage(registry, name, range, level + 1);
+      }
+    }
+  }
+
+  /**
+   * Get the built snapshot
+   * @returns Registry snapshot
+   */
+  build(): RegistrySnapshot {
+    return this.snapshot;
+  }
+
+  /**
+   * Get warnings collected while building
+   * @returns Warning messages
+   */
+  getWarnings(): string[] {
+    return [...this.warnings];
+  }
+
+  /**
+   * Get (or create) the live client for a registry
+   * @param registry Registry name
+   * @returns Registry client
+   */
+  private getClient(registry: string): IRegistryClient {
+    let client = this.clients.get(registry);
+    if (!client) {
+      client = createHttpRegistryClient(registry, this.registryOptions);
+      this.clients.set(registry, client);
+    }
+    return client;
+  }
+}
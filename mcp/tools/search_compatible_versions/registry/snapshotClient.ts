@@ -0,0 +1,63 @@
+import { BaseRegistryClient } from './base.js';
+import { RegistrySnapshotLoader } from './snapshotLoader.js';
+import { PackageVersion, SnapshotPackage } from '../types.js';
+
+/**
+ * Registry client that serves lookups from an offline registry snapshot
+ */
+export class SnapshotRegistryClient extends BaseRegistryClient {
+  readonly registryName: string;
+  private snapshotPath: string;
+
+  constructor(registryName: string, snapshotPath: string) {
+    super();
+    this.registryName = registryName;
+    this.snapshotPath = snapshotPath;
+  }
+
+  /**
+   * List all versions of a package recorded in the snapshot
+   * @param packageName Package name
+   * @returns Recorded versions
+   */
+  async listVersions(packageName: string): Promise<PackageVersion[]> {
+    const entry = await this.findPackage(packageName);
+
+    return Object.entries(entry.versions).map(([version, info]) => ({
+      version,
+      publishedAt: info.publishedAt,
+      yanked: info.yanked === true,
+      dependencies: info.dependencies,
+      ...(info.hashes && { hashes: info.hashes })
+    }));
+  }
+
+  /**
+   * Get the dependencies recorded in the snapshot for one version
+   * @param packageName Package name
+   * @param version Version
+   * @returns Dependency name -> constraint
+   */
+  async getDependencies(packageName: string, version: string): Promise<Record<string, string>> {
+    const entry = await this.findPackage(packageName);
+    const info = entry.versions[version];
+    if (!info) {
+      throw new Error(`Version ${version} of ${packageName} not found in offline ${this.registryName} snapshot`);
+    }
+    return info.dependencies || {};
+  }
+
+  /**
+   * Find a package in the snapshot or throw
+   * @param packageName Package name
+   * @returns Snapshot package
+   */
+  private async findPackage(packageName: string): Promise<SnapshotPackage> {
+    const snapshot = await RegistrySnapshotLoader.load(this.snapshotPath);
+    const entry = RegistrySnapshotLoader.findPackage(snapshot, this.registryName, packageName);
+    if (!entry) {
+      throw new Error(`Package not found in offline ${this.registryName} snapshot: ${packageName}`);
+    }
+    return entry;
+  }
+}
@@ -0,0 +1,93 @@
+import { stat } from 'fs/promises';
+import { RegistrySnapshot, SnapshotPackage } from '../types.js';
+import { readJsonFile, writeJsonFile } from '../../../utils/fileSystem.js';
+import { Pep440 } from '../../../utils/versioning/pep440.js';
+
+/**
+ * Loader for offline registry snapshots
+ * Snapshots are cached in memory and reloaded when the file changes on disk
+ */
+export class RegistrySnapshotLoader {
+  static readonly FORMAT_VERSION = 1;
+
+  private static loaded = new Map<string, { mtimeMs: number; snapshot: RegistrySnapshot }>();
+
+  /**
+   * Load and validate a snapshot file
+   * @param snapshotPath Path to the snapshot JSON file
+   * @returns Registry snapshot
+   */
+  static async load(snapshotPath: string): Promise<RegistrySnapshot> {
+    const { mtimeMs } = await stat(snapshotPath);
+    const cached = this.loaded.get(snapshotPath);
+    if (cached && cached.mtimeMs === mtimeMs) {
+      return cached.snapshot;
+    }
+
+    const snapshot = this.validate(await readJsonFile(snapshotPath), snapshotPath);
+    this.loaded.set(snapshotPath, { mtimeMs, snapshot });
+    return snapshot;
+  }
+
+  /**
+   * Write a snapshot to disk
+   * @param snapshot Registry snapshot
+   * @param snapshotPath Destination path
+   */
+  static async save(snapshot: RegistrySnapshot, snapshotPath: string): Promise<void> {
+    await writeJsonFile(snapshotPath, snapshot as unknown as Record<string, unknown>);
+    this.loaded.delete(snapshotPath);
+  }
+
+  /**
+   * Validate the shape of parsed snapshot data
+   * @param data Parsed JSON
+   * @param source Where the data came from (for error messages)
+   * @returns Registry snapshot
+   */
+  static validate(data: Record<string, unknown>, source: string): RegistrySnapshot {
+    if (data.formatVersion !== this.FORMAT_VERSION) {
+      throw new Error(`Unsupported registry snapshot format version in ${source}: ${data.formatVersion}`);
+    }
+    if (!data.registries || typeof data.registries !== 'object') {
+      throw new Error(`Registry snapshot ${source} has no "registries" object`);
+    }
+
+    for (const [registry, packages] of Object.entries(data.registries as Record<string, unknown>)) {
+      for (const [name, entry] of Object.entries((packages || {}) as Record<string, unknown>)) {
+        const versions = (entry as { versions?: unknown } | null)?.versions;
+        if (!versions || typeof versions !== 'object') {
+          throw new Error(`Registry snapshot ${source} has no versions for ${registry}/${name}`);
+        }
+      }
+    }
+
+    return data as unknown as RegistrySnapshot;
+  }
+
+  /**
+   * Look up a package in a snapshot
+   * PyPI names are matched in PEP 503 normalized form
+   * @param snapshot Registry snapshot
+   * @param registry Registry name
+   * @param packageName Package name
+   * @returns Snapshot package or null
+   */
+  static findPackage(snapshot: RegistrySnapshot, registry: string, packageName: string): SnapshotPackage | null {
+    const packages = snapshot.registries[registry];
+    if (!packages) {
+      return null;
+    }
+    if (packages[packageName]) {
+      return packages[packageName];
+    }
+
+    if (registry === 'pypi') {
+      const wanted = Pep440.normalizeName(packageName);
+      const key = Object.keys(packages).find(name => Pep440.normalizeName(name) === wanted);
+      return key ? packages[key] : null;
+    }
+
+    return null;
+  }
+}
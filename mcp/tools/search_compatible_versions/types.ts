@@ -0,0 +1,50 @@
+/**
+ * Type definitions for version search
+ */
+
+export interface PackageVersion {
+  version: string;
+  publishedAt?: string;  // ISO-8601 timestamp when the registry reports one
+  yanked?: boolean;      // Yanked / deprecated / withdrawn releases
+  prerelease?: boolean;
+  dependencies?: Record<string, string>;  // Dependency name -> constraint, when known
+  hashes?: string[];     // "<algorithm>:<digest>" of each distribution file, when known
+}
+
+export interface RegistryClientOptions {
+  baseUrl?: string;      // Override the registry endpoint (e.g., a local mirror)
+  timeoutMs?: number;
+  snapshotPath?: string; // Serve lookups from an offline registry snapshot instead of the network
+}
+
+export interface VersionSearchResult {
+  packageName: string;
+  language: string;
+  registry: string;
+  currentVersion?: string;
+  compatibleVersions: string[];
+  recommendedVersion?: string;
+  latestVersion?: string;
+  totalVersions: number;
+}
+
+/**
+ * Offline registry snapshot (on-disk JSON format)
+ * Layout: registries -> registry name -> package name -> versions
+ */
+export interface RegistrySnapshot {
+  formatVersion: number;
+  generatedAt?: string;
+  registries: Record<string, Record<string, SnapshotPackage>>;
+}
+
+export interface SnapshotPackage {
+  versions: Record<string, SnapshotVersion>;
+}
+
+export interface SnapshotVersion {
+  publishedAt?: string;
+  yanked?: boolean;
+  dependencies?: Record<string, string>;  // Dependency name -> constraint
+  hashes?: string[];                       // "<algorithm>:<digest>" of each distribution file (e.g., "sha256:...")
+}
@@ -0,0 +1,364 @@
+import { getVersionScheme } from '../../utils/versioning/schemeRegistry.js';
+import { RangeUtils } from '../../utils/versioning/rangeUtils.js';
+import { Ecosystem, VersionRange, VersionScheme } from '../../utils/versioning/types.js';
+import { DependencyGraph } from './dependencyGraph.js';
+import { ExplanationFormatter } from './explanationFormatter.js';
+import {
+  CompatibilityConflict,
+  CompatibilityResult,
+  DependencyRequirement,
+  ExplanationNode,
+  GraphVersion,
+  PackageCompatibility
+} from './types.js';
+
+/**
+ * Requirement on a package with the reason it holds
+ */
+interface Requirement {
+  constraint: string;
+  range: VersionRange;
+  node: ExplanationNode;
+  derivedFrom?: string;   // Key of the package whose versions imply this requirement
+}
+
+/**
+ * All requirements on one package
+ */
+interface PackageState {
+  name: string;
+  requirements: Requirement[];
+}
+
+/**
+ * Checks that all constraints on each package can be satisfied together
+ * Constraints are parsed with the ecosystem's own rules and intersected as version ranges.
+ * Requirements of locked or registry-recorded versions are followed transitively, and every
+ * conflict comes with a PubGrub-style explanation of how the clashing requirements arise
+ */
+export class CompatibilityChecker {
+  readonly ecosystem: Ecosystem;
+  private scheme: VersionScheme;
+  private language: string;
+  private compare = (a: string, b: string): number => this.scheme.compare(a, b);
+
+  constructor(language: string) {
+    this.language = language;
+    this.scheme = getVersionScheme(language);
+    this.ecosystem = this.scheme.ecosystem;
+  }
+
+  /**
+   * Verify a list of dependency requirements
+   * @param dependencies Requirements (the same package may appear several times)
+   * @param graph Known versions and dependencies (from lockfiles or a registry snapshot)
+   * @returns Compatibility result
+   */
+  check(dependencies: DependencyRequirement[], graph: DependencyGraph = new DependencyGraph(this.ecosystem)): CompatibilityResult {
+    const packages = new Map<string, PackageState>();
+    const errors: string[] = [];
+    const warnings = new Set<string>();
+
+    for (const dependency of dependencies) {
+      try {
+        this.addRequirement(packages, graph, dependency.name, {
+          constraint: dependency.version,
+          range: this.scheme.parseConstraint(dependency.version),
+          node: {
+            kind: 'root',
+            statement: `root requires ${dependency.name} ${dependency.version}`,
+            subject: 'root',
+            package: dependency.name,
+            constraint: dependency.version
+          }
+        });
+      } catch (error) {
+        errors.push(`${dependency.name}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    for (const lock of graph.getLocks().values()) {
+      const constraint = lock.versions.join(' || ');
+      this.addRequirement(packages, graph, lock.name, {
+        constraint,
+        range: lock.versions.reduce<VersionRange>(
+          (range, version) => RangeUtils.union(range, RangeUtils.exact(version), this.compare), []),
+        node: {
+          kind: 'lock',
+          statement: `${lock.source} pins ${lock.name} ${constraint}`,
+          subject: lock.source,
+          package: lock.name,
+          constraint
+        }
+      });
+    }
+
+    this.propagate(packages, graph, warnings);
+
+    const conflicts: CompatibilityConflict[] = [];
+    const results: PackageCompatibility[] = [];
+    for (const state of packages.values()) {
+      conflicts.push(...this.findConflicts(state, graph));
+      // Packages only pinned by a lockfile are not worth listing
+      if (state.requirements.some(r => r.node.kind !== 'lock')) {
+        results.push({
+          name: state.name,
+          constraints: state.requirements.map(r => r.constraint),
+          resolvedRange: RangeUtils.format(this.effectiveRange(state))
+        });
+      }
+    }
+
+    return {
+      language: this.language,
+      ecosystem: this.ecosystem,
+      compatible: conflicts.length === 0 && errors.length === 0,
+      packages: results,
+      conflicts,
+      ...(errors.length > 0 && { errors }),
+      ...(warnings.size > 0 && { warnings: [...warnings] })
+    };
+  }
+
+  /**
+   * Follow the dependencies of the versions each package can still take until nothing changes
+   * When a package has no candidates left, what its last candidates implied is kept (its
+   * conflict is reported instead); dropping it would widen other packages again and could
+   * cycle. Candidate sets therefore only ever shrink, so this terminates
+   * @param packages Requirements per package (updated in place)
+   * @param graph Known versions and dependencies
+   * @param warnings Collected warnings
+   */
+  private propagate(packages: Map<string, PackageState>, graph: DependencyGraph, warnings: Set<string>): void {
+    const signatures = new Map<string, string>();
+    const queue = [...packages.keys()];
+
+    while (queue.length > 0) {
+      const key = queue.shift()!;
+      const state = packages.get(key)!;
+      const { candidates, complete } = this.candidates(state, graph);
+
+      const signature = candidates.map(c => c.version).join(',');
+      if (signatures.get(key) === signature) continue;
+      signatures.set(key, signature);
+
+      if (candidates.length === 0) continue;
+
+      // Replace what the previous candidates implied
+      for (const [otherKey, other] of packages) {
+        const before = other.requirements.length;
+        other.requirements = other.requirements.filter(r => r.derivedFrom !== key);
+        if (other.requirements.length !== before) queue.push(otherKey);
+      }
+
+      const term = candidates.length === 1
+        ? candidates[0].version
+        : complete
+          ? (state.requirements.length === 1 ? state.requirements[0].constraint : RangeUtils.format(this.effectiveRange(state)))
+          : candidates.map(c => c.version).join(' || ');
+      const subject = `${state.name} ${term}`;
+      const causes = state.requirements.map(r => r.node);
+
+      for (const [name, range, constraint] of this.sharedRequirements(state, candidates, graph, warnings)) {
+        this.addRequirement(packages, graph, name, {
+          constraint,
+          range,
+          derivedFrom: key,
+          node: { kind: 'dependency', statement: `${subject} requires ${name} ${constraint}`, subject, package: name, constraint, causes }
+        });
+        queue.push(graph.key(name));
+      }
+    }
+  }
+
+  /**
+   * Versions a package can still take whose dependencies are known
+   * Locked versions are used when the package is locked, registry-recorded versions otherwise
+   * @param state Package requirements
+   * @param graph Known versions and dependencies
+   * @returns Candidates, whether they are all the versions the requirements allow, and whether
+   * versions are known but none is allowed
+   */
+  private candidates(
+    state: PackageState,
+    graph: DependencyGraph
+  ): { candidates: GraphVersion[]; complete: boolean; exhausted: boolean } {
+    const range = this.effectiveRange(state);
+    const lock = graph.getLock(state.name);
+    const versions = lock
+      ? lock.versions.map(version => graph.getVersion(state.name, version) || { version })
+      : graph.getVersions(state.name).filter(v => !v.yanked);
+
+    const allowed = versions.filter(v => {
+      try {
+        return RangeUtils.contains(range, v.version, this.compare);
+      } catch {
+        return false;   // Not a valid version in this ecosystem
+      }
+    });
+    const candidates = allowed.filter(v => v.dependencies);
+    return { candidates, complete: candidates.length === allowed.length, exhausted: versions.length > 0 && allowed.length === 0 };
+  }
+
+  /**
+   * Requirements every candidate version places on the same package
+   * npm installs a private copy of each regular dependency where needed, so only
+   * peer dependencies constrain the copy shared with the rest of the tree
+   * @param state Package requirements
+   * @param candidates Candidate versions (with known dependencies)
+   * @param graph Known versions and dependencies
+   * @param warnings Collected warnings
+   * @returns [dependency name, allowed range, constraint text]
+   */
+  private sharedRequirements(
+    state: PackageState,
+    candidates: GraphVersion[],
+    graph: DependencyGraph,
+    warnings: Set<string>
+  ): Array<[string, VersionRange, string]> {
+    const collected = new Map<string, { name: string; constraints: string[]; range: VersionRange; valid: boolean }>();
+
+    for (const candidate of candidates) {
+      for (const edge of candidate.dependencies || []) {
+        if (this.ecosystem === 'npm' && !edge.peer) continue;
+
+        const key = graph.key(edge.name);
+        const entry = collected.get(key) || { name: edge.name, constraints: [], range: [], valid: true };
+        collected.set(key, entry);
+        entry.constraints.push(edge.constraint);
+        try {
+          entry.range = RangeUtils.union(entry.range, this.scheme.parseConstraint(edge.constraint), this.compare);
+        } catch (error) {
+          entry.valid = false;
+          warnings.add(`${state.name} ${candidate.version} dependency ${edge.name}: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+    }
+
+    return [...collected.values()]
+      .filter(entry => entry.valid && entry.constraints.length === candidates.length)
+      .map(entry => [
+        entry.name,
+        entry.range,
+        new Set(entry.constraints).size === 1 ? entry.constraints[0] : RangeUtils.format(entry.range)
+      ]);
+  }
+
+  /**
+   * Find unsatisfiable requirements on one package
+   * Reports requirements that match nothing, then every clashing pair; if the
+   * requirements only clash as a whole, reports all of them together. Requirements that
+   * other packages' versions imply and that no known version meets are reported too
+   * @param state Package requirements
+   * @param graph Known versions and dependencies
+   * @returns Conflicts
+   */
+  private findConflicts(state: PackageState, graph: DependencyGraph): CompatibilityConflict[] {
+    const name = state.name;
+    const conflicts: CompatibilityConflict[] = [];
+
+    const satisfiable = state.requirements.filter(r => {
+      if (RangeUtils.isEmpty(r.range)) {
+        conflicts.push(this.conflict(name, [r], `${name}: "${r.constraint}" matches no version`,
+          `${name} ${r.constraint} matches no version`));
+        return false;
+      }
+      return true;
+    });
+
+    for (let i = 0; i < satisfiable.length; i++) {
+      for (let j = i + 1; j < satisfiable.length; j++) {
+        const [a, b] = [satisfiable[i], satisfiable[j]];
+        if (RangeUtils.isEmpty(RangeUtils.intersect(a.range, b.range, this.compare))) {
+          conflicts.push(this.conflict(
+            name,
+            [a, b],
+            `${name}: "${a.constraint}" (${RangeUtils.format(a.range)}) and "${b.constraint}" (${RangeUtils.format(b.range)}) have no version in common`,
+            this.incompatibility([a, b])
+          ));
+        }
+      }
+    }
+
+    if (conflicts.length === 0 && RangeUtils.isEmpty(this.effectiveRange({ name, requirements: satisfiable }))) {
+      conflicts.push(this.conflict(
+        name,
+        satisfiable,
+        `${name}: constraints ${satisfiable.map(r => `"${r.constraint}"`).join(', ')} have no version in common`,
+        this.incompatibility(satisfiable)
+      ));
+    }
+
+    if (conflicts.length === 0 && state.requirements.some(r => r.derivedFrom) && this.candidates(state, graph).exhausted) {
+      const range = RangeUtils.format(this.effectiveRange(state));
+      conflicts.push(this.conflict(
+        name,
+        state.requirements,
+        `${name}: no known version satisfies ${state.requirements.map(r => `"${r.constraint}"`).join(', ')}`,
+        `no known version of ${name} matches ${range}`
+      ));
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Build a conflict with its explanation
+   * @param name Package name
+   * @param requirements Clashing requirements
+   * @param message Short message
+   * @param statement Conclusion drawn from the requirements
+   * @returns Conflict
+   */
+  private conflict(name: string, requirements: Requirement[], message: string, statement: string): CompatibilityConflict {
+    const explanation: ExplanationNode = {
+      kind: 'incompatibility',
+      statement,
+      package: name,
+      causes: requirements.map(r => r.node)
+    };
+
+    return {
+      package: name,
+      constraints: requirements.map(r => r.constraint),
+      message,
+      explanation,
+      explanationText: ExplanationFormatter.format(explanation)
+    };
+  }
+
+  /**
+   * Conclusion drawn from clashing requirements
+   * @param requirements Clashing requirements
+   * @returns e.g., "A ^2.0.0 is incompatible with B 1.4.0"
+   */
+  private incompatibility(requirements: Requirement[]): string {
+    const subjects = [...new Set(requirements.map(r => r.node.subject || 'root'))];
+    if (subjects.length === 1) return 'version solving failed';
+    if (subjects.length === 2) return `${subjects[0]} is incompatible with ${subjects[1]}`;
+    return `${subjects.slice(0, -1).join(', ')} and ${subjects[subjects.length - 1]} are incompatible`;
+  }
+
+  /**
+   * Versions allowed by every requirement on a package
+   * @param state Package requirements
+   * @returns Allowed range
+   */
+  private effectiveRange(state: PackageState): VersionRange {
+    return RangeUtils.intersectAll(state.requirements.map(r => r.range), this.compare);
+  }
+
+  /**
+   * Add a requirement, merging names the ecosystem treats as equal
+   * @param packages Requirements per package
+   * @param graph Graph supplying canonical names
+   * @param name Package name (first spelling wins)
+   * @param requirement Requirement
+   */
+  private addRequirement(packages: Map<string, PackageState>, graph: DependencyGraph, name: string, requirement: Requirement): void {
+    const key = graph.key(name);
+    const state = packages.get(key) || { name, requirements: [] };
+    state.requirements.push(requirement);
+    packages.set(key, state);
+  }
+}
@@ -0,0 +1,109 @@
+import { Ecosystem } from '../../utils/versioning/types.js';
+import { Pep440 } from '../../utils/versioning/pep440.js';
+import { DependencyEdge, GraphVersion } from './types.js';
+
+/**
+ * Versions locked for a package and the file that locks them
+ */
+export interface LockedVersions {
+  name: string;     // Package name as first written
+  source: string;
+  versions: string[];
+}
+
+/**
+ * Known package versions and their dependencies within one ecosystem
+ * Filled from lockfiles and registry snapshots; packages are keyed by canonical name
+ */
+export class DependencyGraph {
+  readonly ecosystem: Ecosystem;
+  private packages = new Map<string, Map<string, GraphVersion>>();
+  private locks = new Map<string, LockedVersions>();
+
+  constructor(ecosystem: Ecosystem) {
+    this.ecosystem = ecosystem;
+  }
+
+  /**
+   * Canonical package name (PEP 503 normalized for PyPI)
+   * @param name Package name
+   * @returns Key used to match the same package across sources
+   */
+  key(name: string): string {
+    return this.ecosystem === 'pypi' ? Pep440.normalizeName(name) : name;
+  }
+
+  /**
+   * Record a package version; dependency metadata already recorded is kept
+   * @param name Package name
+   * @param version Package version
+   * @param dependencies Dependencies of this version (undefined if unknown)
+   * @param yanked Whether the version was withdrawn from the registry
+   */
+  addVersion(name: string, version: string, dependencies?: DependencyEdge[], yanked: boolean = false): void {
+    const key = this.key(name);
+    let versions = this.packages.get(key);
+    if (!versions) {
+      versions = new Map();
+      this.packages.set(key, versions);
+    }
+
+    const existing = versions.get(version);
+    versions.set(version, {
+      version,
+      ...((yanked || existing?.yanked) && { yanked: true }),
+      ...((existing?.dependencies || dependencies) && { dependencies: existing?.dependencies || dependencies })
+    });
+  }
+
+  /**
+   * Record a version pinned by a lockfile
+   * @param name Package name
+   * @param version Locked version
+   * @param source Lockfile name
+   */
+  addLock(name: string, version: string, source: string): void {
+    const key = this.key(name);
+    const lock = this.locks.get(key) || { name, source, versions: [] };
+    if (!lock.versions.includes(version)) {
+      lock.versions.push(version);
+    }
+    this.locks.set(key, lock);
+  }
+
+  /**
+   * Get the versions locked for a package
+   * @param name Package name
+   * @returns Locked versions or undefined if the package is not locked
+   */
+  getLock(name: string): LockedVersions | undefined {
+    return this.locks.get(this.key(name));
+  }
+
+  /**
+   * Get every locked package
+   * @returns Package key -> locked versions
+   */
+  getLocks(): Map<string, LockedVersions> {
+    return new Map(this.locks);
+  }
+
+  /**
+   * Get a recorded version of a package
+   * @param name Package name
+   * @param version Version
+   * @returns Recorded version or undefined
+   */
+  getVersion(name: string, version: string): GraphVersion | undefined {
+    return this.packages.get(this.key(name))?.get(version);
+  }
+
+  /**
+   * Get all recorded versions of a package
+   * @param name Package name
+   * @returns Recorded versions
+   */
+  getVersions(name: string): GraphVersion[] {
+    return [...(this.packages.get(this.key(name))?.values() || [])];
+  }
+}
@@ -0,0 +1,181 @@
+import * as path from 'path';
+import { DependencyGraph } from './dependencyGraph.js';
+import { fileExists, readJsonFile, readTextFile } from '../../utils/fileSystem.js';
+import { RegistrySnapshotLoader } from '../search_compatible_versions/registry/snapshotLoader.js';
+import { resolveRegistryName } from '../search_compatible_versions/registry/registryFactory.js';
+import { Dependency, LockedRequirement } from '../get_dependencies/types.js';
+import { PackageLockParser } from '../get_dependencies/parsers/packageLockParser.js';
+import { YarnLockParser } from '../get_dependencies/parsers/yarnLockParser.js';
+import { PnpmLockParser } from '../get_dependencies/parsers/pnpmLockParser.js';
+import { PipfileLockParser } from '../get_dependencies/parsers/pipfileLockParser.js';
+import { PoetryLockParser } from '../get_dependencies/parsers/poetryLockParser.js';
+import { UvLockParser } from '../get_dependencies/parsers/uvLockParser.js';
+import { PdmLockParser } from '../get_dependencies/parsers/pdmLockParser.js';
+import { PyprojectParser } from '../get_dependencies/parsers/pyprojectParser.js';
+import { GemfileLockParser } from '../get_dependencies/parsers/gemfileLockParser.js';
+import { CargoLockParser } from '../get_dependencies/parsers/cargoLockParser.js';
+import { NpmRange } from '../../utils/versioning/npmRange.js';
+
+/**
+ * Fills a dependency graph from project lockfiles and registry snapshots
+ */
+export class DependencyGraphLoader {
+  /**
+   * Lockfiles read per ecosystem (Maven and Go projects have none)
+   */
+  private static readonly LOCKFILES: Record<string, string[]> = {
+    npm: ['package-lock.json', 'yarn.lock', 'pnpm-lock.yaml'],
+    pypi: ['poetry.lock', 'Pipfile.lock', 'uv.lock', 'pdm.lock'],
+    rubygems: ['Gemfile.lock'],
+    cargo: ['Cargo.lock']
+  };
+
+  /**
+   * Read the lockfiles of a project into the graph
+   * @param graph Graph to fill
+   * @param projectPath Path to project directory
+   * @returns Warnings for lockfiles that could not be read
+   */
+  static async loadLockfiles(graph: DependencyGraph, projectPath: string): Promise<string[]> {
+    const warnings: string[] = [];
+
+    for (const fileName of this.LOCKFILES[graph.ecosystem] || []) {
+      const filePath = path.join(projectPath, fileName);
+      if (!(await fileExists(filePath))) continue;
+
+      try {
+        switch (fileName) {
+          case 'package-lock.json':
+            this.addLocked(graph, this.topLevelInstalls(await readJsonFile(filePath)), fileName);
+            break;
+          case 'yarn.lock': {
+            const result = YarnLockParser.parseContent(await readTextFile(filePath));
+            this.addLocked(graph, result.dependencies.filter(dep => dep.source !== 'local'), fileName);
+            break;
+          }
+          case 'pnpm-lock.yaml': {
+            const result = PnpmLockParser.parseContent(await readTextFile(filePath));
+            const locked = [...result.dependencies, ...result.devDependencies, ...result.optionalDependencies];
+            this.addLocked(graph, locked.filter(dep => dep.source !== 'local'), fileName);
+            break;
+          }
+          case 'poetry.lock': {
+            const result = PoetryLockParser.parseContent(await readTextFile(filePath));
+            this.addLocked(graph, [...result.dependencies, ...result.devDependencies], fileName, await this.pyprojectDependencies(projectPath));
+            break;
+          }
+          case 'uv.lock': {
+            const result = UvLockParser.parseContent(await readTextFile(filePath));
+            this.addLocked(graph, [...result.dependencies, ...result.devDependencies], fileName, await this.pyprojectDependencies(projectPath));
+            break;
+          }
+          case 'pdm.lock': {
+            const result = PdmLockParser.parseContent(await readTextFile(filePath));
+            this.addLocked(graph, [...result.dependencies, ...result.devDependencies], fileName, await this.pyprojectDependencies(projectPath));
+            break;
+          }
+          case 'Pipfile.lock': {
+            // Pins only: Pipfile.lock records no dependency edges
+            const result = PipfileLockParser.parseContent(await readJsonFile(filePath));
+            for (const dep of [...result.dependencies, ...result.devDependencies]) {
+              if (dep.version) graph.addLock(dep.name, dep.version, fileName);
+            }
+            break;
+          }
+          case 'Gemfile.lock':
+            this.addLocked(graph, GemfileLockParser.parseContent(await readTextFile(filePath)).dependencies, fileName);
+            break;
+          case 'Cargo.lock':
+            this.addLocked(graph, CargoLockParser.parseContent(await readTextFile(filePath)).dependencies, fileName);
+            break;
+        }
+      } catch (error) {
+        warnings.push(`Failed to read ${fileName}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    return warnings;
+  }
+
+  /**
+   * Read the dependency metadata recorded in a registry snapshot into the graph
+   * @param graph Graph to fill
+   * @param snapshotPath Path to snapshot file
+   */
+  static async loadSnapshot(graph: DependencyGraph, snapshotPath: string): Promise<void> {
+    const snapshot = await RegistrySnapshotLoader.load(snapshotPath);
+    const registry = resolveRegistryName(graph.ecosystem);
+    const packages = (registry && snapshot.registries[registry]) || {};
+
+    for (const [name, entry] of Object.entries(packages)) {
+      for (const [version, info] of Object.entries(entry.versions)) {
+        const dependencies = info.dependencies
+          ? Object.entries(info.dependencies).map(([dependency, constraint]) => ({ name: dependency, constraint }))
+          : undefined;
+        graph.addVersion(name, version, dependencies, info.yanked === true);
+      }
+    }
+  }
+
+  /**
+   * Add locked packages to the graph with what each requires
+   * Requirements that only some extras of a package pull in are kept when the project
+   * or another locked package requests one of those extras. A version locked more than
+   * once (pdm.lock lists it again for each set of extras) requires what all its entries do
+   * @param graph Graph to fill
+   * @param packages Locked packages
+   * @param source Lockfile name
+   * @param declared Dependencies the project declares (for the extras it requests)
+   */
+  private static addLocked(graph: DependencyGraph, packages: Dependency[], source: string, declared: Dependency[] = []): void {
+    const requested = new Map<string, Set<string>>();
+    for (const { name, extras } of [...declared, ...packages.flatMap(pkg => pkg.requires || [])]) {
+      const key = graph.key(name);
+      requested.set(key, new Set([...(requested.get(key) || []), ...(extras || [])]));
+    }
+
+    const versions = new Map<string, { name: string; version: string; requires: LockedRequirement[] }>();
+    for (const pkg of packages) {
+      if (!pkg.version) continue;
+      const name = NpmRange.packageName(pkg);
+      const id = `${graph.key(name)}@${pkg.version}`;
+      const entry = versions.get(id) || { name, version: pkg.version, requires: [] };
+      entry.requires.push(...(pkg.requires || []));
+      versions.set(id, entry);
+    }
+
+    for (const { name, version, requires } of versions.values()) {
+      const needed = requires
+        .filter(req => !req.forExtras || req.forExtras.some(extra => requested.get(graph.key(name))?.has(extra)));
+      graph.addVersion(name, version, needed);
+      graph.addLock(name, version, source);
+    }
+  }
+
+  /**
+   * Dependencies pyproject.toml declares, for the extras they request of locked packages
+   * @param projectPath Path to project directory
+   * @returns Runtime, development and optional dependencies (none without a pyproject.toml)
+   */
+  private static async pyprojectDependencies(projectPath: string): Promise<Dependency[]> {
+    const manifestPath = path.join(projectPath, 'pyproject.toml');
+    if (!(await fileExists(manifestPath))) {
+      return [];
+    }
+    const manifest = await PyprojectParser.parse(manifestPath);
+    return [...manifest.dependencies, ...manifest.devDependencies, ...Object.values(manifest.optionalDependencies).flat()];
+  }
+
+  /**
+   * Installs of package-lock.json that the graph can use
+   * Only top-level installs from a registry are read: nested copies are private to their
+   * parent, and linked workspace packages are the project's own
+   * @param lock Parsed lockfile
+   * @returns Top-level installs
+   */
+  private static topLevelInstalls(lock: Record<string, unknown>): Dependency[] {
+    const result = PackageLockParser.parseContent(lock);
+    return [...result.dependencies, ...result.devDependencies, ...result.peerDependencies, ...result.optionalDependencies]
+      .filter(dep => dep.source !== 'local' && dep.installPath === `node_modules/${NpmRange.packageName(dep)}`);
+  }
+}
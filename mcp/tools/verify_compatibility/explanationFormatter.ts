@@ -0,0 +1,57 @@
+import { ExplanationNode } from './types.js';
+
+/**
+ * Renders conflict explanation trees as text
+ */
+export class ExplanationFormatter {
+  /**
+   * Render an explanation, e.g.:
+   *   Because A ^2.0.0 requires C <3 and B 1.4.0 requires C >=3, A ^2.0.0 is incompatible with B 1.4.0.
+   *   A ^2.0.0 is required because root requires A ^2.0.0.
+   *   ...
+   * @param node Explanation root
+   * @returns Human-readable explanation
+   */
+  static format(node: ExplanationNode): string {
+    const lines: string[] = [];
+    const causes = node.causes || [];
+
+    lines.push(causes.length > 0
+      ? `Because ${this.join(causes)}, ${node.statement}.`
+      : `${this.capitalize(node.statement)}.`);
+
+    // Explain every derived requirement, from the conflict back to the root facts
+    const explained = new Set<string>();
+    const pending = [...causes];
+    while (pending.length > 0) {
+      const cause = pending.shift()!;
+      if (cause.kind !== 'dependency' || !cause.causes?.length || explained.has(cause.subject || '')) continue;
+      explained.add(cause.subject || '');
+      lines.push(`${cause.subject} is required because ${this.join(cause.causes)}.`);
+      pending.push(...cause.causes);
+    }
+
+    if (node.statement !== 'version solving failed') {
+      lines.push('So version solving failed.');
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Join the statements of several nodes
+   * @param nodes Nodes
+   * @returns "a and b and c"
+   */
+  private static join(nodes: ExplanationNode[]): string {
+    return nodes.map(node => node.statement).join(' and ');
+  }
+
+  /**
+   * Capitalize the first letter of a sentence
+   * @param text Sentence
+   * @returns Capitalized sentence
+   */
+  private static capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  }
+}
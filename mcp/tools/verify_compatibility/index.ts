@@ -1,31 +1,72 @@
+import { CompatibilityChecker } from './compatibilityChecker.js';
+import { DependencyGraph } from './dependencyGraph.js';
+import { DependencyGraphLoader } from './dependencyGraphLoader.js';
+import { CompatibilityOptions, DependencyRequirement } from './types.js';
+import { SNAPSHOT_ENV_VAR } from '../search_compatible_versions/registry/registryFactory.js';
+
 /**
  * Main entry point for verify_compatibility tool
  * Verifies compatibility between dependencies
- * @param dependencies List of dependencies to verify
+ * @param dependencies List of dependencies to verify (version holds the constraint)
  * @param language Programming language/runtime
+ * @param options Sources of transitive dependencies (project lockfiles, registry snapshot)
  * @returns MCP tool response with compatibility verification result
  */
 export async function verifyCompatibility(
-  dependencies: Array<{ name: string; version: string }>,
-  language: string
+  dependencies: DependencyRequirement[],
+  language: string,
+  options: CompatibilityOptions = {}
 ): Promise<{
   content: Array<{
     type: 'text';
     text: string;
   }>;
 }> {
-  // TODO: Implement compatibility verification
-  return {
-    content: [
-      {
-        type: 'text',
-        text: JSON.stringify({ 
-          compatible: true,
-          conflicts: [],
-          message: 'Compatibility verification not yet implemented' 
-        }, null, 2),
-      },
-    ],
-  };
-}
+  try {
+    const checker = new CompatibilityChecker(language);
+    const graph = new DependencyGraph(checker.ecosystem);
+    const warnings: string[] = [];
+
+    if (options.projectPath) {
+      warnings.push(...await DependencyGraphLoader.loadLockfiles(graph, options.projectPath));
+    }
 
+    const snapshotPath = options.snapshotPath || process.env[SNAPSHOT_ENV_VAR];
+    if (snapshotPath) {
+      try {
+        await DependencyGraphLoader.loadSnapshot(graph, snapshotPath);
+      } catch (error) {
+        warnings.push(`Failed to load registry snapshot: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    const result = checker.check(dependencies, graph);
+    if (warnings.length > 0) {
+      result.warnings = [...warnings, ...(result.warnings || [])];
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            language,
+            compatible: false,
+            conflicts: [],
+            errors: [errorMessage]
+          }, null, 2),
+        },
+      ],
+    };
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Type definitions for verify_compatibility tool
+ */
+
+/**
+ * A dependency requirement to verify
+ */
+export interface DependencyRequirement {
+  name: string;
+  version: string;   // Constraint in the ecosystem's syntax
+}
+
+/**
+ * Options for verifying compatibility
+ */
+export interface CompatibilityOptions {
+  projectPath?: string;    // Project whose lockfiles supply transitive dependencies
+  snapshotPath?: string;   // Offline registry snapshot with dependency metadata
+}
+
+/**
+ * Dependency of one package version on another package
+ */
+export interface DependencyEdge {
+  name: string;
+  constraint: string;
+  peer?: boolean;          // npm peer dependency (shares the parent's copy)
+}
+
+/**
+ * Version of a package known from a lockfile or registry snapshot
+ */
+export interface GraphVersion {
+  version: string;
+  yanked?: boolean;
+  dependencies?: DependencyEdge[];   // Undefined when not recorded
+}
+
+/**
+ * Node of a conflict explanation (PubGrub-style derivation tree)
+ * Leaves are facts (root requirements, lockfile pins); inner nodes are derived from their causes
+ */
+export interface ExplanationNode {
+  kind: 'root' | 'lock' | 'dependency' | 'incompatibility';
+  statement: string;       // e.g., "A ^2.0.0 requires C <3"
+  subject?: string;        // Who states the requirement: "root", a lockfile, or "A ^2.0.0"
+  package?: string;        // Required package
+  constraint?: string;     // Required constraint
+  causes?: ExplanationNode[];
+}
+
+/**
+ * Constraints that cannot be satisfied together
+ */
+export interface CompatibilityConflict {
+  package: string;
+  constraints: string[];   // The clashing constraints (usually two)
+  message: string;
+  explanation: ExplanationNode;
+  explanationText: string;
+}
+
+/**
+ * Combined requirement on one package
+ */
+export interface PackageCompatibility {
+  name: string;
+  constraints: string[];
+  resolvedRange: string;   // Intersection of all constraints ("<none>" if empty)
+}
+
+export interface CompatibilityResult {
+  language: string;
+  ecosystem: string;
+  compatible: boolean;
+  packages: PackageCompatibility[];
+  conflicts: CompatibilityConflict[];
+  errors?: string[];
+  warnings?: string[];
+}
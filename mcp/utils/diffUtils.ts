@@ -0,0 +1,103 @@
+/**
+ * One line of a line diff
+ */
+export interface DiffLine {
+  type: ' ' | '-' | '+';   // Unchanged, removed or added
+  text: string;
+}
+
+/**
+ * Line-based text diffs
+ */
+export class DiffUtils {
+  /**
+   * Diff two texts line by line (longest common subsequence; removals come before additions)
+   * @param oldText Original text
+   * @param newText New text
+   * @returns Diff lines in order
+   */
+  static diffLines(oldText: string, newText: string): DiffLine[] {
+    const a = this.splitLines(oldText);
+    const b = this.splitLines(newText);
+
+    // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+    const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    const lines: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        lines.push({ type: ' ', text: a[i++] });
+        j++;
+      } else if (j >= b.length || (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+        lines.push({ type: '-', text: a[i++] });
+      } else {
+        lines.push({ type: '+', text: b[j++] });
+      }
+    }
+    return lines;
+  }
+
+  /**
+   * Render a unified diff (as produced by `diff -u`)
+   * @param oldText Original text ("" for a new file)
+   * @param newText New text
+   * @param oldLabel Label of the original ("/dev/null" for a new file)
+   * @param newLabel Label of the new text
+   * @param context Unchanged lines shown around each change
+   * @returns Unified diff, or "" if the texts are equal
+   */
+  static unifiedDiff(oldText: string, newText: string, oldLabel: string, newLabel: string, context: number = 3): string {
+    const lines = this.diffLines(oldText, newText);
+    const changed = lines.map((line, index) => (line.type === ' ' ? -1 : index)).filter(index => index >= 0);
+    if (changed.length === 0) {
+      return '';
+    }
+
+    // Group changes whose context overlaps into hunks of [start, end) line indexes
+    const hunks: Array<[number, number]> = [];
+    for (const index of changed) {
+      const start = Math.max(0, index - context);
+      const end = Math.min(lines.length, index + context + 1);
+      const last = hunks[hunks.length - 1];
+      if (last && start <= last[1]) {
+        last[1] = end;
+      } else {
+        hunks.push([start, end]);
+      }
+    }
+
+    const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+    for (const [start, end] of hunks) {
+      const before = lines.slice(0, start);
+      const hunk = lines.slice(start, end);
+      const oldCount = hunk.filter(line => line.type !== '+').length;
+      const newCount = hunk.filter(line => line.type !== '-').length;
+      // An empty side is numbered by the line before it
+      const oldStart = before.filter(line => line.type !== '+').length + (oldCount > 0 ? 1 : 0);
+      const newStart = before.filter(line => line.type !== '-').length + (newCount > 0 ? 1 : 0);
+
+      output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+      output.push(...hunk.map(line => `${line.type}${line.text}`));
+    }
+    return output.join('\n') + '\n';
+  }
+
+  /**
+   * Split text into lines (a trailing newline does not start another line)
+   * @param text Text
+   * @returns Lines
+   */
+  private static splitLines(text: string): string[] {
+    if (!text) return [];
+    const lines = text.split(/\r?\n/);
+    if (lines[lines.length - 1] === '') lines.pop();
+    return lines;
+  }
+}
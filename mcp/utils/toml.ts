@@ -0,0 +1,702 @@
+/**
+ * TOML reader (https://toml.io/en/v1.0.0)
+ */
+
+/**
+ * Value of a TOML key
+ * Dates and times are kept as written (e.g., "1979-05-27T07:32:00Z"), since manifests
+ * only ever compare or display them
+ */
+export type TomlValue = string | number | boolean | TomlValue[] | TomlTable;
+
+/**
+ * TOML table
+ */
+export interface TomlTable {
+  [key: string]: TomlValue;
+}
+
+/**
+ * Syntax or structure error in a TOML document, with its 1-based position
+ */
+export class TomlError extends Error {
+  constructor(message: string, readonly line: number, readonly column: number) {
+    super(`${message} at line ${line}, column ${column}`);
+    this.name = 'TomlError';
+  }
+}
+
+/**
+ * Parse TOML documents
+ * Follows TOML 1.0, plus the TOML 1.1 relaxation that lets inline tables span lines and
+ * end with a comma, which Cargo and Poetry accept
+ */
+export class Toml {
+  /**
+   * Parse a TOML document
+   * @param content Document text
+   * @returns Root table
+   * @throws TomlError if the document is not valid TOML
+   */
+  static parse(content: string): TomlTable {
+    return new TomlReader(content.replace(/^\uFEFF/, '')).read();
+  }
+
+  /**
+   * Check whether a value is a table
+   * @param value TOML value
+   * @returns True for tables (not arrays)
+   */
+  static isTable(value: TomlValue | undefined): value is TomlTable {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  /**
+   * Look up a table by its path (e.g., ["tool", "poetry", "dependencies"])
+   * @param root Table to start from
+   * @param path Keys to follow
+   * @returns Table, or undefined if a key is missing or not a table
+   */
+  static table(root: TomlTable, path: string[]): TomlTable | undefined {
+    let current: TomlValue | undefined = root;
+    for (const key of path) {
+      if (!this.isTable(current) || !Object.prototype.hasOwnProperty.call(current, key)) {
+        return undefined;
+      }
+      current = current[key];
+    }
+    return this.isTable(current) ? current : undefined;
+  }
+}
+
+/**
+ * Single-use reader over one document
+ * Besides the values it tracks how each table came to be, because TOML forbids
+ * reopening a table that a header, a dotted key or an inline table already defined
+ */
+class TomlReader {
+  private static readonly BARE_KEY = /[A-Za-z0-9_-]+/y;
+  private static readonly DATE_TIME = /(\d{4})-(\d{2})-(\d{2})(?:[Tt ](\d{2}):(\d{2}):(\d{2})(?:\.\d+)?(?:[Zz]|[+-](\d{2}):(\d{2}))?)?/y;
+  private static readonly LOCAL_TIME = /(\d{2}):(\d{2}):(\d{2})(?:\.\d+)?/y;
+  private static readonly FLOAT = /[+-]?(?:(?:0|[1-9](?:_?\d)*)(?:\.\d(?:_?\d)*(?:[eE][+-]?\d(?:_?\d)*)?|[eE][+-]?\d(?:_?\d)*)|inf|nan)/y;
+  private static readonly INTEGER = /0x[0-9A-Fa-f](?:_?[0-9A-Fa-f])*|0o[0-7](?:_?[0-7])*|0b[01](?:_?[01])*|[+-]?(?:0|[1-9](?:_?\d)*)/y;
+  private static readonly ESCAPES: Record<string, string> = {
+    b: '\b', t: '\t', n: '\n', f: '\f', r: '\r', '"': '"', '\\': '\\'
+  };
+
+  private pos = 0;
+  private readonly headerTables = new Set<TomlTable>();   // Defined by [header] or [[header]]
+  private readonly dottedTables = new Set<TomlTable>();   // Created by dotted keys
+  private readonly inlineTables = new Set<TomlTable>();   // Inline tables and their sub-tables
+  private readonly tableArrays = new Set<TomlValue[]>();  // Created by [[header]]
+
+  constructor(private readonly text: string) {}
+
+  /**
+   * Read the whole document
+   * @returns Root table
+   */
+  read(): TomlTable {
+    const root: TomlTable = {};
+    let current = root;
+
+    while (this.pos < this.text.length) {
+      this.skipWhitespace();
+      const c = this.text[this.pos];
+      if (c === '[') {
+        current = this.text.startsWith('[[', this.pos) ? this.readArrayHeader(root) : this.readHeader(root);
+      } else if (c !== undefined && c !== '#' && c !== '\n' && c !== '\r') {
+        this.readKeyValue(current);
+      }
+      this.endLine();
+    }
+
+    return root;
+  }
+
+  /**
+   * Read a [table] header and open the table
+   * @param root Root table
+   * @returns Opened table
+   */
+  private readHeader(root: TomlTable): TomlTable {
+    const start = this.pos;
+    this.pos++;
+    const keys = this.readKey();
+    this.expect(']');
+
+    const parent = this.walkHeader(root, keys.slice(0, -1), start);
+    const last = keys[keys.length - 1];
+    if (!this.has(parent, last)) {
+      const table: TomlTable = {};
+      this.set(parent, last, table);
+      this.headerTables.add(table);
+      return table;
+    }
+
+    const existing = parent[last];
+    if (!Toml.isTable(existing) || this.headerTables.has(existing) ||
+        this.dottedTables.has(existing) || this.inlineTables.has(existing)) {
+      this.fail(`Cannot redefine table ${this.formatKey(keys)}`, start);
+    }
+    this.headerTables.add(existing);
+    return existing;
+  }
+
+  /**
+   * Read an [[array of tables]] header and append a new table
+   * @param root Root table
+   * @returns Appended table
+   */
+  private readArrayHeader(root: TomlTable): TomlTable {
+    const start = this.pos;
+    this.pos += 2;
+    const keys = this.readKey();
+    this.expect(']]');
+
+    const parent = this.walkHeader(root, keys.slice(0, -1), start);
+    const last = keys[keys.length - 1];
+    if (!this.has(parent, last)) {
+      const array: TomlValue[] = [];
+      this.set(parent, last, array);
+      this.tableArrays.add(array);
+    }
+
+    const array = parent[last];
+    if (!Array.isArray(array) || !this.tableArrays.has(array)) {
+      this.fail(`Cannot append to ${this.formatKey(keys)}, which is not an array of tables`, start);
+    }
+    const table: TomlTable = {};
+    array.push(table);
+    this.headerTables.add(table);
+    return table;
+  }
+
+  /**
+   * Follow the leading keys of a header, creating missing tables on the way
+   * (an array of tables stands for its last element)
+   * @param root Root table
+   * @param keys Keys before the last one
+   * @param start Header position (for errors)
+   * @returns Parent table of the header's table
+   */
+  private walkHeader(root: TomlTable, keys: string[], start: number): TomlTable {
+    let table = root;
+    for (const key of keys) {
+      if (!this.has(table, key)) {
+        const child: TomlTable = {};
+        this.set(table, key, child);
+        table = child;
+        continue;
+      }
+
+      const value = table[key];
+      const next = Array.isArray(value) && this.tableArrays.has(value) ? value[value.length - 1] : value;
+      if (!Toml.isTable(next) || this.inlineTables.has(next)) {
+        this.fail(`Cannot define a table inside ${key}, which is not a table`, start);
+      }
+      table = next;
+    }
+    return table;
+  }
+
+  /**
+   * Read "key = value" into a table; dotted keys create or extend sub-tables
+   * @param table Table the pair belongs to
+   */
+  private readKeyValue(table: TomlTable): void {
+    const start = this.pos;
+    const keys = this.readKey();
+    this.expect('=');
+    this.skipWhitespace();
+    const value = this.readValue();
+
+    let target = table;
+    for (const key of keys.slice(0, -1)) {
+      if (!this.has(target, key)) {
+        const child: TomlTable = {};
+        this.set(target, key, child);
+        this.dottedTables.add(child);
+        target = child;
+        continue;
+      }
+
+      const existing = target[key];
+      if (!Toml.isTable(existing) || !this.dottedTables.has(existing)) {
+        this.fail(`Cannot add keys to ${this.formatKey(keys)} through a dotted key`, start);
+      }
+      target = existing;
+    }
+
+    const last = keys[keys.length - 1];
+    if (this.has(target, last)) {
+      this.fail(`Duplicate key ${this.formatKey(keys)}`, start);
+    }
+    this.set(target, last, value);
+  }
+
+  /**
+   * Read a possibly dotted key (e.g., dependencies.serde."version")
+   * @returns Key parts
+   */
+  private readKey(): string[] {
+    const keys: string[] = [];
+    for (;;) {
+      this.skipWhitespace();
+      const c = this.text[this.pos];
+      if (c === '"') {
+        keys.push(this.readBasicString());
+      } else if (c === "'") {
+        keys.push(this.readLiteralString());
+      } else {
+        const bare = this.match(TomlReader.BARE_KEY);
+        if (!bare) {
+          this.fail(c === undefined || c === '\n' || c === '\r' ? 'Expected a key' : `Unexpected character ${JSON.stringify(c)} in key`);
+        }
+        keys.push(bare[0]);
+      }
+
+      this.skipWhitespace();
+      if (this.text[this.pos] !== '.') {
+        return keys;
+      }
+      this.pos++;
+    }
+  }
+
+  /**
+   * Read a value
+   * @returns Parsed value
+   */
+  private readValue(): TomlValue {
+    const c = this.text[this.pos];
+    if (c === '"') {
+      return this.text.startsWith('"""', this.pos) ? this.readMultilineBasicString() : this.readBasicString();
+    }
+    if (c === "'") {
+      return this.text.startsWith("'''", this.pos) ? this.readMultilineLiteralString() : this.readLiteralString();
+    }
+    if (c === '[') return this.readArray();
+    if (c === '{') return this.readInlineTable();
+    if (this.text.startsWith('true', this.pos)) return this.readWord('true', true);
+    if (this.text.startsWith('false', this.pos)) return this.readWord('false', false);
+    return this.readDateOrNumber();
+  }
+
+  /**
+   * Read a boolean keyword
+   * @param word Keyword
+   * @param value Value it stands for
+   * @returns Value
+   */
+  private readWord(word: string, value: boolean): boolean {
+    this.pos += word.length;
+    if (/[A-Za-z0-9_-]/.test(this.text[this.pos] ?? '')) {
+      this.fail('Invalid value');
+    }
+    return value;
+  }
+
+  /**
+   * Read a date, time, float or integer
+   * @returns Date or time as written, or the number
+   */
+  private readDateOrNumber(): TomlValue {
+    const start = this.pos;
+    const dateTime = this.match(TomlReader.DATE_TIME) || this.match(TomlReader.LOCAL_TIME);
+    if (dateTime && this.atValueEnd()) {
+      this.checkDateTime(dateTime, start);
+      return dateTime[0];
+    }
+
+    this.pos = start;
+    const float = this.match(TomlReader.FLOAT);
+    if (float && this.atValueEnd()) {
+      const text = float[0].replace(/_/g, '');
+      if (text.endsWith('inf')) return text.startsWith('-') ? -Infinity : Infinity;
+      if (text.endsWith('nan')) return NaN;
+      return parseFloat(text);
+    }
+
+    this.pos = start;
+    const integer = this.match(TomlReader.INTEGER);
+    if (integer && this.atValueEnd()) {
+      const text = integer[0].replace(/_/g, '');
+      const radix = { x: 16, o: 8, b: 2 }[text[1] as 'x' | 'o' | 'b'];
+      return radix ? parseInt(text.slice(2), radix) : parseInt(text, 10);
+    }
+
+    const c = this.text[start];
+    this.fail(c === undefined || c === '\n' || c === '\r' || c === '#' ? 'Expected a value' : 'Invalid value', start);
+  }
+
+  /**
+   * Check whether a scalar value may end at the current position
+   * @returns True if followed by whitespace, a separator, a comment or the end
+   */
+  private atValueEnd(): boolean {
+    const next = this.text[this.pos];
+    return next === undefined || /[ \t\r\n,\]}#]/.test(next);
+  }
+
+  /**
+   * Check the fields of a date or time
+   * @param match DATE_TIME or LOCAL_TIME match
+   * @param start Position of the value (for errors)
+   */
+  private checkDateTime(match: RegExpExecArray, start: number): void {
+    const fields = match.slice(1).map(field => (field === undefined ? undefined : parseInt(field, 10)));
+    const [, month, day, hour, minute, second, offsetHour, offsetMinute] = match.length > 4 ? fields : [0, 1, 1, ...fields];
+    const valid = month! >= 1 && month! <= 12 && day! >= 1 && day! <= 31 &&
+      (hour === undefined || (hour < 24 && minute! < 60 && second! <= 60)) &&
+      (offsetHour === undefined || (offsetHour < 24 && offsetMinute! < 60));
+    if (!valid) {
+      this.fail(`Invalid date or time ${match[0]}`, start);
+    }
+  }
+
+  /**
+   * Read an array; it may span lines and contain comments
+   * @returns Array
+   */
+  private readArray(): TomlValue[] {
+    const values: TomlValue[] = [];
+    this.pos++;
+    for (;;) {
+      this.skipBlank();
+      if (this.text[this.pos] === ']') break;
+      values.push(this.readValue());
+      this.skipBlank();
+      if (this.text[this.pos] === ',') {
+        this.pos++;
+        continue;
+      }
+      if (this.text[this.pos] !== ']') {
+        this.fail(this.text[this.pos] === undefined ? 'Unterminated array' : 'Expected "," or "]" in array');
+      }
+      break;
+    }
+    this.pos++;
+    return values;
+  }
+
+  /**
+   * Read an inline table; it and everything in it is closed once read
+   * @returns Table
+   */
+  private readInlineTable(): TomlTable {
+    const table: TomlTable = {};
+    this.pos++;
+    for (;;) {
+      this.skipBlank();
+      if (this.text[this.pos] === '}') break;
+      this.readKeyValue(table);
+      this.skipBlank();
+      if (this.text[this.pos] === ',') {
+        this.pos++;
+        continue;
+      }
+      if (this.text[this.pos] !== '}') {
+        this.fail(this.text[this.pos] === undefined ? 'Unterminated inline table' : 'Expected "," or "}" in inline table');
+      }
+      break;
+    }
+    this.pos++;
+    this.closeInline(table);
+    return table;
+  }
+
+  /**
+   * Mark a table and its sub-tables as inline
+   * @param value Table or value inside one
+   */
+  private closeInline(value: TomlValue): void {
+    if (Toml.isTable(value)) {
+      this.inlineTables.add(value);
+      Object.values(value).forEach(child => this.closeInline(child));
+    }
+  }
+
+  /**
+   * Read a "basic string" with escapes
+   * @returns String value
+   */
+  private readBasicString(): string {
+    const start = this.pos;
+    let value = '';
+    this.pos++;
+    for (;;) {
+      const c = this.text[this.pos];
+      if (c === undefined || c === '\n' || c === '\r') {
+        this.fail('Unterminated string', start);
+      }
+      if (c === '"') {
+        this.pos++;
+        return value;
+      }
+      if (c === '\\') {
+        value += this.readEscape();
+        continue;
+      }
+      this.checkCharacter(c);
+      value += c;
+      this.pos++;
+    }
+  }
+
+  /**
+   * Read a """multi-line basic string"""
+   * A newline right after the opening quotes is dropped, and a backslash at the end
+   * of a line removes it together with the whitespace that follows
+   * @returns String value
+   */
+  private readMultilineBasicString(): string {
+    const start = this.pos;
+    let value = '';
+    this.pos += 3;
+    this.skipNewline();
+    for (;;) {
+      const c = this.text[this.pos];
+      if (c === undefined) {
+        this.fail('Unterminated string', start);
+      }
+      if (this.text.startsWith('"""', this.pos)) {
+        return value + this.closeMultiline('"');
+      }
+      if (c === '\\') {
+        const lineEnd = /\\[ \t]*\r?\n/y;
+        lineEnd.lastIndex = this.pos;
+        if (lineEnd.test(this.text)) {
+          this.pos = lineEnd.lastIndex;
+          do {
+            this.skipWhitespace();
+          } while (this.skipNewline());
+          continue;
+        }
+        value += this.readEscape();
+        continue;
+      }
+      if (c === '\r' || c === '\n') {
+        this.skipNewline();
+        value += '\n';
+        continue;
+      }
+      this.checkCharacter(c);
+      value += c;
+      this.pos++;
+    }
+  }
+
+  /**
+   * Read a 'literal string' (no escapes)
+   * @returns String value
+   */
+  private readLiteralString(): string {
+    const start = this.pos;
+    const end = this.text.indexOf("'", this.pos + 1);
+    const newline = this.text.slice(this.pos + 1, end === -1 ? undefined : end).search(/[\r\n]/);
+    if (end === -1 || newline !== -1) {
+      this.fail('Unterminated string', start);
+    }
+    for (this.pos++; this.pos < end; this.pos++) {
+      this.checkCharacter(this.text[this.pos]);
+    }
+    this.pos++;
+    return this.text.slice(start + 1, end);
+  }
+
+  /**
+   * Read a '''multi-line literal string''' (no escapes)
+   * @returns String value
+   */
+  private readMultilineLiteralString(): string {
+    const start = this.pos;
+    let value = '';
+    this.pos += 3;
+    this.skipNewline();
+    for (;;) {
+      const c = this.text[this.pos];
+      if (c === undefined) {
+        this.fail('Unterminated string', start);
+      }
+      if (this.text.startsWith("'''", this.pos)) {
+        return value + this.closeMultiline("'");
+      }
+      if (c === '\r' || c === '\n') {
+        this.skipNewline();
+        value += '\n';
+        continue;
+      }
+      this.checkCharacter(c);
+      value += c;
+      this.pos++;
+    }
+  }
+
+  /**
+   * Consume the closing quotes of a multi-line string; up to two quotes right before
+   * them belong to the string
+   * @param quote Quote character
+   * @returns Quotes that belong to the string
+   */
+  private closeMultiline(quote: string): string {
+    let count = 0;
+    while (this.text[this.pos + count] === quote) count++;
+    if (count > 5) {
+      this.fail('Too many quotes at the end of a multi-line string');
+    }
+    this.pos += count;
+    return quote.repeat(count - 3);
+  }
+
+  /**
+   * Read an escape sequence in a basic string
+   * @returns Character it stands for
+   */
+  private readEscape(): string {
+    const start = this.pos;
+    const c = this.text[this.pos + 1];
+    if (c !== undefined && c in TomlReader.ESCAPES) {
+      this.pos += 2;
+      return TomlReader.ESCAPES[c];
+    }
+    if (c === 'u' || c === 'U') {
+      const digits = this.text.slice(this.pos + 2, this.pos + (c === 'u' ? 6 : 10));
+      const code = /^[0-9A-Fa-f]+$/.test(digits) && digits.length === (c === 'u' ? 4 : 8) ? parseInt(digits, 16) : -1;
+      if (code < 0 || code > 0x10ffff || (code >= 0xd800 && code <= 0xdfff)) {
+        this.fail('Invalid unicode escape', start);
+      }
+      this.pos += 2 + digits.length;
+      return String.fromCodePoint(code);
+    }
+    this.fail(`Invalid escape sequence \\${c ?? ''}`, start);
+  }
+
+  /**
+   * Reject control characters other than tab inside strings and comments
+   * @param c Character
+   */
+  private checkCharacter(c: string): void {
+    const code = c.charCodeAt(0);
+    if ((code < 0x20 && c !== '\t') || code === 0x7f) {
+      this.fail('Control characters must be escaped');
+    }
+  }
+
+  /**
+   * Finish a line: optional whitespace and comment, then a newline or the end
+   */
+  private endLine(): void {
+    this.skipWhitespace();
+    this.skipComment();
+    if (this.pos < this.text.length && !this.skipNewline()) {
+      this.fail('Expected a newline');
+    }
+  }
+
+  /**
+   * Skip whitespace, newlines and comments (inside arrays and inline tables)
+   */
+  private skipBlank(): void {
+    for (;;) {
+      this.skipWhitespace();
+      this.skipComment();
+      if (!this.skipNewline()) return;
+    }
+  }
+
+  /**
+   * Skip spaces and tabs
+   */
+  private skipWhitespace(): void {
+    while (this.text[this.pos] === ' ' || this.text[this.pos] === '\t') this.pos++;
+  }
+
+  /**
+   * Skip a comment up to (not including) the end of the line
+   */
+  private skipComment(): void {
+    if (this.text[this.pos] !== '#') return;
+    this.pos++;
+    while (this.pos < this.text.length && this.text[this.pos] !== '\n' &&
+           !this.text.startsWith('\r\n', this.pos)) {
+      this.checkCharacter(this.text[this.pos]);
+      this.pos++;
+    }
+  }
+
+  /**
+   * Skip one LF or CRLF newline
+   * @returns True if there was one
+   */
+  private skipNewline(): boolean {
+    if (this.text[this.pos] === '\n') {
+      this.pos++;
+      return true;
+    }
+    if (this.text.startsWith('\r\n', this.pos)) {
+      this.pos += 2;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Consume a fixed token after optional whitespace
+   * @param token Token
+   */
+  private expect(token: string): void {
+    this.skipWhitespace();
+    if (!this.text.startsWith(token, this.pos)) {
+      this.fail(`Expected "${token}"`);
+    }
+    this.pos += token.length;
+  }
+
+  /**
+   * Match a sticky pattern at the current position and move past it
+   * @param pattern Pattern with the y flag
+   * @returns Match, or null
+   */
+  private match(pattern: RegExp): RegExpExecArray | null {
+    pattern.lastIndex = this.pos;
+    const match = pattern.exec(this.text);
+    if (match) {
+      this.pos = pattern.lastIndex;
+    }
+    return match;
+  }
+
+  /**
+   * Check whether a table has its own key
+   */
+  private has(table: TomlTable, key: string): boolean {
+    return Object.prototype.hasOwnProperty.call(table, key);
+  }
+
+  /**
+   * Set a key (defined as a property so keys like "__proto__" stay plain keys)
+   */
+  private set(table: TomlTable, key: string, value: TomlValue): void {
+    Object.defineProperty(table, key, { value, enumerable: true, writable: true, configurable: true });
+  }
+
+  /**
+   * Format a key for messages
+   */
+  private formatKey(keys: string[]): string {
+    return keys.map(key => (/^[A-Za-z0-9_-]+$/.test(key) ? key : JSON.stringify(key))).join('.');
+  }
+
+  /**
+   * Throw a TomlError at a position
+   * @param message Error message
+   * @param at Position (defaults to the current one)
+   */
+  private fail(message: string, at: number = this.pos): never {
+    const before = this.text.slice(0, at);
+    const line = before.split('\n').length;
+    const column = at - (before.lastIndexOf('\n') + 1) + 1;
+    throw new TomlError(message, line, column);
+  }
+}
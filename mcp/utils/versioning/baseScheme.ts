@@ -0,0 +1,58 @@
+import { RangeUtils } from './rangeUtils.js';
+import { Ecosystem, ParsedVersion, VersionRange, VersionScheme } from './types.js';
+
+/**
+ * Base version scheme: constraint checks derived from compare() and parseConstraint()
+ * Schemes whose constraints say more than a range (e.g., which prereleases match)
+ * override satisfies()
+ */
+export abstract class BaseVersionScheme implements VersionScheme {
+  abstract readonly ecosystem: Ecosystem;
+
+  abstract compare(a: string, b: string): number;
+
+  abstract isValid(version: string): boolean;
+
+  abstract isPrerelease(version: string): boolean;
+
+  abstract parseConstraint(constraint: string): VersionRange;
+
+  abstract parse(version: string): ParsedVersion | null;
+
+  /**
+   * Check whether a version satisfies a constraint
+   * @param version Version
+   * @param constraint Constraint
+   * @returns True if the version is valid and in the constraint's range
+   */
+  satisfies(version: string, constraint: string): boolean {
+    return this.isValid(version) && RangeUtils.contains(this.parseConstraint(constraint), version, this.comparator);
+  }
+
+  /**
+   * Intersect two constraints
+   * @param a First constraint
+   * @param b Second constraint
+   * @returns Versions both allow ([] if none)
+   */
+  intersect(a: string, b: string): VersionRange {
+    return RangeUtils.intersect(this.parseConstraint(a), this.parseConstraint(b), this.comparator);
+  }
+
+  /**
+   * Find the highest version that satisfies a constraint
+   * @param versions Candidate versions (invalid ones are skipped)
+   * @param constraint Constraint
+   * @returns Highest satisfying version, or null if none does
+   */
+  maxSatisfying(versions: string[], constraint: string): string | null {
+    return versions
+      .filter(version => this.isValid(version) && this.satisfies(version, constraint))
+      .reduce<string | null>((best, version) => (best === null || this.compare(version, best) > 0 ? version : best), null);
+  }
+
+  /**
+   * compare() bound to this scheme, for RangeUtils
+   */
+  protected comparator = (a: string, b: string): number => this.compare(a, b);
+}
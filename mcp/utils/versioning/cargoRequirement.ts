@@ -0,0 +1,203 @@
+import { Semver, SemverVersion, PartialVersion } from './semver.js';
+import { RangeUtils } from './rangeUtils.js';
+import { VersionRange } from './types.js';
+
+/**
+ * Primitive comparator on a full semantic version
+ */
+export interface CargoComparator {
+  operator: '<' | '<=' | '>' | '>=' | '=';
+  version: string;
+}
+
+/**
+ * Cargo version requirements, with the same semantics as the semver crate's VersionReq
+ * (https://doc.rust-lang.org/cargo/reference/specifying-dependencies.html)
+ * A requirement is a comma-separated list of comparators that must all hold; a bare
+ * version is a caret requirement, so "0.3" is ">=0.3.0, <0.4.0" and "0.0.3" is "=0.0.3"
+ */
+export class CargoRequirement {
+  private static readonly COMPARATOR_PATTERN = /^(>=|<=|>|<|=|\^|~)?\s*(.+)$/;
+
+  /**
+   * Parse a requirement into primitive comparators
+   * @param requirement Requirement (e.g., "1.0", ">=1.2, <1.5", "~0.4", "1.*")
+   * @returns Comparators that must all hold ([] matches every release)
+   */
+  static parse(requirement: string): CargoComparator[] {
+    const parts = requirement.split(',').map(part => part.trim());
+    if (parts.some(part => !part)) {
+      throw new Error(`Invalid Cargo version requirement: ${requirement}`);
+    }
+    if (parts.length > 1 && parts.some(part => part === '*')) {
+      throw new Error(`Invalid Cargo version requirement (* must be the only comparator): ${requirement}`);
+    }
+    return parts.flatMap(part => this.desugar(part, requirement));
+  }
+
+  /**
+   * Check whether a version satisfies a requirement
+   * A prerelease only matches when a comparator is a prerelease of the same
+   * major.minor.patch (so "^1.2.3-beta.1" allows 1.2.3-beta.2 but not 1.3.0-beta.1)
+   * @param version Version
+   * @param requirement Requirement
+   * @returns True if the version satisfies the requirement
+   */
+  static matches(version: string, requirement: string): boolean {
+    const parsed = this.parseVersion(version);
+    if (!parsed) {
+      return false;
+    }
+
+    const comparators = this.parse(requirement);
+    if (!comparators.every(comparator => this.test(comparator, version))) return false;
+    if (parsed.prerelease.length === 0) return true;
+
+    return comparators.some(comparator => {
+      const bound = Semver.parse(comparator.version)!;
+      return bound.prerelease.length > 0 &&
+        bound.major === parsed.major && bound.minor === parsed.minor && bound.patch === parsed.patch;
+    });
+  }
+
+  /**
+   * Get the single version a requirement pins ("=1.2.3", or a bare "0.0.3")
+   * @param requirement Requirement
+   * @returns Exact version, or null if the requirement allows more than one
+   */
+  static exactVersion(requirement: string): string | null {
+    try {
+      const comparators = this.parse(requirement);
+      return comparators.length === 1 && comparators[0].operator === '=' ? comparators[0].version : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Spell out a requirement with explicit comparators
+   * @param requirement Requirement
+   * @returns Explicit requirement (e.g., "0.3" -> ">=0.3.0, <0.4.0", "0.0.3" -> "=0.0.3", "*" -> "*")
+   */
+  static format(requirement: string): string {
+    return this.parse(requirement).map(c => `${c.operator}${c.version}`).join(', ') || '*';
+  }
+
+  /**
+   * Convert a requirement to a version range for set operations
+   * Ranges order versions only, so the prerelease rule of matches() is not applied
+   * (upper bounds end at the "-0" prerelease instead)
+   * @param requirement Requirement
+   * @returns Allowed version range
+   */
+  static toRange(requirement: string): VersionRange {
+    const compare = (a: string, b: string): number => Semver.compare(a, b);
+    this.parse(requirement);   // Reject what Cargo rejects before reading the parts
+
+    return requirement.split(',').reduce((range, part) => {
+      const match = part.trim().match(this.COMPARATOR_PATTERN)!;
+      const partial = Semver.parsePartial(match[2])!;
+      return RangeUtils.intersect(range, Semver.comparatorRange(this.operator(match), partial), compare);
+    }, RangeUtils.any());
+  }
+
+  /**
+   * Parse a crate version (a semantic version without a leading "v")
+   * @param version Version string
+   * @returns Parsed version, or null if invalid
+   */
+  static parseVersion(version: string): SemverVersion | null {
+    return version.trim().startsWith('v') ? null : Semver.parse(version);
+  }
+
+  /**
+   * Desugar one comparator into primitive comparators
+   * @param comparator Comparator (e.g., "^0.3", "~1.2.3", ">1", "1.2.*")
+   * @param requirement Full requirement (for error messages)
+   * @returns Primitive comparators
+   */
+  private static desugar(comparator: string, requirement: string): CargoComparator[] {
+    const match = comparator.match(this.COMPARATOR_PATTERN);
+    const partial = match && !match[2].startsWith('v') ? Semver.parsePartial(match[2]) : null;
+    if (!match || !partial) {
+      throw new Error(`Invalid Cargo version requirement: ${requirement}`);
+    }
+
+    const operator = this.operator(match);
+    const { major, minor, patch } = partial;
+    if (major === undefined) {
+      // "*" matches everything; "<*" and ">*" match nothing
+      return operator === '<' || operator === '>' ? [{ operator: '<', version: '0.0.0-0' }] : [];
+    }
+
+    const floor = this.floor(partial);
+    const full = patch !== undefined;
+    const below = (version: string): CargoComparator[] => [
+      { operator: '>=', version: floor },
+      { operator: '<', version }
+    ];
+
+    switch (operator) {
+      case '=':
+        return full ? [{ operator: '=', version: floor }] : below(this.next(partial));
+      case '>=':
+        return [{ operator: '>=', version: floor }];
+      case '>':
+        return full ? [{ operator: '>', version: floor }] : [{ operator: '>=', version: this.next(partial) }];
+      case '<':
+        return [{ operator: '<', version: floor }];
+      case '<=':
+        return full ? [{ operator: '<=', version: floor }] : [{ operator: '<', version: this.next(partial) }];
+      case '~':
+        return below(minor === undefined ? `${major + 1}.0.0` : `${major}.${minor + 1}.0`);
+      default:
+        // Caret: the left-most non-zero part that was written may not change,
+        // and "^0.0.3" allows nothing but 0.0.3
+        if (major > 0 || minor === undefined) return below(`${major + 1}.0.0`);
+        if (minor > 0 || patch === undefined) return below(`0.${minor + 1}.0`);
+        return [{ operator: '=', version: floor }];
+    }
+  }
+
+  /**
+   * Operator of a comparator: a bare version means caret, a bare wildcard ("1.2.*") means "="
+   * @param match Comparator match: operator, version
+   * @returns Operator
+   */
+  private static operator(match: RegExpMatchArray): string {
+    return match[1] || (/[*xX]/.test(match[2]) ? '=' : '^');
+  }
+
+  /**
+   * Check a version against one primitive comparator
+   * @param comparator Comparator
+   * @param version Version
+   * @returns True if the version satisfies it
+   */
+  private static test(comparator: CargoComparator, version: string): boolean {
+    const c = Semver.compare(version, comparator.version);
+    switch (comparator.operator) {
+      case '=': return c === 0;
+      case '>': return c > 0;
+      case '>=': return c >= 0;
+      case '<': return c < 0;
+      case '<=': return c <= 0;
+    }
+  }
+
+  /**
+   * Lowest version a partial version covers (e.g., "1.2" -> "1.2.0")
+   */
+  private static floor(partial: PartialVersion): string {
+    const pre = partial.prerelease.length > 0 ? `-${partial.prerelease.join('.')}` : '';
+    return `${partial.major ?? 0}.${partial.minor ?? 0}.${partial.patch ?? 0}${pre}`;
+  }
+
+  /**
+   * First release past a partial version's wildcard part (e.g., "1.2" -> "1.3.0", "1" -> "2.0.0")
+   */
+  private static next(partial: PartialVersion): string {
+    const major = partial.major ?? 0;
+    return partial.minor === undefined ? `${major + 1}.0.0` : `${major}.${partial.minor + 1}.0`;
+  }
+}
@@ -0,0 +1,73 @@
+import { Semver } from './semver.js';
+import { CargoRequirement } from './cargoRequirement.js';
+import { BaseVersionScheme } from './baseScheme.js';
+import { Ecosystem, ParsedVersion, VersionRange } from './types.js';
+
+/**
+ * Cargo version scheme (semver requirements as used in Cargo.toml)
+ */
+export class CargoVersionScheme extends BaseVersionScheme {
+  readonly ecosystem: Ecosystem = 'cargo';
+
+  /**
+   * Compare two crate versions
+   * @param a First version
+   * @param b Second version
+   * @returns Negative if a < b, 0 if equal, positive if a > b
+   */
+  compare(a: string, b: string): number {
+    return Semver.compare(a, b);
+  }
+
+  /**
+   * Check whether a string is a valid crate version
+   * @param version Version string
+   * @returns True if valid
+   */
+  isValid(version: string): boolean {
+    return CargoRequirement.parseVersion(version) !== null;
+  }
+
+  /**
+   * Check whether a version is a prerelease
+   * @param version Version string
+   * @returns True for prereleases
+   */
+  isPrerelease(version: string): boolean {
+    return (Semver.parse(version)?.prerelease.length ?? 0) > 0;
+  }
+
+  /**
+   * Parse a Cargo requirement: comma-separated comparators, bare versions mean caret
+   * @param constraint Requirement (e.g., "1.0", ">=1.2, <1.5", "~0.4")
+   * @returns Allowed version range
+   */
+  parseConstraint(constraint: string): VersionRange {
+    return CargoRequirement.toRange(constraint);
+  }
+
+  /**
+   * Parse a version
+   * @param version Version string
+   * @returns Parsed version, or null if invalid
+   */
+  parse(version: string): ParsedVersion | null {
+    const parsed = CargoRequirement.parseVersion(version);
+    return parsed && {
+      raw: version.trim(),
+      release: [parsed.major, parsed.minor, parsed.patch],
+      prerelease: parsed.prerelease.length > 0
+    };
+  }
+
+  /**
+   * Check whether a version satisfies a requirement (prereleases only match requirements
+   * that name a prerelease of the same version)
+   * @param version Version
+   * @param constraint Requirement
+   * @returns True if allowed
+   */
+  satisfies(version: string, constraint: string): boolean {
+    return CargoRequirement.matches(version, constraint);
+  }
+}
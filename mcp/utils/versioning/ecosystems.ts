@@ -0,0 +1,28 @@
+import { Ecosystem } from './types.js';
+
+/**
+ * Language names (as reported by get_language_info) and common aliases per ecosystem
+ */
+const ECOSYSTEM_ALIASES: Record<Ecosystem, string[]> = {
+  npm: ['javascript', 'typescript', 'js', 'ts', 'node', 'nodejs', 'npm'],
+  pypi: ['python', 'py', 'pypi', 'pip'],
+  cargo: ['rust', 'rs', 'cargo', 'crates', 'crates.io'],
+  rubygems: ['ruby', 'rb', 'rubygems', 'gem', 'bundler'],
+  maven: ['java', 'kotlin', 'scala', 'maven', 'gradle'],
+  go: ['go', 'golang', 'goproxy']
+};
+
+/**
+ * Resolve the package ecosystem for a language or alias
+ * @param language Programming language/runtime
+ * @returns Ecosystem or null if unsupported
+ */
+export function resolveEcosystem(language: string): Ecosystem | null {
+  const normalized = language.trim().toLowerCase();
+  for (const [ecosystem, aliases] of Object.entries(ECOSYSTEM_ALIASES)) {
+    if (aliases.includes(normalized)) {
+      return ecosystem as Ecosystem;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,79 @@
+import { GoVersion } from './goVersion.js';
+import { RangeUtils } from './rangeUtils.js';
+import { BaseVersionScheme } from './baseScheme.js';
+import { Ecosystem, ParsedVersion, VersionRange } from './types.js';
+
+/**
+ * Go module version scheme
+ * A go.mod requirement is a minimum: Go selects the highest required version
+ * within the module's major version (a new major is a different module path)
+ */
+export class GoVersionScheme extends BaseVersionScheme {
+  readonly ecosystem: Ecosystem = 'go';
+
+  /**
+   * Compare two module versions
+   * @param a First version
+   * @param b Second version
+   * @returns Negative if a < b, 0 if equal, positive if a > b
+   */
+  compare(a: string, b: string): number {
+    return GoVersion.compare(a, b);
+  }
+
+  /**
+   * Check whether a string is a valid module version (must start with "v")
+   * @param version Version string
+   * @returns True if valid
+   */
+  isValid(version: string): boolean {
+    return GoVersion.isValid(version);
+  }
+
+  /**
+   * Check whether a version is a prerelease
+   * @param version Version string
+   * @returns True for prereleases (including pseudo-versions)
+   */
+  isPrerelease(version: string): boolean {
+    return GoVersion.isPrerelease(version);
+  }
+
+  /**
+   * Parse a requirement: "v1.2.3" allows v1.2.3 and later within major version 1
+   * A "+incompatible" requirement shares the unsuffixed path with every later major version
+   * @param constraint Required version
+   * @returns Allowed version range
+   */
+  parseConstraint(constraint: string): VersionRange {
+    const version = constraint.trim().replace(/^>=\s*/, '');
+    const parsed = GoVersion.parse(version);
+    if (!parsed) {
+      throw new Error(`Invalid Go module version: ${constraint}`);
+    }
+    if (GoVersion.isIncompatible(version)) {
+      return RangeUtils.interval({ version, inclusive: true });
+    }
+
+    // v0 and v1 share the unsuffixed module path
+    const nextMajor = parsed.major <= 1 ? 2 : parsed.major + 1;
+    return RangeUtils.interval(
+      { version, inclusive: true },
+      { version: `v${nextMajor}.0.0-0`, inclusive: false }
+    );
+  }
+
+  /**
+   * Parse a version
+   * @param version Version string
+   * @returns Parsed version, or null if invalid
+   */
+  parse(version: string): ParsedVersion | null {
+    const parsed = GoVersion.parse(version);
+    return parsed && {
+      raw: version.trim(),
+      release: [parsed.major, parsed.minor, parsed.patch],
+      prerelease: parsed.prerelease.length > 0
+    };
+  }
+}
@@ -0,0 +1,178 @@
+import { Semver, SemverVersion } from './semver.js';
+
+/**
+ * Parts of a pseudo-version, which names an untagged commit
+ * (e.g., "v0.0.0-20210101000000-abcdef123456")
+ */
+export interface GoPseudoVersion {
+  base?: string;        // Tagged version the commit follows ("v1.2.3" for "v1.2.4-0.2021...")
+  timestamp: string;    // Commit time in UTC as yyyymmddhhmmss
+  time: string;         // Commit time as ISO 8601
+  revision: string;     // Commit hash prefix
+}
+
+/**
+ * Go module versions, following golang.org/x/mod (semver and module)
+ * Versions are semantic versions with a leading "v"; "+incompatible" marks a v2+ version
+ * of a module without a go.mod major suffix and, like all build metadata, does not affect ordering
+ */
+export class GoVersion {
+  private static readonly PSEUDO_PATTERN =
+    /^v[0-9]+\.(?:0\.0-|\d+\.\d+-(?:[^+]*\.)?0\.)(\d{14})-([A-Za-z0-9]+)(?:\+incompatible)?$/;
+
+  /**
+   * Parse a module version
+   * @param version Version string (e.g., "v1.2.3", "v2.0.0+incompatible")
+   * @returns Parsed version, or null unless it is "v" + a full semantic version
+   *   whose only build metadata is "+incompatible"
+   */
+  static parse(version: string): SemverVersion | null {
+    const trimmed = version.trim();
+    if (!trimmed.startsWith('v')) {
+      return null;
+    }
+    const parsed = Semver.parse(trimmed);
+    if (!parsed || (parsed.build.length > 0 && parsed.build.join('.') !== 'incompatible')) {
+      return null;
+    }
+    return parsed;
+  }
+
+  /**
+   * Check whether a string is a valid module version
+   * @param version Version string
+   * @returns True if valid
+   */
+  static isValid(version: string): boolean {
+    return this.parse(version) !== null;
+  }
+
+  /**
+   * Compare two module versions (semver order; "+incompatible" is ignored)
+   * Pseudo-versions are prereleases, so they order by commit time before the next tag
+   * @param a First version
+   * @param b Second version
+   * @returns Negative if a < b, 0 if equal, positive if a > b
+   */
+  static compare(a: string, b: string): number {
+    const left = this.parse(a);
+    const right = this.parse(b);
+    if (!left) throw new Error(`Invalid Go module version: ${a}`);
+    if (!right) throw new Error(`Invalid Go module version: ${b}`);
+    return Semver.compareParsed(left, right);
+  }
+
+  /**
+   * Pick the higher of two versions
+   * @param a First version
+   * @param b Second version
+   * @returns Higher version (a when they are equal)
+   */
+  static max(a: string, b: string): string {
+    return this.compare(a, b) >= 0 ? a : b;
+  }
+
+  /**
+   * Check whether a version is a prerelease
+   * @param version Version string
+   * @returns True for prereleases, including pseudo-versions
+   */
+  static isPrerelease(version: string): boolean {
+    return (this.parse(version)?.prerelease.length ?? 0) > 0;
+  }
+
+  /**
+   * Check whether a version carries "+incompatible"
+   * @param version Version string
+   * @returns True for incompatible versions
+   */
+  static isIncompatible(version: string): boolean {
+    return version.trim().endsWith('+incompatible');
+  }
+
+  /**
+   * Check whether a version is a pseudo-version
+   * @param version Version string
+   * @returns True for pseudo-versions
+   */
+  static isPseudo(version: string): boolean {
+    return this.PSEUDO_PATTERN.test(version.trim()) && this.isValid(version);
+  }
+
+  /**
+   * Split a pseudo-version into its base version, commit time and revision
+   * @param version Pseudo-version
+   * @returns Parts, or null if the version is not a pseudo-version
+   */
+  static pseudo(version: string): GoPseudoVersion | null {
+    const trimmed = version.trim();
+    const match = trimmed.match(this.PSEUDO_PATTERN);
+    if (!match || !this.isValid(trimmed)) {
+      return null;
+    }
+
+    const timestamp = match[1];
+    const [, year, month, day, hour, minute, second] = timestamp.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/)!;
+    const base = this.pseudoBase(trimmed.replace(/\+incompatible$/, ''));
+    return {
+      ...(base && { base }),
+      timestamp,
+      time: `${year}-${month}-${day}T${hour}:${minute}:${second}Z`,
+      revision: match[2]
+    };
+  }
+
+  /**
+   * Check that a version fits the major version suffix of a module path
+   * ("example.com/m/v2" needs v2.x.y, "gopkg.in/yaml.v3" needs v3.x.y, and an unsuffixed
+   * path needs v0/v1 or a "+incompatible" version)
+   * @param modulePath Module path
+   * @param version Version
+   * @returns Problem description, or null if the version fits
+   */
+  static checkPathMajor(modulePath: string, version: string): string | null {
+    const parsed = this.parse(version);
+    if (!parsed) {
+      return `invalid version ${version}`;
+    }
+
+    const suffix = modulePath.match(/^gopkg\.in\/.*\.v(\d+)(?:-unstable)?$/) || modulePath.match(/\/v(\d+)$/);
+    const incompatible = this.isIncompatible(version);
+    if (suffix) {
+      const major = parseInt(suffix[1], 10);
+      if (incompatible) {
+        return `${version} is +incompatible, but ${modulePath} has a major version suffix`;
+      }
+      // gopkg.in/x.v0 and gopkg.in/x.v1 are both used for major versions 0 and 1
+      const fits = parsed.major === major || (modulePath.startsWith('gopkg.in/') && major <= 1 && parsed.major <= 1);
+      return fits ? null : `${version} does not match the v${major} suffix of ${modulePath}`;
+    }
+
+    if (parsed.major >= 2 && !incompatible) {
+      return `${version} needs +incompatible or a /v${parsed.major} suffix on ${modulePath}`;
+    }
+    if (parsed.major < 2 && incompatible) {
+      return `${version} cannot be +incompatible below v2`;
+    }
+    return null;
+  }
+
+  /**
+   * Tagged version a pseudo-version builds on (module.PseudoVersionBase)
+   * @param version Pseudo-version without "+incompatible"
+   * @returns Base version, or undefined when no tag precedes the commit ("vX.0.0-yyyymmddhhmmss-abcdef")
+   */
+  private static pseudoBase(version: string): string | undefined {
+    const parsed = this.parse(version)!;
+    const prerelease = parsed.prerelease.map(String);
+    // "vX.Y.Z-pre.0.yyyymmddhhmmss-abcdef": the base is the prerelease before ".0."
+    if (prerelease.length > 2) {
+      return `v${parsed.major}.${parsed.minor}.${parsed.patch}-${prerelease.slice(0, -2).join('.')}`;
+    }
+    // "vX.Y.(Z+1)-0.yyyymmddhhmmss-abcdef": the base is vX.Y.Z
+    if (prerelease.length === 2 && parsed.patch > 0) {
+      return `v${parsed.major}.${parsed.minor}.${parsed.patch - 1}`;
+    }
+    return undefined;
+  }
+}
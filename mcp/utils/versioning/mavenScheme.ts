@@ -0,0 +1,81 @@
+import { MavenVersion } from './mavenVersion.js';
+import { BaseVersionScheme } from './baseScheme.js';
+import { Ecosystem, ParsedVersion, VersionRange } from './types.js';
+
+/**
+ * Maven version scheme (ComparableVersion ordering and version ranges)
+ */
+export class MavenVersionScheme extends BaseVersionScheme {
+  readonly ecosystem: Ecosystem = 'maven';
+
+  /**
+   * Compare two Maven versions
+   * @param a First version
+   * @param b Second version
+   * @returns Negative if a < b, 0 if equal, positive if a > b
+   */
+  compare(a: string, b: string): number {
+    return MavenVersion.compare(a, b);
+  }
+
+  /**
+   * Check whether a string is a usable Maven version
+   * @param version Version string
+   * @returns True if valid
+   */
+  isValid(version: string): boolean {
+    return /^[0-9A-Za-z][0-9A-Za-z.\-_+]*$/.test(version.trim());
+  }
+
+  /**
+   * Check whether a version is a prerelease
+   * @param version Version string
+   * @returns True for qualifiers ranking below a release (alpha to snapshot)
+   */
+  isPrerelease(version: string): boolean {
+    return MavenVersion.isPrerelease(version);
+  }
+
+  /**
+   * Parse a Maven version requirement
+   * Ranges like "[1.0,2.0)", "(,1.5]" or "[1.5]" may be joined by commas;
+   * a plain version (as written in a pom) is treated as that exact version
+   * @param constraint Version requirement
+   * @returns Allowed version range
+   */
+  parseConstraint(constraint: string): VersionRange {
+    const trimmed = constraint.trim().replace(/^==/, '');
+    if (!/^[[(]/.test(trimmed) && !this.isValid(trimmed)) {
+      throw new Error(`Invalid Maven version: ${constraint}`);
+    }
+    return MavenVersion.toRange(trimmed);
+  }
+
+  /**
+   * Parse a version
+   * @param version Version string
+   * @returns Parsed version (release parts are the leading numbers), or null if invalid
+   */
+  parse(version: string): ParsedVersion | null {
+    if (!this.isValid(version)) {
+      return null;
+    }
+    const items = MavenVersion.parse(version);
+    const firstOther = items.findIndex(item => typeof item !== 'number');
+    return {
+      raw: version.trim(),
+      release: (firstOther === -1 ? items : items.slice(0, firstOther)) as number[],
+      prerelease: MavenVersion.isPrerelease(version)
+    };
+  }
+
+  /**
+   * Check whether a version satisfies a requirement (a plain version means that version)
+   * @param version Version
+   * @param constraint Requirement (e.g., "1.0", "[1.0,2.0)")
+   * @returns True if allowed
+   */
+  satisfies(version: string, constraint: string): boolean {
+    return this.isValid(version) && MavenVersion.contains(constraint.trim().replace(/^==/, ''), version);
+  }
+}
@@ -0,0 +1,350 @@
+import { RangeUtils } from './rangeUtils.js';
+import { VersionRange } from './types.js';
+
+/**
+ * Item of a parsed Maven version: a number, a qualifier or a sub-list (started by "-" or a
+ * digit/letter transition)
+ */
+export type MavenItem = number | string | MavenItem[];
+
+/**
+ * One interval of a Maven version range (a missing bound is unbounded)
+ */
+export interface MavenRestriction {
+  lower?: string;
+  lowerInclusive: boolean;
+  upper?: string;
+  upperInclusive: boolean;
+}
+
+/**
+ * Parsed Maven version requirement
+ * A plain version is a soft requirement (recommended); a bracketed spec is a hard range
+ */
+export interface MavenVersionSpec {
+  recommended?: string;
+  restrictions: MavenRestriction[];   // [] for a soft requirement
+}
+
+/**
+ * Maven versions and version ranges, following org.apache.maven.artifact.versioning
+ * (ComparableVersion and VersionRange)
+ */
+export class MavenVersion {
+  /**
+   * Well-known qualifiers in ascending order ("" is a release)
+   */
+  private static readonly QUALIFIERS = ['alpha', 'beta', 'milestone', 'rc', 'snapshot', '', 'sp'];
+
+  private static readonly ALIASES: Record<string, string> = { ga: '', final: '', release: '', cr: 'rc' };
+
+  /**
+   * Single letters that abbreviate a qualifier when directly followed by a digit ("1.0-a1")
+   */
+  private static readonly ABBREVIATIONS: Record<string, string> = { a: 'alpha', b: 'beta', m: 'milestone' };
+
+  /**
+   * Parse a version into ComparableVersion items
+   * "." separates items, "-" and digit/letter transitions start a sub-list, and
+   * trailing zeros and release qualifiers are dropped ("1.0.0-GA" -> [1])
+   * @param version Version string
+   * @returns Items
+   */
+  static parse(version: string): MavenItem[] {
+    const text = version.trim().toLowerCase();
+    const root: MavenItem[] = [];
+    const stack: MavenItem[][] = [root];
+    let list = root;
+    let isDigit = false;
+    let start = 0;
+
+    const startList = (): void => {
+      const child: MavenItem[] = [];
+      list.push(child);
+      list = child;
+      stack.push(child);
+    };
+
+    for (let i = 0; i < text.length; i++) {
+      const c = text[i];
+      if (c === '.' || c === '-') {
+        list.push(i === start ? 0 : this.item(text.slice(start, i), isDigit, false));
+        start = i + 1;
+        if (c === '-') startList();
+      } else if (/\d/.test(c)) {
+        if (!isDigit && i > start) {
+          list.push(this.item(text.slice(start, i), false, true));
+          start = i;
+          startList();
+        }
+        isDigit = true;
+      } else {
+        if (isDigit && i > start) {
+          list.push(this.item(text.slice(start, i), true, false));
+          start = i;
+          startList();
+        }
+        isDigit = false;
+      }
+    }
+    if (text.length > start) {
+      list.push(this.item(text.slice(start), isDigit, false));
+    }
+
+    while (stack.length > 0) {
+      this.normalize(stack.pop()!);
+    }
+    return root;
+  }
+
+  /**
+   * Compare two Maven versions
+   * Numbers rank above qualifiers; qualifiers rank alpha < beta < milestone < rc < snapshot
+   * < release < sp < anything else (alphabetically)
+   * @param a First version
+   * @param b Second version
+   * @returns Negative if a < b, 0 if equal, positive if a > b
+   */
+  static compare(a: string, b: string): number {
+    return this.compareItems(this.parse(a), this.parse(b));
+  }
+
+  /**
+   * Canonical form of a version (equal versions have equal canonical forms)
+   * @param version Version string
+   * @returns Canonical version (e.g., "1.0.0-GA" -> "1", "1.0-RC1" -> "1-rc-1")
+   */
+  static canonical(version: string): string {
+    const format = (items: MavenItem[]): string => items.map((item, i) => {
+      const text = Array.isArray(item) ? format(item) : String(item);
+      return i === 0 ? text : `${Array.isArray(item) ? '-' : '.'}${text}`;
+    }).join('');
+    return format(this.parse(version));
+  }
+
+  /**
+   * Check whether a version is a prerelease
+   * @param version Version string
+   * @returns True if it has a qualifier ranking below a release (alpha to snapshot)
+   */
+  static isPrerelease(version: string): boolean {
+    const release = this.QUALIFIERS.indexOf('');
+    const walk = (items: MavenItem[]): boolean => items.some(item =>
+      Array.isArray(item) ? walk(item) : typeof item === 'string' && this.QUALIFIERS.indexOf(item) !== -1 &&
+        this.QUALIFIERS.indexOf(item) < release);
+    return walk(this.parse(version));
+  }
+
+  /**
+   * Parse a version requirement as written in a pom
+   * @param spec Requirement (e.g., "1.0", "[1.0,2.0)", "(,1.5]", "[1.5]", "[1,2),[3,)")
+   * @returns Parsed requirement
+   */
+  static parseSpec(spec: string): MavenVersionSpec {
+    const trimmed = spec.trim();
+    if (!/^[[(]/.test(trimmed)) {
+      if (!trimmed || /[[\](),\s]/.test(trimmed)) {
+        throw new Error(`Invalid Maven version: ${spec}`);
+      }
+      return { recommended: trimmed, restrictions: [] };
+    }
+
+    const restrictions: MavenRestriction[] = [];
+    let rest = trimmed;
+    while (rest) {
+      const match = rest.match(/^([[(])([^\]),]*)(?:,([^\]),]*))?([\])])\s*(?:,\s*)?/);
+      if (!match) {
+        throw new Error(`Invalid Maven version range: ${spec}`);
+      }
+      const restriction = this.parseRestriction(match, spec);
+      const previous = restrictions[restrictions.length - 1];
+      if (previous && (!previous.upper || !restriction.lower || this.compare(previous.upper, restriction.lower) > 0 ||
+          (this.compare(previous.upper, restriction.lower) === 0 && previous.upperInclusive && restriction.lowerInclusive))) {
+        throw new Error(`Maven version ranges overlap: ${spec}`);
+      }
+      restrictions.push(restriction);
+      rest = rest.slice(match[0].length);
+    }
+    return { restrictions };
+  }
+
+  /**
+   * Check whether a version satisfies a requirement
+   * A soft requirement is read as that exact version, which is what Maven's
+   * dependency mediation picks for a direct dependency
+   * @param spec Requirement
+   * @param version Version
+   * @returns True if allowed
+   */
+  static contains(spec: string, version: string): boolean {
+    const parsed = this.parseSpec(spec);
+    if (parsed.recommended) {
+      return this.compare(parsed.recommended, version) === 0;
+    }
+    return parsed.restrictions.some(r => {
+      if (r.lower) {
+        const c = this.compare(version, r.lower);
+        if (c < 0 || (c === 0 && !r.lowerInclusive)) return false;
+      }
+      if (r.upper) {
+        const c = this.compare(version, r.upper);
+        if (c > 0 || (c === 0 && !r.upperInclusive)) return false;
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Get the single version a requirement pins ("1.0" or "[1.0]")
+   * @param spec Requirement
+   * @returns Version, or null for ranges and unparseable requirements (e.g., "${x.version}")
+   */
+  static exactVersion(spec: string): string | null {
+    if (/\$\{/.test(spec)) return null;
+    try {
+      const { recommended, restrictions } = this.parseSpec(spec);
+      if (recommended) return recommended;
+      const [only] = restrictions;
+      return restrictions.length === 1 && only.lower && only.lower === only.upper ? only.lower : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Convert a requirement to a version range for set operations
+   * @param spec Requirement
+   * @returns Allowed version range
+   */
+  static toRange(spec: string): VersionRange {
+    const compare = (a: string, b: string): number => this.compare(a, b);
+    const { recommended, restrictions } = this.parseSpec(spec);
+    if (recommended) {
+      return RangeUtils.exact(recommended);
+    }
+    return RangeUtils.normalize(restrictions.map(r => ({
+      ...(r.lower && { lower: { version: r.lower, inclusive: r.lowerInclusive } }),
+      ...(r.upper && { upper: { version: r.upper, inclusive: r.upperInclusive } })
+    })), compare);
+  }
+
+  /**
+   * Translate one bracketed range
+   * @param match Range match: open bracket, lower, upper (undefined for "[1.5]"), close bracket
+   * @param spec Full requirement (for error messages)
+   * @returns Restriction
+   */
+  private static parseRestriction(match: RegExpMatchArray, spec: string): MavenRestriction {
+    const [, open, rawLower, rawUpper, close] = match;
+    const lower = rawLower.trim();
+    if (rawUpper === undefined) {
+      if (open !== '[' || close !== ']' || !lower) {
+        throw new Error(`Invalid Maven version range (a single version needs [ ]): ${spec}`);
+      }
+      return { lower, lowerInclusive: true, upper: lower, upperInclusive: true };
+    }
+
+    const upper = rawUpper.trim();
+    if (lower && upper && this.compare(lower, upper) > 0) {
+      throw new Error(`Maven version range defies version ordering: ${spec}`);
+    }
+    return {
+      ...(lower && { lower }),
+      lowerInclusive: open === '[',
+      ...(upper && { upper }),
+      upperInclusive: close === ']'
+    };
+  }
+
+  /**
+   * Build one item from a token
+   * @param token Token text
+   * @param isDigit Whether the token is numeric
+   * @param followedByDigit Whether a digit follows directly (enables "a1" -> alpha 1)
+   * @returns Number or qualifier
+   */
+  private static item(token: string, isDigit: boolean, followedByDigit: boolean): MavenItem {
+    if (isDigit) {
+      return parseInt(token, 10);
+    }
+    const qualifier = followedByDigit && token.length === 1 ? this.ABBREVIATIONS[token] ?? token : token;
+    return this.ALIASES[qualifier] ?? qualifier;
+  }
+
+  /**
+   * Drop trailing null items (0, release qualifiers, empty lists) up to the last sub-list
+   * @param list Items (updated in place)
+   */
+  private static normalize(list: MavenItem[]): void {
+    for (let i = list.length - 1; i >= 0; i--) {
+      if (this.isNull(list[i])) {
+        list.splice(i, 1);
+      } else if (!Array.isArray(list[i])) {
+        break;
+      }
+    }
+  }
+
+  /**
+   * Check whether an item equals nothing at all (as a missing item would)
+   */
+  private static isNull(item: MavenItem): boolean {
+    if (Array.isArray(item)) return item.length === 0;
+    return typeof item === 'number' ? item === 0 : item === '';
+  }
+
+  /**
+   * Rank of a qualifier: known ones by position, unknown ones after all of them
+   * (compared as strings, as Maven does)
+   */
+  private static rank(qualifier: string): string {
+    const index = this.QUALIFIERS.indexOf(qualifier);
+    return index === -1 ? `${this.QUALIFIERS.length}-${qualifier}` : String(index);
+  }
+
+  /**
+   * Compare two items (undefined is a missing item)
+   * @param a First item
+   * @param b Second item
+   * @returns Negative if a < b, 0 if equal, positive if a > b
+   */
+  private static compareItem(a: MavenItem | undefined, b: MavenItem | undefined): number {
+    if (a === undefined) {
+      return b === undefined ? 0 : -this.compareItem(b, undefined);
+    }
+
+    if (typeof a === 'number') {
+      if (b === undefined) return a === 0 ? 0 : 1;
+      return typeof b === 'number' ? a - b : 1;
+    }
+
+    if (typeof a === 'string') {
+      if (b === undefined) return this.compareRanks(this.rank(a), this.rank(''));
+      if (typeof b === 'string') return this.compareRanks(this.rank(a), this.rank(b));
+      return -1;
+    }
+
+    if (b === undefined) return a.length === 0 ? 0 : this.compareItem(a[0], undefined);
+    if (typeof b === 'number') return -1;
+    if (typeof b === 'string') return 1;
+    return this.compareItems(a, b);
+  }
+
+  /**
+   * Compare two item lists element by element
+   */
+  private static compareItems(a: MavenItem[], b: MavenItem[]): number {
+    for (let i = 0; i < Math.max(a.length, b.length); i++) {
+      const result = this.compareItem(a[i], b[i]);
+      if (result !== 0) return result;
+    }
+    return 0;
+  }
+
+  /**
+   * Compare qualifier ranks as strings
+   */
+  private static compareRanks(a: string, b: string): number {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+}
@@ -0,0 +1,319 @@
+import { Semver, PartialVersion } from './semver.js';
+import { RangeUtils } from './rangeUtils.js';
+import { VersionRange } from './types.js';
+
+/**
+ * Primitive comparator on a full semantic version
+ */
+export interface NpmComparator {
+  operator: '<' | '<=' | '>' | '>=' | '=';
+  version: string;
+}
+
+/**
+ * Comparators that must all hold ([] matches every release)
+ */
+export type NpmComparatorSet = NpmComparator[];
+
+/**
+ * npm semver ranges, with the same semantics as node-semver (https://github.com/npm/node-semver)
+ * Ranges are desugared into comparator sets joined by "||": hyphen ranges, x-ranges,
+ * tilde and caret ranges all become plain >=, <, etc. comparators
+ */
+export class NpmRange {
+  private static readonly DIST_TAG_PATTERN = /^[a-z][a-z0-9._-]*$/i;
+
+  /**
+   * Full npm name of a package kept as a bare name and a scope
+   * @param pkg Name and scope (e.g., { name: "node", scope: "types" })
+   * @returns Registry name (e.g., "@types/node")
+   */
+  static packageName(pkg: { name: string; scope?: string }): string {
+    return pkg.scope ? `@${pkg.scope}/${pkg.name}` : pkg.name;
+  }
+
+  /**
+   * Check whether a package.json version spec is a dist-tag (e.g., "latest", "next", "beta")
+   * @param spec Version spec
+   * @returns True for dist-tags
+   */
+  static isDistTag(spec: string): boolean {
+    const trimmed = spec.trim();
+    return this.DIST_TAG_PATTERN.test(trimmed) && Semver.parsePartial(trimmed) === null;
+  }
+
+  /**
+   * Parse a range into comparator sets
+   * The "latest" dist-tag points at the newest release by convention, so it is
+   * read as "*"; other dist-tags cannot be known without the registry
+   * @param range Range (e.g., "^1.2.3", "1.2.3 - 2.3.4", ">=1.0.0 <2 || 3.x")
+   * @returns Comparator sets, any of which may match
+   */
+  static parse(range: string): NpmComparatorSet[] {
+    const trimmed = range.trim();
+    if (trimmed === 'latest') {
+      return [[]];
+    }
+    if (this.isDistTag(trimmed)) {
+      throw new Error(`npm dist-tag "${trimmed}" is not a version range`);
+    }
+    return trimmed.split('||').map(set => this.parseSet(set.trim(), range));
+  }
+
+  /**
+   * Check whether a version satisfies a range
+   * A prerelease only matches when a comparator in the same set is a prerelease
+   * of the same major.minor.patch (so "^1.2.3-beta.1" allows 1.2.3-beta.2 but not 1.3.0-beta.1)
+   * @param version Version
+   * @param range Range
+   * @param includePrerelease Let prereleases match like any other version
+   * @returns True if the version satisfies the range
+   */
+  static satisfies(version: string, range: string, includePrerelease: boolean = false): boolean {
+    const parsed = Semver.parse(version);
+    if (!parsed) {
+      return false;
+    }
+
+    return this.parse(range).some(set => {
+      if (!set.every(comparator => this.test(comparator, version))) return false;
+      if (parsed.prerelease.length === 0 || includePrerelease) return true;
+
+      return set.some(comparator => {
+        const bound = Semver.parse(comparator.version)!;
+        return bound.prerelease.length > 0 &&
+          bound.major === parsed.major && bound.minor === parsed.minor && bound.patch === parsed.patch;
+      });
+    });
+  }
+
+  /**
+   * Intersect two ranges
+   * @param a First range
+   * @param b Second range
+   * @returns Range matching versions allowed by both (e.g., ">=1.5.0 <2.0.0-0"), or null if there are none
+   */
+  static intersect(a: string, b: string): string | null {
+    const sets: NpmComparatorSet[] = [];
+    for (const left of this.parse(a)) {
+      for (const right of this.parse(b)) {
+        const set = this.simplify([...left, ...right]);
+        if (set) sets.push(set);
+      }
+    }
+    return sets.length > 0 ? this.format(sets) : null;
+  }
+
+  /**
+   * Check whether two ranges have a version in common
+   * @param a First range
+   * @param b Second range
+   * @returns True if they intersect
+   */
+  static intersects(a: string, b: string): boolean {
+    return this.intersect(a, b) !== null;
+  }
+
+  /**
+   * Get the single version a range pins (e.g., "1.2.3", "=1.2.3", "v1.2.3")
+   * @param range Range
+   * @returns Exact version, or null if the range allows more than one
+   */
+  static exactVersion(range: string): string | null {
+    try {
+      const sets = this.parse(range);
+      return sets.length === 1 && sets[0].length === 1 && sets[0][0].operator === '=' ? sets[0][0].version : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Format comparator sets as a range
+   * @param sets Comparator sets
+   * @returns Range (e.g., ">=1.2.3 <2.0.0-0 || 3.0.0")
+   */
+  static format(sets: NpmComparatorSet[]): string {
+    const formatted = [...new Set(sets.map(set =>
+      set.map(c => `${c.operator === '=' ? '' : c.operator}${c.version}`).join(' ') || '*'))];
+    return formatted.includes('*') ? '*' : formatted.join(' || ');
+  }
+
+  /**
+   * Convert a range to a version range for set operations
+   * Ranges order versions only, so the prerelease rule of satisfies() is not applied
+   * @param range Range
+   * @returns Allowed version range
+   */
+  static toRange(range: string): VersionRange {
+    const compare = (a: string, b: string): number => Semver.compare(a, b);
+
+    return this.parse(range).reduce<VersionRange>((union, set) => {
+      const intersection = set.reduce((acc, { operator, version }) => {
+        const bound = { version, inclusive: operator !== '<' && operator !== '>' };
+        const part = operator === '='
+          ? RangeUtils.exact(version)
+          : operator.startsWith('>')
+            ? RangeUtils.interval(bound)
+            : RangeUtils.interval(undefined, bound);
+        return RangeUtils.intersect(acc, part, compare);
+      }, RangeUtils.any());
+      return RangeUtils.union(union, intersection, compare);
+    }, []);
+  }
+
+  /**
+   * Parse one comparator set (space-separated comparators or a hyphen range)
+   * @param set Comparator set
+   * @param range Full range (for error messages)
+   * @returns Primitive comparators
+   */
+  private static parseSet(set: string, range: string): NpmComparatorSet {
+    const hyphen = set.match(/^(\S+)\s+-\s+(\S+)$/);
+    if (hyphen) {
+      const from = this.parsePartial(hyphen[1], range);
+      const to = this.parsePartial(hyphen[2], range);
+      return [
+        ...(from.major === undefined ? [] : [{ operator: '>=' as const, version: this.floor(from) }]),
+        ...(to.major === undefined
+          ? []
+          : to.patch === undefined
+            ? [{ operator: '<' as const, version: `${this.next(to)}-0` }]
+            : [{ operator: '<=' as const, version: this.floor(to) }])
+      ];
+    }
+
+    // Join operators to their versions: ">= 1.2.3" -> ">=1.2.3"
+    return set.replace(/(>=|<=|>|<|=|\^|~>?)\s+/g, '$1')
+      .split(/\s+/)
+      .filter(Boolean)
+      .flatMap(comparator => this.desugar(comparator, range));
+  }
+
+  /**
+   * Desugar one comparator into primitive comparators
+   * @param comparator Comparator (e.g., "^1.2", "~1.2.3", ">1", "1.x")
+   * @param range Full range (for error messages)
+   * @returns Primitive comparators
+   */
+  private static desugar(comparator: string, range: string): NpmComparatorSet {
+    const match = comparator.match(/^(>=|<=|>|<|=|\^|~>?)?(.*)$/)!;
+    const operator = (match[1] || '=').replace('~>', '~');
+    const partial = this.parsePartial(match[2], range);
+    const { major, minor, patch } = partial;
+    const nothing: NpmComparatorSet = [{ operator: '<', version: '0.0.0-0' }];
+
+    if (major === undefined) {
+      // "*" matches everything; "<*" and ">*" match nothing
+      return operator === '<' || operator === '>' ? nothing : [];
+    }
+
+    const floor = this.floor(partial);
+    const full = patch !== undefined;
+    const upper = (version: string): NpmComparatorSet => [
+      { operator: '>=', version: floor },
+      { operator: '<', version: `${version}-0` }
+    ];
+
+    switch (operator) {
+      case '=':
+        return full ? [{ operator: '=', version: floor }] : upper(this.next(partial));
+      case '>=':
+        return [{ operator: '>=', version: floor }];
+      case '>':
+        return full ? [{ operator: '>', version: floor }] : [{ operator: '>=', version: this.next(partial) }];
+      case '<':
+        return [{ operator: '<', version: full ? floor : `${floor}-0` }];
+      case '<=':
+        return full ? [{ operator: '<=', version: floor }] : [{ operator: '<', version: `${this.next(partial)}-0` }];
+      case '~':
+        return upper(minor === undefined ? `${major + 1}.0.0` : `${major}.${minor + 1}.0`);
+      default:
+        // Caret: bump the left-most non-zero part that was written
+        if (major > 0 || minor === undefined) return upper(`${major + 1}.0.0`);
+        if (minor > 0 || patch === undefined) return upper(`0.${minor + 1}.0`);
+        return upper(`0.0.${patch + 1}`);
+    }
+  }
+
+  /**
+   * Combine comparators into at most a lower and an upper bound
+   * @param set Comparators that must all hold
+   * @returns Simplified set, or null if no version satisfies it
+   */
+  private static simplify(set: NpmComparatorSet): NpmComparatorSet | null {
+    const exact = [...new Set(set.filter(c => c.operator === '=').map(c => c.version))];
+    if (exact.length > 1) return null;
+    if (exact.length === 1) {
+      return set.every(c => this.test(c, exact[0])) ? [{ operator: '=', version: exact[0] }] : null;
+    }
+
+    let lower: NpmComparator | undefined;
+    let upper: NpmComparator | undefined;
+    for (const comparator of set) {
+      if (comparator.operator.startsWith('>')) {
+        const c = lower ? Semver.compare(comparator.version, lower.version) : 1;
+        if (c > 0 || (c === 0 && comparator.operator === '>')) lower = comparator;
+      } else {
+        const c = upper ? Semver.compare(comparator.version, upper.version) : -1;
+        if (c < 0 || (c === 0 && comparator.operator === '<')) upper = comparator;
+      }
+    }
+
+    if (lower && upper) {
+      const c = Semver.compare(lower.version, upper.version);
+      if (c > 0) return null;
+      if (c === 0) {
+        return lower.operator === '>=' && upper.operator === '<=' ? [{ operator: '=', version: lower.version }] : null;
+      }
+    }
+    return [...(lower ? [lower] : []), ...(upper ? [upper] : [])];
+  }
+
+  /**
+   * Check a version against one primitive comparator
+   * @param comparator Comparator
+   * @param version Version
+   * @returns True if the version satisfies it
+   */
+  private static test(comparator: NpmComparator, version: string): boolean {
+    const c = Semver.compare(version, comparator.version);
+    switch (comparator.operator) {
+      case '=': return c === 0;
+      case '>': return c > 0;
+      case '>=': return c >= 0;
+      case '<': return c < 0;
+      case '<=': return c <= 0;
+    }
+  }
+
+  /**
+   * Parse a possibly partial version, failing with the full range in the message
+   * @param version Partial version
+   * @param range Full range
+   * @returns Parsed partial version
+   */
+  private static parsePartial(version: string, range: string): PartialVersion {
+    const partial = Semver.parsePartial(version);
+    if (!partial) {
+      throw new Error(`Invalid npm version range: ${range}`);
+    }
+    return partial;
+  }
+
+  /**
+   * Lowest version a partial version covers (e.g., "1.2" -> "1.2.0")
+   */
+  private static floor(partial: PartialVersion): string {
+    const pre = partial.prerelease.length > 0 ? `-${partial.prerelease.join('.')}` : '';
+    return `${partial.major ?? 0}.${partial.minor ?? 0}.${partial.patch ?? 0}${pre}`;
+  }
+
+  /**
+   * First release past a partial version's wildcard part (e.g., "1.2" -> "1.3.0", "1" -> "2.0.0")
+   */
+  private static next(partial: PartialVersion): string {
+    const major = partial.major ?? 0;
+    return partial.minor === undefined ? `${major + 1}.0.0` : `${major}.${partial.minor + 1}.0`;
+  }
+}
@@ -0,0 +1,73 @@
+import { Semver } from './semver.js';
+import { NpmRange } from './npmRange.js';
+import { BaseVersionScheme } from './baseScheme.js';
+import { Ecosystem, ParsedVersion, VersionRange } from './types.js';
+
+/**
+ * npm version scheme (semver ranges as used in package.json)
+ */
+export class NpmVersionScheme extends BaseVersionScheme {
+  readonly ecosystem: Ecosystem = 'npm';
+
+  /**
+   * Compare two npm versions
+   * @param a First version
+   * @param b Second version
+   * @returns Negative if a < b, 0 if equal, positive if a > b
+   */
+  compare(a: string, b: string): number {
+    return Semver.compare(a, b);
+  }
+
+  /**
+   * Check whether a string is a valid npm version
+   * @param version Version string
+   * @returns True if valid
+   */
+  isValid(version: string): boolean {
+    return Semver.parse(version) !== null;
+  }
+
+  /**
+   * Check whether a version is a prerelease
+   * @param version Version string
+   * @returns True for prereleases
+   */
+  isPrerelease(version: string): boolean {
+    return (Semver.parse(version)?.prerelease.length ?? 0) > 0;
+  }
+
+  /**
+   * Parse an npm range: comparator sets joined by "||", comparators separated by spaces
+   * @param constraint Range (e.g., "^1.2.0", ">=1.0.0 <2.0.0 || 3.x", "1.2.3 - 2.3.4")
+   * @returns Allowed version range
+   */
+  parseConstraint(constraint: string): VersionRange {
+    return NpmRange.toRange(constraint);
+  }
+
+  /**
+   * Parse a version
+   * @param version Version string
+   * @returns Parsed version, or null if invalid
+   */
+  parse(version: string): ParsedVersion | null {
+    const parsed = Semver.parse(version);
+    return parsed && {
+      raw: version.trim(),
+      release: [parsed.major, parsed.minor, parsed.patch],
+      prerelease: parsed.prerelease.length > 0
+    };
+  }
+
+  /**
+   * Check whether a version satisfies a range (prereleases only match ranges that name
+   * a prerelease of the same version)
+   * @param version Version
+   * @param constraint Range
+   * @returns True if allowed
+   */
+  satisfies(version: string, constraint: string): boolean {
+    return NpmRange.satisfies(version, constraint);
+  }
+}
@@ -0,0 +1,455 @@
+import { RangeUtils } from './rangeUtils.js';
+import { VersionRange } from './types.js';
+
+/**
+ * Parsed PEP 440 version
+ */
+export interface Pep440Version {
+  epoch: number;
+  release: number[];
+  pre?: [string, number];   // Normalized label ('a', 'b' or 'rc') and number
+  post?: number;
+  dev?: number;
+  local?: string;
+}
+
+/**
+ * One clause of a specifier set (e.g., { operator: '~=', version: '1.4.5' })
+ */
+export interface Pep440Specifier {
+  operator: '===' | '==' | '!=' | '~=' | '>=' | '<=' | '>' | '<';
+  version: string;   // As written; "==" and "!=" may end in ".*"
+}
+
+/**
+ * PEP 440 versions and specifiers (https://peps.python.org/pep-0440/)
+ * Shared by the Python extractors and the pypi version scheme
+ */
+export class Pep440 {
+  private static readonly VERSION_PATTERN =
+    /^v?(?:(\d+)!)?(\d+(?:\.\d+)*)(?:[-_.]?(a|b|c|rc|alpha|beta|pre|preview)[-_.]?(\d*))?(?:-(\d+)|[-_.]?(post|rev|r)[-_.]?(\d*))?(?:[-_.]?(dev)[-_.]?(\d*))?(?:\+([a-z0-9]+(?:[-_.][a-z0-9]+)*))?$/i;
+
+  private static readonly SPECIFIER_PATTERN = /^(===|==|!=|~=|>=|<=|>|<)\s*(\S+)$/;
+
+  private static readonly PRE_LABELS: Record<string, string> = {
+    a: 'a', alpha: 'a', b: 'b', beta: 'b', c: 'rc', rc: 'rc', pre: 'rc', preview: 'rc'
+  };
+
+  /**
+   * Parse a PEP 440 version (alternative spellings such as "1.0-r1" or "1.0alpha" are accepted)
+   * @param version Version string
+   * @returns Parsed version or null if invalid
+   */
+  static parse(version: string): Pep440Version | null {
+    const match = version.trim().match(this.VERSION_PATTERN);
+    if (!match) {
+      return null;
+    }
+
+    const num = (value?: string): number => (value ? parseInt(value, 10) : 0);
+    return {
+      epoch: num(match[1]),
+      release: match[2].split('.').map(part => parseInt(part, 10)),
+      ...(match[3] && { pre: [this.PRE_LABELS[match[3].toLowerCase()], num(match[4])] as [string, number] }),
+      ...((match[5] || match[6]) && { post: num(match[5] || match[7]) }),
+      ...(match[8] && { dev: num(match[9]) }),
+      ...(match[10] && { local: match[10].toLowerCase().replace(/[-_]/g, '.') })
+    };
+  }
+
+  /**
+   * Normalize a package name (PEP 503), so that "Django_Extensions" and "django-extensions" compare equal
+   * @param name Package name
+   * @returns Lowercase name with runs of "-", "_" and "." replaced by "-"
+   */
+  static normalizeName(name: string): string {
+    return name.toLowerCase().replace(/[-_.]+/g, '-');
+  }
+
+  /**
+   * Normalize a version to its canonical form (e.g., "1.0-ALPHA.1" -> "1.0a1", "2.0-1" -> "2.0.post1")
+   * @param version Version string
+   * @returns Canonical version or null if invalid
+   */
+  static normalize(version: string): string | null {
+    const parsed = this.parse(version);
+    return parsed ? this.format(parsed) : null;
+  }
+
+  /**
+   * Format a parsed version in canonical form
+   * @param version Parsed version
+   * @returns Version string
+   */
+  static format(version: Pep440Version): string {
+    return [
+      version.epoch ? `${version.epoch}!` : '',
+      version.release.join('.'),
+      version.pre ? `${version.pre[0]}${version.pre[1]}` : '',
+      version.post !== undefined ? `.post${version.post}` : '',
+      version.dev !== undefined ? `.dev${version.dev}` : '',
+      version.local ? `+${version.local}` : ''
+    ].join('');
+  }
+
+  /**
+   * Compare two PEP 440 versions
+   * @param a First version
+   * @param b Second version
+   * @returns Negative if a < b, 0 if equal, positive if a > b
+   */
+  static compare(a: string, b: string): number {
+    const left = this.parse(a);
+    const right = this.parse(b);
+    if (!left) throw new Error(`Invalid PEP 440 version: ${a}`);
+    if (!right) throw new Error(`Invalid PEP 440 version: ${b}`);
+    return this.compareParsed(left, right);
+  }
+
+  /**
+   * Compare two parsed PEP 440 versions
+   * @param a First version
+   * @param b Second version
+   * @returns Negative if a < b, 0 if equal, positive if a > b
+   */
+  static compareParsed(a: Pep440Version, b: Pep440Version): number {
+    if (a.epoch !== b.epoch) return a.epoch - b.epoch;
+
+    // Release segments compare with trailing zeros ignored
+    for (let i = 0; i < Math.max(a.release.length, b.release.length); i++) {
+      const diff = (a.release[i] ?? 0) - (b.release[i] ?? 0);
+      if (diff !== 0) return diff;
+    }
+
+    const phase = (v: Pep440Version): number[] => {
+      // A dev release of the final version sorts before its prereleases
+      if (!v.pre && v.post === undefined && v.dev !== undefined) return [-1, 0];
+      if (!v.pre) return [3, 0];
+      return [['a', 'b', 'rc'].indexOf(v.pre[0]), v.pre[1]];
+    };
+    const [phaseA, preA] = phase(a);
+    const [phaseB, preB] = phase(b);
+    if (phaseA !== phaseB) return phaseA - phaseB;
+    if (preA !== preB) return preA - preB;
+
+    const post = (v: Pep440Version): number => v.post ?? -1;
+    if (post(a) !== post(b)) return post(a) - post(b);
+
+    const dev = (v: Pep440Version): number => v.dev ?? Infinity;
+    if (dev(a) !== dev(b)) return dev(a) < dev(b) ? -1 : 1;
+
+    return this.compareLocal(a.local, b.local);
+  }
+
+  /**
+   * Check whether a version is a prerelease
+   * @param version Version string
+   * @returns True for pre and dev releases
+   */
+  static isPrerelease(version: string): boolean {
+    const parsed = this.parse(version);
+    return parsed !== null && (parsed.pre !== undefined || parsed.dev !== undefined);
+  }
+
+  /**
+   * Parse a specifier set: comma-separated clauses that must all hold
+   * @param specifiers Specifier set (e.g., ">=1.4,<2,!=1.5.3"); "" allows every version
+   * @returns Clauses in order
+   */
+  static parseSpecifierSet(specifiers: string): Pep440Specifier[] {
+    return specifiers.split(',')
+      .map(clause => clause.trim())
+      .filter(Boolean)
+      .map(clause => this.parseSpecifier(clause, specifiers));
+  }
+
+  /**
+   * Parse a single specifier clause
+   * @param clause Clause (e.g., "~=2.2", "==1.2.*")
+   * @param specifiers Full specifier set (for error messages)
+   * @returns Parsed clause
+   */
+  static parseSpecifier(clause: string, specifiers: string = clause): Pep440Specifier {
+    const match = clause.trim().match(this.SPECIFIER_PATTERN);
+    if (!match) {
+      throw new Error(`Invalid PEP 440 specifier: ${specifiers}`);
+    }
+
+    const operator = match[1] as Pep440Specifier['operator'];
+    const version = match[2];
+    if (operator === '===') {
+      return { operator, version };
+    }
+
+    const wildcard = version.endsWith('.*');
+    const parsed = this.parse(wildcard ? version.slice(0, -2) : version);
+    if (!parsed ||
+        (wildcard && operator !== '==' && operator !== '!=') ||
+        (wildcard && parsed.local) ||
+        (parsed.local && operator !== '==' && operator !== '!=')) {
+      throw new Error(`Invalid PEP 440 specifier: ${specifiers}`);
+    }
+    if (operator === '~=' && parsed.release.length < 2) {
+      throw new Error(`Invalid PEP 440 specifier (~= needs two release segments): ${specifiers}`);
+    }
+    return { operator, version };
+  }
+
+  /**
+   * Format a specifier set in canonical form (e.g., ">= 1.4 , <2" -> ">=1.4,<2")
+   * @param specifiers Parsed clauses
+   * @returns Specifier set
+   */
+  static formatSpecifierSet(specifiers: Pep440Specifier[]): string {
+    return specifiers.map(s => `${s.operator}${s.version}`).join(',');
+  }
+
+  /**
+   * Normalize a specifier set written as text
+   * @param specifiers Specifier set (e.g., ">= 1.4 , <2")
+   * @returns Canonical specifier set, or null if it does not parse
+   */
+  static normalizeSpecifierSet(specifiers: string): string | null {
+    try {
+      return this.formatSpecifierSet(this.parseSpecifierSet(specifiers));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Get the single version a specifier set pins
+   * Only "==" pins a version: "===" is an arbitrary string and "==1.2.*" a prefix
+   * @param specifiers Specifier set
+   * @returns Version, or null if the set allows more than one (or does not parse)
+   */
+  static exactVersion(specifiers: string): string | null {
+    try {
+      const parsed = this.parseSpecifierSet(specifiers);
+      return parsed.length === 1 && parsed[0].operator === '==' && !parsed[0].version.endsWith('.*')
+        ? parsed[0].version
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Check whether a version satisfies one specifier clause (the exact PEP 440 rules)
+   * @param version Candidate version
+   * @param specifier Clause
+   * @returns True if allowed
+   */
+  static matches(version: string, specifier: Pep440Specifier): boolean {
+    if (specifier.operator === '===') {
+      // Arbitrary equality is a case-insensitive string match
+      return version.trim().toLowerCase() === specifier.version.toLowerCase();
+    }
+
+    const candidate = this.parse(version);
+    if (!candidate) return false;
+    const wildcard = specifier.version.endsWith('.*');
+    const target = this.parse(wildcard ? specifier.version.slice(0, -2) : specifier.version)!;
+    // Local labels only matter to == and != when the specifier has one
+    const pub = { ...candidate, local: undefined };
+
+    switch (specifier.operator) {
+      case '==':
+        return wildcard
+          ? this.matchesPrefix(pub, target)
+          : this.compareParsed(target.local ? candidate : pub, target) === 0;
+      case '!=':
+        return !this.matches(version, { operator: '==', version: specifier.version });
+      case '~=': {
+        const prefix = { epoch: target.epoch, release: target.release.slice(0, -1) };
+        return this.compareParsed(pub, target) >= 0 && this.matchesPrefix(pub, prefix);
+      }
+      case '>=':
+        return this.compareParsed(pub, target) >= 0;
+      case '<=':
+        return this.compareParsed(pub, target) <= 0;
+      case '>':
+        // ">1.7" excludes 1.7.post1 unless the bound is itself a post release
+        return this.compareParsed(pub, target) > 0 &&
+          (target.post !== undefined || !this.sameBase(pub, target) || pub.post === undefined);
+      case '<':
+        // "<2" excludes 2.0rc1 unless the bound is itself a prerelease
+        return this.compareParsed(pub, target) < 0 &&
+          (target.pre !== undefined || target.dev !== undefined || !this.sameRelease(pub, target) ||
+            (pub.pre === undefined && pub.dev === undefined));
+    }
+  }
+
+  /**
+   * Check whether a version satisfies a whole specifier set
+   * Prereleases only match when asked for, or when a clause names a prerelease
+   * @param specifiers Specifier set (e.g., ">=1.4,<2,!=1.5.3")
+   * @param version Candidate version
+   * @param prereleases Whether to allow prereleases (default: only if a clause names one)
+   * @returns True if allowed
+   */
+  static contains(specifiers: string, version: string, prereleases?: boolean): boolean {
+    const parsed = this.parseSpecifierSet(specifiers);
+    const allowPre = prereleases ?? parsed.some(s => this.isPrerelease(s.version.replace(/\.\*$/, '')));
+    if (!allowPre && this.isPrerelease(version)) {
+      return false;
+    }
+    return parsed.every(s => this.matches(version, s));
+  }
+
+  /**
+   * Filter versions by a specifier set as pip does: prereleases are used
+   * only when no final release matches (or when a clause names one)
+   * @param versions Candidate versions
+   * @param specifiers Specifier set
+   * @returns Matching versions in their original order
+   */
+  static filter(versions: string[], specifiers: string): string[] {
+    const matching = versions.filter(v => this.contains(specifiers, v, true));
+    const finals = matching.filter(v => this.contains(specifiers, v));
+    return finals.length > 0 ? finals : matching;
+  }
+
+  /**
+   * Convert one clause to a version range for set operations
+   * Ranges compare full versions, so two edge cases are approximated: "===" matches
+   * equal versions rather than equal strings, and "==1.0" does not match "1.0+local"
+   * @param specifier Clause
+   * @returns Allowed version range
+   */
+  static specifierRange(specifier: Pep440Specifier): VersionRange {
+    const { operator } = specifier;
+    let version = specifier.version;
+    const wildcard = version.endsWith('.*');
+    if (wildcard) {
+      version = version.slice(0, -2);
+    }
+    const parsed = this.parse(version);
+    if (!parsed) {
+      throw new Error(`Invalid PEP 440 specifier: ${operator}${specifier.version}`);
+    }
+
+    switch (operator) {
+      case '===':
+        return RangeUtils.exact(version);
+      case '==':
+        return wildcard ? this.prefixRange(parsed.epoch, parsed.release) : RangeUtils.exact(version);
+      case '!=':
+        return wildcard
+          ? this.complement(this.prefixRange(parsed.epoch, parsed.release))
+          : RangeUtils.except(version);
+      case '~=':
+        return RangeUtils.interval(
+          { version, inclusive: true },
+          { version: this.nextPrefix(parsed.epoch, parsed.release.slice(0, -1)), inclusive: false }
+        );
+      case '>=':
+        return RangeUtils.interval({ version, inclusive: true });
+      case '<=':
+        return RangeUtils.interval(undefined, { version, inclusive: true });
+      case '>':
+        return RangeUtils.interval({ version, inclusive: false });
+      case '<': {
+        const base = `${parsed.epoch ? `${parsed.epoch}!` : ''}${parsed.release.join('.')}`;
+        return RangeUtils.interval(undefined, {
+          version: parsed.pre || parsed.post !== undefined || parsed.dev !== undefined ? version : `${base}.dev0`,
+          inclusive: false
+        });
+      }
+    }
+  }
+
+  /**
+   * Check whether a version starts with a prefix ("==1.2.*" matches 1.2, 1.2.3 and 1.2rc1)
+   * @param version Candidate version
+   * @param prefix Prefix; its pre, post and dev parts, if any, must match exactly
+   * @returns True if the version has the prefix
+   */
+  private static matchesPrefix(version: Pep440Version, prefix: Pick<Pep440Version, 'epoch' | 'release'> & Partial<Pep440Version>): boolean {
+    if (version.epoch !== prefix.epoch) return false;
+    if (!prefix.release.every((part, i) => (version.release[i] ?? 0) === part)) return false;
+    if (prefix.pre && (!version.pre || version.pre[0] !== prefix.pre[0] || version.pre[1] !== prefix.pre[1])) return false;
+    if (prefix.post !== undefined && version.post !== prefix.post) return false;
+    if (prefix.dev !== undefined && version.dev !== prefix.dev) return false;
+    return true;
+  }
+
+  /**
+   * Check whether two versions share epoch and release (trailing zeros ignored)
+   */
+  private static sameRelease(a: Pep440Version, b: Pep440Version): boolean {
+    return this.compareParsed({ epoch: a.epoch, release: a.release }, { epoch: b.epoch, release: b.release }) === 0;
+  }
+
+  /**
+   * Check whether two versions share epoch, release and prerelease
+   */
+  private static sameBase(a: Pep440Version, b: Pep440Version): boolean {
+    return this.sameRelease(a, b) && a.pre?.[0] === b.pre?.[0] && a.pre?.[1] === b.pre?.[1];
+  }
+
+  /**
+   * Compare local version labels: numeric segments sort above alphanumeric ones,
+   * and a label sorts above its own prefix
+   */
+  private static compareLocal(a?: string, b?: string): number {
+    if (a === b) return 0;
+    if (!a) return -1;
+    if (!b) return 1;
+
+    const left = a.split('.');
+    const right = b.split('.');
+    for (let i = 0; i < Math.min(left.length, right.length); i++) {
+      const x = left[i];
+      const y = right[i];
+      const xNum = /^\d+$/.test(x);
+      const yNum = /^\d+$/.test(y);
+      if (xNum && yNum) {
+        const diff = parseInt(x, 10) - parseInt(y, 10);
+        if (diff !== 0) return diff;
+      } else if (xNum !== yNum) {
+        return xNum ? 1 : -1;
+      } else if (x !== y) {
+        return x < y ? -1 : 1;
+      }
+    }
+    return left.length - right.length;
+  }
+
+  /**
+   * Range of every version starting with a release prefix ("==1.2.*")
+   * @param epoch Epoch
+   * @param release Release segments of the prefix
+   * @returns Allowed version range
+   */
+  private static prefixRange(epoch: number, release: number[]): VersionRange {
+    return RangeUtils.interval(
+      { version: `${epoch ? `${epoch}!` : ''}${release.join('.')}.dev0`, inclusive: true },
+      { version: this.nextPrefix(epoch, release), inclusive: false }
+    );
+  }
+
+  /**
+   * Lowest version after every version starting with a release prefix
+   * @param epoch Epoch
+   * @param prefix Release segments
+   * @returns Version string (e.g., [1, 4] -> "1.5.dev0")
+   */
+  private static nextPrefix(epoch: number, prefix: number[]): string {
+    const bumped = [...prefix.slice(0, -1), prefix[prefix.length - 1] + 1];
+    return `${epoch ? `${epoch}!` : ''}${bumped.join('.')}.dev0`;
+  }
+
+  /**
+   * Complement of a single bounded interval
+   * @param range Range with one interval
+   * @returns Versions outside it
+   */
+  private static complement(range: VersionRange): VersionRange {
+    const [{ lower, upper }] = range;
+    return [
+      ...(lower ? [{ upper: { version: lower.version, inclusive: !lower.inclusive } }] : []),
+      ...(upper ? [{ lower: { version: upper.version, inclusive: !upper.inclusive } }] : [])
+    ];
+  }
+}
@@ -0,0 +1,86 @@
+import { Pep440 } from './pep440.js';
+import { RangeUtils } from './rangeUtils.js';
+import { BaseVersionScheme } from './baseScheme.js';
+import { Ecosystem, ParsedVersion, VersionRange } from './types.js';
+
+/**
+ * PEP 440 version scheme (Python packages)
+ */
+export class Pep440VersionScheme extends BaseVersionScheme {
+  readonly ecosystem: Ecosystem = 'pypi';
+
+  /**
+   * Compare two PEP 440 versions
+   * @param a First version
+   * @param b Second version
+   * @returns Negative if a < b, 0 if equal, positive if a > b
+   */
+  compare(a: string, b: string): number {
+    return Pep440.compare(a, b);
+  }
+
+  /**
+   * Check whether a string is a valid PEP 440 version
+   * @param version Version string
+   * @returns True if valid
+   */
+  isValid(version: string): boolean {
+    return Pep440.parse(version) !== null;
+  }
+
+  /**
+   * Check whether a version is a prerelease
+   * @param version Version string
+   * @returns True for pre and dev releases
+   */
+  isPrerelease(version: string): boolean {
+    return Pep440.isPrerelease(version);
+  }
+
+  /**
+   * Parse a specifier set: comma-separated clauses that must all hold
+   * @param constraint Specifier set (e.g., ">=1.4,<2,!=1.5.3", "~=2.2", "==1.2.*"); a bare version means "=="
+   * @returns Allowed version range
+   */
+  parseConstraint(constraint: string): VersionRange {
+    return Pep440.parseSpecifierSet(this.specifierSet(constraint))
+      .reduce((range, specifier) => RangeUtils.intersect(range, Pep440.specifierRange(specifier), this.comparator), RangeUtils.any());
+  }
+
+  /**
+   * Parse a version
+   * @param version Version string
+   * @returns Parsed version, or null if invalid
+   */
+  parse(version: string): ParsedVersion | null {
+    const parsed = Pep440.parse(version);
+    return parsed && {
+      raw: version.trim(),
+      release: parsed.release,
+      prerelease: Pep440.isPrerelease(version)
+    };
+  }
+
+  /**
+   * Check whether a version satisfies a specifier set (prereleases only match
+   * sets that name one, as pip does)
+   * @param version Version
+   * @param constraint Specifier set; a bare version means "=="
+   * @returns True if allowed
+   */
+  satisfies(version: string, constraint: string): boolean {
+    return this.isValid(version) && Pep440.contains(this.specifierSet(constraint), version);
+  }
+
+  /**
+   * Spell out bare versions in a specifier set as "==" clauses
+   * "*" (Pipfile and Poetry) and "" allow any version
+   * @param constraint Specifier set
+   * @returns Specifier set with an operator on every clause
+   */
+  private specifierSet(constraint: string): string {
+    return constraint.split(',').map(clause => clause.trim()).filter(clause => clause && clause !== '*')
+      .map(clause => (/^[=!~<>]/.test(clause) ? clause : `==${clause}`))
+      .join(',');
+  }
+}
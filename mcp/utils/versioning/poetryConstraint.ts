@@ -0,0 +1,65 @@
+import { Pep440 } from './pep440.js';
+
+/**
+ * Poetry version constraints (https://python-poetry.org/docs/dependency-specification/)
+ * Poetry adds caret ("^1.2"), tilde ("~1.2"), "*" and bare versions to the PEP 440
+ * operators, and joins clauses with commas or spaces ("||" unions are also allowed)
+ */
+export class PoetryConstraint {
+  /**
+   * Translate a constraint to a PEP 440 specifier set
+   * "^1.2.3" -> ">=1.2.3,<2.0.0", "^0.2" -> ">=0.2,<0.3", "~1.2" -> ">=1.2,<1.3",
+   * "1.2.3" -> "==1.2.3", "*" -> ""
+   * @param constraint Poetry constraint
+   * @returns Specifier set, or null for unions and constraints that do not parse
+   */
+  static toSpecifierSet(constraint: string): string | null {
+    if (constraint.includes('||')) {
+      return null;
+    }
+
+    const clauses = constraint
+      .replace(/(===|==|!=|~=|>=|<=|>|<|\^|~)\s+/g, '$1')
+      .split(/[\s,]+/)
+      .filter(clause => clause && clause !== '*');
+
+    try {
+      return clauses.flatMap(clause => this.translate(clause)).join(',');
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Translate one clause
+   * @param clause Clause without inner whitespace
+   * @returns PEP 440 clauses
+   */
+  private static translate(clause: string): string[] {
+    const match = clause.match(/^(\^|~(?!=))(.+)$/);
+    if (!match) {
+      // PEP 440 clauses pass through; a bare version is an exact pin
+      const specifier = /^[0-9vV]/.test(clause) ? `==${clause}` : clause;
+      return [Pep440.formatSpecifierSet([Pep440.parseSpecifier(specifier)])];
+    }
+
+    const [, operator, version] = match;
+    const parsed = Pep440.parse(version);
+    if (!parsed) {
+      throw new Error(`Invalid Poetry constraint: ${clause}`);
+    }
+
+    // Caret keeps the left-most non-zero part that was written; tilde keeps the minor
+    // version, or the major version when only that was written
+    const release = parsed.release;
+    const nonZero = release.findIndex(part => part !== 0);
+    const kept = operator === '^'
+      ? (nonZero === -1 ? release.length - 1 : nonZero)
+      : Math.min(1, release.length - 1);
+    const upper = release.slice(0, kept + 1);
+    upper[kept]++;
+    while (upper.length < release.length) upper.push(0);
+
+    return [`>=${version}`, `<${upper.join('.')}`];
+  }
+}
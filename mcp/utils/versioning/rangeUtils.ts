@@ -0,0 +1,291 @@
+import { VersionBound, VersionInterval, VersionRange } from './types.js';
+
+/**
+ * Version comparison function
+ */
+export type VersionComparator = (a: string, b: string) => number;
+
+/**
+ * Set operations over version ranges (unions of intervals)
+ * All operations take the ecosystem's comparator, so they work for any version scheme
+ */
+export class RangeUtils {
+  /**
+   * Range matching every version
+   * @returns Unbounded range
+   */
+  static any(): VersionRange {
+    return [{}];
+  }
+
+  /**
+   * Range matching exactly one version
+   * @param version Version
+   * @returns Single-version range
+   */
+  static exact(version: string): VersionRange {
+    return [{ lower: { version, inclusive: true }, upper: { version, inclusive: true } }];
+  }
+
+  /**
+   * Range matching every version except one
+   * @param version Excluded version
+   * @returns Range with a hole at the version
+   */
+  static except(version: string): VersionRange {
+    return [
+      { upper: { version, inclusive: false } },
+      { lower: { version, inclusive: false } }
+    ];
+  }
+
+  /**
+   * Build a single-interval range
+   * @param lower Lower bound (undefined = unbounded)
+   * @param upper Upper bound (undefined = unbounded)
+   * @returns Range
+   */
+  static interval(lower?: VersionBound, upper?: VersionBound): VersionRange {
+    return [{ ...(lower && { lower }), ...(upper && { upper }) }];
+  }
+
+  /**
+   * Intersect two ranges
+   * @param a First range
+   * @param b Second range
+   * @param compare Version comparator
+   * @returns Versions allowed by both
+   */
+  static intersect(a: VersionRange, b: VersionRange, compare: VersionComparator): VersionRange {
+    const result: VersionRange = [];
+    for (const left of a) {
+      for (const right of b) {
+        const interval: VersionInterval = {
+          lower: this.tighterLower(left.lower, right.lower, compare),
+          upper: this.tighterUpper(left.upper, right.upper, compare)
+        };
+        if (!this.isIntervalEmpty(interval, compare)) {
+          result.push(this.clean(interval));
+        }
+      }
+    }
+    return this.normalize(result, compare);
+  }
+
+  /**
+   * Intersect any number of ranges
+   * @param ranges Ranges
+   * @param compare Version comparator
+   * @returns Versions allowed by all of them
+   */
+  static intersectAll(ranges: VersionRange[], compare: VersionComparator): VersionRange {
+    return ranges.reduce((acc, range) => this.intersect(acc, range, compare), this.any());
+  }
+
+  /**
+   * Union of two ranges
+   * @param a First range
+   * @param b Second range
+   * @param compare Version comparator
+   * @returns Versions allowed by either
+   */
+  static union(a: VersionRange, b: VersionRange, compare: VersionComparator): VersionRange {
+    return this.normalize([...a, ...b], compare);
+  }
+
+  /**
+   * Check whether a range matches no version
+   * @param range Range
+   * @returns True if empty
+   */
+  static isEmpty(range: VersionRange): boolean {
+    return range.length === 0;
+  }
+
+  /**
+   * Check whether a version lies in a range
+   * @param range Range
+   * @param version Version
+   * @param compare Version comparator
+   * @returns True if the version is allowed
+   */
+  static contains(range: VersionRange, version: string, compare: VersionComparator): boolean {
+    return range.some(interval => {
+      if (interval.lower) {
+        const c = compare(version, interval.lower.version);
+        if (c < 0 || (c === 0 && !interval.lower.inclusive)) return false;
+      }
+      if (interval.upper) {
+        const c = compare(version, interval.upper.version);
+        if (c > 0 || (c === 0 && !interval.upper.inclusive)) return false;
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Check whether every version in one range is also in another
+   * @param inner Candidate subset
+   * @param outer Candidate superset
+   * @param compare Version comparator
+   * @returns True if inner is a subset of outer
+   */
+  static isSubset(inner: VersionRange, outer: VersionRange, compare: VersionComparator): boolean {
+    const normalizedOuter = this.normalize(outer, compare);
+    // Outer intervals are disjoint, so each inner interval must fit inside a single one
+    return this.normalize(inner, compare).every(interval =>
+      normalizedOuter.some(candidate =>
+        this.compareLower(candidate.lower, interval.lower, compare) <= 0 &&
+        this.compareUpper(candidate.upper, interval.upper, compare) >= 0
+      )
+    );
+  }
+
+  /**
+   * Sort intervals, drop empty ones and merge overlapping or touching ones
+   * @param range Range
+   * @param compare Version comparator
+   * @returns Normalized range
+   */
+  static normalize(range: VersionRange, compare: VersionComparator): VersionRange {
+    const intervals = range
+      .filter(interval => !this.isIntervalEmpty(interval, compare))
+      .map(interval => this.clean(interval))
+      .sort((a, b) => this.compareLower(a.lower, b.lower, compare));
+
+    const merged: VersionRange = [];
+    for (const interval of intervals) {
+      const last = merged[merged.length - 1];
+      if (last && this.touches(last, interval, compare)) {
+        last.upper = this.looserUpper(last.upper, interval.upper, compare);
+        if (!last.upper) delete last.upper;
+      } else {
+        merged.push({ ...interval });
+      }
+    }
+    return merged;
+  }
+
+  /**
+   * Format a range for display (e.g., ">=1.2.0 <2.0.0 || 3.0.0")
+   * @param range Range
+   * @returns Human-readable range
+   */
+  static format(range: VersionRange): string {
+    if (range.length === 0) return '<none>';
+
+    return range.map(interval => {
+      const { lower, upper } = interval;
+      if (!lower && !upper) return '*';
+      if (lower && upper && lower.inclusive && upper.inclusive && lower.version === upper.version) {
+        return lower.version;
+      }
+      const parts: string[] = [];
+      if (lower) parts.push(`${lower.inclusive ? '>=' : '>'}${lower.version}`);
+      if (upper) parts.push(`${upper.inclusive ? '<=' : '<'}${upper.version}`);
+      return parts.join(' ');
+    }).join(' || ');
+  }
+
+  /**
+   * Check whether a single interval is empty
+   * @param interval Interval
+   * @param compare Version comparator
+   * @returns True if empty
+   */
+  private static isIntervalEmpty(interval: VersionInterval, compare: VersionComparator): boolean {
+    if (!interval.lower || !interval.upper) return false;
+    const c = compare(interval.lower.version, interval.upper.version);
+    return c > 0 || (c === 0 && !(interval.lower.inclusive && interval.upper.inclusive));
+  }
+
+  /**
+   * Check whether two sorted intervals overlap or touch (so they can be merged)
+   * @param first Interval with the lower start
+   * @param second Interval with the higher start
+   * @param compare Version comparator
+   * @returns True if mergeable
+   */
+  private static touches(first: VersionInterval, second: VersionInterval, compare: VersionComparator): boolean {
+    if (!first.upper || !second.lower) return true;
+    const c = compare(second.lower.version, first.upper.version);
+    return c < 0 || (c === 0 && (first.upper.inclusive || second.lower.inclusive));
+  }
+
+  /**
+   * Order lower bounds (unbounded first)
+   * @param a First bound
+   * @param b Second bound
+   * @param compare Version comparator
+   * @returns Negative if a admits more versions below than b
+   */
+  private static compareLower(a: VersionBound | undefined, b: VersionBound | undefined, compare: VersionComparator): number {
+    if (!a) return b ? -1 : 0;
+    if (!b) return 1;
+    const c = compare(a.version, b.version);
+    if (c !== 0) return c;
+    return a.inclusive === b.inclusive ? 0 : a.inclusive ? -1 : 1;
+  }
+
+  /**
+   * Order upper bounds (unbounded last)
+   * @param a First bound
+   * @param b Second bound
+   * @param compare Version comparator
+   * @returns Positive if a admits more versions above than b
+   */
+  private static compareUpper(a: VersionBound | undefined, b: VersionBound | undefined, compare: VersionComparator): number {
+    if (!a) return b ? 1 : 0;
+    if (!b) return -1;
+    const c = compare(a.version, b.version);
+    if (c !== 0) return c;
+    return a.inclusive === b.inclusive ? 0 : a.inclusive ? 1 : -1;
+  }
+
+  /**
+   * Pick the more restrictive of two lower bounds
+   * @param a First bound
+   * @param b Second bound
+   * @param compare Version comparator
+   * @returns Tighter bound
+   */
+  private static tighterLower(a: VersionBound | undefined, b: VersionBound | undefined, compare: VersionComparator): VersionBound | undefined {
+    if (!a) return b;
+    if (!b) return a;
+    return this.compareLower(a, b, compare) >= 0 ? a : b;
+  }
+
+  /**
+   * Pick the more restrictive of two upper bounds
+   * @param a First bound
+   * @param b Second bound
+   * @param compare Version comparator
+   * @returns Tighter bound
+   */
+  private static tighterUpper(a: VersionBound | undefined, b: VersionBound | undefined, compare: VersionComparator): VersionBound | undefined {
+    return this.compareUpper(a, b, compare) <= 0 ? a : b;
+  }
+
+  /**
+   * Pick the less restrictive of two upper bounds (unbounded wins)
+   * @param a First bound
+   * @param b Second bound
+   * @param compare Version comparator
+   * @returns Looser bound
+   */
+  private static looserUpper(a: VersionBound | undefined, b: VersionBound | undefined, compare: VersionComparator): VersionBound | undefined {
+    return this.compareUpper(a, b, compare) >= 0 ? a : b;
+  }
+
+  /**
+   * Drop undefined bound keys so intervals compare and serialize cleanly
+   * @param interval Interval
+   * @returns Interval without undefined keys
+   */
+  private static clean(interval: VersionInterval): VersionInterval {
+    return {
+      ...(interval.lower && { lower: interval.lower }),
+      ...(interval.upper && { upper: interval.upper })
+    };
+  }
+}
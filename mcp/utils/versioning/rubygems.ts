@@ -0,0 +1,223 @@
+import { RangeUtils } from './rangeUtils.js';
+import { VersionRange } from './types.js';
+
+/**
+ * One requirement of a Gem::Requirement (e.g., { operator: '~>', version: '7.0' })
+ */
+export interface GemConstraint {
+  operator: '=' | '!=' | '>' | '<' | '>=' | '<=' | '~>';
+  version: string;
+}
+
+/**
+ * RubyGems versions and requirements, following Gem::Version and Gem::Requirement
+ */
+export class RubyGems {
+  private static readonly VERSION_PATTERN = /^[0-9]+(?:\.[0-9a-zA-Z]+)*(?:-[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*)?$/;
+
+  private static readonly REQUIREMENT_PATTERN = /^(~>|>=|<=|!=|=|>|<)?\s*(\S+)$/;
+
+  /**
+   * Split a version into numeric and alphabetic segments ("1.0.0.beta2" -> [1, 0, 0, "beta", 2])
+   * @param version Version string
+   * @returns Segments or null if invalid
+   */
+  static segments(version: string): Array<string | number> | null {
+    const trimmed = version.trim();
+    if (!this.VERSION_PATTERN.test(trimmed)) {
+      return null;
+    }
+    // RubyGems treats "-" as the start of a prerelease
+    return (trimmed.replace(/-/g, '.pre.').match(/[0-9]+|[a-z]+/gi) || [])
+      .map(segment => /^\d+$/.test(segment) ? parseInt(segment, 10) : segment);
+  }
+
+  /**
+   * Compare two gem versions (Gem::Version#<=>)
+   * Trailing zeros of the release and prerelease parts are ignored ("1.0.a" == "1.a"),
+   * letters mark prereleases ("1.0.a" < "1.0") and missing segments count as 0
+   * @param a First version
+   * @param b Second version
+   * @returns Negative if a < b, 0 if equal, positive if a > b
+   */
+  static compare(a: string, b: string): number {
+    const left = this.canonicalSegments(a);
+    const right = this.canonicalSegments(b);
+
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+      const x = left[i] ?? 0;
+      const y = right[i] ?? 0;
+      if (x === y) continue;
+      if (typeof x === 'string' && typeof y === 'number') return -1;
+      if (typeof x === 'number' && typeof y === 'string') return 1;
+      return x < y ? -1 : 1;
+    }
+    return 0;
+  }
+
+  /**
+   * Check whether a version is a prerelease
+   * @param version Version string
+   * @returns True if the version contains letters (e.g., "1.0.0.beta2")
+   */
+  static isPrerelease(version: string): boolean {
+    return /[a-zA-Z]/.test(version);
+  }
+
+  /**
+   * Release part of a version (Gem::Version#release)
+   * @param version Version string
+   * @returns Version without prerelease segments ("1.0.0.beta2" -> "1.0.0")
+   */
+  static release(version: string): string {
+    return this.numericPrefix(version).join('.');
+  }
+
+  /**
+   * Next release a "~>" requirement stops before (Gem::Version#bump)
+   * @param version Version string
+   * @returns Bumped version ("2.0" -> "3", "2.0.1" -> "2.1")
+   */
+  static bump(version: string): string {
+    const release = this.numericPrefix(version);
+    if (release.length > 1) {
+      release.pop();
+    }
+    release[release.length - 1]++;
+    return release.join('.');
+  }
+
+  /**
+   * Parse requirements (Gem::Requirement.parse for each)
+   * @param requirements Requirement list, or requirements joined by commas (e.g., "~> 7.0, >= 7.0.4")
+   * @returns Parsed requirements; a bare version means "="
+   */
+  static parseRequirements(requirements: string | string[]): GemConstraint[] {
+    const list = typeof requirements === 'string' ? requirements.split(',') : requirements;
+    return list
+      .map(requirement => requirement.trim())
+      .filter(Boolean)
+      .map(requirement => {
+        const match = requirement.match(this.REQUIREMENT_PATTERN);
+        if (!match || !this.segments(match[2])) {
+          throw new Error(`Invalid gem requirement: ${requirement}`);
+        }
+        return { operator: (match[1] || '=') as GemConstraint['operator'], version: match[2] };
+      });
+  }
+
+  /**
+   * Check whether a version meets every requirement (Gem::Requirement#satisfied_by?)
+   * "~> 2.0" means ">= 2.0" with a release below 3, so 2.9.beta matches but 3.0.beta does not
+   * @param version Version
+   * @param requirements Requirements
+   * @returns True if all requirements hold
+   */
+  static satisfiedBy(version: string, requirements: string | string[]): boolean {
+    if (!this.segments(version)) {
+      return false;
+    }
+
+    return this.parseRequirements(requirements).every(({ operator, version: required }) => {
+      const c = this.compare(version, required);
+      switch (operator) {
+        case '=': return c === 0;
+        case '!=': return c !== 0;
+        case '>': return c > 0;
+        case '<': return c < 0;
+        case '>=': return c >= 0;
+        case '<=': return c <= 0;
+        case '~>': return c >= 0 && this.compare(this.release(version), this.bump(required)) < 0;
+      }
+    });
+  }
+
+  /**
+   * Get the single version requirements pin ("= 1.2.3" or "1.2.3")
+   * @param requirements Requirements
+   * @returns Version, or null if they allow more than one (or do not parse)
+   */
+  static exactVersion(requirements: string | string[]): string | null {
+    try {
+      const exact = this.parseRequirements(requirements).filter(r => r.operator === '=');
+      return exact.length > 0 && this.satisfiedBy(exact[0].version, requirements) ? exact[0].version : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Convert requirements to a version range for set operations
+   * @param requirements Requirements
+   * @returns Allowed version range
+   */
+  static toRange(requirements: string | string[]): VersionRange {
+    const compare = (a: string, b: string): number => this.compare(a, b);
+    return this.parseRequirements(requirements)
+      .reduce((range, constraint) => RangeUtils.intersect(range, this.constraintRange(constraint), compare), RangeUtils.any());
+  }
+
+  /**
+   * Translate one requirement into a version range
+   * @param constraint Requirement
+   * @returns Allowed version range
+   */
+  private static constraintRange({ operator, version }: GemConstraint): VersionRange {
+    switch (operator) {
+      case '=':
+        return RangeUtils.exact(version);
+      case '!=':
+        return RangeUtils.except(version);
+      case '>':
+        return RangeUtils.interval({ version, inclusive: false });
+      case '>=':
+        return RangeUtils.interval({ version, inclusive: true });
+      case '<':
+        return RangeUtils.interval(undefined, { version, inclusive: false });
+      case '<=':
+        return RangeUtils.interval(undefined, { version, inclusive: true });
+      case '~>':
+        // "~>" compares release versions, so prereleases of the bump are excluded too;
+        // "A" is the lowest possible prerelease segment
+        return RangeUtils.interval(
+          { version, inclusive: true },
+          { version: `${this.bump(version)}.A`, inclusive: false }
+        );
+    }
+  }
+
+  /**
+   * Numeric segments before the first prerelease segment
+   * @param version Version string
+   * @returns Release segments
+   */
+  private static numericPrefix(version: string): number[] {
+    const segments = this.segments(version);
+    if (!segments) {
+      throw new Error(`Invalid gem version: ${version}`);
+    }
+    const firstString = segments.findIndex(segment => typeof segment === 'string');
+    return (firstString === -1 ? segments : segments.slice(0, firstString)) as number[];
+  }
+
+  /**
+   * Segments with trailing zeros of the release and prerelease parts removed
+   * (Gem::Version#canonical_segments)
+   * @param version Version string
+   * @returns Canonical segments
+   */
+  private static canonicalSegments(version: string): Array<string | number> {
+    const segments = this.segments(version);
+    if (!segments) {
+      throw new Error(`Invalid gem version: ${version}`);
+    }
+    const firstString = segments.findIndex(segment => typeof segment === 'string');
+    const split = firstString === -1 ? segments.length : firstString;
+    const trim = (part: Array<string | number>): Array<string | number> => {
+      let end = part.length;
+      while (end > 0 && part[end - 1] === 0) end--;
+      return part.slice(0, end);
+    };
+    return [...trim(segments.slice(0, split)), ...trim(segments.slice(split))];
+  }
+}
@@ -0,0 +1,81 @@
+import { RubyGems } from './rubygems.js';
+import { BaseVersionScheme } from './baseScheme.js';
+import { Ecosystem, ParsedVersion, VersionRange } from './types.js';
+
+/**
+ * RubyGems version scheme (Gem::Version and Gem::Requirement)
+ */
+export class RubyGemsVersionScheme extends BaseVersionScheme {
+  readonly ecosystem: Ecosystem = 'rubygems';
+
+  /**
+   * Compare two gem versions
+   * @param a First version
+   * @param b Second version
+   * @returns Negative if a < b, 0 if equal, positive if a > b
+   */
+  compare(a: string, b: string): number {
+    return RubyGems.compare(a, b);
+  }
+
+  /**
+   * Check whether a string is a valid gem version
+   * @param version Version string
+   * @returns True if valid
+   */
+  isValid(version: string): boolean {
+    return RubyGems.segments(version) !== null;
+  }
+
+  /**
+   * Check whether a version is a prerelease
+   * @param version Version string
+   * @returns True if the version contains letters (e.g., "1.0.0.beta2")
+   */
+  isPrerelease(version: string): boolean {
+    return RubyGems.isPrerelease(version);
+  }
+
+  /**
+   * Parse a requirement list: comma-separated requirements that must all hold
+   * @param constraint Requirements (e.g., "~> 7.0, >= 7.0.4")
+   * @returns Allowed version range
+   */
+  parseConstraint(constraint: string): VersionRange {
+    try {
+      return RubyGems.toRange(constraint);
+    } catch {
+      throw new Error(`Invalid gem requirement: ${constraint}`);
+    }
+  }
+
+  /**
+   * Parse a version
+   * @param version Version string
+   * @returns Parsed version, or null if invalid
+   */
+  parse(version: string): ParsedVersion | null {
+    if (!this.isValid(version)) {
+      return null;
+    }
+    return {
+      raw: version.trim(),
+      release: RubyGems.release(version).split('.').map(part => parseInt(part, 10)),
+      prerelease: RubyGems.isPrerelease(version)
+    };
+  }
+
+  /**
+   * Check whether a version meets every requirement
+   * @param version Version
+   * @param constraint Requirements joined by commas (e.g., "~> 7.0, >= 7.0.4")
+   * @returns True if allowed
+   */
+  satisfies(version: string, constraint: string): boolean {
+    try {
+      return RubyGems.satisfiedBy(version, constraint);
+    } catch {
+      throw new Error(`Invalid gem requirement: ${constraint}`);
+    }
+  }
+}
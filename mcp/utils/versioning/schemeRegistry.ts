@@ -0,0 +1,30 @@
+import { resolveEcosystem } from './ecosystems.js';
+import { NpmVersionScheme } from './npmScheme.js';
+import { Pep440VersionScheme } from './pep440Scheme.js';
+import { CargoVersionScheme } from './cargoScheme.js';
+import { RubyGemsVersionScheme } from './rubygemsScheme.js';
+import { MavenVersionScheme } from './mavenScheme.js';
+import { GoVersionScheme } from './goScheme.js';
+import { Ecosystem, VersionScheme } from './types.js';
+
+const SCHEMES: Record<Ecosystem, VersionScheme> = {
+  npm: new NpmVersionScheme(),
+  pypi: new Pep440VersionScheme(),
+  cargo: new CargoVersionScheme(),
+  rubygems: new RubyGemsVersionScheme(),
+  maven: new MavenVersionScheme(),
+  go: new GoVersionScheme()
+};
+
+/**
+ * Get the version scheme for a language, alias or ecosystem name
+ * @param language Programming language/runtime or ecosystem
+ * @returns Version scheme
+ */
+export function getVersionScheme(language: string): VersionScheme {
+  const ecosystem = resolveEcosystem(language);
+  if (!ecosystem) {
+    throw new Error(`Unsupported language for version constraints: ${language}`);
+  }
+  return SCHEMES[ecosystem];
+}
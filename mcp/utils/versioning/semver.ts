@@ -0,0 +1,189 @@
+import { RangeUtils } from './rangeUtils.js';
+import { VersionRange } from './types.js';
+
+/**
+ * Parsed semantic version (https://semver.org)
+ */
+export interface SemverVersion {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: Array<string | number>;
+  build: string[];
+}
+
+/**
+ * Partial version as written in a range (missing or wildcard parts are undefined)
+ */
+export interface PartialVersion {
+  major?: number;
+  minor?: number;
+  patch?: number;
+  prerelease: Array<string | number>;
+}
+
+/**
+ * Semantic versioning 2.0.0 helpers shared by the npm, Cargo and Go schemes
+ */
+export class Semver {
+  private static readonly VERSION_PATTERN =
+    /^v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?$/;
+
+  private static readonly PARTIAL_PATTERN =
+    /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z-.]+)?$/;
+
+  /**
+   * Parse a full semantic version (a leading "v" is accepted)
+   * @param version Version string
+   * @returns Parsed version or null if invalid
+   */
+  static parse(version: string): SemverVersion | null {
+    const match = version.trim().match(this.VERSION_PATTERN);
+    if (!match) {
+      return null;
+    }
+
+    return {
+      major: parseInt(match[1], 10),
+      minor: parseInt(match[2], 10),
+      patch: parseInt(match[3], 10),
+      prerelease: match[4] ? match[4].split('.').map(id => /^\d+$/.test(id) ? parseInt(id, 10) : id) : [],
+      build: match[5] ? match[5].split('.') : []
+    };
+  }
+
+  /**
+   * Parse a possibly partial version such as "1", "1.2", "1.x" or "1.2.*"
+   * @param version Partial version string
+   * @returns Parsed partial version or null if invalid
+   */
+  static parsePartial(version: string): PartialVersion | null {
+    const match = version.trim().match(this.PARTIAL_PATTERN);
+    if (!match) {
+      return null;
+    }
+
+    const part = (value?: string): number | undefined =>
+      value === undefined || /^[xX*]$/.test(value) ? undefined : parseInt(value, 10);
+    const major = part(match[1]);
+    const minor = major === undefined ? undefined : part(match[2]);
+    const patch = minor === undefined ? undefined : part(match[3]);
+
+    return {
+      major,
+      minor,
+      patch,
+      prerelease: patch !== undefined && match[4]
+        ? match[4].split('.').map(id => /^\d+$/.test(id) ? parseInt(id, 10) : id)
+        : []
+    };
+  }
+
+  /**
+   * Compare two semantic versions (build metadata is ignored)
+   * @param a First version
+   * @param b Second version
+   * @returns Negative if a < b, 0 if equal, positive if a > b
+   */
+  static compare(a: string, b: string): number {
+    const left = this.parse(a);
+    const right = this.parse(b);
+    if (!left) throw new Error(`Invalid semantic version: ${a}`);
+    if (!right) throw new Error(`Invalid semantic version: ${b}`);
+    return this.compareParsed(left, right);
+  }
+
+  /**
+   * Compare two parsed semantic versions
+   * @param a First version
+   * @param b Second version
+   * @returns Negative if a < b, 0 if equal, positive if a > b
+   */
+  static compareParsed(a: SemverVersion, b: SemverVersion): number {
+    if (a.major !== b.major) return a.major - b.major;
+    if (a.minor !== b.minor) return a.minor - b.minor;
+    if (a.patch !== b.patch) return a.patch - b.patch;
+
+    // A version without prerelease ranks above any prerelease of it
+    if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+      return b.prerelease.length - a.prerelease.length;
+    }
+
+    for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+      const x = a.prerelease[i];
+      const y = b.prerelease[i];
+      if (x === undefined) return -1;
+      if (y === undefined) return 1;
+      if (x === y) continue;
+      if (typeof x === 'number' && typeof y === 'number') return x - y;
+      if (typeof x === 'number') return -1;
+      if (typeof y === 'number') return 1;
+      return x < y ? -1 : 1;
+    }
+    return 0;
+  }
+
+  /**
+   * Translate one comparator into a version range
+   * Supports =, >, >=, <, <=, ^ and ~ with full or partial versions
+   * Upper bounds use the "-0" prerelease so prereleases of the next version are excluded
+   * @param operator Operator ("" is treated as "=")
+   * @param partial Parsed (possibly partial) version
+   * @returns Version range
+   */
+  static comparatorRange(operator: string, partial: PartialVersion): VersionRange {
+    const { major, minor, patch } = partial;
+    const pre = partial.prerelease.length > 0 ? `-${partial.prerelease.join('.')}` : '';
+
+    if (major === undefined) {
+      // "*" matches everything; "<*" and ">*" match nothing
+      return operator === '<' || operator === '>' ? [] : RangeUtils.any();
+    }
+
+    const floor = `${major}.${minor ?? 0}.${patch ?? 0}${pre}`;
+    // First version past the partial's wildcard part (e.g., 1.2 -> 1.3.0-0)
+    const next = minor === undefined
+      ? `${major + 1}.0.0-0`
+      : patch === undefined
+        ? `${major}.${minor + 1}.0-0`
+        : null;
+
+    switch (operator) {
+      case '':
+      case '=':
+        return next
+          ? RangeUtils.interval({ version: floor, inclusive: true }, { version: next, inclusive: false })
+          : RangeUtils.exact(floor);
+      case '>':
+        return next
+          ? RangeUtils.interval({ version: next, inclusive: true })
+          : RangeUtils.interval({ version: floor, inclusive: false });
+      case '>=':
+        return RangeUtils.interval({ version: floor, inclusive: true });
+      case '<':
+        return RangeUtils.interval(undefined, { version: next ? `${floor}-0` : floor, inclusive: false });
+      case '<=':
+        return next
+          ? RangeUtils.interval(undefined, { version: next, inclusive: false })
+          : RangeUtils.interval(undefined, { version: floor, inclusive: true });
+      case '~': {
+        const upper = minor === undefined ? `${major + 1}.0.0-0` : `${major}.${minor + 1}.0-0`;
+        return RangeUtils.interval({ version: floor, inclusive: true }, { version: upper, inclusive: false });
+      }
+      case '^': {
+        // Bump the left-most non-zero part that was written
+        let upper: string;
+        if (major > 0 || minor === undefined) {
+          upper = `${major + 1}.0.0-0`;
+        } else if (minor > 0 || patch === undefined) {
+          upper = `0.${minor + 1}.0-0`;
+        } else {
+          upper = `0.0.${patch + 1}-0`;
+        }
+        return RangeUtils.interval({ version: floor, inclusive: true }, { version: upper, inclusive: false });
+      }
+      default:
+        throw new Error(`Unknown version operator: ${operator}`);
+    }
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Type definitions for ecosystem-aware version handling
+ */
+
+export type Ecosystem = 'npm' | 'pypi' | 'cargo' | 'rubygems' | 'maven' | 'go';
+
+export interface VersionBound {
+  version: string;
+  inclusive: boolean;
+}
+
+/**
+ * A contiguous interval of versions; a missing bound is unbounded on that side
+ */
+export interface VersionInterval {
+  lower?: VersionBound;
+  upper?: VersionBound;
+}
+
+/**
+ * A set of versions as a sorted union of disjoint intervals
+ * [] matches nothing, [{}] matches everything
+ */
+export type VersionRange = VersionInterval[];
+
+/**
+ * A version reduced to what every ecosystem has: numeric release parts and a prerelease flag
+ */
+export interface ParsedVersion {
+  raw: string;
+  release: number[];     // Leading numeric parts (e.g., [1, 2, 3] for "1.2.3", "v1.2.3" or "1.2.3.beta1")
+  prerelease: boolean;
+}
+
+/**
+ * Version and constraint semantics of one ecosystem
+ */
+export interface VersionScheme {
+  readonly ecosystem: Ecosystem;
+
+  /**
+   * Compare two versions
+   * @param a First version
+   * @param b Second version
+   * @returns Negative if a < b, 0 if equal, positive if a > b
+   */
+  compare(a: string, b: string): number;
+
+  /**
+   * Check whether a string is a valid version in this ecosystem
+   * @param version Version string
+   * @returns True if valid
+   */
+  isValid(version: string): boolean;
+
+  /**
+   * Check whether a version is a prerelease (excluded from resolution unless nothing else fits)
+   * @param version Version string
+   * @returns True for prereleases
+   */
+  isPrerelease(version: string): boolean;
+
+  /**
+   * Parse a constraint into the set of versions it allows
+   * @param constraint Constraint in the ecosystem's own syntax
+   * @returns Allowed version range
+   */
+  parseConstraint(constraint: string): VersionRange;
+
+  /**
+   * Parse a version
+   * @param version Version string
+   * @returns Parsed version, or null if invalid
+   */
+  parse(version: string): ParsedVersion | null;
+
+  /**
+   * Check whether a version satisfies a constraint, with the ecosystem's own rules
+   * (including when prereleases match)
+   * @param version Version
+   * @param constraint Constraint in the ecosystem's own syntax
+   * @returns True if allowed; throws if the constraint is invalid
+   */
+  satisfies(version: string, constraint: string): boolean;
+
+  /**
+   * Intersect two constraints
+   * @param a First constraint
+   * @param b Second constraint
+   * @returns Versions both allow ([] if none)
+   */
+  intersect(a: string, b: string): VersionRange;
+
+  /**
+   * Find the highest version that satisfies a constraint
+   * @param versions Candidate versions (invalid ones are skipped)
+   * @param constraint Constraint
+   * @returns Highest satisfying version, or null if none does
+   */
+  maxSatisfying(versions: string[], constraint: string): string | null;
+}
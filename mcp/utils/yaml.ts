@@ -0,0 +1,531 @@
+/**
+ * YAML reader (the subset manifests and lockfiles use)
+ */
+
+/**
+ * Value of a YAML node
+ * Plain scalars stay strings apart from null and booleans: lockfiles hold versions such
+ * as 1.10 or 3.0 that must not turn into numbers
+ */
+export type YamlValue = string | boolean | null | YamlValue[] | YamlMapping;
+
+/**
+ * YAML mapping
+ */
+export interface YamlMapping {
+  [key: string]: YamlValue;
+}
+
+/**
+ * Syntax error in a YAML document, with its 1-based position
+ */
+export class YamlError extends Error {
+  constructor(message: string, readonly line: number, readonly column: number) {
+    super(`${message} at line ${line}, column ${column}`);
+    this.name = 'YamlError';
+  }
+}
+
+/**
+ * Parse YAML documents
+ * Covers block mappings and sequences (including "- key: value" items), flow
+ * collections, plain, quoted and block (| and >) scalars, comments and tags; anchors,
+ * aliases and complex keys are reported as errors. Only the first document is read
+ */
+export class Yaml {
+  /**
+   * Parse a YAML document
+   * @param content Document text
+   * @returns Root node (null for an empty document)
+   * @throws YamlError if the document is not valid YAML or uses an unsupported feature
+   */
+  static parse(content: string): YamlValue {
+    return new YamlReader(content.replace(/^\uFEFF/, '')).read();
+  }
+
+  /**
+   * Check whether a value is a mapping
+   * @param value YAML value
+   * @returns True for mappings (not sequences)
+   */
+  static isMapping(value: YamlValue | undefined): value is YamlMapping {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  /**
+   * Look up a mapping by its path (e.g., ["metadata", "channels"])
+   * @param root Node to start from
+   * @param path Keys to follow
+   * @returns Mapping, or undefined if a key is missing or not a mapping
+   */
+  static mapping(root: YamlValue, path: string[]): YamlMapping | undefined {
+    let current: YamlValue | undefined = root;
+    for (const key of path) {
+      if (!this.isMapping(current) || !Object.prototype.hasOwnProperty.call(current, key)) {
+        return undefined;
+      }
+      current = current[key];
+    }
+    return this.isMapping(current) ? current : undefined;
+  }
+}
+
+interface YamlLine {
+  number: number;   // 1-based line number
+  indent: number;   // Leading spaces
+  text: string;     // Content without indentation and comments ("" for blank and comment lines)
+  raw: string;      // Line as written (block scalars keep everything)
+}
+
+/**
+ * Single-use reader over one document
+ * Block structure is read line by line from indentation; flow collections and quoted
+ * scalars are read character by character
+ */
+class YamlReader {
+  private readonly lines: YamlLine[] = [];
+  private index = 0;
+
+  constructor(content: string) {
+    let started = false;
+    for (const [i, raw] of content.split(/\r?\n/).entries()) {
+      const stripped = this.stripComment(raw);
+      const text = stripped.trim();
+      if (/^(---|\.\.\.)(\s|$)/.test(stripped)) {
+        // A second document (or the end marker) ends the first one
+        if (started || text.startsWith('...')) break;
+        continue;
+      }
+      if (/^%/.test(stripped) && !started) {
+        continue;
+      }
+      started = started || text !== '';
+      this.lines.push({ number: i + 1, indent: raw.length - raw.replace(/^ +/, '').length, text, raw });
+    }
+  }
+
+  /**
+   * Read the document
+   * @returns Root node
+   */
+  read(): YamlValue {
+    const first = this.current();
+    if (!first) {
+      return null;
+    }
+    const value = this.readBlock(first.indent);
+    const rest = this.current();
+    if (rest) {
+      throw this.error('Unexpected indentation', rest);
+    }
+    return value;
+  }
+
+  /**
+   * Read the node starting on the current line
+   * @param indent Indentation of that line
+   */
+  private readBlock(indent: number): YamlValue {
+    const line = this.current()!;
+    if (this.isSequenceItem(line.text)) {
+      return this.readSequence(indent);
+    }
+    if (this.splitKey(line.text, line)) {
+      return this.readMapping(indent);
+    }
+    this.index++;
+    return this.readInline(line.text, indent - 1, line);
+  }
+
+  /**
+   * Read "key: value" lines at one indentation
+   */
+  private readMapping(indent: number): YamlMapping {
+    const mapping: YamlMapping = {};
+    for (let line = this.current(); line && line.indent === indent; line = this.current()) {
+      const entry = this.splitKey(line.text, line);
+      if (!entry) {
+        throw this.error('Expected a mapping key', line);
+      }
+      this.index++;
+      mapping[entry.key] = this.readValue(entry.rest, indent, line, true);
+    }
+    return mapping;
+  }
+
+  /**
+   * Read "- item" lines at one indentation
+   */
+  private readSequence(indent: number): YamlValue[] {
+    const items: YamlValue[] = [];
+    for (let line = this.current(); line && line.indent === indent && this.isSequenceItem(line.text); line = this.current()) {
+      const rest = line.text.slice(1).trimStart();
+      if (rest && (this.isSequenceItem(rest) || this.splitKey(rest, line))) {
+        // Compact collection ("- name: x" or "- - x"): read it at the column it starts on
+        line.indent += line.text.length - rest.length;
+        line.text = rest;
+        items.push(this.readBlock(line.indent));
+      } else {
+        this.index++;
+        items.push(this.readValue(rest, indent, line, false));
+      }
+    }
+    return items;
+  }
+
+  /**
+   * Read the value after "key:" or "-"
+   * @param rest Text after the indicator
+   * @param indent Indentation of the key or item
+   * @param line Line of the key or item
+   * @param inMapping Whether a sequence at the key's own indentation may follow
+   */
+  private readValue(rest: string, indent: number, line: YamlLine, inMapping: boolean): YamlValue {
+    const tag = rest.match(/^!\S*\s*/);
+    if (tag) {
+      rest = rest.slice(tag[0].length);
+    }
+    if (/^[&*]/.test(rest)) {
+      throw this.error('Anchors and aliases are not supported', line);
+    }
+
+    if (rest === '') {
+      const next = this.current();
+      if (next && next.indent > indent) {
+        return this.readBlock(next.indent);
+      }
+      if (next && inMapping && next.indent === indent && this.isSequenceItem(next.text)) {
+        return this.readSequence(indent);
+      }
+      return tag ? '' : null;
+    }
+    if (/^[|>]/.test(rest)) {
+      return this.readBlockScalar(rest, indent, line);
+    }
+    return this.readInline(rest, indent, line);
+  }
+
+  /**
+   * Read a scalar or flow collection that starts on a line (and may continue on the next ones)
+   * @param text Text of the value
+   * @param indent Indentation continuation lines must exceed
+   * @param line Line the value starts on
+   */
+  private readInline(text: string, indent: number, line: YamlLine): YamlValue {
+    if (text[0] === '[' || text[0] === '{') {
+      while (this.flowDepth(text) > 0) {
+        const next = this.current();
+        if (!next) {
+          throw this.error('Unterminated flow collection', line);
+        }
+        text += ` ${next.text}`;
+        this.index++;
+      }
+      return this.readFlow(text, line);
+    }
+
+    if (text[0] === '"' || text[0] === "'") {
+      let quoted = this.readQuoted(text, 0, line);
+      while (!quoted) {
+        if (this.index >= this.lines.length) {
+          throw this.error('Unterminated quoted scalar', line);
+        }
+        text += ` ${this.lines[this.index++].raw.trim()}`;
+        quoted = this.readQuoted(text, 0, line);
+      }
+      if (text.slice(quoted.end).trim()) {
+        throw this.error('Unexpected text after quoted scalar', line);
+      }
+      return quoted.value;
+    }
+
+    // Plain scalars fold onto more indented lines
+    for (let next = this.current(); next && next.indent > indent; next = this.current()) {
+      if (this.splitKey(next.text, next)) {
+        throw this.error('Bad indentation of a mapping entry', next);
+      }
+      text += ` ${next.text}`;
+      this.index++;
+    }
+    return this.plain(text);
+  }
+
+  /**
+   * Read a literal (|) or folded (>) block scalar
+   * @param header Indicator with its chomping and indentation options (e.g., "|-", ">2")
+   * @param indent Indentation of the key or item
+   * @param line Line of the header
+   */
+  private readBlockScalar(header: string, indent: number, line: YamlLine): string {
+    if (!/^[|>](?:[1-9][+-]?|[+-][1-9]?)?$/.test(header)) {
+      throw this.error(`Invalid block scalar header "${header}"`, line);
+    }
+    const chomping = header.includes('-') ? 'strip' : header.includes('+') ? 'keep' : 'clip';
+    const explicit = header.match(/[1-9]/);
+    let blockIndent = explicit ? indent + Number(explicit[0]) : undefined;
+
+    const content: string[] = [];
+    while (this.index < this.lines.length) {
+      const raw = this.lines[this.index].raw;
+      if (raw.trim() === '') {
+        content.push('');
+        this.index++;
+        continue;
+      }
+      const lineIndent = raw.length - raw.replace(/^ +/, '').length;
+      blockIndent ??= lineIndent > indent ? lineIndent : undefined;
+      if (blockIndent === undefined || lineIndent < blockIndent) {
+        break;
+      }
+      content.push(raw.slice(blockIndent));
+      this.index++;
+    }
+
+    let trailing = 0;
+    while (content.length > 0 && content[content.length - 1] === '') {
+      content.pop();
+      trailing++;
+    }
+    if (content.length === 0) {
+      return chomping === 'keep' ? '\n'.repeat(trailing) : '';
+    }
+
+    let body = '';
+    if (header[0] === '|') {
+      body = content.join('\n');
+    } else {
+      // Folding: single line breaks become spaces, empty lines become line breaks
+      let afterEmpty = false;
+      for (const text of content) {
+        if (text === '') {
+          body += '\n';
+          afterEmpty = true;
+        } else {
+          body += (body && !afterEmpty ? ' ' : '') + text;
+          afterEmpty = false;
+        }
+      }
+    }
+    return body + (chomping === 'strip' ? '' : chomping === 'keep' ? '\n'.repeat(trailing + 1) : '\n');
+  }
+
+  /**
+   * Read a flow collection ([a, b] or {a: 1, b: 2})
+   * @param text Whole collection
+   * @param line Line it starts on
+   */
+  private readFlow(text: string, line: YamlLine): YamlValue {
+    let pos = 0;
+    const skip = (): void => {
+      while (pos < text.length && /\s/.test(text[pos])) pos++;
+    };
+    const expect = (close: string): boolean => {
+      skip();
+      if (text[pos] === ',') {
+        pos++;
+        return true;
+      }
+      if (text[pos] !== close) {
+        throw this.error(`Expected "," or "${close}" in flow collection`, line);
+      }
+      return false;
+    };
+    const scalar = (): YamlValue => {
+      if (text[pos] === '"' || text[pos] === "'") {
+        const quoted = this.readQuoted(text, pos, line);
+        if (!quoted) throw this.error('Unterminated quoted scalar', line);
+        pos = quoted.end;
+        return quoted.value;
+      }
+      const start = pos;
+      while (pos < text.length && !/[,[\]{}]/.test(text[pos]) && !/^:(\s|[,\]}]|$)/.test(text.slice(pos, pos + 2))) pos++;
+      return this.plain(text.slice(start, pos).trim());
+    };
+    const value = (): YamlValue => {
+      skip();
+      if (text[pos] === '[') {
+        pos++;
+        const items: YamlValue[] = [];
+        skip();
+        while (text[pos] !== ']') {
+          items.push(value());
+          if (!expect(']')) break;
+          skip();
+        }
+        pos++;
+        return items;
+      }
+      if (text[pos] === '{') {
+        pos++;
+        const mapping: YamlMapping = {};
+        skip();
+        while (text[pos] !== '}') {
+          const key = scalar();
+          skip();
+          let entry: YamlValue = null;
+          if (text[pos] === ':') {
+            pos++;
+            entry = value();
+          }
+          mapping[String(key)] = entry;
+          if (!expect('}')) break;
+          skip();
+        }
+        pos++;
+        return mapping;
+      }
+      return scalar();
+    };
+
+    const result = value();
+    skip();
+    if (pos < text.length) {
+      throw this.error('Unexpected text after flow collection', line);
+    }
+    return result;
+  }
+
+  /**
+   * Read a quoted scalar
+   * @param text Text containing the scalar
+   * @param start Position of the opening quote
+   * @param line Line (for errors)
+   * @returns Value and the position after the closing quote, or null if it is not closed
+   */
+  private readQuoted(text: string, start: number, line: YamlLine): { value: string; end: number } | null {
+    const quote = text[start];
+    let value = '';
+    for (let pos = start + 1; pos < text.length; pos++) {
+      const c = text[pos];
+      if (quote === "'" && c === "'") {
+        if (text[pos + 1] !== "'") return { value, end: pos + 1 };
+        value += "'";
+        pos++;
+      } else if (quote === '"' && c === '"') {
+        return { value, end: pos + 1 };
+      } else if (quote === '"' && c === '\\') {
+        const escape = text.slice(pos + 1).match(/^(?:x[0-9A-Fa-f]{2}|u[0-9A-Fa-f]{4}|U[0-9A-Fa-f]{8}|[0abtnvfre "/\\N_LP\t])/);
+        if (!escape) throw this.error(`Invalid escape "\\${text[pos + 1] ?? ''}"`, line);
+        value += this.unescape(escape[0]);
+        pos += escape[0].length;
+      } else {
+        value += c;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Value of a double-quoted escape sequence (without the backslash)
+   */
+  private unescape(escape: string): string {
+    const simple: Record<string, string> = {
+      '0': '\0', a: '\x07', b: '\b', t: '\t', '\t': '\t', n: '\n', v: '\v', f: '\f', r: '\r', e: '\x1b',
+      ' ': ' ', '"': '"', '/': '/', '\\': '\\', N: '\x85', _: '\xa0', L: '\u2028', P: '\u2029'
+    };
+    return escape.length === 1 ? simple[escape] : String.fromCodePoint(parseInt(escape.slice(1), 16));
+  }
+
+  /**
+   * Resolve a plain scalar: null and booleans; everything else stays a string
+   */
+  private plain(text: string): YamlValue {
+    if (/^(~|null|Null|NULL)?$/.test(text)) return null;
+    if (/^(true|True|TRUE)$/.test(text)) return true;
+    if (/^(false|False|FALSE)$/.test(text)) return false;
+    return text;
+  }
+
+  /**
+   * Split "key: rest" (the key may be quoted)
+   * @param text Line text
+   * @param line Line (for errors)
+   * @returns Key and the text after the colon, or null if the text is not a mapping entry
+   */
+  private splitKey(text: string, line: YamlLine): { key: string; rest: string } | null {
+    if (/^[[{]/.test(text) || this.isSequenceItem(text)) {
+      return null;
+    }
+    if (text.startsWith('? ')) {
+      throw this.error('Complex mapping keys are not supported', line);
+    }
+
+    if (text[0] === '"' || text[0] === "'") {
+      const quoted = this.readQuoted(text, 0, line);
+      const colon = quoted ? text.slice(quoted.end).match(/^\s*:(?=\s|$)/) : null;
+      return quoted && colon ? { key: quoted.value, rest: text.slice(quoted.end + colon[0].length).trim() } : null;
+    }
+
+    const colon = /:(?=\s|$)/.exec(text);
+    if (!colon || colon.index === 0) {
+      return null;
+    }
+    return { key: text.slice(0, colon.index).trim(), rest: text.slice(colon.index + 1).trim() };
+  }
+
+  /**
+   * Check whether line text starts a sequence item
+   */
+  private isSequenceItem(text: string): boolean {
+    return text === '-' || text.startsWith('- ');
+  }
+
+  /**
+   * Bracket depth at the end of a flow collection's text (quotes skipped)
+   */
+  private flowDepth(text: string): number {
+    let depth = 0;
+    for (let pos = 0; pos < text.length; pos++) {
+      const c = text[pos];
+      if (c === '"' || c === "'") {
+        const end = text.indexOf(c, pos + 1);
+        if (end === -1) return depth;
+        pos = end;
+      } else if (c === '[' || c === '{') {
+        depth++;
+      } else if (c === ']' || c === '}') {
+        depth--;
+      }
+    }
+    return depth;
+  }
+
+  /**
+   * Remove a comment ("#" at the start or after whitespace, outside quotes)
+   */
+  private stripComment(line: string): string {
+    for (let pos = 0; pos < line.length; pos++) {
+      const c = line[pos];
+      const atToken = pos === 0 || /[\s[{,:]/.test(line[pos - 1]);
+      if ((c === '"' || c === "'") && atToken) {
+        let end = pos + 1;
+        while (end < line.length && line[end] !== c) {
+          end += c === '"' && line[end] === '\\' ? 2 : 1;
+        }
+        pos = end;
+      } else if (c === '#' && (pos === 0 || /\s/.test(line[pos - 1]))) {
+        return line.slice(0, pos);
+      }
+    }
+    return line;
+  }
+
+  /**
+   * Current significant line (blank and comment lines skipped)
+   * @throws YamlError if the line is indented with tabs
+   */
+  private current(): YamlLine | undefined {
+    while (this.index < this.lines.length && !this.lines[this.index].text) {
+      this.index++;
+    }
+    const line = this.lines[this.index];
+    if (line && line.raw[line.indent] === '\t') {
+      throw this.error('Tabs are not allowed in indentation', line);
+    }
+    return line;
+  }
+
+  private error(message: string, line: YamlLine): YamlError {
+    return new YamlError(message, line.number, line.indent + 1);
+  }
+}
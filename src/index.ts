@@ -6,6 +6,7 @@ import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
+import type { RequirementsFormat } from '../mcp/tools/generate_requirements/types.js';
 
 /**
  * Main MCP server for DepFinder
@@ -79,7 +80,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
       },
       {
         name: 'generate_requirements',
-        description: 'Generate a requirements file with compatible dependencies',
+        description: 'Generate a pinned requirements file (requirements.txt, package.json, Gemfile, Cargo.toml, pom.xml or go.mod)',
         inputSchema: {
           type: 'object',
           properties: {
@@ -89,7 +90,20 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             },
             outputPath: {
               type: 'string',
-              description: 'Path where to save the requirements file',
+              description: 'Path where to save the requirements file (relative to projectPath; defaults to requirements.txt, or pinned/<file> for other formats)',
+            },
+            format: {
+              type: 'string',
+              enum: ['requirements.txt', 'package.json', 'Gemfile', 'Cargo.toml', 'pom.xml', 'go.mod'],
+              description: 'Output format, which also selects the ecosystem (default requirements.txt)',
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Return the proposed content with a diff against the existing file and write nothing (default false)',
+            },
+            hashes: {
+              type: 'boolean',
+              description: 'Add --hash entries for pip --require-hashes, from lockfiles or the registry (requirements.txt only)',
             },
           },
           required: ['projectPath'],
@@ -110,12 +124,16 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
                   version: { type: 'string' },
                 },
               },
-              description: 'List of dependencies to verify',
+              description: 'List of dependencies to verify (version holds the constraint)',
             },
             language: {
               type: 'string',
               description: 'Programming language/runtime',
             },
+            projectPath: {
+              type: 'string',
+              description: 'Project directory whose lockfiles supply transitive dependencies',
+            },
           },
           required: ['dependencies', 'language'],
         },
@@ -176,10 +194,13 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const { generateRequirements } = await import('../mcp/tools/generate_requirements/index.js');
         const projectPath = typeof args.projectPath === 'string' ? args.projectPath : '';
         const outputPath = typeof args.outputPath === 'string' ? args.outputPath : undefined;
+        const format = typeof args.format === 'string' ? args.format as RequirementsFormat : undefined;
+        const dryRun = args.dryRun === true;
+        const hashes = args.hashes === true;
         if (!projectPath) {
           throw new Error('projectPath is required');
         }
-        return await generateRequirements(projectPath, outputPath);
+        return await generateRequirements(projectPath, outputPath, { format, dryRun, hashes });
       }
 
       case 'verify_compatibility': {
@@ -195,10 +216,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             )
           : [];
         const language = typeof args.language === 'string' ? args.language : '';
-        if (!dependencies.length || !language) {
-          throw new Error('dependencies and language are required');
+        const projectPath = typeof args.projectPath === 'string' ? args.projectPath : undefined;
+        if ((!dependencies.length && !projectPath) || !language) {
+          throw new Error('dependencies (or projectPath) and language are required');
         }
-        return await verifyCompatibility(dependencies, language);
+        return await verifyCompatibility(dependencies, language, { projectPath });
       }
 
       default:
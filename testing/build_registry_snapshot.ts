@@ -0,0 +1,42 @@
+import { RegistrySnapshotBuilder } from '../mcp/tools/search_compatible_versions/registry/snapshotBuilder.js';
+import { RegistrySnapshotLoader } from '../mcp/tools/search_compatible_versions/registry/snapshotLoader.js';
+import path from 'path';
+import { readdir } from 'fs/promises';
+import { fileURLToPath } from 'url';
+
+/**
+ * Build an offline registry snapshot from the get_dependencies testing projects
+ * Run on a machine with registry access:
+ *   npm run snapshot:build -- [output.json]
+ * Then point DEPFINDER_REGISTRY_SNAPSHOT at the output on air-gapped machines
+ */
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+async function buildRegistrySnapshot() {
+  const projectsRoot = path.join(__dirname, 'get_dependencies_testing');
+  const outputPath = process.argv[2] || path.join(__dirname, 'registry_snapshot.json');
+
+  const builder = new RegistrySnapshotBuilder();
+  const entries = await readdir(projectsRoot, { withFileTypes: true });
+
+  for (const entry of entries) {
+    if (!entry.isDirectory()) continue;
+    console.log(`Adding ${entry.name}...`);
+    await builder.addProject(path.join(projectsRoot, entry.name));
+  }
+
+  const snapshot = builder.build();
+  await RegistrySnapshotLoader.save(snapshot, outputPath);
+
+  for (const [registry, packages] of Object.entries(snapshot.registries)) {
+    console.log(`  ${registry}: ${Object.keys(packages).length} packages`);
+  }
+  for (const warning of builder.getWarnings()) {
+    console.warn(`  warning: ${warning}`);
+  }
+  console.log(`Snapshot written to ${outputPath}`);
+}
+
+buildRegistrySnapshot().catch(console.error);
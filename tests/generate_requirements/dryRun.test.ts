@@ -0,0 +1,88 @@
+import * as os from 'os';
+import * as path from 'path';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { generateRequirements } from '../../mcp/tools/generate_requirements/index';
+import { RequirementsGenerationResult } from '../../mcp/tools/generate_requirements/types';
+import { DiffUtils } from '../../mcp/utils/diffUtils';
+import { fileExists } from '../../mcp/utils/fileSystem';
+
+let workDir: string;
+
+beforeAll(async () => {
+  workDir = await mkdtemp(path.join(os.tmpdir(), 'depfinder-dry-run-'));
+});
+
+afterAll(async () => {
+  await rm(workDir, { recursive: true, force: true });
+});
+
+describe('DiffUtils.unifiedDiff', () => {
+  test('renders hunks with context and line numbers', () => {
+    const before = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j'].join('\n') + '\n';
+    const after = ['a', 'B', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j', 'k'].join('\n') + '\n';
+
+    expect(DiffUtils.unifiedDiff(before, after, 'a/x', 'b/x', 1)).toBe([
+      '--- a/x',
+      '+++ b/x',
+      '@@ -1,3 +1,3 @@',
+      ' a',
+      '-b',
+      '+B',
+      ' c',
+      '@@ -10,1 +10,2 @@',
+      ' j',
+      '+k',
+      ''
+    ].join('\n'));
+  });
+
+  test('diffs a new file against /dev/null and equal texts to nothing', () => {
+    expect(DiffUtils.unifiedDiff('', 'x\n', '/dev/null', 'b/x')).toBe('--- /dev/null\n+++ b/x\n@@ -0,0 +1,1 @@\n+x\n');
+    expect(DiffUtils.unifiedDiff('x\n', 'x\n', 'a/x', 'b/x')).toBe('');
+  });
+});
+
+describe('generate_requirements dry run', () => {
+  test('returns content, diff and pin changes without writing', async () => {
+    const projectPath = path.join(workDir, 'project');
+    await mkdir(projectPath, { recursive: true });
+    await writeFile(path.join(projectPath, 'Pipfile'), '[packages]\nrequests = "*"\nflask = "*"\n');
+    await writeFile(path.join(projectPath, 'Pipfile.lock'), JSON.stringify({
+      default: {
+        requests: { version: '==2.31.0' },
+        'Flask': { version: '==3.0.0' },
+        idna: { version: '==3.6' }
+      }
+    }));
+    const previous = 'requests==2.28.0\nflask==3.0.0\nsix==1.16.0\n';
+    await writeFile(path.join(projectPath, 'pinned.txt'), previous);
+
+    const response = await generateRequirements(projectPath, 'pinned.txt', { dryRun: true });
+    const result: RequirementsGenerationResult = JSON.parse(response.content[0].text);
+
+    expect(result.success).toBe(true);
+    expect(result.written).toBe(false);
+    expect(await readFile(path.join(projectPath, 'pinned.txt'), 'utf-8')).toBe(previous);
+    expect(result.content).toContain('requests==2.31.0  # from Pipfile.lock');
+    expect(result.diff).toContain('--- a/pinned.txt\n+++ b/pinned.txt\n');
+    expect(result.diff).toContain('\n-requests==2.28.0\n');
+    expect(result.changes).toEqual({
+      added: [{ name: 'idna', to: '3.6' }],
+      removed: [{ name: 'six', from: '1.16.0' }],
+      changed: [{ name: 'requests', from: '2.28.0', to: '2.31.0' }]
+    });
+  });
+
+  test('does not create missing output files and reports every pin as added', async () => {
+    const projectPath = path.join(workDir, 'fresh');
+    await mkdir(projectPath, { recursive: true });
+    await writeFile(path.join(projectPath, 'go.mod'), 'module example.com/fresh\n\nrequire github.com/pkg/errors v0.9.1\n');
+
+    const response = await generateRequirements(projectPath, undefined, { format: 'go.mod', dryRun: true });
+    const result: RequirementsGenerationResult = JSON.parse(response.content[0].text);
+
+    expect(await fileExists(path.join(projectPath, 'pinned'))).toBe(false);
+    expect(result.diff?.startsWith('--- /dev/null\n+++ b/pinned/go.mod\n')).toBe(true);
+    expect(result.changes?.added).toEqual([{ name: 'github.com/pkg/errors', to: 'v0.9.1' }]);
+  });
+});
@@ -0,0 +1,178 @@
+import * as os from 'os';
+import * as path from 'path';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { generateRequirements } from '../../mcp/tools/generate_requirements/index';
+import { RegistrySnapshotLoader } from '../../mcp/tools/search_compatible_versions/registry/snapshotLoader';
+import { RequirementsFormat, RequirementsGenerationResult } from '../../mcp/tools/generate_requirements/types';
+
+let workDir: string;
+let snapshotPath: string;
+
+beforeAll(async () => {
+  workDir = await mkdtemp(path.join(os.tmpdir(), 'depfinder-native-'));
+  snapshotPath = path.join(workDir, 'snapshot.json');
+  await RegistrySnapshotLoader.save({
+    formatVersion: 1,
+    registries: {
+      npm: {
+        '@types/node': { versions: { '20.9.0': {}, '20.10.0': {}, '21.0.0': {} } }
+      },
+      'crates.io': {
+        tokio: { versions: { '1.33.0': {}, '1.34.0': {} } }
+      }
+    }
+  }, snapshotPath);
+});
+
+afterAll(async () => {
+  await rm(workDir, { recursive: true, force: true });
+});
+
+/**
+ * Create a project directory with the given files
+ */
+async function createProject(name: string, files: Record<string, string>): Promise<string> {
+  const projectPath = path.join(workDir, name);
+  await mkdir(projectPath, { recursive: true });
+  for (const [fileName, content] of Object.entries(files)) {
+    await writeFile(path.join(projectPath, fileName), content);
+  }
+  return projectPath;
+}
+
+/**
+ * Run generate_requirements and read back the written file
+ */
+async function generate(projectPath: string, format: string): Promise<{ result: RequirementsGenerationResult; content: string }> {
+  const response = await generateRequirements(projectPath, undefined, {
+    format: format as RequirementsFormat,
+    registryOptions: { snapshotPath }
+  });
+  const result: RequirementsGenerationResult = JSON.parse(response.content[0].text);
+  return { result, content: result.outputPath ? await readFile(result.outputPath, 'utf-8') : '' };
+}
+
+describe('generate_requirements native formats', () => {
+  test('package.json pins direct dependencies to their locked versions', async () => {
+    const projectPath = await createProject('node', {
+      'package.json': JSON.stringify({
+        name: 'node-app',
+        dependencies: { express: '^4.18.0', '@types/node': '^20.0.0', local: 'file:../local' },
+        devDependencies: { jest: '^29.0.0' }
+      }),
+      'package-lock.json': JSON.stringify({
+        lockfileVersion: 3,
+        packages: {
+          '': { name: 'node-app' },
+          'node_modules/express': { version: '4.18.2' },
+          'node_modules/body-parser': { version: '1.20.1' },
+          'node_modules/jest': { version: '29.7.0', dev: true }
+        }
+      })
+    });
+
+    const { result, content } = await generate(projectPath, 'package.json');
+    const manifest = JSON.parse(content);
+
+    expect(result.outputPath).toBe(path.join(projectPath, 'pinned', 'package.json'));
+    expect(manifest.dependencies).toEqual({ '@types/node': '20.10.0', express: '4.18.2', local: 'file:../local' });
+    expect(manifest.depfinder.sources.express).toBe('from package-lock.json');
+    expect(manifest.depfinder.sources['@types/node']).toBe('from package.json, resolved from ^20.0.0');
+  });
+
+  test('Gemfile uses "=" constraints from Gemfile.lock', async () => {
+    const projectPath = await createProject('ruby', {
+      'Gemfile': "source 'https://rubygems.org'\n\ngem 'rails', '~> 7.0'\ngem 'nokogiri'\n",
+      'Gemfile.lock': [
+        'GEM',
+        '  remote: https://rubygems.org/',
+        '  specs:',
+        '    nokogiri (1.15.4-x86_64-linux)',
+        '      racc (~> 1.4)',
+        '    racc (1.7.1)',
+        '    rails (7.0.8)',
+        '',
+        'DEPENDENCIES',
+        '  nokogiri',
+        '  rails (~> 7.0)',
+        ''
+      ].join('\n')
+    });
+
+    const { content } = await generate(projectPath, 'Gemfile');
+    const gems = content.split('\n').filter(line => line.startsWith('gem '));
+
+    expect(content).toContain('source "https://rubygems.org"');
+    expect(gems).toEqual([
+      'gem "nokogiri", "= 1.15.4"  # from Gemfile.lock',
+      'gem "rails", "= 7.0.8"  # from Gemfile.lock'
+    ]);
+  });
+
+  test('Cargo.toml uses "=" requirements', async () => {
+    const projectPath = await createProject('rust', {
+      'Cargo.toml': '[package]\nname = "app"\n\n[dependencies]\nserde = "1.0"\ntokio = "1.33"\n',
+      'Cargo.lock': '[[package]]\nname = "serde"\nversion = "1.0.190"\n\n[[package]]\nname = "app"\nversion = "0.1.0"\n'
+    });
+
+    const { content } = await generate(projectPath, 'Cargo.toml');
+
+    expect(content).toContain('[dependencies]\nserde = "=1.0.190"  # from Cargo.lock\ntokio = "=1.34.0"  # from Cargo.toml, resolved from >=1.33.0, <2.0.0\n');
+    expect(content).not.toContain('app =');
+  });
+
+  test('pom.xml pins versions in a dependencyManagement block', async () => {
+    const projectPath = await createProject('java', {
+      'pom.xml': [
+        '<project>',
+        '  <properties><guava.version>32.1.3-jre</guava.version></properties>',
+        '  <dependencies>',
+        '    <dependency><groupId>com.google.guava</groupId><artifactId>guava</artifactId><version>${guava.version}</version></dependency>',
+        '    <dependency><groupId>junit</groupId><artifactId>junit</artifactId><version>4.13.2</version><scope>test</scope></dependency>',
+        '  </dependencies>',
+        '</project>'
+      ].join('\n')
+    });
+
+    const { content } = await generate(projectPath, 'pom.xml');
+
+    expect(content).toContain('<packaging>pom</packaging>');
+    expect(content).toMatch(/<dependencyManagement>\s*<dependencies>\s*<!-- from pom.xml -->\s*<dependency>\s*<groupId>com.google.guava<\/groupId>\s*<artifactId>guava<\/artifactId>\s*<version>32.1.3-jre<\/version>/);
+    expect(content).not.toContain('junit');
+  });
+
+  test('go.mod lists every required module in one require block', async () => {
+    const projectPath = await createProject('go', {
+      'go.mod': [
+        'module example.com/app',
+        '',
+        'go 1.21',
+        '',
+        'require github.com/pkg/errors v0.9.1',
+        '',
+        'require (',
+        '\tgithub.com/gin-gonic/gin v1.9.1',
+        '\tgolang.org/x/text v0.13.0 // indirect',
+        ')',
+        ''
+      ].join('\n')
+    });
+
+    const { content } = await generate(projectPath, 'go.mod');
+
+    expect(content).toContain('module example.com/app\n\ngo 1.21\n\nrequire (');
+    expect(content).toContain([
+      'require (',
+      '\tgithub.com/gin-gonic/gin v1.9.1 // from go.mod',
+      '\tgithub.com/pkg/errors v0.9.1 // from go.mod',
+      '\tgolang.org/x/text v0.13.0 // from go.mod',
+      ')'
+    ].join('\n'));
+  });
+
+  test('rejects unknown formats', async () => {
+    const { result } = await generate(workDir, 'setup.py');
+    expect(result.success).toBe(false);
+    expect(result.errors?.[0]).toContain('Unsupported requirements format: setup.py');
+  });
+});
@@ -0,0 +1,179 @@
+import * as os from 'os';
+import * as path from 'path';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { generateRequirements } from '../../mcp/tools/generate_requirements/index';
+import { RegistrySnapshotLoader } from '../../mcp/tools/search_compatible_versions/registry/snapshotLoader';
+
+let workDir: string;
+let snapshotPath: string;
+
+beforeAll(async () => {
+  workDir = await mkdtemp(path.join(os.tmpdir(), 'depfinder-requirements-'));
+  snapshotPath = path.join(workDir, 'snapshot.json');
+  await RegistrySnapshotLoader.save({
+    formatVersion: 1,
+    registries: {
+      pypi: {
+        tomli: { versions: { '2.0.1': {}, '2.1.0rc1': {}, '1.2.3': {} } },
+        flask: { versions: { '2.3.3': {}, '3.0.0': { hashes: ['sha256:f1a5', 'sha256:f2b6'] }, '3.0.1': { yanked: true } } },
+        idna: { versions: { '3.6': { hashes: ['sha256:1d4e'] } } }
+      }
+    }
+  }, snapshotPath);
+});
+
+afterAll(async () => {
+  await rm(workDir, { recursive: true, force: true });
+});
+
+/**
+ * Create a project directory with the given files
+ */
+async function createProject(name: string, files: Record<string, string>): Promise<string> {
+  const projectPath = path.join(workDir, name);
+  await mkdir(projectPath, { recursive: true });
+  for (const [fileName, content] of Object.entries(files)) {
+    await writeFile(path.join(projectPath, fileName), content);
+  }
+  return projectPath;
+}
+
+describe('generate_requirements for Python', () => {
+  test('pins pyproject dependencies, preferring poetry.lock versions', async () => {
+    const projectPath = await createProject('poetry', {
+      'pyproject.toml': [
+        '[project]',
+        'name = "demo"',
+        'dependencies = [',
+        '  "requests[socks]>=2.28",',
+        '  "tomli>=2; python_version < \'3.11\'",  # only on old Pythons',
+        ']',
+        ''
+      ].join('\n'),
+      'poetry.lock': [
+        '[[package]]', 'name = "requests"', 'version = "2.31.0"', '',
+        '[package.dependencies]', 'urllib3 = ">=1.21.1,<3"', '',
+        '[[package]]', 'name = "urllib3"', 'version = "2.0.7"', ''
+      ].join('\n')
+    });
+
+    const response = await generateRequirements(projectPath, 'out/requirements.txt', { registryOptions: { snapshotPath } });
+    const result = JSON.parse(response.content[0].text);
+
+    expect(result.success).toBe(true);
+    expect(result.outputPath).toBe(path.join(projectPath, 'out', 'requirements.txt'));
+    const lines = (await readFile(result.outputPath, 'utf-8')).split('\n').filter(line => line && !line.startsWith('#'));
+    expect(lines).toEqual([
+      'requests[socks]==2.31.0  # from poetry.lock',
+      'tomli==2.0.1 ; python_version < \'3.11\'  # from pyproject.toml, resolved from >=2',
+      'urllib3==2.0.7  # from poetry.lock'
+    ]);
+  });
+
+  test('resolves Pipfile "*" requirements to the newest release', async () => {
+    const projectPath = await createProject('pipenv-any', { 'Pipfile': '[packages]\ntomli = "*"\n' });
+
+    const response = await generateRequirements(projectPath, undefined, { registryOptions: { snapshotPath } });
+    const result = JSON.parse(response.content[0].text);
+    const content = await readFile(path.join(projectPath, 'requirements.txt'), 'utf-8');
+
+    expect(content).toContain('tomli==2.0.1  # from Pipfile');
+    expect(result.warnings ?? []).toEqual([]);
+  });
+
+  test('keeps Pipfile.lock markers and reports what cannot be pinned', async () => {
+    const projectPath = await createProject('pipenv', {
+      'Pipfile': '[packages]\nflask = ">=2.0"\nmissing = "*"\n',
+      'Pipfile.lock': JSON.stringify({
+        default: {
+          colorama: { version: '==0.4.6', markers: "platform_system == 'Windows'" }
+        }
+      })
+    });
+
+    const response = await generateRequirements(projectPath, undefined, { registryOptions: { snapshotPath } });
+    const result = JSON.parse(response.content[0].text);
+    const content = await readFile(path.join(projectPath, 'requirements.txt'), 'utf-8');
+
+    expect(content).toContain('colorama==0.4.6 ; platform_system == \'Windows\'  # from Pipfile.lock');
+    expect(content).toContain('flask==3.0.0  # from Pipfile, resolved from >=2.0');
+    expect(content).toContain('missing  # from Pipfile, not pinned (unresolved)');
+    expect(result.warnings.some((w: string) => w.includes('Could not pin missing'))).toBe(true);
+  });
+
+  test('adds --hash entries from lockfiles and the registry snapshot', async () => {
+    const projectPath = await createProject('hashed', {
+      'pyproject.toml': '[project]\nname = "hashed"\ndependencies = ["requests", "flask>=3", "idna", "certifi"]\n',
+      'poetry.lock': [
+        '[[package]]', 'name = "requests"', 'version = "2.31.0"',
+        'files = [',
+        '    {file = "requests-2.31.0-py3-none-any.whl", hash = "sha256:58cd"},',
+        '    {file = "requests-2.31.0.tar.gz", hash = "sha256:942c"},',
+        ']', '',
+        '[[package]]', 'name = "idna"', 'version = "3.6"', 'files = []', '',
+        '[[package]]', 'name = "certifi"', 'version = "2023.11.17"',
+        'files = [{file = "certifi-2023.11.17.tar.gz", hash = "md5:9a1f"}]', ''
+      ].join('\n')
+    });
+
+    const response = await generateRequirements(projectPath, undefined, { hashes: true, registryOptions: { snapshotPath } });
+    const result = JSON.parse(response.content[0].text);
+    const content = await readFile(path.join(projectPath, 'requirements.txt'), 'utf-8');
+
+    expect(content).toContain([
+      'requests==2.31.0 \\',
+      '    --hash=sha256:58cd \\',
+      '    --hash=sha256:942c',
+      '    # from poetry.lock'
+    ].join('\n'));
+    expect(content).toContain('flask==3.0.0 \\\n    --hash=sha256:f1a5 \\\n    --hash=sha256:f2b6\n');
+    expect(content).toContain('idna==3.6 \\\n    --hash=sha256:1d4e\n    # from poetry.lock');
+    expect(content).toContain('certifi==2023.11.17  # from poetry.lock');
+    expect(result.warnings.filter((w: string) => w.startsWith('Cannot hash'))).toEqual([
+      'Cannot hash certifi==2023.11.17: Package not found in offline pypi snapshot: certifi'
+    ]);
+    expect(result.warnings).toContain('pip --require-hashes will reject this file: no hashes for certifi');
+  });
+
+  test('reads hashes from Pipfile.lock', async () => {
+    const projectPath = await createProject('pipenv-hashed', {
+      'Pipfile': '[packages]\nsix = "*"\n',
+      'Pipfile.lock': JSON.stringify({ default: { six: { version: '==1.16.0', hashes: ['sha256:8abb', 'sha256:1e61'] } } })
+    });
+
+    const response = await generateRequirements(projectPath, undefined, { hashes: true, registryOptions: { snapshotPath } });
+    const result = JSON.parse(response.content[0].text);
+
+    expect(result.requirements[0].hashes).toEqual(['sha256:8abb', 'sha256:1e61']);
+    expect(result.warnings).toBeUndefined();
+  });
+
+  test('writes only the pip packages of a conda environment', async () => {
+    const projectPath = await createProject('conda', {
+      'environment.yml': [
+        'channels:',
+        '  - conda-forge',
+        'dependencies:',
+        '  - python=3.11',
+        '  - cudatoolkit=11.8',
+        '  - pip',
+        '  - pip:',
+        '    - tomli==2.0.1',
+        ''
+      ].join('\n')
+    });
+
+    const response = await generateRequirements(projectPath, undefined, { registryOptions: { snapshotPath } });
+    const result = JSON.parse(response.content[0].text);
+
+    expect(result.requirements.map((r: { name: string }) => r.name)).toEqual(['tomli']);
+    expect(result.warnings).toEqual(['Conda packages cannot be installed with pip and were not written: cudatoolkit, pip']);
+  });
+
+  test('reports projects without Python dependencies', async () => {
+    const projectPath = await createProject('empty', {});
+    const result = JSON.parse((await generateRequirements(projectPath)).content[0].text);
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toContain('No python dependencies found');
+  });
+});
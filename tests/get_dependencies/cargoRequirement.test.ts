@@ -0,0 +1,116 @@
+import * as os from 'os';
+import * as path from 'path';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { CargoRequirement } from '../../mcp/utils/versioning/cargoRequirement';
+import { RustExtractor } from '../../mcp/tools/get_dependencies/extractors/rust';
+import { CargoLockParser } from '../../mcp/tools/get_dependencies/parsers/cargoLockParser';
+import { getVersionScheme } from '../../mcp/utils/versioning/schemeRegistry';
+import { RangeUtils } from '../../mcp/utils/versioning/rangeUtils';
+
+describe('CargoRequirement', () => {
+  test('bare versions are caret requirements', () => {
+    expect(CargoRequirement.format('1.2')).toBe('>=1.2.0, <2.0.0');
+    expect(CargoRequirement.format('0.3')).toBe('>=0.3.0, <0.4.0');
+    expect(CargoRequirement.format('0.0.3')).toBe('=0.0.3');
+    expect(CargoRequirement.format('0.0')).toBe('>=0.0.0, <0.1.0');
+    expect(CargoRequirement.format('0')).toBe('>=0.0.0, <1.0.0');
+    expect(CargoRequirement.exactVersion('0.0.3')).toBe('0.0.3');
+    expect(CargoRequirement.exactVersion('1.2.3')).toBeNull();
+  });
+
+  test('tilde, wildcard and comparison requirements', () => {
+    expect(CargoRequirement.format('~1.2.3')).toBe('>=1.2.3, <1.3.0');
+    expect(CargoRequirement.format('1.2.*')).toBe('>=1.2.0, <1.3.0');
+    expect(CargoRequirement.format('*')).toBe('*');
+    expect(CargoRequirement.format('<=1.2')).toBe('<1.3.0');
+    expect(CargoRequirement.format('>= 1.2, < 1.5')).toBe('>=1.2.0, <1.5.0');
+  });
+
+  test('every comparator must hold', () => {
+    expect(CargoRequirement.matches('1.4.9', '>=1.2, <1.5')).toBe(true);
+    expect(CargoRequirement.matches('1.5.0', '>=1.2, <1.5')).toBe(false);
+    expect(CargoRequirement.matches('0.3.9', '0.3')).toBe(true);
+    expect(CargoRequirement.matches('0.4.0', '0.3')).toBe(false);
+    expect(CargoRequirement.matches('0.0.4', '0.0.3')).toBe(false);
+  });
+
+  test('prereleases only match a comparator on the same version', () => {
+    expect(CargoRequirement.matches('1.2.3-beta.2', '^1.2.3-beta.1')).toBe(true);
+    expect(CargoRequirement.matches('1.3.0-beta.1', '^1.2.3-beta.1')).toBe(false);
+    expect(CargoRequirement.matches('1.3.0-beta.1', '1.2')).toBe(false);
+  });
+
+  test('rejects what Cargo rejects', () => {
+    expect(() => CargoRequirement.parse('>=1.2 <1.5')).toThrow('Invalid Cargo version requirement');
+    expect(() => CargoRequirement.parse('*, <2')).toThrow('* must be the only comparator');
+    expect(() => CargoRequirement.parse('v1.2.3')).toThrow('Invalid Cargo version requirement');
+  });
+
+  test('ranges feed compatibility checks', () => {
+    const scheme = getVersionScheme('cargo');
+    const compare = (a: string, b: string): number => scheme.compare(a, b);
+    const range = scheme.parseConstraint('0.3');
+    expect(RangeUtils.contains(range, '0.3.7', compare)).toBe(true);
+    expect(RangeUtils.contains(range, '0.4.0-alpha.1', compare)).toBe(false);
+  });
+});
+
+describe('CargoLockParser', () => {
+  test('pins each dependency to the version it was locked against', () => {
+    const result = CargoLockParser.parseContent([
+      'version = 3', '',
+      '[[package]]', 'name = "app"', 'version = "0.1.0"',
+      'dependencies = [', ' "rand 0.8.5",', ' "syn",', ']', '',
+      '[[package]]', 'name = "rand"', 'version = "0.7.3"', '',
+      '[[package]]', 'name = "rand"', 'version = "0.8.5"',
+      'source = "registry+https://github.com/rust-lang/crates.io-index"', '',
+      '[[package]]', 'name = "syn"', 'version = "2.0.39"'
+    ].join('\n'));
+
+    expect(result.dependencies.map(d => [d.name, d.version, d.requires])).toEqual([
+      ['app', '0.1.0', [{ name: 'rand', constraint: '=0.8.5' }, { name: 'syn', constraint: '=2.0.39' }]],
+      ['rand', '0.7.3', undefined],
+      ['rand', '0.8.5', undefined],
+      ['syn', '2.0.39', undefined]
+    ]);
+  });
+});
+
+describe('Cargo requirements in get_dependencies', () => {
+  let projectPath: string;
+
+  beforeEach(async () => {
+    projectPath = await mkdtemp(path.join(os.tmpdir(), 'depfinder-cargo-'));
+  });
+
+  afterEach(async () => {
+    await rm(projectPath, { recursive: true, force: true });
+  });
+
+  test('spells out requirements and warns about locked versions they exclude', async () => {
+    await writeFile(path.join(projectPath, 'Cargo.toml'), [
+      '[package]',
+      'name = "app"',
+      '',
+      '[dependencies]',
+      'rand = "0.8"',
+      'syn = { version = ">=1.0, <1.5" }',
+      'tiny = "0.0.3"'
+    ].join('\n'));
+    await writeFile(path.join(projectPath, 'Cargo.lock'), [
+      '[[package]]', 'name = "rand"', 'version = "0.7.3"', '',
+      '[[package]]', 'name = "rand"', 'version = "0.8.5"', '',
+      '[[package]]', 'name = "syn"', 'version = "1.5.0"', '',
+      '[[package]]', 'name = "tiny"', 'version = "0.0.3"'
+    ].join('\n'));
+
+    const result = await new RustExtractor().extract(projectPath);
+    const deps = result.groups[0].dependencies;
+    expect(deps.filter(d => d.name === 'rand').map(d => [d.version, d.versionConstraint])).toEqual([
+      ['0.7.3', '0.7.3'],
+      ['0.8.5', '>=0.8.0, <0.9.0']
+    ]);
+    expect(deps.find(d => d.name === 'tiny')?.versionConstraint).toBe('=0.0.3');
+    expect(result.warnings).toEqual(['Cargo.lock has syn 1.5.0, which does not satisfy ">=1.0.0, <1.5.0" in Cargo.toml']);
+  });
+});
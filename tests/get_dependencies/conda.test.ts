@@ -0,0 +1,227 @@
+import * as os from 'os';
+import * as path from 'path';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { Yaml, YamlError } from '../../mcp/utils/yaml';
+import { CondaParser } from '../../mcp/tools/get_dependencies/parsers/condaParser';
+import { PythonExtractor } from '../../mcp/tools/get_dependencies/extractors/python';
+
+describe('Yaml.parse', () => {
+  test('reads block collections, compact items and scalars', () => {
+    const doc = Yaml.parse([
+      '# comment',
+      '---',
+      'name: demo  # trailing comment',
+      'version: 1.10',
+      'enabled: true',
+      'empty:',
+      'list:',
+      '- a',
+      '- "b # not a comment"',
+      "- 'it''s'",
+      'items:',
+      '  - name: x',
+      '    tags: [one, "two", {k: v}]',
+      '  - - nested',
+      '"quoted key": {integrity: sha512-abc==, tarball: https://example.com/x.tgz}',
+      'text: |',
+      '  line one',
+      '  # kept',
+      '',
+      'folded: >-',
+      '  a',
+      '  b',
+      'plain: one',
+      '  two',
+      '---',
+      'ignored: document'
+    ].join('\n'));
+
+    expect(doc).toEqual({
+      name: 'demo',
+      version: '1.10',
+      enabled: true,
+      empty: null,
+      list: ['a', 'b # not a comment', "it's"],
+      items: [{ name: 'x', tags: ['one', 'two', { k: 'v' }] }, ['nested']],
+      'quoted key': { integrity: 'sha512-abc==', tarball: 'https://example.com/x.tgz' },
+      text: 'line one\n# kept\n',
+      folded: 'a b',
+      plain: 'one two'
+    });
+  });
+
+  test('reports errors with their position', () => {
+    expect(() => Yaml.parse('a: 1\n  b: 2')).toThrow(YamlError);
+    expect(() => Yaml.parse('a: [1, 2')).toThrow('Unterminated flow collection at line 1, column 1');
+    expect(() => Yaml.parse('base: &base\n  a: 1')).toThrow('Anchors and aliases are not supported at line 1');
+    expect(() => Yaml.parse('a:\n\tb: 2')).toThrow('Tabs are not allowed in indentation at line 2, column 1');
+  });
+});
+
+describe('CondaParser', () => {
+  test('reads channels, match specs and the pip subsection of environment.yml', () => {
+    const result = CondaParser.parseEnvironment([
+      'name: science',
+      'channels:',
+      '  - conda-forge',
+      '  - defaults',
+      'dependencies:',
+      '  - python=3.11',
+      '  - numpy=1.26.4=py311h64a7726_0',
+      '  - matplotlib=3.8',
+      '  - scipy >= 1.11, <2',
+      '  - cudatoolkit 11.8',
+      '  - libblas 3.9.0 20_linux64_openblas',
+      '  - tqdm *',
+      '  - bioconda::samtools==1.19',
+      '  - pandas[version=\'>=2.1\',build=py311*]',
+      '  - pip',
+      '  - pip:',
+      '    - requests==2.31.0',
+      '    - -e ./src'
+    ].join('\n'));
+
+    expect(result.python).toBe('==3.11.*');
+    expect(result.dependencies.map(d => [d.name, d.versionConstraint, d.version, d.build, d.sourceUrl, d.group])).toEqual([
+      ['numpy', '==1.26.4', '1.26.4', 'py311h64a7726_0', 'conda-forge', 'conda'],
+      ['matplotlib', '==3.8.*', undefined, undefined, 'conda-forge', 'conda'],
+      ['scipy', '>=1.11,<2', undefined, undefined, 'conda-forge', 'conda'],
+      ['cudatoolkit', '==11.8.*', undefined, undefined, 'conda-forge', 'conda'],
+      ['libblas', '==3.9.0', '3.9.0', '20_linux64_openblas', 'conda-forge', 'conda'],
+      ['tqdm', undefined, undefined, undefined, 'conda-forge', 'conda'],
+      ['samtools', '==1.19', '1.19', undefined, 'bioconda', 'conda'],
+      ['pandas', '>=2.1', undefined, 'py311*', 'conda-forge', 'conda'],
+      ['pip', undefined, undefined, undefined, 'conda-forge', 'conda'],
+      ['requests', '==2.31.0', '2.31.0', undefined, undefined, 'pip'],
+      ['src', undefined, undefined, undefined, './src', 'pip']
+    ]);
+  });
+
+  test('reads conda-lock.yml once per package file', () => {
+    const lock = [
+      'version: 1',
+      'metadata:',
+      '  channels:',
+      '  - url: conda-forge',
+      '    used_env_vars: []',
+      '  platforms:',
+      '  - linux-64',
+      '  - osx-arm64',
+      'package:',
+      '- name: numpy',
+      '  version: 1.26.4',
+      '  manager: conda',
+      '  platform: linux-64',
+      '  dependencies:',
+      "    libblas: '>=3.9.0,<4.0a0'",
+      '  url: https://conda.anaconda.org/conda-forge/linux-64/numpy-1.26.4-py311h64a7726_0.conda',
+      '  hash:',
+      '    md5: a502d7aad449a1206efb366d6a12c52d',
+      '    sha256: 3f4365e11b28e244c95ba8579942b0802761ba7bb31c026f50d1a9ea9c728149',
+      '  category: main',
+      '  optional: false',
+      '- name: tzdata',
+      '  version: 2024a',
+      '  manager: conda',
+      '  platform: linux-64',
+      '  url: https://conda.anaconda.org/conda-forge/noarch/tzdata-2024a-h0c530f3_0.conda',
+      '  category: main',
+      '- name: tzdata',
+      '  version: 2024a',
+      '  manager: conda',
+      '  platform: osx-arm64',
+      '  url: https://conda.anaconda.org/conda-forge/noarch/tzdata-2024a-h0c530f3_0.conda',
+      '  category: main',
+      '- name: pytest',
+      '  version: 8.1.1',
+      '  manager: pip',
+      '  platform: linux-64',
+      '  url: https://files.pythonhosted.org/packages/pytest-8.1.1-py3-none-any.whl',
+      '  hash:',
+      '    sha256: 2a8386cfc11fa9d2c50ee7b2a57e7d898ef90470a7a34c4b949ff59662bb78b7',
+      '  category: dev',
+      '  optional: true'
+    ].join('\n');
+
+    const result = CondaParser.parseLock(lock);
+
+    expect(result.dependencies.map(d => [d.name, d.version, d.build, d.sourceUrl])).toEqual([
+      ['numpy', '1.26.4', 'py311h64a7726_0', 'https://conda.anaconda.org/conda-forge'],
+      ['tzdata', '2024a', 'h0c530f3_0', 'https://conda.anaconda.org/conda-forge']
+    ]);
+    expect(result.dependencies[0].hashes).toBeUndefined();
+    expect(result.dependencies[0].condaHashes).toEqual([
+      'md5:a502d7aad449a1206efb366d6a12c52d',
+      'sha256:3f4365e11b28e244c95ba8579942b0802761ba7bb31c026f50d1a9ea9c728149'
+    ]);
+    expect(result.devDependencies).toEqual([expect.objectContaining({
+      name: 'pytest', type: 'development', group: 'pip', sourceUrl: 'https://files.pythonhosted.org/packages/pytest-8.1.1-py3-none-any.whl',
+      hashes: ['sha256:2a8386cfc11fa9d2c50ee7b2a57e7d898ef90470a7a34c4b949ff59662bb78b7']
+    })]);
+  });
+
+  test('reads @EXPLICIT files', () => {
+    const deps = CondaParser.parseExplicit([
+      '# platform: linux-64',
+      '@EXPLICIT',
+      'https://conda.anaconda.org/conda-forge/linux-64/ca-certificates-2024.2.2-hbcca054_0.conda#2f4327a1cbe7f022401b236e915a5fef',
+      'https://repo.anaconda.com/pkgs/main/linux-64/python-dateutil-2.8.2-pyhd3eb1b0_0.tar.bz2'
+    ].join('\n'));
+
+    expect(deps.map(d => [d.name, d.version, d.build, d.sourceUrl, d.condaHashes])).toEqual([
+      ['ca-certificates', '2024.2.2', 'hbcca054_0', 'https://conda.anaconda.org/conda-forge', ['md5:2f4327a1cbe7f022401b236e915a5fef']],
+      ['python-dateutil', '2.8.2', 'pyhd3eb1b0_0', 'https://repo.anaconda.com/pkgs/main', undefined]
+    ]);
+  });
+});
+
+describe('Conda projects in get_dependencies', () => {
+  let projectPath: string;
+
+  beforeEach(async () => {
+    projectPath = await mkdtemp(path.join(os.tmpdir(), 'depfinder-conda-'));
+  });
+
+  afterEach(async () => {
+    await rm(projectPath, { recursive: true, force: true });
+  });
+
+  test('pins environment.yml packages from an explicit lock file', async () => {
+    await writeFile(path.join(projectPath, 'environment.yml'), [
+      'channels: [conda-forge]',
+      'dependencies:',
+      '  - python>=3.10',
+      '  - numpy'
+    ].join('\n'));
+    await writeFile(path.join(projectPath, 'conda-linux-64.lock'), [
+      '@EXPLICIT',
+      'https://conda.anaconda.org/conda-forge/linux-64/numpy-1.26.4-py311h64a7726_0.conda'
+    ].join('\n'));
+
+    const group = (await new PythonExtractor().extract(projectPath)).groups[0];
+
+    expect(group.runtime).toMatchObject({ name: 'python', versionConstraint: '>=3.10', sourceFile: 'environment.yml' });
+    expect(group.dependencies).toEqual([expect.objectContaining({
+      name: 'numpy', version: '1.26.4', build: 'py311h64a7726_0', sourceFile: 'conda-linux-64.lock'
+    })]);
+    expect(group.lockFile).toEqual({ path: 'conda-linux-64.lock', format: 'conda-explicit', exists: true });
+  });
+
+  test('follows requirements files included from the pip subsection', async () => {
+    await writeFile(path.join(projectPath, 'environment.yml'), [
+      'dependencies:',
+      '  - pip',
+      '  - pip:',
+      '    - -r requirements.txt',
+      '    - -r missing.txt'
+    ].join('\n'));
+    await writeFile(path.join(projectPath, 'requirements.txt'), 'requests==2.31.0\n');
+
+    const result = await new PythonExtractor().extract(projectPath);
+
+    expect(result.groups[0].dependencies).toContainEqual(expect.objectContaining({
+      name: 'requests', version: '2.31.0', group: 'pip', sourceFile: 'environment.yml'
+    }));
+    expect(result.warnings).toContain('environment.yml: Cannot read missing.txt (included from environment.yml)');
+  });
+});
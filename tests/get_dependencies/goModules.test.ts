@@ -0,0 +1,207 @@
+import * as os from 'os';
+import * as path from 'path';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { GoVersion } from '../../mcp/utils/versioning/goVersion';
+import { GoExtractor } from '../../mcp/tools/get_dependencies/extractors/go';
+import { GomodParser } from '../../mcp/tools/get_dependencies/parsers/gomodParser';
+import { GoModuleResolver } from '../../mcp/tools/get_dependencies/utils/goModuleResolver';
+
+const mod = (lines: string[]): string => lines.join('\n');
+
+describe('GoVersion', () => {
+  test('orders pseudo-versions before the next tag and ignores +incompatible', () => {
+    const ordered = [
+      'v0.0.0-20200101000000-aaaaaaaaaaaa',
+      'v0.0.0-20210101000000-bbbbbbbbbbbb',
+      'v1.2.3',
+      'v1.2.4-0.20220101000000-cccccccccccc',
+      'v1.2.4'
+    ];
+    expect([...ordered].reverse().sort((a, b) => GoVersion.compare(a, b))).toEqual(ordered);
+    expect(GoVersion.compare('v2.0.0+incompatible', 'v2.0.0')).toBe(0);
+    expect(GoVersion.isValid('1.2.3')).toBe(false);
+    expect(GoVersion.isValid('v1.2.3+meta')).toBe(false);
+  });
+
+  test('splits pseudo-versions', () => {
+    expect(GoVersion.pseudo('v0.0.0-20210101123045-abcdef123456')).toEqual({
+      timestamp: '20210101123045',
+      time: '2021-01-01T12:30:45Z',
+      revision: 'abcdef123456'
+    });
+    expect(GoVersion.pseudo('v1.2.4-0.20220101000000-cccccccccccc')?.base).toBe('v1.2.3');
+    expect(GoVersion.pseudo('v1.3.0-rc.1.0.20220101000000-cccccccccccc')?.base).toBe('v1.3.0-rc.1');
+    expect(GoVersion.pseudo('v1.2.3')).toBeNull();
+  });
+
+  test('checks versions against major version suffixes', () => {
+    expect(GoVersion.checkPathMajor('github.com/a/b/v2', 'v2.1.0')).toBeNull();
+    expect(GoVersion.checkPathMajor('github.com/a/b', 'v2.1.0+incompatible')).toBeNull();
+    expect(GoVersion.checkPathMajor('gopkg.in/yaml.v3', 'v3.0.1')).toBeNull();
+    expect(GoVersion.checkPathMajor('github.com/a/b', 'v2.1.0')).toBe('v2.1.0 needs +incompatible or a /v2 suffix on github.com/a/b');
+    expect(GoVersion.checkPathMajor('github.com/a/b/v3', 'v2.1.0')).toBe('v2.1.0 does not match the v3 suffix of github.com/a/b/v3');
+  });
+});
+
+describe('GomodParser', () => {
+  test('keeps pseudo-versions and +incompatible whole', () => {
+    const deps = GomodParser.parseContent(mod([
+      'module example.com/app',
+      '',
+      'require (',
+      '\tgolang.org/x/sync v0.0.0-20210101000000-abcdef123456 // indirect',
+      '\tgithub.com/docker/docker v20.10.7+incompatible',
+      ')',
+      'replace github.com/docker/docker v20.10.7+incompatible => ../docker'
+    ]));
+
+    expect(deps.map(d => [d.name, d.version, d.source])).toEqual([
+      ['golang.org/x/sync', 'v0.0.0-20210101000000-abcdef123456', 'registry'],
+      ['../docker', undefined, 'path']
+    ]);
+  });
+
+  test('reads replace and exclude blocks', () => {
+    const modFile = GomodParser.parseModFile(mod([
+      'module "example.com/app"',
+      'go 1.21',
+      'require example.com/a v1.0.0',
+      'exclude (',
+      '  example.com/b v1.1.0',
+      ')',
+      'replace (',
+      '  example.com/a => example.com/fork v1.0.1',
+      ')'
+    ]));
+
+    expect(modFile).toEqual({
+      module: 'example.com/app',
+      go: '1.21',
+      require: [{ path: 'example.com/a', version: 'v1.0.0', indirect: false }],
+      exclude: [{ path: 'example.com/b', version: 'v1.1.0' }],
+      replace: [{ old: { path: 'example.com/a' }, new: { path: 'example.com/fork', version: 'v1.0.1' } }]
+    });
+  });
+});
+
+describe('GoModuleResolver', () => {
+  test('selects the highest required version of each module', () => {
+    const buildList = GoModuleResolver.resolve(mod([
+      'module example.com/app',
+      'go 1.16',
+      'require (',
+      '  example.com/a v1.1.0',
+      '  example.com/b v1.2.0',
+      ')'
+    ]), {
+      'example.com/a@v1.1.0': mod(['module example.com/a', 'require example.com/c v1.3.0']),
+      'example.com/b@v1.2.0': mod(['module example.com/b', 'require example.com/c v1.4.0']),
+      'example.com/c@v1.3.0': mod(['module example.com/c', 'require example.com/d v0.0.0-20210101000000-abcdef123456']),
+      'example.com/c@v1.4.0': mod(['module example.com/c']),
+      'example.com/d@v0.0.0-20210101000000-abcdef123456': mod(['module example.com/d'])
+    });
+
+    expect(buildList).toEqual({
+      main: 'example.com/app',
+      modules: [
+        { path: 'example.com/a', version: 'v1.1.0' },
+        { path: 'example.com/b', version: 'v1.2.0' },
+        { path: 'example.com/c', version: 'v1.4.0' },
+        { path: 'example.com/d', version: 'v0.0.0-20210101000000-abcdef123456' }
+      ],
+      missing: []
+    });
+  });
+
+  test('applies main module exclusions and replacements', () => {
+    const buildList = GoModuleResolver.resolve(mod([
+      'module example.com/app',
+      'require example.com/a v1.0.0',
+      'require example.com/b v1.0.0',
+      'exclude example.com/b v1.0.0',
+      'replace example.com/a => ../a'
+    ]), {
+      '../a': mod(['module example.com/a', 'require example.com/c v1.0.0']),
+      'example.com/b@v1.0.1': mod(['module example.com/b']),
+      'example.com/c@v1.0.0': mod(['module example.com/c'])
+    });
+
+    expect(buildList.modules).toEqual([
+      { path: 'example.com/a', version: 'v1.0.0', replace: { path: '../a' } },
+      { path: 'example.com/b', version: 'v1.0.1' },
+      { path: 'example.com/c', version: 'v1.0.0' }
+    ]);
+  });
+
+  test('does not read go.mod files past a pruned dependency', () => {
+    const buildList = GoModuleResolver.resolve(mod([
+      'module example.com/app',
+      'go 1.21',
+      'require example.com/a v1.0.0'
+    ]), {
+      'example.com/a@v1.0.0': mod(['module example.com/a', 'go 1.20', 'require example.com/b v1.0.0'])
+    });
+
+    expect(buildList.modules.map(m => `${m.path}@${m.version}`)).toEqual(['example.com/a@v1.0.0', 'example.com/b@v1.0.0']);
+    expect(buildList.missing).toEqual([]);
+  });
+
+  test('reports go.mod files it needed but was not given', () => {
+    const buildList = GoModuleResolver.resolve(mod(['module example.com/app', 'require example.com/a v1.0.0']), {});
+    expect(buildList.missing).toEqual(['example.com/a@v1.0.0']);
+  });
+});
+
+describe('GoExtractor', () => {
+  let projectPath: string;
+  const moduleCache = process.env.GOMODCACHE;
+
+  beforeEach(async () => {
+    projectPath = await mkdtemp(path.join(os.tmpdir(), 'depfinder-go-'));
+    process.env.GOMODCACHE = path.join(projectPath, 'modcache');
+  });
+
+  afterEach(async () => {
+    await rm(projectPath, { recursive: true, force: true });
+    if (moduleCache === undefined) delete process.env.GOMODCACHE;
+    else process.env.GOMODCACHE = moduleCache;
+  });
+
+  test('warns about versions that do not fit the module path', async () => {
+    await writeFile(path.join(projectPath, 'go.mod'), mod([
+      'module example.com/app',
+      'require github.com/a/b v2.1.0',
+      'require github.com/a/c/v2 v2.0.0'
+    ]));
+
+    const result = await new GoExtractor().extract(projectPath);
+    expect(result.warnings).toEqual(['github.com/a/b: v2.1.0 needs +incompatible or a /v2 suffix on github.com/a/b']);
+  });
+
+  test('reports the versions minimal version selection picks from the module cache', async () => {
+    const versions = path.join(projectPath, 'modcache', 'cache', 'download', 'example.com', '!a', '@v');
+    await mkdir(versions, { recursive: true });
+    await writeFile(path.join(versions, 'v1.0.0.mod'), mod([
+      'module example.com/A',
+      'require (',
+      '\texample.com/b v1.2.0',
+      '\texample.com/c v1.0.0',
+      ')'
+    ]));
+    await writeFile(path.join(projectPath, 'go.mod'), mod([
+      'module example.com/app',
+      'go 1.16',
+      'require example.com/A v1.0.0',
+      'require example.com/b v1.1.0'
+    ]));
+
+    const result = await new GoExtractor().extract(projectPath);
+    const dependencies = result.groups[0].dependencies;
+    expect(dependencies.map(d => [d.name, d.version, d.versionConstraint, d.direct])).toEqual([
+      ['example.com/A', 'v1.0.0', 'v1.0.0', undefined],
+      ['example.com/b', 'v1.2.0', 'v1.1.0', undefined],
+      ['example.com/c', 'v1.0.0', 'v1.0.0', false]
+    ]);
+    expect(result.warnings).toEqual(['go.mod requires example.com/b v1.1.0, but the build list selects v1.2.0']);
+  });
+});
@@ -0,0 +1,92 @@
+import * as os from 'os';
+import * as path from 'path';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { MavenVersion } from '../../mcp/utils/versioning/mavenVersion';
+import { JavaExtractor } from '../../mcp/tools/get_dependencies/extractors/java';
+import { PomParser } from '../../mcp/tools/get_dependencies/parsers/pomParser';
+
+describe('MavenVersion ordering', () => {
+  test('orders qualifiers alpha < beta < milestone < rc < snapshot < release < sp', () => {
+    const ordered = ['1.0-alpha-1', '1.0-beta-2', '1.0-M3', '1.0-RC1', '1.0-SNAPSHOT', '1.0', '1.0-sp1', '1.0-xyz', '1.0.1'];
+    expect([...ordered].reverse().sort((a, b) => MavenVersion.compare(a, b))).toEqual(ordered);
+  });
+
+  test('treats release aliases, abbreviations and trailing zeros as equal', () => {
+    expect(MavenVersion.compare('1.0.0', '1')).toBe(0);
+    expect(MavenVersion.compare('1.0-GA', '1.0-final')).toBe(0);
+    expect(MavenVersion.compare('1.0a1', '1.0-alpha-1')).toBe(0);
+    expect(MavenVersion.compare('1.0-cr1', '1.0-rc-1')).toBe(0);
+    expect(MavenVersion.canonical('1.0-RC1')).toBe('1-rc-1');
+  });
+
+  test('numbers rank above qualifiers and compare numerically', () => {
+    expect(MavenVersion.compare('1.10', '1.9')).toBeGreaterThan(0);
+    expect(MavenVersion.compare('1-1', '1-sp')).toBeGreaterThan(0);
+    expect(MavenVersion.compare('32.1.3-jre', '32.1.3-android')).toBeGreaterThan(0);
+    expect(MavenVersion.isPrerelease('2.0-M1')).toBe(true);
+    expect(MavenVersion.isPrerelease('32.1.3-jre')).toBe(false);
+  });
+});
+
+describe('MavenVersion ranges', () => {
+  test('hard ranges', () => {
+    expect(MavenVersion.contains('[1.0,2.0)', '1.9.9')).toBe(true);
+    expect(MavenVersion.contains('[1.0,2.0)', '2.0')).toBe(false);
+    expect(MavenVersion.contains('(,1.5]', '1.5.0')).toBe(true);
+    expect(MavenVersion.contains('(,1.0],[1.2,)', '1.1')).toBe(false);
+    expect(MavenVersion.contains('[1.5]', '1.5.0')).toBe(true);
+  });
+
+  test('soft requirements and exact versions', () => {
+    expect(MavenVersion.contains('1.5', '1.6')).toBe(false);
+    expect(MavenVersion.exactVersion('1.5')).toBe('1.5');
+    expect(MavenVersion.exactVersion('[1.5]')).toBe('1.5');
+    expect(MavenVersion.exactVersion('[1.0,2.0)')).toBeNull();
+    expect(MavenVersion.exactVersion('${guava.version}')).toBeNull();
+  });
+
+  test('rejects malformed ranges', () => {
+    expect(() => MavenVersion.parseSpec('[2.0,1.0]')).toThrow('defies version ordering');
+    expect(() => MavenVersion.parseSpec('(1.5)')).toThrow('a single version needs [ ]');
+    expect(() => MavenVersion.parseSpec('[1.0,2.0],[1.5,)')).toThrow('overlap');
+  });
+});
+
+describe('Maven versions in get_dependencies', () => {
+  let projectPath: string;
+
+  beforeEach(async () => {
+    projectPath = await mkdtemp(path.join(os.tmpdir(), 'depfinder-maven-'));
+  });
+
+  afterEach(async () => {
+    await rm(projectPath, { recursive: true, force: true });
+  });
+
+  test('PomParser keeps ranges as constraints instead of pins', () => {
+    const deps = PomParser.parseContent([
+      '<project><dependencies>',
+      '  <dependency><groupId>org.slf4j</groupId><artifactId>slf4j-api</artifactId><version>[1.7,2.0)</version></dependency>',
+      '  <dependency><groupId>junit</groupId><artifactId>junit</artifactId><version>4.13.2</version></dependency>',
+      '</dependencies></project>'
+    ].join('\n'));
+
+    expect(deps.map(d => [d.name, d.versionConstraint, d.version])).toEqual([
+      ['org.slf4j:slf4j-api', '[1.7,2.0)', undefined],
+      ['junit:junit', '4.13.2', '4.13.2']
+    ]);
+  });
+
+  test('JavaExtractor warns about malformed ranges', async () => {
+    await writeFile(path.join(projectPath, 'build.gradle'), [
+      'dependencies {',
+      "    implementation 'com.google.guava:guava:[33.0,32.0]'",
+      "    implementation 'org.apache.commons:commons-lang3:3.+'",
+      '}'
+    ].join('\n'));
+
+    const result = await new JavaExtractor().extract(projectPath);
+    expect(result.warnings).toEqual(['com.google.guava:guava: Maven version range defies version ordering: [33.0,32.0]']);
+    expect(result.groups[0].dependencies[1]).toMatchObject({ versionConstraint: '3.+', version: undefined });
+  });
+});
@@ -0,0 +1,118 @@
+import * as os from 'os';
+import * as path from 'path';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { NpmRange } from '../../mcp/utils/versioning/npmRange';
+import { NodeJSExtractor } from '../../mcp/tools/get_dependencies/extractors/nodejs';
+import { PackageJsonParser } from '../../mcp/tools/get_dependencies/parsers/packageJsonParser';
+import { getVersionScheme } from '../../mcp/utils/versioning/schemeRegistry';
+
+describe('NpmRange.satisfies', () => {
+  test('hyphen ranges', () => {
+    expect(NpmRange.satisfies('2.3.4', '1.2.3 - 2.3.4')).toBe(true);
+    expect(NpmRange.satisfies('2.3.5', '1.2.3 - 2.3.4')).toBe(false);
+    expect(NpmRange.satisfies('2.3.9', '1.2.3 - 2.3')).toBe(true);
+    expect(NpmRange.satisfies('2.4.0', '1.2.3 - 2.3')).toBe(false);
+    expect(NpmRange.satisfies('1.2.0', '1.2 - 2')).toBe(true);
+  });
+
+  test('x-ranges and unions', () => {
+    expect(NpmRange.satisfies('1.9.9', '1.x')).toBe(true);
+    expect(NpmRange.satisfies('1.3.0', '1.2.*')).toBe(false);
+    expect(NpmRange.satisfies('0.0.1', '*')).toBe(true);
+    expect(NpmRange.satisfies('3.4.0', '>= 1.0.0 < 2 || 3.x')).toBe(true);
+    expect(NpmRange.satisfies('2.0.0', '^1.0.0 || ^3.0.0')).toBe(false);
+    expect(NpmRange.satisfies('1.3.0', '>1.2')).toBe(true);
+    expect(NpmRange.satisfies('1.2.9', '>1.2')).toBe(false);
+    expect(NpmRange.satisfies('1.2.9', '<=1.2')).toBe(true);
+  });
+
+  test('caret ranges below 1.0.0', () => {
+    expect(NpmRange.satisfies('0.2.9', '^0.2.3')).toBe(true);
+    expect(NpmRange.satisfies('0.3.0', '^0.2.3')).toBe(false);
+    expect(NpmRange.satisfies('0.0.4', '^0.0.3')).toBe(false);
+    expect(NpmRange.satisfies('0.0.9', '^0.0')).toBe(true);
+    expect(NpmRange.satisfies('0.9.0', '^0.x')).toBe(true);
+    expect(NpmRange.satisfies('1.0.0', '^0.x')).toBe(false);
+  });
+
+  test('prereleases only match a comparator on the same version', () => {
+    expect(NpmRange.satisfies('1.2.3-beta.4', '^1.2.3-beta.2')).toBe(true);
+    expect(NpmRange.satisfies('1.3.0-beta.1', '^1.2.3-beta.2')).toBe(false);
+    expect(NpmRange.satisfies('1.3.0-beta.1', '^1.2.3')).toBe(false);
+    expect(NpmRange.satisfies('1.3.0-beta.1', '^1.2.3', true)).toBe(true);
+    expect(NpmRange.satisfies('2.0.0-rc.1', '<2.0.0', true)).toBe(true);
+    expect(NpmRange.satisfies('2.0.0-rc.1', '^1.0.0', true)).toBe(false);
+  });
+
+  test('dist-tags', () => {
+    expect(NpmRange.isDistTag('next')).toBe(true);
+    expect(NpmRange.isDistTag('x')).toBe(false);
+    expect(NpmRange.satisfies('5.0.0', 'latest')).toBe(true);
+    expect(() => NpmRange.satisfies('5.0.0', 'next')).toThrow('dist-tag "next"');
+    expect(() => NpmRange.parse('^1.2.3.4')).toThrow('Invalid npm version range');
+  });
+});
+
+describe('NpmRange.intersect', () => {
+  test('narrows to the common versions', () => {
+    expect(NpmRange.intersect('^1.2.0', '>=1.5.0')).toBe('>=1.5.0 <2.0.0-0');
+    expect(NpmRange.intersect('^1.0.0 || ^2.0.0', '>=1.8.0 <2.1.0')).toBe('>=1.8.0 <2.0.0-0 || >=2.0.0 <2.1.0');
+    expect(NpmRange.intersect('1.2.3 - 1.4', '<=1.2.3')).toBe('1.2.3');
+    expect(NpmRange.intersect('*', '~1.2')).toBe('>=1.2.0 <1.3.0-0');
+  });
+
+  test('returns null for disjoint ranges', () => {
+    expect(NpmRange.intersect('^1.2.0', '^2.0.0')).toBeNull();
+    expect(NpmRange.intersects('1.2.3', '>1.2.3')).toBe(false);
+    expect(NpmRange.intersects('~1.2', '1.2.7')).toBe(true);
+  });
+});
+
+describe('npm ranges in get_dependencies', () => {
+  let projectPath: string;
+
+  beforeEach(async () => {
+    projectPath = await mkdtemp(path.join(os.tmpdir(), 'depfinder-npm-range-'));
+  });
+
+  afterEach(async () => {
+    await rm(projectPath, { recursive: true, force: true });
+  });
+
+  test('npm scheme reads hyphen and x-ranges as ranges', () => {
+    const scheme = getVersionScheme('javascript');
+    expect(scheme.satisfies('2.3.4', '1.2.3 - 2.3.4')).toBe(true);
+    expect(scheme.maxSatisfying(['1.0.0', '1.9.1', '2.0.0'], '1.x')).toBe('1.9.1');
+    expect(scheme.intersect('1.x', '>=2.0.0')).toEqual([]);
+  });
+
+  test('PackageJsonParser pins exact versions and keeps dist-tags', async () => {
+    const manifest = path.join(projectPath, 'package.json');
+    await writeFile(manifest, JSON.stringify({ dependencies: { lodash: '=4.17.21', react: 'next', express: '4.x' } }));
+
+    const { dependencies } = await PackageJsonParser.parse(manifest);
+    expect(dependencies.map(d => [d.name, d.versionConstraint, d.version])).toEqual([
+      ['lodash', '=4.17.21', '4.17.21'],
+      ['react', 'next', undefined],
+      ['express', '4.x', undefined]
+    ]);
+  });
+
+  test('warns when the lockfile no longer satisfies package.json', async () => {
+    await writeFile(path.join(projectPath, 'package.json'), JSON.stringify({
+      dependencies: { express: '^4.18.0', debug: '2.6.9 - 3' }
+    }));
+    await writeFile(path.join(projectPath, 'package-lock.json'), JSON.stringify({
+      lockfileVersion: 3,
+      packages: {
+        '': { name: 'app' },
+        'node_modules/express': { version: '4.17.1' },
+        'node_modules/debug': { version: '3.2.7' }
+      }
+    }));
+
+    const result = await new NodeJSExtractor().extract(projectPath);
+    expect(result.warnings).toEqual(['package-lock.json has express@4.17.1, which does not satisfy "^4.18.0" in package.json']);
+    expect(result.groups[0].dependencies.find(d => d.name === 'debug')?.versionConstraint).toBe('3.2.7');
+  });
+});
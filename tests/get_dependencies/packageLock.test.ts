@@ -0,0 +1,129 @@
+import * as os from 'os';
+import * as path from 'path';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { PackageLockParser } from '../../mcp/tools/get_dependencies/parsers/packageLockParser';
+import { NodeJSExtractor } from '../../mcp/tools/get_dependencies/extractors/nodejs';
+
+const lockV3 = {
+  name: 'app',
+  lockfileVersion: 3,
+  packages: {
+    '': {
+      name: 'app',
+      workspaces: ['packages/*'],
+      dependencies: { '@babel/core': '^7.24.0', utils: '*' },
+      devDependencies: { jest: '^29.0.0' },
+      optionalDependencies: { fsevents: '^2.3.0' }
+    },
+    'node_modules/@babel/core': {
+      version: '7.24.0',
+      resolved: 'https://registry.npmjs.org/@babel/core/-/core-7.24.0.tgz',
+      integrity: 'sha512-core=='
+    },
+    'node_modules/@babel/core/node_modules/semver': {
+      version: '6.3.1',
+      resolved: 'https://registry.npmjs.org/semver/-/semver-6.3.1.tgz',
+      integrity: 'sha512-six=='
+    },
+    'node_modules/semver': {
+      version: '7.6.0',
+      resolved: 'https://registry.npmjs.org/semver/-/semver-7.6.0.tgz'
+    },
+    'node_modules/jest': { version: '29.7.0', dev: true },
+    'node_modules/fsevents': { version: '2.3.3', optional: true },
+    'node_modules/chokidar-shim': { version: '1.0.0', devOptional: true },
+    'node_modules/react': { version: '18.2.0', peer: true },
+    'node_modules/utils': { resolved: 'packages/utils', link: true },
+    'packages/utils': { name: '@app/utils', version: '0.1.0', dependencies: { lodash: '^4.17.0' } },
+    'packages/utils/node_modules/lodash': {
+      version: '4.17.21',
+      resolved: 'git+ssh://git@github.com/lodash/lodash.git#abc123'
+    }
+  }
+};
+
+describe('PackageLockParser', () => {
+  test('reads v3 installs with their paths, flags and direct declarations', () => {
+    const result = PackageLockParser.parseContent(lockV3);
+
+    expect(result.dependencies.map(d => [d.name, d.version, d.installPath, d.direct])).toEqual([
+      ['core', '7.24.0', 'node_modules/@babel/core', true],
+      ['semver', '6.3.1', 'node_modules/@babel/core/node_modules/semver', false],
+      ['semver', '7.6.0', 'node_modules/semver', false],
+      ['utils', '0.1.0', 'node_modules/utils', true],
+      ['lodash', '4.17.21', 'packages/utils/node_modules/lodash', true]
+    ]);
+    expect(result.dependencies[0]).toMatchObject({
+      scope: 'babel',
+      source: 'registry',
+      sourceUrl: 'https://registry.npmjs.org/@babel/core/-/core-7.24.0.tgz',
+      hashes: ['sha512-core==']
+    });
+    expect(result.dependencies[3]).toMatchObject({ scope: 'app', source: 'local', sourceUrl: 'packages/utils' });
+    expect(result.dependencies[4].source).toBe('git');
+    expect(result.devDependencies.map(d => [d.name, d.type, d.direct])).toEqual([['jest', 'development', true]]);
+    expect(result.optionalDependencies.map(d => [d.name, d.type, d.direct])).toEqual([
+      ['fsevents', 'optional', true],
+      ['chokidar-shim', 'optional', false]
+    ]);
+    expect(result.peerDependencies.map(d => [d.name, d.type])).toEqual([['react', 'peer']]);
+  });
+
+  test('reads the nested v1 tree and takes direct declarations from the manifest', () => {
+    const result = PackageLockParser.parseContent({
+      lockfileVersion: 1,
+      dependencies: {
+        express: {
+          version: '4.18.2',
+          resolved: 'https://registry.npmjs.org/express/-/express-4.18.2.tgz',
+          integrity: 'sha512-express==',
+          requires: { debug: '2.6.9' },
+          dependencies: {
+            debug: { version: '2.6.9' }
+          }
+        },
+        debug: { version: '4.3.4' },
+        local: { version: 'file:../local' },
+        mocha: { version: '10.2.0', dev: true }
+      }
+    }, { dependencies: { express: '^4.18.0', local: 'file:../local' }, devDependencies: { mocha: '^10.0.0' } });
+
+    expect(result.dependencies.map(d => [d.name, d.version, d.installPath, d.direct])).toEqual([
+      ['express', '4.18.2', 'node_modules/express', true],
+      ['debug', '2.6.9', 'node_modules/express/node_modules/debug', false],
+      ['debug', '4.3.4', 'node_modules/debug', false],
+      ['local', undefined, 'node_modules/local', true]
+    ]);
+    expect(result.dependencies[3]).toMatchObject({ source: 'local', sourceUrl: '../local' });
+    expect(result.devDependencies.map(d => [d.name, d.direct])).toEqual([['mocha', true]]);
+  });
+});
+
+describe('package-lock.json in get_dependencies', () => {
+  let projectPath: string;
+
+  beforeEach(async () => {
+    projectPath = await mkdtemp(path.join(os.tmpdir(), 'depfinder-package-lock-'));
+  });
+
+  afterEach(async () => {
+    await rm(projectPath, { recursive: true, force: true });
+  });
+
+  test('checks declared ranges against the top-level install, not a nested copy', async () => {
+    await writeFile(path.join(projectPath, 'package.json'), JSON.stringify({ dependencies: { semver: '^7.0.0' } }));
+    await writeFile(path.join(projectPath, 'package-lock.json'), JSON.stringify({
+      lockfileVersion: 3,
+      packages: {
+        '': { dependencies: { semver: '^7.0.0' } },
+        'node_modules/make-dir/node_modules/semver': { version: '6.3.1' },
+        'node_modules/semver': { version: '7.6.0' }
+      }
+    }));
+
+    const result = await new NodeJSExtractor().extract(projectPath);
+
+    expect(result.warnings).toBeUndefined();
+    expect(result.groups[0].dependencies.filter(d => d.direct).map(d => d.installPath)).toEqual(['node_modules/semver']);
+  });
+});
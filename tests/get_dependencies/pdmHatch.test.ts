@@ -0,0 +1,154 @@
+import * as os from 'os';
+import * as path from 'path';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { PdmLockParser } from '../../mcp/tools/get_dependencies/parsers/pdmLockParser';
+import { PyprojectParser } from '../../mcp/tools/get_dependencies/parsers/pyprojectParser';
+import { PythonExtractor } from '../../mcp/tools/get_dependencies/extractors/python';
+
+const pdmLock = [
+  '[metadata]',
+  'groups = ["default", "test"]',
+  'lock_version = "4.4"',
+  '',
+  '[[package]]',
+  'name = "requests"',
+  'version = "2.31.0"',
+  'groups = ["default"]',
+  'files = [',
+  '    {file = "requests-2.31.0-py3-none-any.whl", hash = "sha256:aaa"},',
+  '    {file = "requests-2.31.0.tar.gz", hash = "sha256:bbb"},',
+  ']',
+  '',
+  '[[package]]',
+  'name = "pytest"',
+  'version = "8.1.1"',
+  'groups = ["test"]',
+  'marker = "python_version >= \\"3.8\\""',
+  '',
+  '[[package]]',
+  'name = "mylib"',
+  'version = "0.1.0"',
+  'git = "https://github.com/example/mylib.git"',
+  'groups = ["default", "test"]'
+].join('\n');
+
+describe('PdmLockParser', () => {
+  test('splits packages by group and keeps files, markers and sources', () => {
+    const result = PdmLockParser.parseContent(pdmLock);
+
+    expect(result.dependencies.map(d => [d.name, d.versionConstraint, d.source])).toEqual([
+      ['requests', '==2.31.0', 'registry'],
+      ['mylib', '==0.1.0', 'git']
+    ]);
+    expect(result.dependencies[0]).toMatchObject({
+      hashes: ['sha256:aaa', 'sha256:bbb'],
+      wheels: ['requests-2.31.0-py3-none-any.whl']
+    });
+    expect(result.devDependencies).toMatchObject([
+      { name: 'pytest', version: '8.1.1', type: 'development', group: 'test', markers: 'python_version >= "3.8"' }
+    ]);
+  });
+
+  test('records what each package requires, and what its extras add', () => {
+    const result = PdmLockParser.parseContent([
+      '[[package]]', 'name = "requests"', 'version = "2.31.0"', 'groups = ["default"]',
+      'dependencies = ["idna<4,>=2.5", "urllib3[brotli]>=1.21.1"]', '',
+      '[[package]]', 'name = "requests"', 'version = "2.31.0"', 'extras = ["socks"]', 'groups = ["default"]',
+      'dependencies = ["PySocks!=1.5.7,>=1.5.6", "requests==2.31.0"]'
+    ].join('\n'));
+
+    expect(result.dependencies.map(d => d.requires)).toEqual([
+      [{ name: 'idna', constraint: '<4,>=2.5' }, { name: 'urllib3', constraint: '>=1.21.1', extras: ['brotli'] }],
+      [{ name: 'PySocks', constraint: '!=1.5.7,>=1.5.6', forExtras: ['socks'] }]
+    ]);
+  });
+
+  test('reads sections and [metadata.files] from older lockfiles', () => {
+    const result = PdmLockParser.parseContent([
+      '[[package]]',
+      'name = "black"',
+      'version = "23.1.0"',
+      'sections = ["lint"]',
+      '',
+      '[metadata.files]',
+      '"black 23.1.0" = [',
+      '    {url = "https://files.example/black-23.1.0-py3-none-any.whl", hash = "sha256:ccc"},',
+      ']'
+    ].join('\n'));
+
+    expect(result.devDependencies).toMatchObject([
+      { name: 'black', group: 'lint', hashes: ['sha256:ccc'], wheels: ['black-23.1.0-py3-none-any.whl'] }
+    ]);
+  });
+});
+
+describe('PDM and Hatch manifests', () => {
+  test('reads PDM dev-dependency groups, including editable entries', () => {
+    const result = PyprojectParser.parseContent([
+      '[tool.pdm.dev-dependencies]',
+      'test = ["pytest>=8", "-e file:///${PROJECT_ROOT}/packages/helpers#egg=helpers"]',
+      'lint = ["ruff"]'
+    ].join('\n'));
+
+    expect(result.devDependencies.map(d => [d.name, d.group, d.source])).toEqual([
+      ['pytest', 'test', 'registry'],
+      ['helpers', 'test', 'path'],
+      ['ruff', 'lint', 'registry']
+    ]);
+  });
+
+  test('reads Hatch environments with template inheritance', () => {
+    const result = PyprojectParser.parseContent([
+      '[tool.hatch.envs.default]',
+      'dependencies = ["pytest", "coverage[toml]>=6.5"]',
+      '',
+      '[tool.hatch.envs.types]',
+      'extra-dependencies = ["mypy>=1.0.0"]',
+      '',
+      '[tool.hatch.envs.lint]',
+      'detached = true',
+      'dependencies = ["ruff==0.3.0"]'
+    ].join('\n'));
+
+    expect(result.devDependencies.map(d => [d.name, d.group])).toEqual([
+      ['pytest', 'default'],
+      ['coverage', 'default'],
+      ['pytest', 'types'],
+      ['coverage', 'types'],
+      ['mypy', 'types'],
+      ['ruff', 'lint']
+    ]);
+  });
+});
+
+describe('PDM and Hatch projects in get_dependencies', () => {
+  let projectPath: string;
+
+  beforeEach(async () => {
+    projectPath = await mkdtemp(path.join(os.tmpdir(), 'depfinder-pdm-'));
+  });
+
+  afterEach(async () => {
+    await rm(projectPath, { recursive: true, force: true });
+  });
+
+  test('PythonExtractor pins from pdm.lock and reads hatch.toml', async () => {
+    await writeFile(path.join(projectPath, 'pyproject.toml'), [
+      '[project]',
+      'name = "demo"',
+      'dependencies = ["requests>=2.31"]',
+      '[tool.pdm.dev-dependencies]',
+      'test = ["pytest"]'
+    ].join('\n'));
+    await writeFile(path.join(projectPath, 'pdm.lock'), pdmLock);
+    await writeFile(path.join(projectPath, 'hatch.toml'), '[envs.docs]\ndetached = true\ndependencies = ["mkdocs"]\n');
+
+    const group = (await new PythonExtractor().extract(projectPath)).groups[0];
+    expect(group.lockFile).toEqual({ path: 'pdm.lock', format: 'pdm-lock', exists: true });
+    expect(group.dependencies.find(d => d.name === 'requests')).toMatchObject({ version: '2.31.0', sourceFile: 'pdm.lock' });
+    expect(group.devDependencies?.map(d => [d.name, d.group, d.version])).toEqual([
+      ['pytest', 'test', '8.1.1'],
+      ['mkdocs', 'docs', undefined]
+    ]);
+  });
+});
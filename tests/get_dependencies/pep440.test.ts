@@ -0,0 +1,113 @@
+import { Pep440 } from '../../mcp/utils/versioning/pep440';
+import { getVersionScheme } from '../../mcp/utils/versioning/schemeRegistry';
+import { RequirementsParser } from '../../mcp/tools/get_dependencies/parsers/requirementsParser';
+
+describe('Pep440 versions', () => {
+  test('normalizes alternative spellings', () => {
+    expect(Pep440.normalize('1.0-ALPHA.1')).toBe('1.0a1');
+    expect(Pep440.normalize('2.0-1')).toBe('2.0.post1');
+    expect(Pep440.normalize('v1.0.0-rev2')).toBe('1.0.0.post2');
+    expect(Pep440.normalize('1!2.0.dev3+Ubuntu-1')).toBe('1!2.0.dev3+ubuntu.1');
+    expect(Pep440.normalize('1.0.x')).toBeNull();
+  });
+
+  test('normalizes package names (PEP 503)', () => {
+    expect(Pep440.normalizeName('Django_Extensions')).toBe('django-extensions');
+    expect(Pep440.normalizeName('zope.interface')).toBe('zope-interface');
+    expect(Pep440.normalizeName('a-_.b')).toBe('a-b');
+  });
+
+  test('orders dev, pre, final, local and post releases', () => {
+    const ordered = ['1.0.dev0', '1.0a1.dev1', '1.0a1', '1.0b2', '1.0rc1', '1.0', '1.0+abc', '1.0+1', '1.0+1.2',
+      '1.0.post1.dev0', '1.0.post1', '1.1', '1!0.1'];
+    const shuffled = [...ordered].reverse();
+    expect(shuffled.sort((a, b) => Pep440.compare(a, b))).toEqual(ordered);
+    expect(Pep440.compare('1.0', '1.0.0')).toBe(0);
+  });
+});
+
+describe('Pep440 specifiers', () => {
+  test('compatible release', () => {
+    expect(Pep440.contains('~=2.2', '2.9')).toBe(true);
+    expect(Pep440.contains('~=2.2', '3.0')).toBe(false);
+    expect(Pep440.contains('~=1.4.5', '1.4.9')).toBe(true);
+    expect(Pep440.contains('~=1.4.5', '1.5.0')).toBe(false);
+    expect(() => Pep440.parseSpecifierSet('~=1')).toThrow('~= needs two release segments');
+  });
+
+  test('wildcards and local versions', () => {
+    expect(Pep440.contains('==1.2.*', '1.2.post1')).toBe(true);
+    expect(Pep440.contains('==1.2.*', '1.20')).toBe(false);
+    expect(Pep440.contains('!=1.2.*', '1.3')).toBe(true);
+    expect(Pep440.contains('==1.2', '1.2+cpu')).toBe(true);
+    expect(Pep440.contains('==1.2+cpu', '1.2+gpu')).toBe(false);
+    expect(() => Pep440.parseSpecifierSet('>=1.2.*')).toThrow('Invalid PEP 440 specifier');
+  });
+
+  test('arbitrary equality compares strings', () => {
+    expect(Pep440.contains('===1.0', '1.0')).toBe(true);
+    expect(Pep440.contains('===1.0', '1.0.0')).toBe(false);
+    expect(Pep440.contains('===foobar', 'FooBar')).toBe(true);
+  });
+
+  test('exclusive comparisons skip post releases and prereleases of the bound', () => {
+    expect(Pep440.contains('>1.7', '1.7.post1')).toBe(false);
+    expect(Pep440.contains('>1.7.post1', '1.7.post2')).toBe(true);
+    expect(Pep440.contains('>1.7', '1.7.1')).toBe(true);
+    expect(Pep440.contains('<2', '2.0rc1', true)).toBe(false);
+    expect(Pep440.contains('<2rc2', '2.0rc1')).toBe(true);
+  });
+
+  test('specifier sets and prereleases', () => {
+    expect(Pep440.contains('>=1.4,<2,!=1.5.3', '1.5.3')).toBe(false);
+    expect(Pep440.contains('>=1.4, <2, !=1.5.3', '1.6')).toBe(true);
+    expect(Pep440.contains('>=1.4', '1.6b1')).toBe(false);
+    expect(Pep440.contains('>=1.6b1', '1.6b2')).toBe(true);
+    expect(Pep440.filter(['1.0', '2.0b1'], '>=1.0')).toEqual(['1.0']);
+    expect(Pep440.filter(['1.0', '2.0b1'], '>=1.5')).toEqual(['2.0b1']);
+  });
+});
+
+describe('Python specifier sets', () => {
+  test('normalizes specifier sets', () => {
+    expect(Pep440.normalizeSpecifierSet('>= 1.4 , <2,!=1.5.3')).toBe('>=1.4,<2,!=1.5.3');
+    expect(Pep440.normalizeSpecifierSet('^1.2.3')).toBeNull();
+  });
+
+  test('tells exact pins from prefixes', () => {
+    expect(Pep440.exactVersion('==1.2.3')).toBe('1.2.3');
+    expect(Pep440.exactVersion('==1.2.*')).toBeNull();
+    expect(Pep440.exactVersion('===1.0-custom')).toBeNull();
+    expect(Pep440.exactVersion('>=1.0,<2')).toBeNull();
+  });
+
+  test('pypi scheme checks, intersects and picks from specifier sets', () => {
+    const scheme = getVersionScheme('python');
+    expect(scheme.satisfies('1.5.3', '>=1.4,<2,!=1.5.3')).toBe(false);
+    expect(scheme.satisfies('1.0', '1.0')).toBe(true);
+    expect(scheme.parse('1!2.0.post1')).toMatchObject({ release: [2, 0], prerelease: false });
+    expect(scheme.intersect('>=1.4', '<1.2')).toEqual([]);
+    expect(scheme.maxSatisfying(['1.4', '1.9', '2.0', '2.1b1'], '>=1.4,<3')).toBe('2.0');
+  });
+});
+
+describe('RequirementsParser specifiers', () => {
+  test('keeps whole specifier sets and only pins with ==', () => {
+    const deps = RequirementsParser.parse([
+      'requests >= 2.0 , < 3',
+      'django==4.2.*',
+      'numpy (==1.26.4)',
+      'legacy===1.0-custom',
+      'torch==2.1.0+cpu ; sys_platform == "linux"'
+    ].join('\n'));
+
+    expect(deps.map(d => [d.name, d.versionConstraint, d.version])).toEqual([
+      ['requests', '>=2.0,<3', undefined],
+      ['django', '==4.2.*', undefined],
+      ['numpy', '==1.26.4', '1.26.4'],
+      ['legacy', '===1.0-custom', undefined],
+      ['torch', '==2.1.0+cpu', '2.1.0+cpu']
+    ]);
+    expect(deps[4].markers).toBe('sys_platform == "linux"');
+  });
+});
@@ -0,0 +1,310 @@
+import * as os from 'os';
+import * as path from 'path';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { PnpmLockParser } from '../../mcp/tools/get_dependencies/parsers/pnpmLockParser';
+import { NodeJSExtractor } from '../../mcp/tools/get_dependencies/extractors/nodejs';
+import { Dependency } from '../../mcp/tools/get_dependencies/types';
+import { NpmRange } from '../../mcp/utils/versioning/npmRange';
+
+const lockV9 = [
+  "lockfileVersion: '9.0'",
+  '',
+  'settings:',
+  '  autoInstallPeers: true',
+  '  excludeLinksFromLockfile: false',
+  '',
+  'importers:',
+  '',
+  '  .:',
+  '    dependencies:',
+  '      react:',
+  '        specifier: ^18.2.0',
+  '        version: 18.2.0',
+  '    devDependencies:',
+  "      '@testing-library/react':",
+  '        specifier: ^14.0.0',
+  '        version: 14.0.0(react-dom@18.2.0(react@18.2.0))(react@18.2.0)',
+  '',
+  '  packages/ui:',
+  '    dependencies:',
+  '      react-dom:',
+  '        specifier: ^18.2.0',
+  '        version: 18.2.0(react@18.2.0)',
+  '      utils:',
+  '        specifier: workspace:*',
+  '        version: link:../utils',
+  '      react:',
+  "        specifier: '>=18'",
+  '        version: 18.2.0',
+  '      strip:',
+  '        specifier: npm:strip-ansi@^6.0.1',
+  '        version: strip-ansi@6.0.1',
+  '',
+  'packages:',
+  '',
+  "  '@testing-library/react@14.0.0':",
+  '    resolution: {integrity: sha512-tl==}',
+  '    peerDependencies:',
+  '      react: ^18.0.0',
+  '      react-dom: ^18.0.0',
+  '',
+  '  loose-envify@1.4.0:',
+  '    resolution: {integrity: sha512-le==}',
+  '',
+  '  react-dom@18.2.0:',
+  '    resolution: {integrity: sha512-rd==}',
+  '    peerDependencies:',
+  '      react: ^18.2.0',
+  '',
+  '  react@18.2.0:',
+  '    resolution: {integrity: sha512-r==}',
+  '',
+  '  strip-ansi@6.0.1:',
+  '    resolution: {tarball: https://example.com/strip-ansi-6.0.1.tgz}',
+  '',
+  '  fsevents@2.3.3:',
+  '    resolution: {integrity: sha512-fs==}',
+  '    os: [darwin]',
+  '',
+  'snapshots:',
+  '',
+  "  '@testing-library/react@14.0.0(react-dom@18.2.0(react@18.2.0))(react@18.2.0)':",
+  '    dependencies:',
+  '      react: 18.2.0',
+  '      react-dom: 18.2.0(react@18.2.0)',
+  '',
+  '  loose-envify@1.4.0: {}',
+  '',
+  '  react-dom@18.2.0(react@18.2.0):',
+  '    dependencies:',
+  '      loose-envify: 1.4.0',
+  '      react: 18.2.0',
+  '    optionalDependencies:',
+  '      fsevents: 2.3.3',
+  '',
+  '  react@18.2.0:',
+  '    dependencies:',
+  '      loose-envify: 1.4.0',
+  '',
+  '  strip-ansi@6.0.1: {}',
+  '',
+  '  fsevents@2.3.3:',
+  '    optional: true'
+].join('\n');
+
+describe('PnpmLockParser', () => {
+  test('decodes nested peer suffixes', () => {
+    expect(PnpmLockParser.decodePeers('14.0.0(react-dom@18.2.0(react@18.2.0))(react@18.2.0)')).toEqual({
+      base: '14.0.0',
+      peers: ['react-dom@18.2.0', 'react@18.2.0']
+    });
+    expect(PnpmLockParser.decodePeers('1.4.0')).toEqual({ base: '1.4.0', peers: [] });
+  });
+
+  test('reads v9 importers, packages and snapshots', () => {
+    const result = PnpmLockParser.parseContent(lockV9);
+
+    expect(result.lockfileVersion).toBe('9.0');
+    expect(result.dependencies.map(d => [d.name, d.version, d.direct, d.workspaces])).toEqual([
+      ['loose-envify', '1.4.0', false, undefined],
+      ['react-dom', '18.2.0', true, ['packages/ui']],
+      ['react', '18.2.0', true, ['.', 'packages/ui']],
+      ['strip-ansi', '6.0.1', true, ['packages/ui']],
+      ['utils', undefined, true, ['packages/ui']]
+    ]);
+    expect(result.dependencies[1]).toMatchObject({
+      peers: ['react@18.2.0'],
+      hashes: ['sha512-rd=='],
+      requires: [
+        { name: 'loose-envify', constraint: '1.4.0' },
+        { name: 'react', constraint: '18.2.0' },
+        { name: 'fsevents', constraint: '2.3.3' },
+        { name: 'react', constraint: '^18.2.0', peer: true }
+      ]
+    });
+    expect(result.dependencies[3]).toMatchObject({ source: 'url', sourceUrl: 'https://example.com/strip-ansi-6.0.1.tgz' });
+    expect(result.dependencies[4]).toMatchObject({ source: 'local', sourceUrl: 'packages/utils' });
+    expect(result.devDependencies).toEqual([expect.objectContaining({
+      name: 'react', scope: 'testing-library', version: '14.0.0', direct: true, peers: ['react-dom@18.2.0', 'react@18.2.0']
+    })]);
+    expect(result.optionalDependencies.map(d => d.name)).toEqual(['fsevents']);
+  });
+
+  test('reports what each importer reaches, typed from its own dependencies', () => {
+    const { importers } = PnpmLockParser.parseContent(lockV9);
+    const summary = (deps: Dependency[]): Array<[string, boolean | undefined, string[] | undefined]> =>
+      deps.map(d => [NpmRange.packageName(d), d.direct, d.constraints]);
+
+    expect(Object.keys(importers)).toEqual(['.', 'packages/ui']);
+    // react-dom is only a peer of a test library for the root, but a runtime dependency of packages/ui
+    expect(summary(importers['.'].dependencies)).toEqual([
+      ['loose-envify', false, undefined],
+      ['react', true, ['^18.2.0']]
+    ]);
+    expect(summary(importers['.'].devDependencies)).toEqual([
+      ['@testing-library/react', true, ['^14.0.0']],
+      ['react-dom', false, undefined],
+      ['fsevents', false, undefined]
+    ]);
+    expect(summary(importers['packages/ui'].dependencies)).toEqual([
+      ['loose-envify', false, undefined],
+      ['react-dom', true, ['^18.2.0']],
+      ['react', true, ['>=18']],
+      ['strip-ansi', true, ['npm:strip-ansi@^6.0.1']],
+      ['utils', true, undefined]
+    ]);
+    expect(importers['packages/ui'].dependencies[4]).toMatchObject({ source: 'local', sourceUrl: 'packages/utils' });
+    expect(importers['packages/ui'].devDependencies).toEqual([]);
+    expect(summary(importers['packages/ui'].optionalDependencies)).toEqual([['fsevents', false, undefined]]);
+  });
+
+  test('reads v6 lockfiles, whose packages hold the graph', () => {
+    const result = PnpmLockParser.parseContent([
+      "lockfileVersion: '6.0'",
+      '',
+      'dependencies:',
+      '  express:',
+      '    specifier: ^4.18.0',
+      '    version: 4.18.2',
+      '',
+      'devDependencies:',
+      '  typescript:',
+      '    specifier: ^5.0.0',
+      '    version: 5.3.3',
+      '',
+      'packages:',
+      '',
+      '  /express@4.18.2:',
+      '    resolution: {integrity: sha512-ex==}',
+      '    dependencies:',
+      '      debug: 2.6.9',
+      '    dev: false',
+      '',
+      '  /debug@2.6.9:',
+      '    resolution: {integrity: sha512-db==}',
+      '    dev: false',
+      '',
+      '  /typescript@5.3.3:',
+      '    resolution: {integrity: sha512-ts==}',
+      '    dev: true',
+      '',
+      '  github.com/me/fork/0123abcd:',
+      '    resolution: {type: git, repo: https://github.com/me/fork.git, commit: 0123abcd}',
+      '    name: fork',
+      '    version: 1.0.0',
+      '    dev: true'
+    ].join('\n'));
+
+    expect(result.importers['.'].dependencies.map(d => [d.name, d.version, d.direct, d.constraints])).toEqual([
+      ['express', '4.18.2', true, ['^4.18.0']],
+      ['debug', '2.6.9', false, undefined]
+    ]);
+    expect(result.devDependencies.map(d => [d.name, d.version, d.source, d.sourceUrl])).toEqual([
+      ['typescript', '5.3.3', 'registry', undefined],
+      ['fork', '1.0.0', 'git', 'https://github.com/me/fork.git#0123abcd']
+    ]);
+  });
+
+  test('reads v5 lockfiles, whose keys are "/name/version" with a "_" peer suffix', () => {
+    const result = PnpmLockParser.parseContent([
+      'lockfileVersion: 5.4',
+      '',
+      'specifiers:',
+      '  react-dom: ^18.2.0',
+      '  react: ^18.2.0',
+      '  strip: npm:strip-ansi@^6.0.1',
+      "  '@types/react-dom': ^18.0.0",
+      '',
+      'dependencies:',
+      '  react-dom: 18.2.0_react@18.2.0',
+      '  react: 18.2.0',
+      '  strip: /strip-ansi/6.0.1',
+      '',
+      'devDependencies:',
+      "  '@types/react-dom': 18.0.11_@types+react@18.2.0",
+      '',
+      'packages:',
+      '',
+      '  /react-dom/18.2.0_react@18.2.0:',
+      '    resolution: {integrity: sha512-rd==}',
+      '    dependencies:',
+      '      loose-envify: 1.4.0',
+      '      react: 18.2.0',
+      '    dev: false',
+      '',
+      '  /react/18.2.0:',
+      '    resolution: {integrity: sha512-r==}',
+      '    dev: false',
+      '',
+      '  /loose-envify/1.4.0:',
+      '    resolution: {integrity: sha512-le==}',
+      '    dev: false',
+      '',
+      '  /strip-ansi/6.0.1:',
+      '    resolution: {integrity: sha512-sa==}',
+      '    dev: false',
+      '',
+      '  /@types/react-dom/18.0.11_@types+react@18.2.0:',
+      '    resolution: {integrity: sha512-trd==}',
+      '    dependencies:',
+      "      '@types/react': 18.2.0",
+      '    dev: true',
+      '',
+      '  /@types/react/18.2.0:',
+      '    resolution: {integrity: sha512-tr==}',
+      '    dev: true'
+    ].join('\n'));
+
+    expect(result.lockfileVersion).toBe('5.4');
+    expect(result.importers['.'].dependencies.map(d => [d.name, d.version, d.direct, d.peers, d.constraints])).toEqual([
+      ['react-dom', '18.2.0', true, ['react@18.2.0'], ['^18.2.0']],
+      ['react', '18.2.0', true, undefined, ['^18.2.0']],
+      ['loose-envify', '1.4.0', false, undefined, undefined],
+      ['strip-ansi', '6.0.1', true, undefined, ['npm:strip-ansi@^6.0.1']]
+    ]);
+    expect(result.devDependencies.map(d => [d.scope, d.name, d.version, d.direct, d.peers])).toEqual([
+      ['types', 'react-dom', '18.0.11', true, ['@types/react@18.2.0']],
+      ['types', 'react', '18.2.0', false, undefined]
+    ]);
+  });
+});
+
+describe('pnpm-lock.yaml in get_dependencies', () => {
+  let projectPath: string;
+
+  beforeEach(async () => {
+    projectPath = await mkdtemp(path.join(os.tmpdir(), 'depfinder-pnpm-'));
+  });
+
+  afterEach(async () => {
+    await rm(projectPath, { recursive: true, force: true });
+  });
+
+  test('checks declared ranges against the version the root importer resolved', async () => {
+    await writeFile(path.join(projectPath, 'package.json'), JSON.stringify({ dependencies: { semver: '^7.5.0' } }));
+    await writeFile(path.join(projectPath, 'pnpm-lock.yaml'), [
+      "lockfileVersion: '9.0'",
+      'importers:',
+      '  .:',
+      '    dependencies:',
+      '      semver:',
+      '        specifier: ^7.5.0',
+      '        version: 7.6.0',
+      'packages:',
+      '  semver@6.3.1:',
+      '    resolution: {integrity: sha512-six==}',
+      '  semver@7.6.0:',
+      '    resolution: {integrity: sha512-seven==}',
+      'snapshots:',
+      '  semver@6.3.1: {}',
+      '  semver@7.6.0: {}'
+    ].join('\n'));
+
+    const result = await new NodeJSExtractor().extract(projectPath);
+
+    expect(result.errors).toBeUndefined();
+    expect(result.warnings).toBeUndefined();
+    expect(result.groups[0].dependencies.map(d => [d.name, d.version, d.direct])).toEqual([['semver', '7.6.0', true]]);
+    expect(result.groups[0].devDependencies?.map(d => [d.name, d.version])).toEqual([['semver', '6.3.1']]);
+  });
+});
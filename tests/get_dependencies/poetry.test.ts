@@ -0,0 +1,141 @@
+import * as os from 'os';
+import * as path from 'path';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { PoetryConstraint } from '../../mcp/utils/versioning/poetryConstraint';
+import { PyprojectParser } from '../../mcp/tools/get_dependencies/parsers/pyprojectParser';
+import { PoetryLockParser } from '../../mcp/tools/get_dependencies/parsers/poetryLockParser';
+import { PythonExtractor } from '../../mcp/tools/get_dependencies/extractors/python';
+
+describe('PoetryConstraint', () => {
+  test('translates caret and tilde requirements', () => {
+    expect(PoetryConstraint.toSpecifierSet('^1.2.3')).toBe('>=1.2.3,<2.0.0');
+    expect(PoetryConstraint.toSpecifierSet('^0.2.3')).toBe('>=0.2.3,<0.3.0');
+    expect(PoetryConstraint.toSpecifierSet('^0.0.3')).toBe('>=0.0.3,<0.0.4');
+    expect(PoetryConstraint.toSpecifierSet('^0.0')).toBe('>=0.0,<0.1');
+    expect(PoetryConstraint.toSpecifierSet('~1.2.3')).toBe('>=1.2.3,<1.3.0');
+    expect(PoetryConstraint.toSpecifierSet('~1')).toBe('>=1,<2');
+  });
+
+  test('keeps PEP 440 clauses, pins bare versions and allows "*"', () => {
+    expect(PoetryConstraint.toSpecifierSet('>= 1.2, < 1.5')).toBe('>=1.2,<1.5');
+    expect(PoetryConstraint.toSpecifierSet('>=1.2 <1.5 !=1.3.1')).toBe('>=1.2,<1.5,!=1.3.1');
+    expect(PoetryConstraint.toSpecifierSet('~=2.2')).toBe('~=2.2');
+    expect(PoetryConstraint.toSpecifierSet('1.2.3')).toBe('==1.2.3');
+    expect(PoetryConstraint.toSpecifierSet('1.2.*')).toBe('==1.2.*');
+    expect(PoetryConstraint.toSpecifierSet('*')).toBe('');
+    expect(PoetryConstraint.toSpecifierSet('^1.2 || ^2.0')).toBeNull();
+    expect(PoetryConstraint.toSpecifierSet('^banana')).toBeNull();
+  });
+});
+
+describe('PoetryLockParser', () => {
+  test('reads hashes from files arrays and the legacy [metadata.files] table', () => {
+    const result = PoetryLockParser.parseContent([
+      '[[package]]', 'name = "idna"', 'version = "3.6"',
+      'files = [',
+      '    {file = "idna-3.6-py3-none-any.whl", hash = "sha256:c05567e9"},',
+      '    { file = "idna-3.6.tar.gz",',
+      '      hash = "sha256:9ecdbbd0" },',
+      ']', '',
+      '[[package]]', 'name = "Pytest"', 'version = "7.4.3"', 'category = "dev"', '',
+      '[metadata.files]',
+      'pytest = [',
+      '    {file = "pytest-7.4.3-py3-none-any.whl", hash = "sha256:0d009c08"},',
+      ']'
+    ].join('\n'));
+
+    expect(result.dependencies).toEqual([{
+      name: 'idna',
+      version: '3.6',
+      versionConstraint: '==3.6',
+      type: 'runtime',
+      source: 'registry',
+      hashes: ['sha256:c05567e9', 'sha256:9ecdbbd0']
+    }]);
+    expect(result.devDependencies.map(d => [d.name, d.type, d.hashes])).toEqual([
+      ['Pytest', 'development', ['sha256:0d009c08']]
+    ]);
+  });
+});
+
+describe('Poetry manifests in get_dependencies', () => {
+  let projectPath: string;
+
+  beforeEach(async () => {
+    projectPath = await mkdtemp(path.join(os.tmpdir(), 'depfinder-poetry-'));
+  });
+
+  afterEach(async () => {
+    await rm(projectPath, { recursive: true, force: true });
+  });
+
+  const manifest = [
+    '[tool.poetry]',
+    'name = "demo"',
+    '',
+    '[tool.poetry.dependencies]',
+    'python = "^3.9"',
+    'requests = { version = "^2.28", extras = ["socks"] }',
+    'click = "8.1.7"',
+    'tomli = { version = ">=1.1", python = "<3.11" }',
+    'mylib = { git = "https://github.com/example/mylib.git", branch = "main" }',
+    'shared = { path = "../shared", develop = true }',
+    'psycopg2 = { version = "^2.9", optional = true }',
+    '',
+    '[tool.poetry.extras]',
+    'postgres = ["psycopg2"]',
+    '',
+    '[tool.poetry.group.test.dependencies]',
+    'pytest = "^7.4"',
+    '',
+    '[tool.poetry.group.docs]',
+    'optional = true',
+    '[tool.poetry.group.docs.dependencies]',
+    'sphinx = "~7.2"',
+    '',
+    '[tool.poetry.dev-dependencies]',
+    'black = "*"'
+  ].join('\n');
+
+  test('PyprojectParser reads Poetry dependencies, extras and groups', () => {
+    const result = PyprojectParser.parseContent(manifest);
+
+    expect(result.dependencies.map(d => [d.name, d.versionConstraint, d.version, d.source])).toEqual([
+      ['requests', '>=2.28,<3.0', undefined, 'registry'],
+      ['click', '==8.1.7', '8.1.7', 'registry'],
+      ['tomli', '>=1.1', undefined, 'registry'],
+      ['mylib', undefined, undefined, 'git'],
+      ['shared', undefined, undefined, 'path']
+    ]);
+    expect(result.dependencies[0].extras).toEqual(['socks']);
+    expect(result.dependencies[2].markers).toBe('python_version < "3.11"');
+    expect(result.optionalDependencies.postgres).toMatchObject([{ name: 'psycopg2', type: 'optional', group: 'postgres' }]);
+    expect(result.devDependencies.map(d => [d.name, d.group, d.versionConstraint])).toEqual([
+      ['black', 'dev', '*'],
+      ['pytest', 'test', '>=7.4,<8.0'],
+      ['sphinx', 'docs', '>=7.2,<7.3']
+    ]);
+  });
+
+  test('PythonExtractor keeps locked group packages as development dependencies', async () => {
+    await writeFile(path.join(projectPath, 'pyproject.toml'), manifest);
+    await writeFile(path.join(projectPath, 'poetry.lock'), [
+      '[[package]]',
+      'name = "pytest"',
+      'version = "7.4.3"',
+      '',
+      '[[package]]',
+      'name = "requests"',
+      'version = "2.31.0"'
+    ].join('\n'));
+
+    const group = (await new PythonExtractor().extract(projectPath)).groups[0];
+    expect(group.dependencies.find(d => d.name === 'requests')).toMatchObject({ version: '2.31.0', extras: ['socks'] });
+    expect(group.dependencies.find(d => d.name === 'pytest')).toBeUndefined();
+    expect(group.devDependencies?.find(d => d.name === 'pytest')).toMatchObject({
+      version: '7.4.3',
+      type: 'development',
+      group: 'test'
+    });
+  });
+});
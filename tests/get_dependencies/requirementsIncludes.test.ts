@@ -0,0 +1,81 @@
+import * as os from 'os';
+import * as path from 'path';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { RequirementsParser } from '../../mcp/tools/get_dependencies/parsers/requirementsParser';
+import { PythonExtractor } from '../../mcp/tools/get_dependencies/extractors/python';
+
+describe('RequirementsParser options', () => {
+  test('keeps hashes, markers, index URLs and substitutes environment variables', () => {
+    const deps = RequirementsParser.parse([
+      '--index-url https://${INDEX_HOST}/simple',
+      '--extra-index-url=https://extra.example.com/simple',
+      '--pre',
+      'requests==2.31.0 \\',
+      '    --hash=sha256:aaa \\',
+      '    --hash=sha256:bbb',
+      'pywin32>=306 ; sys_platform == "win32" and python_version >= "3.8"  # windows only',
+      'mylib @ git+https://${TOKEN}@github.com/example/mylib.git@v1',
+      '-e ./libs/local#egg=local-lib'
+    ].join('\n'), { INDEX_HOST: 'pypi.example.com' });
+
+    expect(deps.map(d => [d.name, d.source, d.sourceUrl])).toEqual([
+      ['requests', 'registry', 'https://pypi.example.com/simple'],
+      ['pywin32', 'registry', 'https://pypi.example.com/simple'],
+      ['mylib', 'git', 'git+https://${TOKEN}@github.com/example/mylib.git@v1'],
+      ['local-lib', 'path', './libs/local']
+    ]);
+    expect(deps[0].hashes).toEqual(['sha256:aaa', 'sha256:bbb']);
+    expect(deps[1].markers).toBe('sys_platform == "win32" and python_version >= "3.8"');
+  });
+});
+
+describe('RequirementsParser includes', () => {
+  let projectPath: string;
+
+  beforeEach(async () => {
+    projectPath = await mkdtemp(path.join(os.tmpdir(), 'depfinder-requirements-'));
+  });
+
+  afterEach(async () => {
+    await rm(projectPath, { recursive: true, force: true });
+  });
+
+  test('follows -r and applies -c constraints to required packages only', async () => {
+    await mkdir(path.join(projectPath, 'reqs'));
+    await writeFile(path.join(projectPath, 'requirements.txt'), [
+      '-r reqs/base.txt',
+      '--constraint constraints.txt',
+      'flask>=2'
+    ].join('\n'));
+    await writeFile(path.join(projectPath, 'reqs', 'base.txt'), [
+      'Django>=4.0',
+      '-r ../requirements.txt'
+    ].join('\n'));
+    await writeFile(path.join(projectPath, 'constraints.txt'), [
+      'django==4.2.11',
+      'flask<2.0',
+      'numpy==1.26.4'
+    ].join('\n'));
+
+    const result = await RequirementsParser.parseFile(path.join(projectPath, 'requirements.txt'));
+
+    expect(result.dependencies.map(d => [d.name, d.versionConstraint, d.version])).toEqual([
+      ['Django', '>=4.0,==4.2.11', '4.2.11'],
+      ['flask', '>=2,<2.0', undefined]
+    ]);
+    expect(result.dependencies[0].constraints).toEqual(['>=4.0', '==4.2.11']);
+    expect(result.warnings).toEqual([
+      'Include cycle skipped: requirements.txt -> reqs/base.txt -> requirements.txt',
+      'flask: constraints "<2.0" leave no version allowed by ">=2"'
+    ]);
+  });
+
+  test('reports missing includes through the extractor', async () => {
+    await writeFile(path.join(projectPath, 'requirements.txt'), '-r missing.txt\nrequests\n');
+
+    const result = await new PythonExtractor().extract(projectPath);
+
+    expect(result.groups[0].dependencies.map(d => d.name)).toEqual(['requests']);
+    expect(result.warnings).toContain('requirements.txt: Cannot read missing.txt (included from requirements.txt)');
+  });
+});
@@ -0,0 +1,131 @@
+import * as os from 'os';
+import * as path from 'path';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { RubyGems } from '../../mcp/utils/versioning/rubygems';
+import { RubyExtractor } from '../../mcp/tools/get_dependencies/extractors/ruby';
+import { GemfileLockParser } from '../../mcp/tools/get_dependencies/parsers/gemfileLockParser';
+import { getVersionScheme } from '../../mcp/utils/versioning/schemeRegistry';
+
+describe('RubyGems ordering', () => {
+  test('prereleases sort before their release', () => {
+    const ordered = ['1.0.0.a', '1.0.0.beta1', '1.0.0.beta2', '1.0.0.rc1', '1.0.0', '1.0.1'];
+    expect([...ordered].reverse().sort((a, b) => RubyGems.compare(a, b))).toEqual(ordered);
+    expect(RubyGems.isPrerelease('1.0.0.beta2')).toBe(true);
+    expect(RubyGems.isPrerelease('1.0.0')).toBe(false);
+  });
+
+  test('ignores trailing zeros', () => {
+    expect(RubyGems.compare('1.0.0', '1')).toBe(0);
+    expect(RubyGems.compare('1.0.a', '1.a')).toBe(0);
+    expect(RubyGems.compare('1.10', '1.9')).toBeGreaterThan(0);
+  });
+});
+
+describe('RubyGems requirements', () => {
+  test('pessimistic operator', () => {
+    expect(RubyGems.satisfiedBy('2.9', '~> 2.0')).toBe(true);
+    expect(RubyGems.satisfiedBy('2.9.beta', '~> 2.0')).toBe(true);
+    expect(RubyGems.satisfiedBy('3.0', '~> 2.0')).toBe(false);
+    expect(RubyGems.satisfiedBy('3.0.beta', '~> 2.0')).toBe(false);
+    expect(RubyGems.satisfiedBy('2.0.9', '~> 2.0.1')).toBe(true);
+    expect(RubyGems.satisfiedBy('2.1.0', '~> 2.0.1')).toBe(false);
+  });
+
+  test('every requirement must hold', () => {
+    expect(RubyGems.satisfiedBy('7.0.4', ['~> 7.0', '>= 7.0.4'])).toBe(true);
+    expect(RubyGems.satisfiedBy('7.0.3', '~> 7.0, >= 7.0.4')).toBe(false);
+    expect(RubyGems.satisfiedBy('7.1.0', '~> 7.0, != 7.1.0')).toBe(false);
+    expect(() => RubyGems.parseRequirements('~> x')).toThrow('Invalid gem requirement: ~> x');
+  });
+
+  test('exact versions', () => {
+    expect(RubyGems.exactVersion(['= 1.2.3'])).toBe('1.2.3');
+    expect(RubyGems.exactVersion('1.2.3')).toBe('1.2.3');
+    expect(RubyGems.exactVersion(['~> 1.2', '>= 1.2.3'])).toBeNull();
+  });
+
+  test('rubygems scheme reads "~>" with RubyGems semantics', () => {
+    const scheme = getVersionScheme('ruby');
+    expect(scheme.satisfies('2.9.0', '~> 2.0')).toBe(true);
+    expect(scheme.satisfies('2.9.0', '~> 2.0.1')).toBe(false);
+    expect(scheme.satisfies('2.0.5', '~> 2.0.1, != 2.0.5')).toBe(false);
+  });
+});
+
+describe('GemfileLockParser', () => {
+  test('reads locked gems of every source with their requirements', () => {
+    const result = GemfileLockParser.parseContent([
+      'GIT',
+      '  remote: https://github.com/example/widget.git',
+      '  revision: 0123abcd',
+      '  specs:',
+      '    widget (0.1.0)',
+      '      rack',
+      '',
+      'GEM',
+      '  remote: https://rubygems.org/',
+      '  specs:',
+      '    nokogiri (1.15.4-x86_64-linux)',
+      '      racc (~> 1.4)',
+      '    nokogiri (1.15.4-arm64-darwin)',
+      '      racc (~> 1.4)',
+      '    rack (2.2.8)',
+      '    racc (1.7.1)',
+      '',
+      'DEPENDENCIES',
+      '  nokogiri',
+      '  widget!',
+      ''
+    ].join('\n'));
+
+    expect(result.dependencies.map(d => [d.name, d.version, d.source, d.sourceUrl, d.requires])).toEqual([
+      ['widget', '0.1.0', 'git', 'https://github.com/example/widget.git', [{ name: 'rack', constraint: '>= 0' }]],
+      ['nokogiri', '1.15.4', 'registry', undefined, [{ name: 'racc', constraint: '~> 1.4' }]],
+      ['rack', '2.2.8', 'registry', undefined, undefined],
+      ['racc', '1.7.1', 'registry', undefined, undefined]
+    ]);
+  });
+});
+
+describe('RubyGems requirements in get_dependencies', () => {
+  let projectPath: string;
+
+  beforeEach(async () => {
+    projectPath = await mkdtemp(path.join(os.tmpdir(), 'depfinder-rubygems-'));
+  });
+
+  afterEach(async () => {
+    await rm(projectPath, { recursive: true, force: true });
+  });
+
+  test('keeps every requirement of a gem', async () => {
+    await writeFile(path.join(projectPath, 'Gemfile'), [
+      "source 'https://rubygems.org'",
+      "gem 'rails', '~> 7.0', '>= 7.0.4', require: false",
+      "gem 'pg', '1.5.4'"
+    ].join('\n'));
+
+    const result = await new RubyExtractor().extract(projectPath);
+    expect(result.groups[0].dependencies.map(d => [d.name, d.versionConstraint, d.constraints, d.version])).toEqual([
+      ['rails', '~> 7.0, >= 7.0.4', ['~> 7.0', '>= 7.0.4'], undefined],
+      ['pg', '1.5.4', ['1.5.4'], '1.5.4']
+    ]);
+  });
+
+  test('warns when Gemfile.lock no longer satisfies the Gemfile', async () => {
+    await writeFile(path.join(projectPath, 'Gemfile'), "gem 'rails', '~> 7.0', '>= 7.0.4'\n");
+    await writeFile(path.join(projectPath, 'Gemfile.lock'), [
+      'GEM',
+      '  remote: https://rubygems.org/',
+      '  specs:',
+      '    rails (6.1.0)',
+      '',
+      'DEPENDENCIES',
+      '  rails (~> 7.0, >= 7.0.4)',
+      ''
+    ].join('\n'));
+
+    const result = await new RubyExtractor().extract(projectPath);
+    expect(result.warnings).toEqual(['Gemfile.lock has rails 6.1.0, which does not satisfy "~> 7.0, >= 7.0.4" in Gemfile']);
+  });
+});
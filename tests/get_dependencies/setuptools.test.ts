@@ -0,0 +1,137 @@
+import * as os from 'os';
+import * as path from 'path';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { SetuptoolsParser } from '../../mcp/tools/get_dependencies/parsers/setuptoolsParser';
+import { PythonExtractor } from '../../mcp/tools/get_dependencies/extractors/python';
+
+const setupPy = [
+  'import os',
+  'from setuptools import setup, find_packages',
+  '',
+  'BASE = [',
+  '    "requests>=2.0",  # HTTP',
+  "    'click~=8.1',",
+  ']',
+  'BASE += ["attrs"]',
+  "TESTS = ('pytest', 'pytest-cov')",
+  '',
+  'with open("README.md") as f:',
+  '    long_description = f.read()',
+  '',
+  'extras = dict(',
+  '    docs=["sphinx>=7"],',
+  '    all=BASE + ["rich"],',
+  ')',
+  '',
+  'if __name__ == "__main__":',
+  '    setup(',
+  '        name="demo",',
+  '        long_description=long_description,',
+  '        packages=find_packages(),',
+  '        install_requires=BASE,',
+  '        extras_require={',
+  '            **extras,',
+  '            \'ssl:sys_platform == "win32"\': ["pyopenssl"],',
+  '            \':python_version < "3.8"\': ["importlib-metadata"],',
+  '        },',
+  '        tests_require=TESTS,',
+  '        setup_requires=["setuptools_scm"],',
+  '        python_requires=">= 3.7",',
+  '    )'
+].join('\n');
+
+describe('SetuptoolsParser.parseSetupPy', () => {
+  test('evaluates literals and names bound to them', () => {
+    const result = SetuptoolsParser.parseSetupPy(setupPy);
+
+    expect(result.dependencies.map(d => [d.name, d.versionConstraint, d.markers])).toEqual([
+      ['requests', '>=2.0', undefined],
+      ['click', '~=8.1', undefined],
+      ['attrs', undefined, undefined],
+      ['importlib-metadata', undefined, 'python_version < "3.8"']
+    ]);
+    expect(Object.keys(result.optionalDependencies)).toEqual(['docs', 'all', 'ssl']);
+    expect(result.optionalDependencies.all.map(d => d.name)).toEqual(['requests', 'click', 'attrs', 'rich']);
+    expect(result.optionalDependencies.ssl[0]).toMatchObject({ name: 'pyopenssl', type: 'optional', group: 'ssl', markers: 'sys_platform == "win32"' });
+    expect(result.devDependencies.map(d => [d.name, d.type, d.group])).toEqual([
+      ['pytest', 'development', 'test'],
+      ['pytest-cov', 'development', 'test'],
+      ['setuptools_scm', 'build', undefined]
+    ]);
+    expect(result.pythonRequires).toBe('>=3.7');
+    expect(result.warnings).toEqual([]);
+  });
+
+  test('reports arguments that are not literals', () => {
+    const result = SetuptoolsParser.parseSetupPy([
+      'from setuptools import setup',
+      'setup(',
+      '    install_requires=[line.strip() for line in open("requirements.txt")],',
+      '    extras_require={"dev": ["black", VERSION_PIN]},',
+      ')'
+    ].join('\n'));
+
+    expect(result.dependencies).toEqual([]);
+    expect(result.optionalDependencies.dev.map(d => d.name)).toEqual(['black']);
+    expect(result.warnings).toEqual([
+      'install_requires is not a literal and was skipped',
+      'extras_require["dev"] has entries that are not literal strings; they were skipped'
+    ]);
+  });
+});
+
+describe('SetuptoolsParser.parseSetupCfg', () => {
+  test('reads [options] and [options.extras_require]', () => {
+    const result = SetuptoolsParser.parseSetupCfg([
+      '[metadata]',
+      'name = demo',
+      '',
+      '[options]',
+      'python-requires = >=3.8',
+      'install_requires =',
+      '    requests>=2.0,<3',
+      '    # pinned for the API client',
+      '    tomli; python_version < "3.11"',
+      'setup_requires = setuptools_scm; wheel',
+      'tests_require = file: requirements-test.txt',
+      '',
+      '[options.extras_require]',
+      'docs =',
+      '    sphinx',
+      'Socks = PySocks>=1.5.6'
+    ].join('\n'));
+
+    expect(result.dependencies.map(d => [d.name, d.versionConstraint, d.markers])).toEqual([
+      ['requests', '>=2.0,<3', undefined],
+      ['tomli', undefined, 'python_version < "3.11"']
+    ]);
+    expect(result.devDependencies.map(d => [d.name, d.type])).toEqual([['setuptools_scm', 'build'], ['wheel', 'build']]);
+    expect(Object.keys(result.optionalDependencies)).toEqual(['docs', 'socks']);
+    expect(result.optionalDependencies.socks[0]).toMatchObject({ name: 'PySocks', versionConstraint: '>=1.5.6', group: 'socks' });
+    expect(result.pythonRequires).toBe('>=3.8');
+    expect(result.warnings).toEqual(['tests_require is read from "file: requirements-test.txt" and was skipped']);
+  });
+});
+
+describe('setuptools projects in get_dependencies', () => {
+  let projectPath: string;
+
+  beforeEach(async () => {
+    projectPath = await mkdtemp(path.join(os.tmpdir(), 'depfinder-setuptools-'));
+  });
+
+  afterEach(async () => {
+    await rm(projectPath, { recursive: true, force: true });
+  });
+
+  test('reports extras as optional groups and python_requires as the runtime', async () => {
+    await writeFile(path.join(projectPath, 'setup.py'), setupPy);
+
+    const group = (await new PythonExtractor().extract(projectPath)).groups[0];
+
+    expect(group.runtime).toEqual({ name: 'python', versionConstraint: '>=3.7', type: 'runtime', sourceFile: 'setup.py' });
+    expect(group.optionalDependencies?.map(d => `${d.group}:${d.name}`)).toEqual([
+      'docs:sphinx', 'all:requests', 'all:click', 'all:attrs', 'all:rich', 'ssl:pyopenssl'
+    ]);
+  });
+});
@@ -0,0 +1,147 @@
+import * as os from 'os';
+import * as path from 'path';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { Toml, TomlError } from '../../mcp/utils/toml';
+import { CargoParser } from '../../mcp/tools/get_dependencies/parsers/cargoParser';
+import { PyprojectParser } from '../../mcp/tools/get_dependencies/parsers/pyprojectParser';
+import { PythonExtractor } from '../../mcp/tools/get_dependencies/extractors/python';
+import { RustExtractor } from '../../mcp/tools/get_dependencies/extractors/rust';
+
+describe('Toml.parse', () => {
+  test('reads strings, numbers, dates and arrays of tables', () => {
+    const doc = Toml.parse([
+      'title = "caf\\u00e9 \\"x\\""',
+      "path = 'C:\\Users'",
+      'text = """',
+      'one \\',
+      '   two"""',
+      'numbers = [0x1F, 0o7, 0b11, -3_000, 1.5e3, inf]',
+      'when = 1979-05-27T07:32:00-08:00',
+      '[[bin]]',
+      'name = "a"',
+      '[[bin]]',
+      'name = "b"'
+    ].join('\n'));
+
+    expect(doc).toEqual({
+      title: 'café "x"',
+      path: 'C:\\Users',
+      text: 'one two',
+      numbers: [31, 7, 3, -3000, 1500, Infinity],
+      when: '1979-05-27T07:32:00-08:00',
+      bin: [{ name: 'a' }, { name: 'b' }]
+    });
+  });
+
+  test('reads dotted and quoted keys, multi-line arrays and inline tables', () => {
+    const doc = Toml.parse([
+      'dependencies.serde.version = "1"',
+      'dependencies."my-crate" = { path = "../my-crate",',
+      '  features = [',
+      '    "a",  # first',
+      '    "b",',
+      '  ],',
+      '}'
+    ].join('\n'));
+
+    expect(doc).toEqual({
+      dependencies: {
+        serde: { version: '1' },
+        'my-crate': { path: '../my-crate', features: ['a', 'b'] }
+      }
+    });
+  });
+
+  test('reports errors with line and column', () => {
+    const parse = (content: string): TomlError => {
+      try {
+        Toml.parse(content);
+      } catch (error) {
+        return error as TomlError;
+      }
+      throw new Error('expected a TomlError');
+    };
+
+    expect(parse('a = 1\nb = "open')).toMatchObject({ line: 2, column: 5, message: 'Unterminated string at line 2, column 5' });
+    expect(parse('[a]\nx = 1\n[a]').message).toBe('Cannot redefine table a at line 3, column 1');
+    expect(parse('a = 1\na = 2').message).toBe('Duplicate key a at line 2, column 1');
+    expect(parse('a = { b = 1 }\n[a.c]').message).toMatch(/^Cannot define a table inside a/);
+    expect(parse('x = [1, 2').message).toBe('Unterminated array at line 1, column 10');
+  });
+});
+
+describe('TOML manifests in get_dependencies', () => {
+  let projectPath: string;
+
+  beforeEach(async () => {
+    projectPath = await mkdtemp(path.join(os.tmpdir(), 'depfinder-toml-'));
+  });
+
+  afterEach(async () => {
+    await rm(projectPath, { recursive: true, force: true });
+  });
+
+  test('PyprojectParser reads multi-line arrays with comments', () => {
+    const result = PyprojectParser.parseContent([
+      '[project]',
+      'name = "demo"',
+      'dependencies = [',
+      '  "requests>=2.31",  # HTTP',
+      "  'click==8.1.7',",
+      ']',
+      '[project.optional-dependencies]',
+      'test = ["pytest>=7"]'
+    ].join('\n'));
+
+    expect(result.dependencies.map(d => [d.name, d.versionConstraint, d.version])).toEqual([
+      ['requests', '>=2.31', undefined],
+      ['click', '==8.1.7', '8.1.7']
+    ]);
+    expect(result.optionalDependencies.test.map(d => d.name)).toEqual(['pytest']);
+  });
+
+  test('CargoParser reads dotted keys and inline tables spanning lines', () => {
+    const result = CargoParser.parseContent([
+      '[package]',
+      'name = "demo"',
+      '[dependencies]',
+      'serde.version = "1.0"',
+      'serde.features = ["derive"]',
+      'tokio = { version = "=1.35.0",',
+      '  features = ["full"] }',
+      'local = { path = "../local" }',
+      '[dev-dependencies]',
+      '"proptest" = "1"'
+    ].join('\n'));
+
+    expect(result.dependencies.map(d => [d.name, d.versionConstraint, d.version, d.source])).toEqual([
+      ['serde', '>=1.0.0, <2.0.0', undefined, 'registry'],
+      ['tokio', '=1.35.0', '1.35.0', 'registry'],
+      ['local', undefined, undefined, 'path']
+    ]);
+    expect(result.devDependencies.map(d => d.name)).toEqual(['proptest']);
+  });
+
+  test('PythonExtractor reads Pipfile tables', async () => {
+    await writeFile(path.join(projectPath, 'Pipfile'), [
+      '[packages]',
+      'requests = { version = ">=2.0", extras = ["socks"] }',
+      'django = "==4.2.7"',
+      '[dev-packages]',
+      'pytest = "*"'
+    ].join('\n'));
+
+    const group = (await new PythonExtractor().extract(projectPath)).groups[0];
+    expect(group.dependencies.map(d => [d.name, d.versionConstraint, d.version, d.extras])).toEqual([
+      ['requests', '>=2.0', undefined, ['socks']],
+      ['django', '==4.2.7', '4.2.7', undefined]
+    ]);
+    expect(group.devDependencies?.map(d => d.name)).toEqual(['pytest']);
+  });
+
+  test('extractors report TOML errors with their position', async () => {
+    await writeFile(path.join(projectPath, 'Cargo.toml'), '[dependencies]\nserde = "1"\nserde = "2"\n');
+    const result = await new RustExtractor().extract(projectPath);
+    expect(result.errors).toEqual(['Failed to parse Cargo.toml: TomlError: Duplicate key serde at line 3, column 1']);
+  });
+});
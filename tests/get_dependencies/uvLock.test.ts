@@ -0,0 +1,154 @@
+import * as os from 'os';
+import * as path from 'path';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { UvLockParser } from '../../mcp/tools/get_dependencies/parsers/uvLockParser';
+import { PyprojectParser } from '../../mcp/tools/get_dependencies/parsers/pyprojectParser';
+import { PythonExtractor } from '../../mcp/tools/get_dependencies/extractors/python';
+
+const uvLock = [
+  'version = 1',
+  'requires-python = ">=3.12"',
+  '',
+  '[[package]]',
+  'name = "demo"',
+  'version = "0.1.0"',
+  'source = { editable = "." }',
+  'dependencies = [{ name = "httpx" }]',
+  '',
+  '[package.dev-dependencies]',
+  'test = [{ name = "pytest" }]',
+  '',
+  '[[package]]',
+  'name = "httpx"',
+  'version = "0.27.0"',
+  'source = { registry = "https://pypi.org/simple" }',
+  'dependencies = [{ name = "idna" }]',
+  'sdist = { url = "https://files.example/httpx-0.27.0.tar.gz", hash = "sha256:aaa", size = 1 }',
+  'wheels = [',
+  '    { url = "https://files.example/httpx-0.27.0-py3-none-any.whl", hash = "sha256:bbb", size = 2 },',
+  ']',
+  '',
+  '[[package]]',
+  'name = "idna"',
+  'version = "3.6"',
+  'source = { registry = "https://pypi.org/simple" }',
+  '',
+  '[[package]]',
+  'name = "pytest"',
+  'version = "8.1.1"',
+  'source = { registry = "https://pypi.org/simple" }',
+  'dependencies = [{ name = "pluggy" }, { name = "idna" }]',
+  '',
+  '[[package]]',
+  'name = "pluggy"',
+  'version = "1.4.0"',
+  'source = { git = "https://github.com/pytest-dev/pluggy?rev=main#0123abc" }'
+].join('\n');
+
+describe('UvLockParser', () => {
+  test('reads versions, sources, wheels and hashes, leaving out the project itself', () => {
+    const result = UvLockParser.parseContent(uvLock);
+
+    expect(result.dependencies.map(d => [d.name, d.versionConstraint, d.source])).toEqual([
+      ['httpx', '==0.27.0', 'registry'],
+      ['idna', '==3.6', 'registry']
+    ]);
+    expect(result.dependencies[0]).toMatchObject({
+      version: '0.27.0',
+      sourceUrl: 'https://pypi.org/simple',
+      hashes: ['sha256:aaa', 'sha256:bbb'],
+      wheels: ['httpx-0.27.0-py3-none-any.whl']
+    });
+  });
+
+  test('packages only dependency groups reach are development dependencies', () => {
+    const result = UvLockParser.parseContent(uvLock);
+    expect(result.devDependencies.map(d => [d.name, d.type, d.source])).toEqual([
+      ['pytest', 'development', 'registry'],
+      ['pluggy', 'development', 'git']
+    ]);
+  });
+
+  test('records the locked version each package requires', () => {
+    const result = UvLockParser.parseContent([
+      '[[package]]', 'name = "httpx"', 'version = "0.27.0"', 'source = { registry = "https://pypi.org/simple" }',
+      'dependencies = [{ name = "idna" }, { name = "anyio", version = "4.3.0" }]', '',
+      '[package.optional-dependencies]',
+      'http2 = [{ name = "h2" }]',
+      'socks = [{ name = "socksio", extra = ["fast"] }]', '',
+      '[[package]]', 'name = "idna"', 'version = "3.6"', 'source = { registry = "https://pypi.org/simple" }', '',
+      '[[package]]', 'name = "anyio"', 'version = "3.7.1"', 'source = { registry = "https://pypi.org/simple" }', '',
+      '[[package]]', 'name = "anyio"', 'version = "4.3.0"', 'source = { registry = "https://pypi.org/simple" }', '',
+      '[[package]]', 'name = "h2"', 'version = "4.1.0"', 'source = { registry = "https://pypi.org/simple" }', '',
+      '[[package]]', 'name = "socksio"', 'version = "1.0.0"', 'source = { registry = "https://pypi.org/simple" }'
+    ].join('\n'));
+
+    expect(result.dependencies[0].requires).toEqual([
+      { name: 'idna', constraint: '==3.6' },
+      { name: 'anyio', constraint: '==4.3.0' },
+      { name: 'h2', constraint: '==4.1.0', forExtras: ['http2'] },
+      { name: 'socksio', constraint: '==1.0.0', extras: ['fast'], forExtras: ['socks'] }
+    ]);
+    expect(result.dependencies[1].requires).toBeUndefined();
+  });
+});
+
+describe('PEP 735 dependency groups', () => {
+  test('expands include-group references', () => {
+    const result = PyprojectParser.parseContent([
+      '[dependency-groups]',
+      'test = ["pytest>=8", "coverage"]',
+      'Typing = ["mypy==1.9.0", { include-group = "test" }]'
+    ].join('\n'));
+
+    expect(result.devDependencies.map(d => [d.name, d.group, d.type])).toEqual([
+      ['pytest', 'test', 'development'],
+      ['coverage', 'test', 'development'],
+      ['mypy', 'Typing', 'development'],
+      ['pytest', 'Typing', 'development'],
+      ['coverage', 'Typing', 'development']
+    ]);
+  });
+
+  test('rejects include cycles and unknown groups', () => {
+    expect(() => PyprojectParser.parseContent([
+      '[dependency-groups]',
+      'a = [{ include-group = "b" }]',
+      'b = [{ include-group = "a" }]'
+    ].join('\n'))).toThrow('Dependency group include cycle: a -> b -> a');
+    expect(() => PyprojectParser.parseContent('[dependency-groups]\na = [{ include-group = "missing" }]'))
+      .toThrow('Unknown dependency group: missing');
+  });
+});
+
+describe('uv projects in get_dependencies', () => {
+  let projectPath: string;
+
+  beforeEach(async () => {
+    projectPath = await mkdtemp(path.join(os.tmpdir(), 'depfinder-uv-'));
+  });
+
+  afterEach(async () => {
+    await rm(projectPath, { recursive: true, force: true });
+  });
+
+  test('PythonExtractor pins pyproject dependencies and groups from uv.lock', async () => {
+    await writeFile(path.join(projectPath, 'pyproject.toml'), [
+      '[project]',
+      'name = "demo"',
+      'dependencies = ["httpx>=0.27"]',
+      '',
+      '[dependency-groups]',
+      'test = ["pytest"]'
+    ].join('\n'));
+    await writeFile(path.join(projectPath, 'uv.lock'), uvLock);
+
+    const group = (await new PythonExtractor().extract(projectPath)).groups[0];
+    expect(group.lockFile).toEqual({ path: 'uv.lock', format: 'uv-lock', exists: true });
+    expect(group.dependencies.map(d => [d.name, d.version, d.sourceFile])).toEqual([
+      ['httpx', '0.27.0', 'uv.lock'],
+      ['idna', '3.6', 'uv.lock']
+    ]);
+    expect(group.devDependencies?.find(d => d.name === 'pytest')).toMatchObject({ version: '8.1.1', group: 'test' });
+  });
+});
@@ -0,0 +1,163 @@
+import * as os from 'os';
+import * as path from 'path';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { YarnLockParser } from '../../mcp/tools/get_dependencies/parsers/yarnLockParser';
+import { NodeJSExtractor } from '../../mcp/tools/get_dependencies/extractors/nodejs';
+
+const berryLock = [
+  '# This file is generated by running "yarn install" inside your project.',
+  '# Manual changes might be lost - proceed with caution!',
+  '',
+  '__metadata:',
+  '  version: 8',
+  '  cacheKey: 10c0',
+  '',
+  '"@babel/core@npm:^7.0.0, @babel/core@npm:^7.24.0":',
+  '  version: 7.24.0',
+  '  resolution: "@babel/core@npm:7.24.0"',
+  '  dependencies:',
+  '    semver: "npm:^6.3.1"',
+  '  checksum: 10c0/fb52460a',
+  '  languageName: node',
+  '  linkType: hard',
+  '',
+  '"app@workspace:.":',
+  '  version: 0.0.0-use.local',
+  '  resolution: "app@workspace:."',
+  '  dependencies:',
+  '    "@babel/core": "npm:^7.24.0"',
+  '    lodash: "https://github.com/lodash/lodash.git#commit=2da024c3"',
+  '    my-lib: "portal:../my-lib"',
+  '    resolve: "patch:resolve@npm%3A^1.22.0#optional!builtin<compat/resolve>"',
+  '    utils: "workspace:^"',
+  '  languageName: unknown',
+  '  linkType: soft',
+  '',
+  '"lodash@https://github.com/lodash/lodash.git#commit=2da024c3":',
+  '  version: 4.17.21',
+  '  resolution: "lodash@https://github.com/lodash/lodash.git#commit=2da024c3"',
+  '  languageName: node',
+  '  linkType: hard',
+  '',
+  '"my-lib@portal:../my-lib::locator=app%40workspace%3A.":',
+  '  version: 0.0.0-use.local',
+  '  resolution: "my-lib@portal:../my-lib::locator=app%40workspace%3A."',
+  '  languageName: node',
+  '  linkType: soft',
+  '',
+  '"resolve@patch:resolve@npm%3A^1.22.0#optional!builtin<compat/resolve>":',
+  '  version: 1.22.8',
+  '  resolution: "resolve@patch:resolve@npm%3A1.22.8#optional!builtin<compat/resolve>::version=1.22.8&hash=c3c19d"',
+  '  languageName: node',
+  '  linkType: hard',
+  '',
+  '"semver@npm:^6.3.1":',
+  '  version: 6.3.1',
+  '  resolution: "semver@npm:6.3.1"',
+  '  bin:',
+  '    semver: bin/semver.js',
+  '  checksum: 10c0/e3d79b60',
+  '  languageName: node',
+  '  linkType: hard',
+  '',
+  '"utils@workspace:^, utils@workspace:packages/utils":',
+  '  version: 0.0.0-use.local',
+  '  resolution: "utils@workspace:packages/utils"',
+  '  languageName: unknown',
+  '  linkType: soft'
+].join('\n');
+
+describe('YarnLockParser', () => {
+  test('reads Berry lockfiles with their protocols', () => {
+    const result = YarnLockParser.parseContent(berryLock);
+
+    expect(result.format).toBe('yarn-berry');
+    expect(result.lockfileVersion).toBe('8');
+    expect(result.dependencies.map(d => [d.name, d.version, d.source, d.sourceUrl, d.direct])).toEqual([
+      ['core', '7.24.0', 'registry', undefined, true],
+      ['lodash', '4.17.21', 'git', 'https://github.com/lodash/lodash.git#commit=2da024c3', true],
+      ['my-lib', undefined, 'local', '../my-lib', true],
+      ['resolve', '1.22.8', 'registry', undefined, true],
+      ['semver', '6.3.1', 'registry', undefined, false],
+      ['utils', undefined, 'local', 'packages/utils', true]
+    ]);
+    expect(result.dependencies[0]).toMatchObject({
+      scope: 'babel',
+      constraints: ['npm:^7.0.0', 'npm:^7.24.0'],
+      hashes: ['sha512:fb52460a'],
+      requires: [{ name: 'semver', constraint: '^6.3.1' }]
+    });
+  });
+
+  test('reads Yarn v1 lockfiles', () => {
+    const result = YarnLockParser.parseContent([
+      '# THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.',
+      '# yarn lockfile v1',
+      '',
+      '',
+      '"@babel/code-frame@^7.0.0", "@babel/code-frame@^7.22.13":',
+      '  version "7.22.13"',
+      '  resolved "https://registry.yarnpkg.com/@babel/code-frame/-/code-frame-7.22.13.tgz#e3c1c099"',
+      '  integrity sha512-Xktuhw==',
+      '  dependencies:',
+      '    chalk "^2.4.2"',
+      '',
+      'chalk@^2.4.2:',
+      '  version "2.4.2"',
+      '',
+      'my-fork@git+https://github.com/me/my-fork.git#v1:',
+      '  version "1.0.0"',
+      '  resolved "git+https://github.com/me/my-fork.git#0123abcd"'
+    ].join('\n'));
+
+    expect(result.format).toBe('yarn-v1');
+    expect(result.dependencies.map(d => [d.name, d.version, d.constraints, d.source])).toEqual([
+      ['code-frame', '7.22.13', ['^7.0.0', '^7.22.13'], 'registry'],
+      ['chalk', '2.4.2', ['^2.4.2'], 'registry'],
+      ['my-fork', '1.0.0', ['git+https://github.com/me/my-fork.git#v1'], 'git']
+    ]);
+    expect(result.dependencies[0]).toMatchObject({
+      scope: 'babel', hashes: ['sha512-Xktuhw=='], requires: [{ name: 'chalk', constraint: '^2.4.2' }]
+    });
+    expect(result.dependencies[1].requires).toBeUndefined();
+  });
+});
+
+describe('yarn.lock in get_dependencies', () => {
+  let projectPath: string;
+
+  beforeEach(async () => {
+    projectPath = await mkdtemp(path.join(os.tmpdir(), 'depfinder-yarn-'));
+  });
+
+  afterEach(async () => {
+    await rm(projectPath, { recursive: true, force: true });
+  });
+
+  test('checks each declared range against the version its descriptor resolved to', async () => {
+    await writeFile(path.join(projectPath, 'package.json'), JSON.stringify({
+      dependencies: { semver: '^7.5.0', express: '^4.18.0' }
+    }));
+    await writeFile(path.join(projectPath, 'yarn.lock'), [
+      '__metadata:',
+      '  version: 6',
+      '',
+      '"express@npm:^4.17.0":',
+      '  version: 4.17.1',
+      '  resolution: "express@npm:4.17.1"',
+      '',
+      '"semver@npm:^6.3.0":',
+      '  version: 6.3.1',
+      '  resolution: "semver@npm:6.3.1"',
+      '',
+      '"semver@npm:^7.5.0":',
+      '  version: 7.6.0',
+      '  resolution: "semver@npm:7.6.0"'
+    ].join('\n'));
+
+    const result = await new NodeJSExtractor().extract(projectPath);
+
+    expect(result.groups[0].lockFile).toEqual({ path: 'yarn.lock', format: 'yarn-berry', exists: true });
+    expect(result.warnings).toEqual(['yarn.lock has express@4.17.1, which does not satisfy "^4.18.0" in package.json']);
+  });
+});
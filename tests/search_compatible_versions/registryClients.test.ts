@@ -0,0 +1,125 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { createRegistryClient } from '../../mcp/tools/search_compatible_versions/registry/registryFactory';
+import { searchCompatibleVersions } from '../../mcp/tools/search_compatible_versions/index';
+
+/**
+ * Canned registry responses keyed by request path
+ */
+const routes: Record<string, string> = {
+  '/express': JSON.stringify({
+    versions: { '4.17.1': {}, '4.18.2': {}, '4.19.0': { deprecated: 'broken' }, '5.0.0': {}, '5.1.0-beta': {} },
+    time: { '4.18.2': '2022-10-08T00:00:00.000Z' }
+  }),
+  '/@babel%2Fcore': JSON.stringify({ versions: { '7.23.0': {} } }),
+  '/pypi/flask/json': JSON.stringify({
+    releases: {
+      '2.2.5': [{ upload_time_iso_8601: '2023-05-02T00:00:00Z' }],
+      '2.3.0': [{}],
+      '2.3.3': [{}],
+      '2.3.4': [{ yanked: true }],
+      '3.0.0': [{}],
+      '3.1.0rc1': [{}]
+    }
+  }),
+  '/api/v1/crates/serde/versions': JSON.stringify({
+    versions: [{ num: '1.0.190' }, { num: '1.0.100' }, { num: '1.0.191', yanked: true }, { num: '0.9.15' }]
+  }),
+  '/api/v1/versions/rack.json': JSON.stringify([
+    { number: '3.0.8' }, { number: '3.1.0.rc1', prerelease: true }, { number: '2.2.8' }
+  ]),
+  '/junit/junit/maven-metadata.xml':
+    '<metadata><versioning><versions><version>4.12</version><version>4.13.2</version><version>5.0-M1</version></versions></versioning></metadata>',
+  '/github.com/!burnt!sushi/toml/@v/list': 'v1.2.0\nv1.3.2\nv0.4.1\n'
+};
+
+let server: http.Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = http.createServer((request, response) => {
+    const body = routes[request.url || ''];
+    response.statusCode = body ? 200 : 404;
+    response.end(body || 'not found');
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+describe('registry clients', () => {
+  test('npm client lists versions and flags deprecated releases', async () => {
+    const client = createRegistryClient('javascript', { baseUrl });
+    const versions = await client.listVersions('express');
+
+    expect(versions.map(v => v.version)).toEqual(['4.17.1', '4.18.2', '4.19.0', '5.0.0', '5.1.0-beta']);
+    expect(versions.find(v => v.version === '4.19.0')?.yanked).toBe(true);
+    expect(versions.find(v => v.version === '4.18.2')?.publishedAt).toBe('2022-10-08T00:00:00.000Z');
+    expect(client.filterCompatible(versions, '^4.17.1')).toEqual(['4.18.2', '4.17.1']);
+  });
+
+  test('npm client encodes scoped package names', async () => {
+    const client = createRegistryClient('typescript', { baseUrl });
+    const versions = await client.listVersions('@babel/core');
+    expect(versions.map(v => v.version)).toEqual(['7.23.0']);
+  });
+
+  test('pypi client skips yanked and prerelease versions', async () => {
+    const client = createRegistryClient('python', { baseUrl });
+    const versions = await client.listVersions('flask');
+    expect(client.filterCompatible(versions, '2.3.0')).toEqual(['2.3.3', '2.3.0']);
+  });
+
+  test('crates.io client keeps 0.x and 1.x lines apart', async () => {
+    const client = createRegistryClient('rust', { baseUrl });
+    const versions = await client.listVersions('serde');
+    expect(client.filterCompatible(versions, '1.0.100')).toEqual(['1.0.190', '1.0.100']);
+  });
+
+  test('rubygems client lists versions', async () => {
+    const client = createRegistryClient('ruby', { baseUrl });
+    const versions = await client.listVersions('rack');
+    expect(client.filterCompatible(versions, '~> 3.0')).toEqual(['3.0.8']);
+  });
+
+  test('maven client reads maven-metadata.xml', async () => {
+    const client = createRegistryClient('java', { baseUrl });
+    const versions = await client.listVersions('junit:junit');
+    expect(versions.map(v => v.version)).toEqual(['4.12', '4.13.2', '5.0-M1']);
+    expect(client.filterCompatible(versions, '4.12')).toEqual(['4.13.2', '4.12']);
+  });
+
+  test('go proxy client escapes uppercase module paths', async () => {
+    const client = createRegistryClient('go', { baseUrl });
+    const versions = await client.listVersions('github.com/BurntSushi/toml');
+    expect(client.filterCompatible(versions, 'v1.2.0')).toEqual(['v1.3.2', 'v1.2.0']);
+  });
+
+  test('rejects unsupported languages', () => {
+    expect(() => createRegistryClient('cobol')).toThrow('Unsupported language');
+  });
+});
+
+describe('searchCompatibleVersions', () => {
+  test('returns compatible, recommended and latest versions', async () => {
+    const response = await searchCompatibleVersions('express', '4.17.1', 'javascript', { baseUrl });
+    const result = JSON.parse(response.content[0].text);
+
+    expect(result.registry).toBe('npm');
+    expect(result.compatibleVersions).toEqual(['4.18.2', '4.17.1']);
+    expect(result.recommendedVersion).toBe('4.18.2');
+    expect(result.latestVersion).toBe('5.0.0');
+    expect(result.totalVersions).toBe(5);
+  });
+
+  test('reports registry errors instead of throwing', async () => {
+    const response = await searchCompatibleVersions('missing', undefined, 'javascript', { baseUrl });
+    const result = JSON.parse(response.content[0].text);
+
+    expect(result.compatibleVersions).toEqual([]);
+    expect(result.errors[0]).toContain('Package not found');
+  });
+});
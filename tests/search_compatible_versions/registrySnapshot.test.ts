@@ -0,0 +1,123 @@
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { AddressInfo } from 'net';
+import { createRegistryClient } from '../../mcp/tools/search_compatible_versions/registry/registryFactory';
+import { RegistrySnapshotLoader } from '../../mcp/tools/search_compatible_versions/registry/snapshotLoader';
+import { RegistrySnapshotBuilder } from '../../mcp/tools/search_compatible_versions/registry/snapshotBuilder';
+import { searchCompatibleVersions } from '../../mcp/tools/search_compatible_versions/index';
+import { RegistrySnapshot } from '../../mcp/tools/search_compatible_versions/types';
+
+const snapshot: RegistrySnapshot = {
+  formatVersion: 1,
+  registries: {
+    npm: {
+      express: {
+        versions: {
+          '4.17.1': { publishedAt: '2019-05-26T00:00:00.000Z', dependencies: { 'body-parser': '1.19.0' } },
+          '4.18.2': { dependencies: { 'body-parser': '1.20.1' } },
+          '5.0.0': {}
+        }
+      }
+    },
+    pypi: {
+      'Flask-Cors': { versions: { '4.0.0': {}, '4.0.1': { yanked: true } } }
+    }
+  }
+};
+
+let workDir: string;
+let snapshotPath: string;
+
+beforeAll(async () => {
+  workDir = await mkdtemp(path.join(os.tmpdir(), 'depfinder-snapshot-'));
+  snapshotPath = path.join(workDir, 'snapshot.json');
+  await RegistrySnapshotLoader.save(snapshot, snapshotPath);
+});
+
+afterAll(async () => {
+  await rm(workDir, { recursive: true, force: true });
+});
+
+describe('RegistrySnapshotLoader', () => {
+  test('rejects unknown format versions', () => {
+    expect(() => RegistrySnapshotLoader.validate({ formatVersion: 99, registries: {} }, 'x.json'))
+      .toThrow('Unsupported registry snapshot format version');
+  });
+
+  test('rejects packages without versions', () => {
+    expect(() => RegistrySnapshotLoader.validate({ formatVersion: 1, registries: { npm: { a: {} } } }, 'x.json'))
+      .toThrow('no versions for npm/a');
+  });
+});
+
+describe('snapshot-backed registry client', () => {
+  test('serves versions and dependency metadata from the snapshot', async () => {
+    const client = createRegistryClient('javascript', { snapshotPath });
+    const versions = await client.listVersions('express');
+
+    expect(versions.map(v => v.version)).toEqual(['4.17.1', '4.18.2', '5.0.0']);
+    expect(versions[0].publishedAt).toBe('2019-05-26T00:00:00.000Z');
+    expect(await client.getDependencies('express', '4.18.2')).toEqual({ 'body-parser': '1.20.1' });
+  });
+
+  test('matches PyPI names in normalized form and keeps yanked flags', async () => {
+    const client = createRegistryClient('python', { snapshotPath });
+    const versions = await client.listVersions('flask_cors');
+    expect(client.filterCompatible(versions, '4.0.0')).toEqual(['4.0.0']);
+  });
+
+  test('search_compatible_versions works offline', async () => {
+    const response = await searchCompatibleVersions('express', '4.17.1', 'javascript', { snapshotPath });
+    const result = JSON.parse(response.content[0].text);
+    expect(result.compatibleVersions).toEqual(['4.18.2', '4.17.1']);
+  });
+
+  test('reports packages missing from the snapshot', async () => {
+    const client = createRegistryClient('ruby', { snapshotPath });
+    await expect(client.listVersions('rails')).rejects.toThrow('not found in offline rubygems snapshot');
+  });
+});
+
+describe('RegistrySnapshotBuilder', () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const routes: Record<string, string> = {
+      '/cors': JSON.stringify({ versions: { '2.8.5': { dependencies: { vary: '^1' } } } }),
+      '/vary': JSON.stringify({ versions: { '1.1.2': {} } })
+    };
+    server = http.createServer((request, response) => {
+      const body = routes[request.url || ''];
+      response.statusCode = body ? 200 : 404;
+      response.end(body || 'not found');
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  test('builds a snapshot from a project and its transitive dependencies', async () => {
+    const projectPath = path.join(workDir, 'project');
+    await rm(projectPath, { recursive: true, force: true });
+    await mkdir(projectPath);
+    await writeFile(
+      path.join(projectPath, 'package.json'),
+      JSON.stringify({ dependencies: { cors: '^2.8.5', missing: '^1.0.0' } })
+    );
+
+    const builder = new RegistrySnapshotBuilder({ registryOptions: { baseUrl } });
+    await builder.addProject(projectPath);
+    const built = builder.build();
+
+    expect(built.formatVersion).toBe(1);
+    expect(built.registries.npm.cors.versions['2.8.5'].dependencies).toEqual({ vary: '^1' });
+    expect(Object.keys(built.registries.npm.vary.versions)).toEqual(['1.1.2']);
+    expect(builder.getWarnings().some(w => w.includes('npm/missing'))).toBe(true);
+  });
+});
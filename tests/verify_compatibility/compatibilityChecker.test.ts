@@ -0,0 +1,113 @@
+import { CompatibilityChecker } from '../../mcp/tools/verify_compatibility/compatibilityChecker';
+import { verifyCompatibility } from '../../mcp/tools/verify_compatibility/index';
+import { getVersionScheme } from '../../mcp/utils/versioning/schemeRegistry';
+import { RangeUtils } from '../../mcp/utils/versioning/rangeUtils';
+
+/**
+ * Check whether a constraint allows a version under a language's rules
+ */
+function allows(language: string, constraint: string, version: string): boolean {
+  const scheme = getVersionScheme(language);
+  return RangeUtils.contains(scheme.parseConstraint(constraint), version, (a, b) => scheme.compare(a, b));
+}
+
+describe('ecosystem constraint parsing', () => {
+  test('npm ranges', () => {
+    expect(allows('javascript', '^1.2.3', '1.9.0')).toBe(true);
+    expect(allows('javascript', '^1.2.3', '2.0.0-beta.1')).toBe(false);
+    expect(allows('javascript', '^0.2.3', '0.3.0')).toBe(false);
+    expect(allows('javascript', '~1.2', '1.2.9')).toBe(true);
+    expect(allows('javascript', '>= 1.0.0 < 2 || 3.x', '3.4.0')).toBe(true);
+  });
+
+  test('PEP 440 specifiers', () => {
+    expect(allows('python', '~=1.4.5', '1.4.9')).toBe(true);
+    expect(allows('python', '~=1.4.5', '1.5.0')).toBe(false);
+    expect(allows('python', '==1.2.*', '1.2.post1')).toBe(true);
+    expect(allows('python', '>=1.4,<2,!=1.5.3', '1.5.3')).toBe(false);
+    expect(allows('python', '<2', '2.0rc1')).toBe(false);
+    expect(allows('python', '>=1.0', '1!0.1')).toBe(true);
+  });
+
+  test('RubyGems requirements', () => {
+    expect(allows('ruby', '~> 2.0', '2.9')).toBe(true);
+    expect(allows('ruby', '~> 2.0', '3.0')).toBe(false);
+    expect(allows('ruby', '~> 2.0.1', '2.1.0')).toBe(false);
+    expect(allows('ruby', '>= 1.0.0', '1.0.0.beta2')).toBe(false);
+  });
+
+  test('Maven ranges and qualifier ordering', () => {
+    expect(allows('java', '[1.0,2.0)', '1.5-SNAPSHOT')).toBe(true);
+    expect(allows('java', '(,1.5]', '1.5.1')).toBe(false);
+    expect(allows('java', '[1.0-alpha,1.0)', '1.0-rc1')).toBe(true);
+    expect(allows('java', '[1.0,1.0-sp]', '1.0.1')).toBe(false);
+  });
+
+  test('Cargo requirements default to caret', () => {
+    expect(allows('rust', '0.4', '0.4.7')).toBe(true);
+    expect(allows('rust', '0.4', '0.5.0')).toBe(false);
+    expect(allows('rust', '>=1.2, <1.5', '1.4.0')).toBe(true);
+  });
+
+  test('Go requirements are minimums within a major version', () => {
+    expect(allows('go', 'v1.2.0', 'v1.9.0')).toBe(true);
+    expect(allows('go', 'v1.2.0', 'v2.0.0')).toBe(false);
+  });
+});
+
+describe('CompatibilityChecker', () => {
+  test('names the two clashing constraints', () => {
+    const result = new CompatibilityChecker('javascript').check([
+      { name: 'react', version: '^17.0.0' },
+      { name: 'react', version: '>=16.8.0' },
+      { name: 'react', version: '^18.2.0' },
+      { name: 'lodash', version: '^4.17.0' }
+    ]);
+
+    expect(result.compatible).toBe(false);
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0].package).toBe('react');
+    expect(result.conflicts[0].constraints).toEqual(['^17.0.0', '^18.2.0']);
+    expect(result.packages.find(p => p.name === 'lodash')?.resolvedRange).toBe('>=4.17.0 <5.0.0-0');
+  });
+
+  test('intersects compatible constraints', () => {
+    const result = new CompatibilityChecker('python').check([
+      { name: 'Django', version: '>=3.2,<5' },
+      { name: 'django', version: '~=4.1' }
+    ]);
+
+    expect(result.compatible).toBe(true);
+    expect(result.packages).toEqual([
+      { name: 'Django', constraints: ['>=3.2,<5', '~=4.1'], resolvedRange: '>=4.1 <5.dev0' }
+    ]);
+  });
+
+  test('reports constraints that match nothing on their own', () => {
+    const result = new CompatibilityChecker('ruby').check([{ name: 'rails', version: '> 7, < 6' }]);
+    expect(result.conflicts[0].constraints).toEqual(['> 7, < 6']);
+  });
+
+  test('reports unparseable constraints as errors', () => {
+    const result = new CompatibilityChecker('rust').check([{ name: 'serde', version: 'not a version' }]);
+    expect(result.compatible).toBe(false);
+    expect(result.errors?.[0]).toContain('serde');
+  });
+});
+
+describe('verifyCompatibility', () => {
+  test('returns conflicts in the tool response', async () => {
+    const response = await verifyCompatibility(
+      [{ name: 'com.google.guava:guava', version: '[30.0,31.0)' }, { name: 'com.google.guava:guava', version: '31.1-jre' }],
+      'java'
+    );
+    const result = JSON.parse(response.content[0].text);
+    expect(result.compatible).toBe(false);
+    expect(result.conflicts[0].constraints).toEqual(['[30.0,31.0)', '31.1-jre']);
+  });
+
+  test('reports unsupported languages', async () => {
+    const response = await verifyCompatibility([{ name: 'x', version: '1' }], 'cobol');
+    expect(JSON.parse(response.content[0].text).errors[0]).toContain('Unsupported language');
+  });
+});
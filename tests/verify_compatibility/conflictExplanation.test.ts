@@ -0,0 +1,202 @@
+import * as os from 'os';
+import * as path from 'path';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { verifyCompatibility } from '../../mcp/tools/verify_compatibility/index';
+import { CompatibilityResult } from '../../mcp/tools/verify_compatibility/types';
+import { RegistrySnapshotLoader } from '../../mcp/tools/search_compatible_versions/registry/snapshotLoader';
+
+let workDir: string;
+
+beforeAll(async () => {
+  workDir = await mkdtemp(path.join(os.tmpdir(), 'depfinder-verify-'));
+});
+
+afterAll(async () => {
+  await rm(workDir, { recursive: true, force: true });
+});
+
+/**
+ * Create a project directory with the given files
+ */
+async function createProject(name: string, files: Record<string, string>): Promise<string> {
+  const projectPath = path.join(workDir, name);
+  await mkdir(projectPath, { recursive: true });
+  for (const [fileName, content] of Object.entries(files)) {
+    await writeFile(path.join(projectPath, fileName), content);
+  }
+  return projectPath;
+}
+
+/**
+ * Run the tool and parse its JSON result
+ */
+async function verify(...args: Parameters<typeof verifyCompatibility>): Promise<CompatibilityResult> {
+  const response = await verifyCompatibility(...args);
+  return JSON.parse(response.content[0].text);
+}
+
+describe('conflict explanations', () => {
+  test('derives requirements shared by every allowed version from a registry snapshot', async () => {
+    const snapshotPath = path.join(workDir, 'snapshot.json');
+    await RegistrySnapshotLoader.save({
+      formatVersion: 1,
+      registries: {
+        pypi: {
+          a: { versions: { '2.0.0': { dependencies: { c: '<3' } }, '2.1.0': { dependencies: { c: '<3' } } } },
+          b: { versions: { '1.4.0': { dependencies: { c: '>=3' } } } }
+        }
+      }
+    }, snapshotPath);
+
+    const result = await verify([{ name: 'A', version: '~=2.0' }, { name: 'B', version: '==1.4.0' }], 'python', { snapshotPath });
+
+    expect(result.compatible).toBe(false);
+    expect(result.conflicts).toHaveLength(1);
+    const conflict = result.conflicts[0];
+    expect(conflict.package).toBe('c');
+    expect(conflict.constraints).toEqual(['<3', '>=3']);
+    expect(conflict.explanation.statement).toBe('A ~=2.0 is incompatible with B 1.4.0');
+    expect(conflict.explanation.causes?.[0].causes?.[0].statement).toBe('root requires A ~=2.0');
+    expect(conflict.explanationText.split('\n')).toEqual([
+      'Because A ~=2.0 requires c <3 and B 1.4.0 requires c >=3, A ~=2.0 is incompatible with B 1.4.0.',
+      'A ~=2.0 is required because root requires A ~=2.0.',
+      'B 1.4.0 is required because root requires B ==1.4.0.',
+      'So version solving failed.'
+    ]);
+  });
+
+  test('stops on a cycle of requirements that rules out every version', async () => {
+    const snapshotPath = path.join(workDir, 'cycle.json');
+    await RegistrySnapshotLoader.save({
+      formatVersion: 1,
+      registries: {
+        pypi: {
+          a: { versions: { '1.0.0': { dependencies: { b: '==1.0.0' } }, '2.0.0': { dependencies: { b: '==1.0.0' } } } },
+          b: { versions: { '1.0.0': { dependencies: { a: '==3.0.0' } }, '2.0.0': { dependencies: { a: '==1.0.0' } } } }
+        }
+      }
+    }, snapshotPath);
+
+    const result = await verify([{ name: 'a', version: '>=1' }], 'python', { snapshotPath });
+
+    expect(result.compatible).toBe(false);
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0].message).toBe('a: no known version satisfies ">=1", "==3.0.0"');
+    expect(result.conflicts[0].explanationText).toContain('b 1.0.0 requires a ==3.0.0');
+  });
+
+  test('follows transitive dependencies recorded in poetry.lock', async () => {
+    const projectPath = await createProject('poetry', {
+      'poetry.lock': [
+        '[[package]]', 'name = "a"', 'version = "2.0.0"', '',
+        '[package.dependencies]', 'c = "<3"', '',
+        '[[package]]', 'name = "b"', 'version = "1.4.0"', '',
+        '[package.dependencies]', 'c = {version = ">=3"}', ''
+      ].join('\n')
+    });
+
+    const result = await verify([], 'python', { projectPath });
+
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0].explanationText).toContain('Because a 2.0.0 requires c <3 and b 1.4.0 requires c >=3');
+    expect(result.conflicts[0].explanationText).toContain('a 2.0.0 is required because poetry.lock pins a 2.0.0.');
+  });
+
+  test('only follows optional poetry.lock dependencies of requested extras', async () => {
+    const lock = [
+      '[[package]]', 'name = "a"', 'version = "2.0.0"', '',
+      '[package.dependencies]', 'c = "<3"', '',
+      '[[package]]', 'name = "b"', 'version = "1.4.0"', '',
+      '[package.dependencies]', 'c = {version = ">=3", optional = true}', '',
+      '[package.extras]', 'fast = ["c (>=3)"]', ''
+    ].join('\n');
+    const plain = await createProject('poetry-extras', { 'poetry.lock': lock });
+    const withExtra = await createProject('poetry-extras-requested', {
+      'poetry.lock': lock,
+      'pyproject.toml': '[tool.poetry.dependencies]\nb = {version = "^1.4", extras = ["fast"]}\n'
+    });
+
+    expect((await verify([], 'python', { projectPath: plain })).conflicts).toEqual([]);
+    expect((await verify([], 'python', { projectPath: withExtra })).conflicts.map(c => c.package)).toEqual(['c']);
+  });
+
+  test('follows requirements recorded in pdm.lock', async () => {
+    const projectPath = await createProject('pdm', {
+      'pdm.lock': [
+        '[[package]]', 'name = "a"', 'version = "2.0.0"', 'dependencies = ["c<3"]', '',
+        '[[package]]', 'name = "b"', 'version = "1.4.0"', 'dependencies = ["c>=3"]', ''
+      ].join('\n')
+    });
+
+    const result = await verify([], 'python', { projectPath });
+
+    expect(result.conflicts.map(c => c.package)).toEqual(['c']);
+    expect(result.conflicts[0].explanationText).toContain('Because a 2.0.0 requires c <3 and b 1.4.0 requires c >=3');
+    expect(result.conflicts[0].explanationText).toContain('a 2.0.0 is required because pdm.lock pins a 2.0.0.');
+  });
+
+  test('reports requirements that a Gemfile.lock pin violates', async () => {
+    const projectPath = await createProject('bundler', {
+      'Gemfile.lock': [
+        'GEM', '  remote: https://rubygems.org/', '  specs:',
+        '    actionpack (7.0.4)', '    rails (7.0.4)', '      actionpack (= 7.0.4)', '',
+        'DEPENDENCIES', '  rails (~> 7.0)', ''
+      ].join('\n')
+    });
+
+    const result = await verify([{ name: 'actionpack', version: '~> 6.1' }], 'ruby', { projectPath });
+    const statements = result.conflicts.map(c => c.explanation.statement);
+
+    expect(statements).toContain('root is incompatible with Gemfile.lock');
+    expect(statements).toContain('root is incompatible with rails 7.0.4');
+  });
+
+  test('reads peer dependencies from pnpm-lock.yaml', async () => {
+    const projectPath = await createProject('pnpm', {
+      'pnpm-lock.yaml': [
+        "lockfileVersion: '9.0'",
+        'importers:',
+        '  .:',
+        '    dependencies:',
+        '      react: {specifier: ^18.0.0, version: 18.2.0}',
+        '      react-dom: {specifier: ^17.0.0, version: 17.0.2(react@18.2.0)}',
+        'packages:',
+        '  react@18.2.0: {resolution: {integrity: sha512-r==}}',
+        '  react-dom@17.0.2:',
+        '    resolution: {integrity: sha512-rd==}',
+        '    peerDependencies: {react: 17.0.2}',
+        'snapshots:',
+        '  react@18.2.0: {}',
+        '  react-dom@17.0.2(react@18.2.0):',
+        '    dependencies: {react: 18.2.0}'
+      ].join('\n')
+    });
+
+    const result = await verify([], 'javascript', { projectPath });
+
+    expect(result.conflicts.map(c => c.package)).toEqual(['react']);
+    expect(result.conflicts[0].explanation.statement).toBe('pnpm-lock.yaml is incompatible with react-dom 17.0.2');
+  });
+
+  test('only npm peer dependencies constrain the shared copy', async () => {
+    const projectPath = await createProject('npm', {
+      'package-lock.json': JSON.stringify({
+        lockfileVersion: 3,
+        packages: {
+          '': { dependencies: { 'react-dom': '^17.0.0', react: '^18.0.0', legacy: '^1.0.0' } },
+          'node_modules/react': { version: '18.2.0' },
+          'node_modules/react-dom': { version: '17.0.2', peerDependencies: { react: '17.0.2' } },
+          'node_modules/legacy': { version: '1.0.0', dependencies: { '@scope/util': '^1.0.0' } },
+          'node_modules/@scope/util': { version: '2.0.0' },
+          'node_modules/legacy/node_modules/@scope/util': { version: '1.0.0' }
+        }
+      })
+    });
+
+    const result = await verify([], 'javascript', { projectPath });
+
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0].package).toBe('react');
+    expect(result.conflicts[0].explanation.statement).toBe('package-lock.json is incompatible with react-dom 17.0.2');
+  });
+});